@@ -9,6 +9,8 @@ import Auth from "./pages/Auth";
 import CoachDashboard from "./pages/CoachDashboard";
 import UmpireDashboard from "./pages/UmpireDashboard";
 import EmployeeDashboard from "./pages/EmployeeDashboard";
+import ProfileSettings from "./pages/ProfileSettings";
+import NotificationSettings from "./pages/NotificationSettings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,6 +28,8 @@ const App = () => (
             <Route path="/coach" element={<CoachDashboard />} />
             <Route path="/umpire" element={<UmpireDashboard />} />
             <Route path="/employee" element={<EmployeeDashboard />} />
+            <Route path="/settings/profile" element={<ProfileSettings />} />
+            <Route path="/settings/notifications" element={<NotificationSettings />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
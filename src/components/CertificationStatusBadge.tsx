@@ -0,0 +1,19 @@
+import { Badge } from "@/components/ui/badge";
+import { UmpireCertification, getCertificationStatus } from "@/lib/levels";
+
+interface CertificationStatusBadgeProps {
+  certification: UmpireCertification;
+}
+
+const CertificationStatusBadge = ({ certification }: CertificationStatusBadgeProps) => {
+  switch (getCertificationStatus(certification)) {
+    case "expired":
+      return <Badge variant="destructive">Expired</Badge>;
+    case "expiring":
+      return <Badge className="bg-amber-500 text-white">Expires soon</Badge>;
+    default:
+      return <Badge variant="secondary">Active</Badge>;
+  }
+};
+
+export default CertificationStatusBadge;
@@ -0,0 +1,122 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { MAX_MESSAGE_LENGTH, MessageResult, describeMessageFailure } from "@/lib/messages";
+
+interface ComposeMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // No recipients sends the message to staff
+  recipientIds?: string[];
+  recipientLabel: string;
+  defaultSubject?: string;
+  ratingId?: string;
+  gameId?: string;
+  onSuccess?: () => void;
+}
+
+const ComposeMessageDialog = ({
+  open,
+  onOpenChange,
+  recipientIds = [],
+  recipientLabel,
+  defaultSubject = "",
+  ratingId,
+  gameId,
+  onSuccess,
+}: ComposeMessageDialogProps) => {
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setSubject(defaultSubject);
+      setBody("");
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("start_message_thread", {
+        subject_param: subject.trim(),
+        body_param: body.trim(),
+        recipient_ids_param: recipientIds,
+        rating_id_param: ratingId ?? null,
+        game_id_param: gameId ?? null,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as MessageResult;
+      if (!result.success) {
+        toast.error(describeMessageFailure(result));
+        return;
+      }
+
+      toast.success(`Message sent to ${recipientLabel}`);
+      onSuccess?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error sending message:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send message");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Message</DialogTitle>
+          <DialogDescription>To {recipientLabel}. Replies arrive in your inbox.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="messageSubject">Subject</Label>
+              <Input
+                id="messageSubject"
+                value={subject}
+                onChange={(e) => setSubject(e.target.value)}
+                maxLength={200}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="messageBody">Message</Label>
+              <Textarea
+                id="messageBody"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                placeholder="Type your message here..."
+                rows={5}
+                maxLength={MAX_MESSAGE_LENGTH}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !subject.trim() || !body.trim()}>
+              {loading ? "Sending..." : "Send Message"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ComposeMessageDialog;
@@ -0,0 +1,44 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { POSITION_LABELS, UMPIRE_POSITIONS, UmpirePosition, sortPositions } from "@/lib/crew";
+
+interface CrewPositionsPickerProps {
+  value: UmpirePosition[];
+  onChange: (positions: UmpirePosition[]) => void;
+  idPrefix?: string;
+}
+
+const CrewPositionsPicker = ({ value, onChange, idPrefix = "position" }: CrewPositionsPickerProps) => {
+  const togglePosition = (position: UmpirePosition, checked: boolean) => {
+    const next = checked ? [...value, position] : value.filter((p) => p !== position);
+    // A game always needs at least one official
+    if (next.length > 0) {
+      onChange(sortPositions(next));
+    }
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label>Umpire Crew</Label>
+      <div className="flex flex-wrap gap-4">
+        {UMPIRE_POSITIONS.map((position) => (
+          <div key={position} className="flex items-center space-x-2">
+            <Checkbox
+              id={`${idPrefix}-${position}`}
+              checked={value.includes(position)}
+              onCheckedChange={(checked) => togglePosition(position, checked === true)}
+            />
+            <Label htmlFor={`${idPrefix}-${position}`} className="font-normal cursor-pointer">
+              {POSITION_LABELS[position]}
+            </Label>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {value.length} official{value.length === 1 ? "" : "s"} needed
+      </p>
+    </div>
+  );
+};
+
+export default CrewPositionsPicker;
@@ -0,0 +1,85 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { GAME_CHANGE_LABELS, GameChange, describeChanges } from "@/lib/gameChanges";
+
+interface GameChangeLogProps {
+  gameId: string;
+}
+
+const GameChangeLog = ({ gameId }: GameChangeLogProps) => {
+  const [changes, setChanges] = useState<(GameChange & { actor_name?: string })[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchChanges();
+  }, [gameId]);
+
+  const fetchChanges = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("game_change_log")
+        .select("id, change_type, reason, changes, changed_by, created_at")
+        .eq("game_id", gameId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const actorIds = [...new Set((data || []).map(c => c.changed_by).filter(Boolean))];
+      const actorNames = new Map<string, string>();
+
+      if (actorIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, full_name, email")
+          .in("id", actorIds);
+
+        (profiles || []).forEach(p => actorNames.set(p.id, p.full_name || p.email));
+      }
+
+      setChanges(
+        ((data || []) as unknown as GameChange[]).map(c => ({
+          ...c,
+          actor_name: c.changed_by ? actorNames.get(c.changed_by) : undefined,
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching game changes:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-muted-foreground">Loading changes...</p>;
+  }
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-muted-foreground">No changes since the game was scheduled</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {changes.map((change) => (
+        <li key={change.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <Badge variant={change.change_type === "cancelled" ? "destructive" : "secondary"}>
+            {GAME_CHANGE_LABELS[change.change_type]}
+          </Badge>
+          {describeChanges(change).map((line) => (
+            <p key={line} className="text-sm">{line}</p>
+          ))}
+          {change.reason && <p className="text-sm text-muted-foreground italic">"{change.reason}"</p>}
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(change.created_at), "PPp")}
+            {" · "}
+            {change.actor_name || (change.changed_by ? "Unknown user" : "System")}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default GameChangeLog;
@@ -0,0 +1,47 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { CONFLICT_TYPE_LABELS, GameConflict, describeConflict } from "@/lib/gameConflicts";
+
+interface GameConflictAlertProps {
+  conflicts: GameConflict[];
+  onCancel: () => void;
+  onConfirm: () => void;
+  confirmLabel?: string;
+}
+
+const GameConflictAlert = ({ conflicts, onCancel, onConfirm, confirmLabel = "Create Anyway" }: GameConflictAlertProps) => (
+  <AlertDialog open={conflicts.length > 0} onOpenChange={(open) => !open && onCancel()}>
+    <AlertDialogContent>
+      <AlertDialogHeader>
+        <AlertDialogTitle>This game may already be scheduled</AlertDialogTitle>
+        <AlertDialogDescription asChild>
+          <div className="space-y-2">
+            <p>Check these before going ahead:</p>
+            <ul className="space-y-1">
+              {conflicts.map((conflict, index) => (
+                <li key={index} className="text-sm">
+                  <span className="font-medium text-foreground">{CONFLICT_TYPE_LABELS[conflict.type]}:</span>{" "}
+                  {describeConflict(conflict)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </AlertDialogDescription>
+      </AlertDialogHeader>
+      <AlertDialogFooter>
+        <AlertDialogCancel>Go Back</AlertDialogCancel>
+        <AlertDialogAction onClick={onConfirm}>{confirmLabel}</AlertDialogAction>
+      </AlertDialogFooter>
+    </AlertDialogContent>
+  </AlertDialog>
+);
+
+export default GameConflictAlert;
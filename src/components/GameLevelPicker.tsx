@@ -0,0 +1,81 @@
+import { useState, useEffect } from "react";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Division, GameLevel, LevelSelection, fetchDivisions, fetchGameLevels, formatDivisionName } from "@/lib/levels";
+
+interface GameLevelPickerProps {
+  value: LevelSelection;
+  onChange: (value: LevelSelection) => void;
+}
+
+const NONE = "none";
+
+const GameLevelPicker = ({ value, onChange }: GameLevelPickerProps) => {
+  const [levels, setLevels] = useState<GameLevel[]>([]);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+
+  useEffect(() => {
+    fetchGameLevels()
+      .then(setLevels)
+      .catch((error) => console.error("Error fetching game levels:", error));
+
+    fetchDivisions()
+      .then(setDivisions)
+      .catch((error) => console.error("Error fetching divisions:", error));
+  }, []);
+
+  const handleDivisionChange = (divisionId: string) => {
+    if (divisionId === NONE) {
+      onChange({ divisionId: null, levelId: value.levelId });
+      return;
+    }
+    const division = divisions.find((d) => d.id === divisionId);
+    onChange({ divisionId, levelId: division?.level_id ?? null });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {divisions.length > 0 && (
+        <div className="grid gap-2">
+          <Label>Division</Label>
+          <Select value={value.divisionId ?? NONE} onValueChange={handleDivisionChange}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No division</SelectItem>
+              {divisions.map((division) => (
+                <SelectItem key={division.id} value={division.id}>
+                  {formatDivisionName(division)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="grid gap-2">
+        <Label>Level</Label>
+        <Select
+          value={value.levelId ?? NONE}
+          onValueChange={(levelId) => onChange({ ...value, levelId: levelId === NONE ? null : levelId })}
+          // The division decides the level
+          disabled={!!value.divisionId}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>Any umpire</SelectItem>
+            {levels.map((level) => (
+              <SelectItem key={level.id} value={level.id}>
+                {level.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default GameLevelPicker;
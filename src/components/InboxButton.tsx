@@ -0,0 +1,45 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { Mail } from "lucide-react";
+import InboxDialog from "@/components/InboxDialog";
+import { countUnread, fetchInbox } from "@/lib/messages";
+
+interface InboxButtonProps {
+  isStaff?: boolean;
+  size?: ButtonProps["size"];
+}
+
+// Header button showing how many unread messages are waiting, opening the inbox
+const InboxButton = ({ isStaff = false, size }: InboxButtonProps) => {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [unread, setUnread] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchInbox()
+      .then((threads) => setUnread(countUnread(threads)))
+      .catch((error) => console.error("Error fetching inbox:", error));
+  }, [user]);
+
+  return (
+    <>
+      <Button variant="outline" size={size} onClick={() => setOpen(true)}>
+        <Mail className="mr-2 h-4 w-4" />
+        Messages
+        {unread > 0 && <Badge className="ml-2">{unread}</Badge>}
+      </Button>
+      <InboxDialog
+        open={open}
+        onOpenChange={setOpen}
+        isStaff={isStaff}
+        onThreadsChange={(threads) => setUnread(countUnread(threads))}
+      />
+    </>
+  );
+};
+
+export default InboxButton;
@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Inbox, PenSquare, Send } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import ComposeMessageDialog from "@/components/ComposeMessageDialog";
+import {
+  InboxThread,
+  MAX_MESSAGE_LENGTH,
+  MessageResult,
+  ThreadMessage,
+  describeMessageFailure,
+  describeParticipants,
+  fetchInbox,
+  fetchThreadMessages,
+} from "@/lib/messages";
+
+interface InboxDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Staff read every thread, so only coaches and umpires start threads to staff from here
+  isStaff?: boolean;
+  onThreadsChange?: (threads: InboxThread[]) => void;
+}
+
+const InboxDialog = ({ open, onOpenChange, isStaff = false, onThreadsChange }: InboxDialogProps) => {
+  const { user } = useAuth();
+  const [threads, setThreads] = useState<InboxThread[]>([]);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<ThreadMessage[]>([]);
+  const [reply, setReply] = useState("");
+  const [sending, setSending] = useState(false);
+  const [composeOpen, setComposeOpen] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadThreads();
+      setSelectedThreadId(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (selectedThreadId) {
+      openThread(selectedThreadId);
+      setReply("");
+    } else {
+      setMessages([]);
+    }
+  }, [selectedThreadId]);
+
+  const loadThreads = async () => {
+    try {
+      const loaded = await fetchInbox();
+      setThreads(loaded);
+      onThreadsChange?.(loaded);
+    } catch (error) {
+      console.error("Error fetching inbox:", error);
+      toast.error("Failed to load messages");
+    }
+  };
+
+  const openThread = async (threadId: string) => {
+    try {
+      setMessages(await fetchThreadMessages(threadId));
+
+      const { error } = await supabase.rpc("mark_thread_read", { thread_id_param: threadId });
+      if (error) throw error;
+
+      const updated = threads.map((t) => (t.thread_id === threadId ? { ...t, unread_count: 0 } : t));
+      setThreads(updated);
+      onThreadsChange?.(updated);
+    } catch (error) {
+      console.error("Error opening conversation:", error);
+      toast.error("Failed to load conversation");
+    }
+  };
+
+  const handleReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedThreadId) return;
+
+    setSending(true);
+    try {
+      const { data, error } = await supabase.rpc("send_message", {
+        thread_id_param: selectedThreadId,
+        body_param: reply.trim(),
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as MessageResult;
+      if (!result.success) {
+        toast.error(describeMessageFailure(result));
+        return;
+      }
+
+      setReply("");
+      setMessages(await fetchThreadMessages(selectedThreadId));
+      loadThreads();
+    } catch (error) {
+      console.error("Error sending reply:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send reply");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const selectedThread = threads.find((t) => t.thread_id === selectedThreadId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh]">
+        <DialogHeader>
+          <div className="flex items-center justify-between gap-4 pr-6">
+            <div>
+              <DialogTitle className="flex items-center gap-2">
+                <Inbox className="h-5 w-5" />
+                Messages
+              </DialogTitle>
+              <DialogDescription>
+                {isStaff ? "Every conversation with coaches and umpires" : "Your conversations with staff and other coaches and umpires"}
+              </DialogDescription>
+            </div>
+            {!isStaff && (
+              <Button variant="outline" size="sm" onClick={() => setComposeOpen(true)}>
+                <PenSquare className="mr-2 h-4 w-4" />
+                Message Staff
+              </Button>
+            )}
+          </div>
+        </DialogHeader>
+
+        <div className="grid md:grid-cols-[280px_1fr] gap-4">
+          <ScrollArea className="h-[460px] border rounded-md">
+            {threads.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No messages yet</p>
+            ) : (
+              threads.map((thread) => (
+                <button
+                  key={thread.thread_id}
+                  type="button"
+                  onClick={() => setSelectedThreadId(thread.thread_id)}
+                  className={cn(
+                    "w-full text-left border-b px-3 py-2 hover:bg-accent",
+                    thread.thread_id === selectedThreadId && "bg-accent"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={cn("text-sm truncate", thread.unread_count > 0 && "font-semibold")}>
+                      {thread.subject}
+                    </span>
+                    {thread.unread_count > 0 && <Badge>{thread.unread_count}</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">{describeParticipants(thread)}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {thread.last_sender_name && `${thread.last_sender_name}: `}
+                    {thread.last_message}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{format(new Date(thread.last_message_at), "PPp")}</p>
+                </button>
+              ))
+            )}
+          </ScrollArea>
+
+          {selectedThread ? (
+            <div className="flex flex-col gap-3 min-h-0">
+              <div>
+                <p className="font-medium">{selectedThread.subject}</p>
+                <p className="text-xs text-muted-foreground">With {describeParticipants(selectedThread)}</p>
+              </div>
+              <ScrollArea className="h-[300px] border rounded-md p-3">
+                <div className="space-y-3">
+                  {messages.map((message) => {
+                    const mine = message.sender_id === user?.id;
+                    return (
+                      <div key={message.id} className={cn("flex", mine ? "justify-end" : "justify-start")}>
+                        <div
+                          className={cn(
+                            "max-w-[80%] rounded-lg px-3 py-2 text-sm",
+                            mine ? "bg-primary text-primary-foreground" : "bg-muted"
+                          )}
+                        >
+                          <p className="text-xs opacity-80 mb-1">
+                            {mine ? "You" : message.sender_name || "Unknown"}
+                            {!mine && message.sender_is_staff && " (staff)"}
+                            {" · "}
+                            {format(new Date(message.created_at), "PPp")}
+                          </p>
+                          <p className="whitespace-pre-wrap">{message.body}</p>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </ScrollArea>
+              <form onSubmit={handleReply} className="flex items-end gap-2">
+                <Textarea
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder="Write a reply..."
+                  rows={2}
+                  maxLength={MAX_MESSAGE_LENGTH}
+                  className="flex-1"
+                />
+                <Button type="submit" disabled={sending || !reply.trim()}>
+                  <Send className="mr-2 h-4 w-4" />
+                  {sending ? "Sending..." : "Reply"}
+                </Button>
+              </form>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center border rounded-md text-sm text-muted-foreground">
+              Select a conversation to read it
+            </div>
+          )}
+        </div>
+      </DialogContent>
+
+      <ComposeMessageDialog
+        open={composeOpen}
+        onOpenChange={setComposeOpen}
+        recipientLabel="staff"
+        onSuccess={loadThreads}
+      />
+    </Dialog>
+  );
+};
+
+export default InboxDialog;
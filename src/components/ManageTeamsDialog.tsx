@@ -0,0 +1,395 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { LogOut, Pencil, Trash2, UserPlus, Users } from "lucide-react";
+import {
+  CoachTeam,
+  TEAM_ROLE_LABELS,
+  Team,
+  TeamMember,
+  TeamResult,
+  TeamRole,
+  describeTeamFailure,
+  fetchCoachTeams,
+  fetchTeams,
+  formatTeamName,
+} from "@/lib/teams";
+
+interface ManageTeamsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Employees see and manage every team; coaches only the teams they belong to
+  manageAll?: boolean;
+  onTeamsChange?: () => void;
+}
+
+interface TeamForm {
+  name: string;
+  age_division: string;
+  league: string;
+}
+
+const emptyForm: TeamForm = { name: "", age_division: "", league: "" };
+
+const ManageTeamsDialog = ({ open, onOpenChange, manageAll = false, onTeamsChange }: ManageTeamsDialogProps) => {
+  const { user } = useAuth();
+  const [teams, setTeams] = useState<(Team & { role?: TeamRole })[]>([]);
+  const [form, setForm] = useState<TeamForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<TeamRole>("assistant");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadTeams();
+      resetForm();
+      setSelectedTeamId(null);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (selectedTeamId) {
+      loadMembers(selectedTeamId);
+      setMemberEmail("");
+      setMemberRole("assistant");
+    } else {
+      setMembers([]);
+    }
+  }, [selectedTeamId]);
+
+  const loadTeams = async () => {
+    if (!user) return;
+
+    try {
+      const loaded: (Team | CoachTeam)[] = manageAll ? await fetchTeams() : await fetchCoachTeams(user.id);
+      setTeams(loaded);
+      if (!manageAll && loaded.length === 1) {
+        setSelectedTeamId(loaded[0].id);
+      }
+    } catch (error) {
+      console.error("Error fetching teams:", error);
+      toast.error("Failed to load teams");
+    }
+  };
+
+  const loadMembers = async (teamId: string) => {
+    try {
+      const { data, error } = await supabase.rpc("get_team_members", { team_id_param: teamId });
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error("Error fetching team members:", error);
+      toast.error("Failed to load coaches");
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const selectedTeam = teams.find((team) => team.id === selectedTeamId);
+  const canManage = (team: Team & { role?: TeamRole }) => manageAll || team.role === "head";
+
+  // Membership decides which games a coach sees, so the dashboard refetches after any change
+  const handleTeamsChange = () => {
+    loadTeams();
+    onTeamsChange?.();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      if (editingId) {
+        const { error } = await supabase
+          .from("teams")
+          .update({
+            name: form.name.trim(),
+            age_division: form.age_division.trim() || null,
+            league: form.league.trim() || null,
+          })
+          .eq("id", editingId);
+
+        if (error) throw error;
+        toast.success("Team updated");
+      } else {
+        const { data, error } = await supabase.rpc("create_team", {
+          name_param: form.name,
+          age_division_param: form.age_division,
+          league_param: form.league,
+        });
+
+        if (error) throw error;
+
+        const result = data as unknown as TeamResult;
+        if (!result.success) {
+          toast.error(describeTeamFailure(result));
+          return;
+        }
+
+        toast.success(manageAll ? "Team created" : "Team created. You're its head coach.");
+        setSelectedTeamId(result.team_id ?? null);
+      }
+
+      resetForm();
+      handleTeamsChange();
+    } catch (error) {
+      console.error("Error saving team:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save team");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTeamId) return;
+
+    try {
+      const { data, error } = await supabase.rpc("add_team_member", {
+        team_id_param: selectedTeamId,
+        email_param: memberEmail,
+        role_param: memberRole,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as TeamResult;
+      if (!result.success) {
+        toast.error(describeTeamFailure(result));
+        return;
+      }
+
+      toast.success("Coach added to the team");
+      setMemberEmail("");
+      loadMembers(selectedTeamId);
+      onTeamsChange?.();
+    } catch (error) {
+      console.error("Error adding coach:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add coach");
+    }
+  };
+
+  const handleRemoveMember = async (member: TeamMember) => {
+    if (!selectedTeamId) return;
+
+    try {
+      const { data, error } = await supabase.rpc("remove_team_member", {
+        team_id_param: selectedTeamId,
+        coach_id_param: member.coach_id,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as TeamResult;
+      if (!result.success) {
+        toast.error(describeTeamFailure(result));
+        return;
+      }
+
+      if (member.coach_id === user?.id) {
+        toast.success("You left the team");
+        setSelectedTeamId(null);
+        handleTeamsChange();
+      } else {
+        toast.success(`${member.full_name || member.email} removed from the team`);
+        loadMembers(selectedTeamId);
+        onTeamsChange?.();
+      }
+    } catch (error) {
+      console.error("Error removing coach:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove coach");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Teams
+          </DialogTitle>
+          <DialogDescription>
+            Every coach on a team sees and manages the team's games, home and away.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="teamName">Name</Label>
+              <Input
+                id="teamName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Tigers"
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="teamDivision">Age Division</Label>
+              <Input
+                id="teamDivision"
+                value={form.age_division}
+                onChange={(e) => setForm({ ...form, age_division: e.target.value })}
+                placeholder="e.g. U12"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="teamLeague">League</Label>
+              <Input
+                id="teamLeague"
+                value={form.league}
+                onChange={(e) => setForm({ ...form, league: e.target.value })}
+                placeholder="e.g. Metro League"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel Edit
+              </Button>
+            )}
+            <Button type="submit" disabled={loading}>
+              {loading ? "Saving..." : editingId ? "Save Team" : "Create Team"}
+            </Button>
+          </div>
+        </form>
+
+        <ScrollArea className="h-[200px] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                {!manageAll && <TableHead>Your Role</TableHead>}
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-center text-muted-foreground">
+                    {manageAll ? "No teams registered yet" : "You're not on any teams yet"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                teams.map((team) => (
+                  <TableRow
+                    key={team.id}
+                    className={`cursor-pointer ${team.id === selectedTeamId ? "bg-accent" : ""}`}
+                    onClick={() => setSelectedTeamId(team.id)}
+                  >
+                    <TableCell className="font-medium">{formatTeamName(team)}</TableCell>
+                    {!manageAll && <TableCell>{team.role && TEAM_ROLE_LABELS[team.role]}</TableCell>}
+                    <TableCell className="text-right">
+                      {canManage(team) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setEditingId(team.id);
+                            setForm({ name: team.name, age_division: team.age_division || "", league: team.league || "" });
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+
+        {selectedTeam && (
+          <div className="grid gap-3 border rounded-md p-4">
+            <p className="font-medium">Coaches of {formatTeamName(selectedTeam)}</p>
+            {members.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No coaches on this team yet</p>
+            ) : (
+              <div className="grid gap-2">
+                {members.map((member) => (
+                  <div key={member.coach_id} className="flex items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium">{member.full_name || "Unnamed coach"}</span>{" "}
+                      <span className="text-muted-foreground">({member.email})</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={member.role === "head" ? "default" : "secondary"}>
+                        {TEAM_ROLE_LABELS[member.role]}
+                      </Badge>
+                      {member.coach_id === user?.id ? (
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveMember(member)}>
+                          <LogOut className="mr-1 h-4 w-4" />
+                          Leave
+                        </Button>
+                      ) : (
+                        canManage(selectedTeam) && (
+                          <Button variant="ghost" size="icon" onClick={() => handleRemoveMember(member)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {canManage(selectedTeam) && (
+              <form onSubmit={handleAddMember} className="flex flex-wrap items-end gap-2">
+                <div className="grid gap-1 flex-1 min-w-[200px]">
+                  <Label htmlFor="memberEmail" className="text-xs">Coach Email</Label>
+                  <Input
+                    id="memberEmail"
+                    type="email"
+                    value={memberEmail}
+                    onChange={(e) => setMemberEmail(e.target.value)}
+                    placeholder="coach@example.com"
+                    required
+                  />
+                </div>
+                <div className="grid gap-1">
+                  <Label className="text-xs">Role</Label>
+                  <Select value={memberRole} onValueChange={(role: TeamRole) => setMemberRole(role)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="head">{TEAM_ROLE_LABELS.head}</SelectItem>
+                      <SelectItem value="assistant">{TEAM_ROLE_LABELS.assistant}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button type="submit" variant="outline">
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  Add Coach
+                </Button>
+              </form>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageTeamsDialog;
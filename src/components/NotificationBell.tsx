@@ -0,0 +1,107 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
+import { Button, ButtonProps } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "sonner";
+import { Bell, Settings } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { AppNotification, fetchNotifications, markNotificationsRead } from "@/lib/notifications";
+
+interface NotificationBellProps {
+  size?: ButtonProps["size"];
+}
+
+// Header dropdown with the user's recent notifications and a link to their delivery preferences
+const NotificationBell = ({ size }: NotificationBellProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+
+  useEffect(() => {
+    if (!user) return;
+    loadNotifications();
+  }, [user]);
+
+  const loadNotifications = async () => {
+    if (!user) return;
+
+    try {
+      setNotifications(await fetchNotifications(user.id));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+    }
+  };
+
+  const markRead = async (ids: string[]) => {
+    try {
+      await markNotificationsRead(ids);
+      const readAt = new Date().toISOString();
+      setNotifications((current) => current.map((n) => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)));
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      toast.error("Failed to update notifications");
+    }
+  };
+
+  const unread = notifications.filter((n) => !n.read_at);
+
+  return (
+    <DropdownMenu onOpenChange={(open) => open && loadNotifications()}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} aria-label="Notifications">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && <Badge className="ml-2">{unread.length}</Badge>}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unread.length > 0 && (
+            <Button variant="link" size="sm" onClick={() => markRead(unread.map((n) => n.id))}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">Nothing new</p>
+        ) : (
+          <ScrollArea className="h-80">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-1"
+                onSelect={(e) => {
+                  e.preventDefault();
+                  if (!notification.read_at) markRead([notification.id]);
+                }}
+              >
+                <span className={cn("text-sm", !notification.read_at && "font-semibold")}>{notification.title}</span>
+                {notification.body && <span className="text-xs text-muted-foreground">{notification.body}</span>}
+                <span className="text-xs text-muted-foreground">{format(new Date(notification.created_at), "PPp")}</span>
+              </DropdownMenuItem>
+            ))}
+          </ScrollArea>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => navigate("/settings/notifications")}>
+          <Settings className="mr-2 h-4 w-4" />
+          Notification settings
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
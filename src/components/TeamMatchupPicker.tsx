@@ -0,0 +1,135 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { CoachTeam, MatchupSelection, Team, fetchCoachTeams, fetchTeams, formatTeamName, searchTeams } from "@/lib/teams";
+
+interface TeamMatchupPickerProps {
+  value: MatchupSelection;
+  onChange: (value: MatchupSelection) => void;
+  id?: string;
+}
+
+const NO_TEAM = "none";
+
+const TeamMatchupPicker = ({ value, onChange, id = "opponent" }: TeamMatchupPickerProps) => {
+  const { user } = useAuth();
+  const [coachTeams, setCoachTeams] = useState<CoachTeam[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [focused, setFocused] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchCoachTeams(user.id)
+      .then((memberships) => {
+        setCoachTeams(memberships);
+        // Most coaches run a single team, so start with it selected
+        if (memberships.length === 1 && !value.teamId) {
+          onChange({ ...value, teamId: memberships[0].id });
+        }
+      })
+      .catch((error) => console.error("Error fetching coach teams:", error));
+
+    fetchTeams()
+      .then(setTeams)
+      .catch((error) => console.error("Error fetching teams:", error));
+  }, [user]);
+
+  const suggestions = searchTeams(value.opponent, teams).filter((team) => team.id !== value.teamId);
+  const opponentTeam = teams.find((team) => team.id === value.opponentTeamId);
+
+  const handleSelectOpponent = (team: Team) => {
+    onChange({ ...value, opponent: team.name, opponentTeamId: team.id });
+    setFocused(false);
+  };
+
+  return (
+    <>
+      {coachTeams.length > 0 && (
+        <div className="grid grid-cols-[1fr_auto] gap-4">
+          <div className="grid gap-2">
+            <Label>Your Team</Label>
+            <Select
+              value={value.teamId ?? NO_TEAM}
+              onValueChange={(teamId) => onChange({ ...value, teamId: teamId === NO_TEAM ? null : teamId })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {coachTeams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>
+                    {formatTeamName(team)}
+                  </SelectItem>
+                ))}
+                <SelectItem value={NO_TEAM}>No team</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label>Playing</Label>
+            <Select
+              value={value.side}
+              onValueChange={(side: MatchupSelection["side"]) => onChange({ ...value, side })}
+              disabled={!value.teamId}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="home">Home</SelectItem>
+                <SelectItem value="away">Away</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+      <div className="grid gap-2">
+        <Label htmlFor={id}>Opponent Team</Label>
+        <div className="relative">
+          <Input
+            id={id}
+            value={value.opponent}
+            onChange={(e) => onChange({ ...value, opponent: e.target.value, opponentTeamId: null })}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
+            placeholder="Search teams or enter opponent team name"
+            autoComplete="off"
+            required
+          />
+          {focused && suggestions.length > 0 && (
+            <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md max-h-60 overflow-y-auto">
+              {suggestions.map((team) => (
+                <button
+                  key={team.id}
+                  type="button"
+                  // Keep focus on the input until the click lands
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => handleSelectOpponent(team)}
+                  className={cn(
+                    "w-full text-left px-3 py-2 text-sm hover:bg-accent",
+                    team.id === value.opponentTeamId && "bg-accent"
+                  )}
+                >
+                  {formatTeamName(team)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        {opponentTeam && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Users className="h-3 w-3" />
+            {formatTeamName(opponentTeam)} · their coaches will see this game too
+          </p>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default TeamMatchupPicker;
@@ -0,0 +1,92 @@
+import { useState, useEffect } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { MapPin } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Venue, describeVenue, fetchVenues, searchVenues } from "@/lib/venues";
+
+export interface VenueSelection {
+  venueId: string | null;
+  location: string;
+}
+
+interface VenuePickerProps {
+  value: VenueSelection;
+  onChange: (value: VenueSelection) => void;
+  id?: string;
+}
+
+const VenuePicker = ({ value, onChange, id = "location" }: VenuePickerProps) => {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [focused, setFocused] = useState(false);
+
+  useEffect(() => {
+    fetchVenues()
+      .then(setVenues)
+      .catch((error) => console.error("Error fetching venues:", error));
+  }, []);
+
+  const suggestions = searchVenues(value.location, venues);
+  const selectedVenue = venues.find((venue) => venue.id === value.venueId);
+
+  const handleSelect = (venue: Venue) => {
+    onChange({ venueId: venue.id, location: venue.name });
+    setFocused(false);
+  };
+
+  return (
+    <div className="grid gap-2">
+      <Label htmlFor={id}>Location</Label>
+      <div className="relative">
+        <Input
+          id={id}
+          value={value.location}
+          onChange={(e) => onChange({ venueId: null, location: e.target.value })}
+          onFocus={() => setFocused(true)}
+          onBlur={() => setFocused(false)}
+          placeholder="Search venues or enter a location"
+          autoComplete="off"
+          required
+        />
+        {focused && suggestions.length > 0 && (
+          <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md max-h-60 overflow-y-auto">
+            {suggestions.map((venue) => (
+              <button
+                key={venue.id}
+                type="button"
+                // Keep focus on the input until the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(venue)}
+                className={cn(
+                  "w-full text-left px-3 py-2 text-sm hover:bg-accent",
+                  venue.id === value.venueId && "bg-accent"
+                )}
+              >
+                <div className="font-medium">{venue.name}</div>
+                <div className="text-xs text-muted-foreground">
+                  {venue.address ? `${venue.address} · ` : ""}
+                  {describeVenue(venue)}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {selectedVenue ? (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <MapPin className="h-3 w-3" />
+          {describeVenue(selectedVenue)}
+        </p>
+      ) : (
+        value.location.trim() &&
+        venues.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Not a registered venue. Pick one from the list if it's there.
+          </p>
+        )
+      )}
+    </div>
+  );
+};
+
+export default VenuePicker;
@@ -0,0 +1,101 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { GameChangeResult, describeGameChangeFailure } from "@/lib/gameChanges";
+
+interface CancelGameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  game: {
+    id: string;
+    opponent: string;
+    game_date: string;
+    crew_count: number;
+  };
+  onSuccess: () => void;
+}
+
+const CancelGameDialog = ({ open, onOpenChange, game, onSuccess }: CancelGameDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("cancel_game", {
+        game_id_param: game.id,
+        reason_param: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as GameChangeResult;
+      if (!result.success) {
+        toast.error(describeGameChangeFailure(result));
+        return;
+      }
+
+      toast.success(game.crew_count > 0 ? "Game cancelled. The crew has been notified." : "Game cancelled");
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error cancelling game:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel game");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Cancel Game</DialogTitle>
+          <DialogDescription>
+            vs {game.opponent} · {format(new Date(game.game_date), "PPp")}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="cancelReason">Reason</Label>
+              <Textarea
+                id="cancelReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Rained out, opponent forfeited..."
+                rows={4}
+                maxLength={1000}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Keep Game
+            </Button>
+            <Button type="submit" variant="destructive" disabled={loading || !reason.trim()}>
+              {loading ? "Cancelling..." : "Cancel Game"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelGameDialog;
@@ -0,0 +1,275 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AlertTriangle, CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import CrewPositionsPicker from "@/components/CrewPositionsPicker";
+import GameConflictAlert from "@/components/GameConflictAlert";
+import GameLevelPicker from "@/components/GameLevelPicker";
+import VenuePicker, { VenueSelection } from "@/components/VenuePicker";
+import { UmpirePosition } from "@/lib/crew";
+import { geocode, toCoordinates } from "@/lib/geocoding";
+import { GameConflict, findGameConflicts } from "@/lib/gameConflicts";
+import { GameChangeResult, describeGameChangeFailure } from "@/lib/gameChanges";
+import { LevelSelection } from "@/lib/levels";
+
+interface EditGameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Editing changes the opponent, level and crew; rescheduling changes the time and place
+  mode: "edit" | "reschedule";
+  game: {
+    id: string;
+    opponent: string;
+    game_date: string;
+    location: string;
+    venue_id: string | null;
+    division_id: string | null;
+    level_id: string | null;
+    required_positions: UmpirePosition[];
+    crew_count: number;
+  };
+  onSuccess: () => void;
+}
+
+const EditGameDialog = ({ open, onOpenChange, mode, game, onSuccess }: EditGameDialogProps) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [opponent, setOpponent] = useState("");
+  const [positions, setPositions] = useState<UmpirePosition[]>([]);
+  const [level, setLevel] = useState<LevelSelection>({ divisionId: null, levelId: null });
+  const [date, setDate] = useState<Date>();
+  const [time, setTime] = useState("");
+  const [venue, setVenue] = useState<VenueSelection>({ venueId: null, location: "" });
+  const [reason, setReason] = useState("");
+  const [conflicts, setConflicts] = useState<GameConflict[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      const gameDate = new Date(game.game_date);
+      setOpponent(game.opponent);
+      setPositions(game.required_positions);
+      setLevel({ divisionId: game.division_id, levelId: game.level_id });
+      setDate(gameDate);
+      setTime(format(gameDate, "HH:mm"));
+      setVenue({ venueId: game.venue_id, location: game.location });
+      setReason("");
+    }
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "edit") {
+      submitEdit();
+    } else {
+      submitReschedule(false);
+    }
+  };
+
+  const handleResult = (result: GameChangeResult, successMessage: string) => {
+    if (!result.success) {
+      toast.error(describeGameChangeFailure(result));
+      return;
+    }
+
+    toast.success(successMessage);
+    onSuccess();
+    onOpenChange(false);
+  };
+
+  const submitEdit = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("edit_game", {
+        game_id_param: game.id,
+        opponent_param: opponent.trim(),
+        required_positions_param: positions,
+        division_id_param: level.divisionId,
+        level_id_param: level.levelId,
+        reason_param: reason.trim(),
+      });
+
+      if (error) throw error;
+      handleResult(data as unknown as GameChangeResult, "Game updated");
+    } catch (error) {
+      console.error("Error editing game:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update game");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submitReschedule = async (confirmed: boolean) => {
+    if (!date) return;
+
+    setLoading(true);
+    try {
+      const gameDateTime = new Date(date);
+      const [hours, minutes] = time.split(":");
+      gameDateTime.setHours(parseInt(hours), parseInt(minutes));
+
+      if (!confirmed) {
+        const found = await findGameConflicts([{
+          rowIndex: 0,
+          gameId: game.id,
+          coachId: user?.id ?? null,
+          opponent: game.opponent,
+          gameDate: gameDateTime.toISOString(),
+          venueId: venue.venueId,
+          location: venue.location,
+        }]);
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
+      const coordinates = toCoordinates(await geocode(venue.location));
+
+      const { data, error } = await supabase.rpc("reschedule_game", {
+        game_id_param: game.id,
+        game_date_param: gameDateTime.toISOString(),
+        location_param: venue.location,
+        venue_id_param: venue.venueId,
+        latitude_param: coordinates.latitude,
+        longitude_param: coordinates.longitude,
+        reason_param: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as GameChangeResult;
+      handleResult(
+        result,
+        result.crew_to_confirm
+          ? "Game rescheduled. The crew has been asked to confirm the new time."
+          : "Game rescheduled"
+      );
+    } catch (error) {
+      console.error("Error rescheduling game:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reschedule game");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{mode === "edit" ? "Edit Game" : "Reschedule Game"}</DialogTitle>
+          <DialogDescription>
+            vs {game.opponent} · {format(new Date(game.game_date), "PPp")}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            {mode === "edit" ? (
+              <>
+                <div className="grid gap-2">
+                  <Label htmlFor="editOpponent">Opponent Team</Label>
+                  <Input
+                    id="editOpponent"
+                    value={opponent}
+                    onChange={(e) => setOpponent(e.target.value)}
+                    required
+                  />
+                </div>
+                <GameLevelPicker value={level} onChange={setLevel} />
+                <CrewPositionsPicker value={positions} onChange={setPositions} />
+              </>
+            ) : (
+              <>
+                {game.crew_count > 0 && (
+                  <div className="flex gap-2 rounded-lg border border-amber-500 bg-amber-500/5 p-3 text-sm">
+                    <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+                    <span>
+                      The assigned crew will be asked to confirm the new time. Anyone who doesn't confirm is
+                      released and the game goes back to pending.
+                    </span>
+                  </div>
+                )}
+                <VenuePicker id="rescheduleLocation" value={venue} onChange={setVenue} />
+                <div className="grid gap-2">
+                  <Label>Game Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn("justify-start text-left font-normal", !date && "text-muted-foreground")}
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {date ? format(date, "PPP") : "Pick a date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={date}
+                        onSelect={setDate}
+                        initialFocus
+                        disabled={(day) => day < new Date(new Date().setHours(0, 0, 0, 0))}
+                        className="pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="rescheduleTime">Game Time</Label>
+                  <Input
+                    id="rescheduleTime"
+                    type="time"
+                    value={time}
+                    onChange={(e) => setTime(e.target.value)}
+                    required
+                  />
+                </div>
+              </>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="changeReason">Reason</Label>
+              <Textarea
+                id="changeReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={mode === "edit" ? "e.g. Opponent changed" : "e.g. Rained out, field double-booked..."}
+                rows={3}
+                maxLength={1000}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !reason.trim() || (mode === "reschedule" && !date)}>
+              {loading ? "Saving..." : mode === "edit" ? "Save Changes" : "Reschedule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+
+      <GameConflictAlert
+        conflicts={conflicts}
+        confirmLabel="Reschedule Anyway"
+        onCancel={() => setConflicts([])}
+        onConfirm={() => {
+          setConflicts([]);
+          submitReschedule(true);
+        }}
+      />
+    </Dialog>
+  );
+};
+
+export default EditGameDialog;
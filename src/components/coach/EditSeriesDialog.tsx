@@ -0,0 +1,163 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
+import { GameSeries, GameSeriesResult, describeSeries, describeSeriesFailure } from "@/lib/gameSeries";
+
+interface EditSeriesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Shifting moves every remaining game by the same amount; cancelling calls them all off
+  mode: "shift" | "cancel";
+  series: GameSeries & {
+    remaining_count: number;
+    crew_count: number;
+  };
+  onSuccess: () => void;
+}
+
+const SHIFT_OPTIONS = [
+  { minutes: -60 * 24 * 7, label: "1 week earlier" },
+  { minutes: -60 * 24, label: "1 day earlier" },
+  { minutes: -120, label: "2 hours earlier" },
+  { minutes: -60, label: "1 hour earlier" },
+  { minutes: -30, label: "30 minutes earlier" },
+  { minutes: 30, label: "30 minutes later" },
+  { minutes: 60, label: "1 hour later" },
+  { minutes: 120, label: "2 hours later" },
+  { minutes: 60 * 24, label: "1 day later" },
+  { minutes: 60 * 24 * 7, label: "1 week later" },
+];
+
+const EditSeriesDialog = ({ open, onOpenChange, mode, series, onSuccess }: EditSeriesDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [shiftMinutes, setShiftMinutes] = useState("60");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setShiftMinutes("60");
+      setReason("");
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = mode === "shift"
+        ? await supabase.rpc("shift_game_series", {
+            series_id_param: series.id,
+            shift_minutes_param: parseInt(shiftMinutes),
+            reason_param: reason.trim(),
+          })
+        : await supabase.rpc("cancel_game_series", {
+            series_id_param: series.id,
+            reason_param: reason.trim(),
+          });
+
+      if (error) throw error;
+
+      const result = data as unknown as GameSeriesResult;
+      if (!result.success) {
+        toast.error(describeSeriesFailure(result));
+        return;
+      }
+
+      const changed = `${result.games_changed} game${result.games_changed === 1 ? "" : "s"}`;
+      const message = mode === "shift" ? `Moved ${changed}` : `Cancelled ${changed}`;
+      const skipped = result.games_skipped ? ` ${result.games_skipped} couldn't be changed.` : "";
+      const crew = result.crew_to_confirm ? " The crews have been asked to confirm the new times." : "";
+
+      toast.success(`${message}.${skipped}${crew}`);
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error changing series:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to change series");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{mode === "shift" ? "Move Remaining Games" : "Cancel Remaining Games"}</DialogTitle>
+          <DialogDescription>
+            {series.name} · {describeSeries(series)}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <p className="text-sm">
+              This changes the {series.remaining_count} upcoming game{series.remaining_count === 1 ? "" : "s"} in
+              the series. Past and already cancelled games are left alone.
+            </p>
+            {series.crew_count > 0 && (
+              <div className="flex gap-2 rounded-lg border border-amber-500 bg-amber-500/5 p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 text-amber-600 shrink-0 mt-0.5" />
+                <span>
+                  {mode === "shift"
+                    ? "Assigned umpires will be asked to confirm each new time. Anyone who doesn't confirm is released from that game."
+                    : "Assigned umpires will be notified that their games are cancelled."}
+                </span>
+              </div>
+            )}
+            {mode === "shift" && (
+              <div className="grid gap-2">
+                <Label>Move By</Label>
+                <Select value={shiftMinutes} onValueChange={setShiftMinutes}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SHIFT_OPTIONS.map((option) => (
+                      <SelectItem key={option.minutes} value={String(option.minutes)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="seriesReason">Reason</Label>
+              <Textarea
+                id="seriesReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={mode === "shift" ? "e.g. Field lights not available until 19:00" : "e.g. Team withdrew from the league"}
+                rows={3}
+                maxLength={1000}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {mode === "shift" ? "Cancel" : "Keep Games"}
+            </Button>
+            <Button
+              type="submit"
+              variant={mode === "cancel" ? "destructive" : "default"}
+              disabled={loading || !reason.trim()}
+            >
+              {loading ? "Saving..." : mode === "shift" ? "Move Games" : "Cancel Games"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditSeriesDialog;
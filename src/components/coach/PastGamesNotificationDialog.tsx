@@ -16,16 +16,29 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "sonner";
 import { Star, Calendar, MapPin, ChevronRight, ChevronLeft, CheckCircle } from "lucide-react";
 import { format } from "date-fns";
+import { POSITION_LABELS, UmpirePosition } from "@/lib/crew";
+import { recordGameOutcome } from "@/lib/gameChanges";
+
+interface CrewMember {
+  position: UmpirePosition;
+  umpire_id: string;
+  full_name: string | null;
+}
+
+interface CrewReview {
+  rating: number;
+  comment: string;
+  noShow: boolean;
+}
+
+const EMPTY_REVIEW: CrewReview = { rating: 0, comment: "", noShow: false };
 
 interface PastGame {
   id: string;
   game_date: string;
   location: string;
   opponent: string;
-  assigned_umpire_id: string;
-  umpire_profile?: {
-    full_name: string;
-  };
+  crew: CrewMember[];
 }
 
 interface PastGamesNotificationDialogProps {
@@ -44,57 +57,68 @@ const PastGamesNotificationDialog = ({
   const { user } = useAuth();
   const [currentIndex, setCurrentIndex] = useState(0);
   const [loading, setLoading] = useState(false);
-  const [rating, setRating] = useState(0);
-  const [hoveredRating, setHoveredRating] = useState(0);
-  const [comment, setComment] = useState("");
-  const [noShow, setNoShow] = useState(false);
+  const [reviews, setReviews] = useState<Record<string, CrewReview>>({});
+  const [hovered, setHovered] = useState<{ umpireId: string; value: number } | null>(null);
 
   const currentGame = games[currentIndex];
   const isLastGame = currentIndex === games.length - 1;
   const totalGames = games.length;
 
   const resetForm = () => {
-    setRating(0);
-    setHoveredRating(0);
-    setComment("");
-    setNoShow(false);
+    setReviews({});
+    setHovered(null);
   };
 
+  const getReview = (umpireId: string) => reviews[umpireId] || EMPTY_REVIEW;
+
+  const updateReview = (umpireId: string, changes: Partial<CrewReview>) => {
+    setReviews((prev) => ({ ...prev, [umpireId]: { ...(prev[umpireId] || EMPTY_REVIEW), ...changes } }));
+  };
+
+  const allReviewed = !!currentGame && currentGame.crew.every((member) => {
+    const review = getReview(member.umpire_id);
+    return review.noShow || review.rating > 0;
+  });
+
   const handleConfirmAndRate = async () => {
-    if (!user || !currentGame || (!noShow && rating === 0)) {
-      toast.error("Please provide a rating or mark as no-show before confirming");
+    if (!user || !currentGame || !allReviewed) {
+      toast.error("Please rate or mark as no-show every umpire before confirming");
       return;
     }
 
-    const finalRating = noShow ? 0 : rating;
-
     setLoading(true);
     try {
       // Update game status to completed
-      const { error: gameError } = await supabase
-        .from("games")
-        .update({ status: "completed" })
-        .eq("id", currentGame.id);
-
-      if (gameError) throw gameError;
+      await recordGameOutcome(currentGame.id, true);
 
-      // Submit the rating
-      const { error: ratingError } = await supabase.from("ratings").insert({
-        game_id: currentGame.id,
-        coach_id: user.id,
-        umpire_id: currentGame.assigned_umpire_id,
-        rating: finalRating,
-        comment: comment || null,
-      });
+      // Submit a rating for each official, or a no-show report which is kept out of star averages
+      for (const member of currentGame.crew) {
+        const review = getReview(member.umpire_id);
+        const { error: ratingError } = review.noShow
+          ? await supabase.from("no_show_reports").insert({
+              game_id: currentGame.id,
+              coach_id: user.id,
+              umpire_id: member.umpire_id,
+              details: review.comment || null,
+            })
+          : await supabase.from("ratings").insert({
+              game_id: currentGame.id,
+              coach_id: user.id,
+              umpire_id: member.umpire_id,
+              rating: review.rating,
+              comment: review.comment || null,
+            });
 
-      if (ratingError) {
-        // If rating already exists, just continue
-        if (ratingError.code !== "23505") {
-          throw ratingError;
+        if (ratingError) {
+          // If rating already exists, just continue
+          if (ratingError.code !== "23505") {
+            throw ratingError;
+          }
         }
       }
 
-      toast.success("Game confirmed and rating submitted!");
+      const anyNoShow = currentGame.crew.some((member) => getReview(member.umpire_id).noShow);
+      toast.success(anyNoShow ? "Game confirmed and no-show reported!" : "Game confirmed and rating submitted!");
 
       if (isLastGame) {
         onOpenChange(false);
@@ -105,7 +129,7 @@ const PastGamesNotificationDialog = ({
       }
     } catch (error: any) {
       console.error("Error confirming game:", error);
-      toast.error("Failed to confirm game. Please try again.");
+      toast.error(error instanceof Error ? error.message : "Failed to confirm game. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -140,7 +164,7 @@ const PastGamesNotificationDialog = ({
           </div>
           <DialogDescription>
             You have {totalGames} past game{totalGames > 1 ? "s" : ""} that need confirmation.
-            Please confirm completion and rate the umpire.
+            Please confirm completion and rate the umpires.
           </DialogDescription>
         </DialogHeader>
 
@@ -172,63 +196,66 @@ const PastGamesNotificationDialog = ({
               <MapPin className="h-4 w-4" />
               {currentGame.location}
             </div>
-            <div className="flex items-center gap-2">
-              <Star className="h-4 w-4" />
-              Umpire: {currentGame.umpire_profile?.full_name || "Assigned"}
-            </div>
           </div>
         </div>
 
-        {/* Rating section */}
-        <div className="space-y-4">
-          <div className="flex items-center space-x-2">
-            <Checkbox
-              id="noShowPast"
-              checked={noShow}
-              onCheckedChange={(checked) => {
-                setNoShow(checked === true);
-                if (checked) setRating(0);
-              }}
-            />
-            <Label htmlFor="noShowPast" className="text-destructive font-medium cursor-pointer">
-              Umpire did not show up
-            </Label>
-          </div>
-          {!noShow && (
-            <div className="space-y-2">
-              <Label>Rate the Umpire's Performance</Label>
-              <div className="flex gap-2 justify-center py-2">
-                {[1, 2, 3, 4, 5].map((value) => (
-                  <button
-                    key={value}
-                    type="button"
-                    onClick={() => setRating(value)}
-                    onMouseEnter={() => setHoveredRating(value)}
-                    onMouseLeave={() => setHoveredRating(0)}
-                    className="transition-transform hover:scale-110"
-                  >
-                    <Star
-                      className={`h-10 w-10 ${
-                        value <= (hoveredRating || rating)
-                          ? "fill-yellow-400 text-yellow-400"
-                          : "text-muted-foreground/30"
-                      }`}
-                    />
-                  </button>
-                ))}
+        {/* Rating section, one per official */}
+        <div className="space-y-4 max-h-[40vh] overflow-y-auto">
+          {currentGame.crew.map((member) => {
+            const review = getReview(member.umpire_id);
+            const label = currentGame.crew.length > 1
+              ? `${member.full_name || "Umpire"} (${POSITION_LABELS[member.position]})`
+              : member.full_name || "the umpire";
+
+            return (
+              <div key={member.umpire_id} className="space-y-3 rounded-lg border p-3">
+                <p className="font-medium">Rate {label}</p>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`noShowPast-${member.umpire_id}`}
+                    checked={review.noShow}
+                    onCheckedChange={(checked) =>
+                      updateReview(member.umpire_id, { noShow: checked === true, rating: checked ? 0 : review.rating })
+                    }
+                  />
+                  <Label htmlFor={`noShowPast-${member.umpire_id}`} className="text-destructive font-medium cursor-pointer">
+                    Umpire did not show up
+                  </Label>
+                </div>
+                {!review.noShow && (
+                  <div className="flex gap-2 justify-center py-1">
+                    {[1, 2, 3, 4, 5].map((value) => {
+                      const shown = hovered?.umpireId === member.umpire_id ? hovered.value : review.rating;
+                      return (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => updateReview(member.umpire_id, { rating: value })}
+                          onMouseEnter={() => setHovered({ umpireId: member.umpire_id, value })}
+                          onMouseLeave={() => setHovered(null)}
+                          className="transition-transform hover:scale-110"
+                        >
+                          <Star
+                            className={`h-8 w-8 ${
+                              value <= shown
+                                ? "fill-yellow-400 text-yellow-400"
+                                : "text-muted-foreground/30"
+                            }`}
+                          />
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+                <Textarea
+                  value={review.comment}
+                  onChange={(e) => updateReview(member.umpire_id, { comment: e.target.value })}
+                  placeholder={review.noShow ? "Provide any additional details about the no-show..." : "Share your feedback about the umpire's performance... (optional)"}
+                  rows={2}
+                />
               </div>
-            </div>
-          )}
-          <div className="space-y-2">
-            <Label htmlFor="comment">{noShow ? "Details (Optional)" : "Comment (Optional)"}</Label>
-            <Textarea
-              id="comment"
-              value={comment}
-              onChange={(e) => setComment(e.target.value)}
-              placeholder={noShow ? "Provide any additional details about the no-show..." : "Share your feedback about the umpire's performance..."}
-              rows={3}
-            />
-          </div>
+            );
+          })}
         </div>
 
         <DialogFooter className="flex-col sm:flex-row gap-2">
@@ -257,7 +284,7 @@ const PastGamesNotificationDialog = ({
           </div>
           <Button
             onClick={handleConfirmAndRate}
-            disabled={loading || (!noShow && rating === 0)}
+            disabled={loading || !allReviewed}
             className="w-full sm:w-auto"
           >
             {loading
@@ -21,6 +21,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { Calendar, MapPin, ChevronLeft, ChevronRight, X } from "lucide-react";
+import { recordGameOutcome } from "@/lib/gameChanges";
 
 interface PastPendingGame {
   id: string;
@@ -94,22 +95,12 @@ const PastPendingGamesDialog = ({
         if (leadError) throw leadError;
 
         // Mark game as completed
-        const { error: gameError } = await supabase
-          .from("games")
-          .update({ status: "completed" })
-          .eq("id", currentGame.id);
-
-        if (gameError) throw gameError;
+        await recordGameOutcome(currentGame.id, true);
 
         toast.success("Game information saved!");
       } else {
         // Mark game as cancelled if it didn't happen
-        const { error: gameError } = await supabase
-          .from("games")
-          .update({ status: "cancelled" })
-          .eq("id", currentGame.id);
-
-        if (gameError) throw gameError;
+        await recordGameOutcome(currentGame.id, false);
 
         toast.success("Game marked as cancelled");
       }
@@ -123,7 +114,7 @@ const PastPendingGamesDialog = ({
       }
     } catch (error) {
       console.error("Error saving game info:", error);
-      toast.error("Failed to save game information");
+      toast.error(error instanceof Error ? error.message : "Failed to save game information");
     } finally {
       setSubmitting(false);
     }
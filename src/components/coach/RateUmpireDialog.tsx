@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
 import { toast } from "sonner";
 import { Star } from "lucide-react";
+import { POSITION_LABELS, UmpirePosition } from "@/lib/crew";
 
 interface ExistingRating {
   id: string;
@@ -21,7 +22,8 @@ interface RateUmpireDialogProps {
   onOpenChange: (open: boolean) => void;
   game: {
     id: string;
-    assigned_umpire_id: string | null;
+    umpire_id: string;
+    position?: UmpirePosition;
     umpire_profile?: {
       full_name: string;
     };
@@ -45,7 +47,7 @@ const RateUmpireDialog = ({ open, onOpenChange, game, onSuccess }: RateUmpireDia
     if (open && game.existing_rating) {
       setRating(game.existing_rating.rating);
       setComment(game.existing_rating.comment || "");
-      setNoShow(game.existing_rating.rating === 0);
+      setNoShow(false);
     } else if (open) {
       resetForm();
     }
@@ -53,18 +55,29 @@ const RateUmpireDialog = ({ open, onOpenChange, game, onSuccess }: RateUmpireDia
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!user || !game.assigned_umpire_id || (!noShow && rating === 0)) return;
+    if (!user || !game.umpire_id || (!noShow && rating === 0)) return;
 
-    const finalRating = noShow ? 0 : rating;
-    
     setLoading(true);
     try {
-      if (isEditing && game.existing_rating) {
+      if (noShow) {
+        // No-shows are reported separately and never count towards star ratings
+        const { error } = await supabase
+          .from("no_show_reports")
+          .insert({
+            game_id: game.id,
+            coach_id: user.id,
+            umpire_id: game.umpire_id,
+            details: comment || null,
+          });
+
+        if (error) throw error;
+        toast.success("No-show reported. The umpire can dispute it within 72 hours.");
+      } else if (isEditing && game.existing_rating) {
         // Update existing rating
         const { error } = await supabase
           .from("ratings")
           .update({
-            rating: finalRating,
+            rating,
             comment: comment || null,
           })
           .eq("id", game.existing_rating.id);
@@ -78,8 +91,8 @@ const RateUmpireDialog = ({ open, onOpenChange, game, onSuccess }: RateUmpireDia
           .insert({
             game_id: game.id,
             coach_id: user.id,
-            umpire_id: game.assigned_umpire_id,
-            rating: finalRating,
+            umpire_id: game.umpire_id,
+            rating,
             comment: comment || null,
           });
 
@@ -93,9 +106,11 @@ const RateUmpireDialog = ({ open, onOpenChange, game, onSuccess }: RateUmpireDia
     } catch (error: any) {
       console.error("Error submitting rating:", error);
       if (error.code === "23505") {
-        toast.error("You have already rated this umpire for this game");
+        toast.error(noShow
+          ? "You have already reported a no-show for this game"
+          : "You have already rated this umpire for this game");
       } else {
-        toast.error("Failed to submit rating");
+        toast.error(noShow ? "Failed to report no-show" : "Failed to submit rating");
       }
     } finally {
       setLoading(false);
@@ -116,24 +131,27 @@ const RateUmpireDialog = ({ open, onOpenChange, game, onSuccess }: RateUmpireDia
           <DialogTitle>{isEditing ? "Edit Rating" : "Rate Umpire"}</DialogTitle>
           <DialogDescription>
             {isEditing ? "Update your rating for" : "Rate the performance of"}{" "}
-            {game.umpire_profile?.full_name || "the umpire"} for this game.
+            {game.umpire_profile?.full_name || "the umpire"}
+            {game.position && ` (${POSITION_LABELS[game.position]})`} for this game.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit}>
           <div className="grid gap-6 py-4">
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id="noShow"
-                checked={noShow}
-                onCheckedChange={(checked) => {
-                  setNoShow(checked === true);
-                  if (checked) setRating(0);
-                }}
-              />
-              <Label htmlFor="noShow" className="text-destructive font-medium cursor-pointer">
-                Umpire did not show up
-              </Label>
-            </div>
+            {!isEditing && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="noShow"
+                  checked={noShow}
+                  onCheckedChange={(checked) => {
+                    setNoShow(checked === true);
+                    if (checked) setRating(0);
+                  }}
+                />
+                <Label htmlFor="noShow" className="text-destructive font-medium cursor-pointer">
+                  Umpire did not show up
+                </Label>
+              </div>
+            )}
             {!noShow && (
               <div className="grid gap-3">
                 <Label>Rating</Label>
@@ -175,7 +193,7 @@ const RateUmpireDialog = ({ open, onOpenChange, game, onSuccess }: RateUmpireDia
               Cancel
             </Button>
             <Button type="submit" disabled={loading || (!noShow && rating === 0)}>
-              {loading ? "Saving..." : isEditing ? "Update Rating" : "Submit Rating"}
+              {loading ? "Saving..." : noShow ? "Report No-Show" : isEditing ? "Update Rating" : "Submit Rating"}
             </Button>
           </DialogFooter>
         </form>
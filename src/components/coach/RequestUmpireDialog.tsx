@@ -11,6 +11,16 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import CrewPositionsPicker from "@/components/CrewPositionsPicker";
+import GameLevelPicker from "@/components/GameLevelPicker";
+import VenuePicker, { VenueSelection } from "@/components/VenuePicker";
+import { UmpirePosition } from "@/lib/crew";
+import GameConflictAlert from "@/components/GameConflictAlert";
+import TeamMatchupPicker from "@/components/TeamMatchupPicker";
+import { geocode, toCoordinates } from "@/lib/geocoding";
+import { GameConflict, findGameConflicts } from "@/lib/gameConflicts";
+import { EMPTY_MATCHUP, MatchupSelection, toGameTeams } from "@/lib/teams";
+import { EMPTY_LEVEL, LevelSelection, toGameLevel } from "@/lib/levels";
 
 interface RequestUmpireDialogProps {
   open: boolean;
@@ -23,11 +33,18 @@ const RequestUmpireDialog = ({ open, onOpenChange, onSuccess }: RequestUmpireDia
   const [loading, setLoading] = useState(false);
   const [date, setDate] = useState<Date>();
   const [time, setTime] = useState("18:00");
-  const [opponent, setOpponent] = useState("");
-  const [location, setLocation] = useState("");
+  const [matchup, setMatchup] = useState<MatchupSelection>(EMPTY_MATCHUP);
+  const [venue, setVenue] = useState<VenueSelection>({ venueId: null, location: "" });
+  const [level, setLevel] = useState<LevelSelection>(EMPTY_LEVEL);
+  const [positions, setPositions] = useState<UmpirePosition[]>(["plate"]);
+  const [conflicts, setConflicts] = useState<GameConflict[]>([]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitGame(false);
+  };
+
+  const submitGame = async (confirmed: boolean) => {
     if (!user || !date) return;
 
     setLoading(true);
@@ -36,14 +53,36 @@ const RequestUmpireDialog = ({ open, onOpenChange, onSuccess }: RequestUmpireDia
       const [hours, minutes] = time.split(":");
       gameDateTime.setHours(parseInt(hours), parseInt(minutes));
 
+      if (!confirmed) {
+        const found = await findGameConflicts([{
+          rowIndex: 0,
+          coachId: user.id,
+          opponent: matchup.opponent,
+          gameDate: gameDateTime.toISOString(),
+          venueId: venue.venueId,
+          location: venue.location,
+        }]);
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
+      const coordinates = toCoordinates(await geocode(venue.location));
+
       const { data: game, error: gameError } = await supabase
         .from("games")
         .insert({
           coach_id: user.id,
           game_date: gameDateTime.toISOString(),
-          location,
-          opponent,
+          location: venue.location,
+          venue_id: venue.venueId,
+          ...coordinates,
+          opponent: matchup.opponent,
+          ...toGameTeams(matchup),
+          ...toGameLevel(level),
           status: "pending",
+          required_positions: positions,
         })
         .select()
         .single();
@@ -75,8 +114,10 @@ const RequestUmpireDialog = ({ open, onOpenChange, onSuccess }: RequestUmpireDia
   const resetForm = () => {
     setDate(undefined);
     setTime("18:00");
-    setOpponent("");
-    setLocation("");
+    setMatchup(EMPTY_MATCHUP);
+    setVenue({ venueId: null, location: "" });
+    setLevel(EMPTY_LEVEL);
+    setPositions(["plate"]);
   };
 
   return (
@@ -90,26 +131,8 @@ const RequestUmpireDialog = ({ open, onOpenChange, onSuccess }: RequestUmpireDia
         </DialogHeader>
         <form onSubmit={handleSubmit}>
           <div className="grid gap-4 py-4">
-            <div className="grid gap-2">
-              <Label htmlFor="opponent">Opponent Team</Label>
-              <Input
-                id="opponent"
-                value={opponent}
-                onChange={(e) => setOpponent(e.target.value)}
-                placeholder="Enter opponent team name"
-                required
-              />
-            </div>
-            <div className="grid gap-2">
-              <Label htmlFor="location">Location</Label>
-              <Input
-                id="location"
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                placeholder="Enter game location"
-                required
-              />
-            </div>
+            <TeamMatchupPicker value={matchup} onChange={setMatchup} />
+            <VenuePicker value={venue} onChange={setVenue} />
             <div className="grid gap-2">
               <Label>Game Date</Label>
               <Popover>
@@ -147,6 +170,8 @@ const RequestUmpireDialog = ({ open, onOpenChange, onSuccess }: RequestUmpireDia
                 required
               />
             </div>
+            <GameLevelPicker value={level} onChange={setLevel} />
+            <CrewPositionsPicker value={positions} onChange={setPositions} />
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
@@ -158,6 +183,16 @@ const RequestUmpireDialog = ({ open, onOpenChange, onSuccess }: RequestUmpireDia
           </DialogFooter>
         </form>
       </DialogContent>
+
+      <GameConflictAlert
+        conflicts={conflicts}
+        confirmLabel="Submit Anyway"
+        onCancel={() => setConflicts([])}
+        onConfirm={() => {
+          setConflicts([]);
+          submitGame(true);
+        }}
+      />
     </Dialog>
   );
 };
@@ -0,0 +1,312 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { toast } from "sonner";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { CalendarIcon } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import CrewPositionsPicker from "@/components/CrewPositionsPicker";
+import GameConflictAlert from "@/components/GameConflictAlert";
+import GameLevelPicker from "@/components/GameLevelPicker";
+import TeamMatchupPicker from "@/components/TeamMatchupPicker";
+import VenuePicker, { VenueSelection } from "@/components/VenuePicker";
+import { UmpirePosition } from "@/lib/crew";
+import { DAYS_OF_WEEK, normalizeTime } from "@/lib/availability";
+import { geocode, toCoordinates } from "@/lib/geocoding";
+import { GameConflict, findGameConflicts } from "@/lib/gameConflicts";
+import { EMPTY_MATCHUP, MatchupSelection, toGameTeams } from "@/lib/teams";
+import { EMPTY_LEVEL, LevelSelection } from "@/lib/levels";
+import { GameSeriesResult, MAX_SERIES_GAMES, describeSeriesFailure, generateSeriesDates } from "@/lib/gameSeries";
+
+interface SeasonBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+}
+
+const today = () => new Date(new Date().setHours(0, 0, 0, 0));
+
+const SeasonBuilderDialog = ({ open, onOpenChange, onSuccess }: SeasonBuilderDialogProps) => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+  const [name, setName] = useState("");
+  const [matchup, setMatchup] = useState<MatchupSelection>(EMPTY_MATCHUP);
+  const [venue, setVenue] = useState<VenueSelection>({ venueId: null, location: "" });
+  const [daysOfWeek, setDaysOfWeek] = useState<string[]>([]);
+  const [time, setTime] = useState("18:00");
+  const [startDate, setStartDate] = useState<Date>();
+  const [endDate, setEndDate] = useState<Date>();
+  const [excludedKeys, setExcludedKeys] = useState<string[]>([]);
+  const [level, setLevel] = useState<LevelSelection>(EMPTY_LEVEL);
+  const [positions, setPositions] = useState<UmpirePosition[]>(["plate"]);
+  const [conflicts, setConflicts] = useState<GameConflict[]>([]);
+
+  useEffect(() => {
+    if (open) {
+      setName("");
+      setMatchup(EMPTY_MATCHUP);
+      setVenue({ venueId: null, location: "" });
+      setDaysOfWeek([]);
+      setTime("18:00");
+      setStartDate(undefined);
+      setEndDate(undefined);
+      setExcludedKeys([]);
+      setLevel(EMPTY_LEVEL);
+      setPositions(["plate"]);
+    }
+  }, [open]);
+
+  // Every date the pattern produces; the coach unticks holidays and other dates to skip
+  const patternDates = useMemo(
+    () =>
+      startDate && endDate
+        ? generateSeriesDates({
+            daysOfWeek: daysOfWeek.map(Number),
+            time,
+            startDate,
+            endDate,
+            excludedDates: [],
+          }).filter((date) => date > new Date())
+        : [],
+    [daysOfWeek, time, startDate, endDate]
+  );
+
+  const gameDates = patternDates.filter((date) => !excludedKeys.includes(format(date, "yyyy-MM-dd")));
+
+  const toggleDate = (date: Date, included: boolean) => {
+    const key = format(date, "yyyy-MM-dd");
+    setExcludedKeys((prev) => (included ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    submitSeries(false);
+  };
+
+  const submitSeries = async (confirmed: boolean) => {
+    if (!user || !startDate || !endDate || gameDates.length === 0) return;
+
+    setLoading(true);
+    try {
+      if (!confirmed) {
+        const found = await findGameConflicts(
+          gameDates.map((date, index) => ({
+            rowIndex: index,
+            coachId: user.id,
+            opponent: matchup.opponent,
+            gameDate: date.toISOString(),
+            venueId: venue.venueId,
+            location: venue.location,
+          }))
+        );
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
+      const coordinates = toCoordinates(await geocode(venue.location));
+      const gameTeams = toGameTeams(matchup);
+
+      const { data, error } = await supabase.rpc("create_game_series", {
+        name_param: name.trim(),
+        opponent_param: matchup.opponent.trim(),
+        location_param: venue.location,
+        venue_id_param: venue.venueId,
+        latitude_param: coordinates.latitude,
+        longitude_param: coordinates.longitude,
+        required_positions_param: positions,
+        days_of_week_param: daysOfWeek.map(Number).sort(),
+        start_time_param: normalizeTime(time),
+        start_date_param: format(startDate, "yyyy-MM-dd"),
+        end_date_param: format(endDate, "yyyy-MM-dd"),
+        excluded_dates_param: patternDates
+          .map((date) => format(date, "yyyy-MM-dd"))
+          .filter((key) => excludedKeys.includes(key)),
+        game_dates_param: gameDates.map((date) => date.toISOString()),
+        home_team_id_param: gameTeams.home_team_id,
+        away_team_id_param: gameTeams.away_team_id,
+        division_id_param: level.divisionId,
+        level_id_param: level.levelId,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as GameSeriesResult;
+      if (!result.success) {
+        toast.error(describeSeriesFailure(result));
+        return;
+      }
+
+      toast.success(`Created ${result.games_created} games and umpire requests`);
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error creating series:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create series");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderDatePicker = (
+    label: string,
+    value: Date | undefined,
+    onChange: (date: Date | undefined) => void,
+    fromDate: Date
+  ) => (
+    <div className="grid gap-2">
+      <Label>{label}</Label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn("justify-start text-left font-normal", !value && "text-muted-foreground")}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : "Pick a date"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={value}
+            onSelect={onChange}
+            initialFocus
+            disabled={(day) => day < fromDate}
+            className="pointer-events-auto"
+          />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+
+  const tooMany = gameDates.length > MAX_SERIES_GAMES;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Build a Season</DialogTitle>
+          <DialogDescription>
+            Set up a repeating schedule and request umpires for every game at once.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="seriesName">Series Name</Label>
+              <Input
+                id="seriesName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Spring league home games"
+                required
+              />
+            </div>
+            <TeamMatchupPicker id="seriesOpponent" value={matchup} onChange={setMatchup} />
+            <VenuePicker id="seriesLocation" value={venue} onChange={setVenue} />
+            <div className="grid gap-2">
+              <Label>Days</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                value={daysOfWeek}
+                onValueChange={setDaysOfWeek}
+                className="flex-wrap justify-start"
+              >
+                {DAYS_OF_WEEK.map((day, index) => (
+                  <ToggleGroupItem key={day} value={String(index)} aria-label={day}>
+                    {day.slice(0, 3)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="seriesTime">Game Time</Label>
+              <Input
+                id="seriesTime"
+                type="time"
+                value={time}
+                onChange={(e) => setTime(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              {renderDatePicker("From", startDate, setStartDate, today())}
+              {renderDatePicker("To", endDate, setEndDate, startDate ?? today())}
+            </div>
+            <GameLevelPicker value={level} onChange={setLevel} />
+            <CrewPositionsPicker value={positions} onChange={setPositions} idPrefix="series-position" />
+
+            {patternDates.length > 0 && (
+              <div className="grid gap-2">
+                <Label>
+                  Games ({gameDates.length} of {patternDates.length})
+                </Label>
+                <p className="text-sm text-muted-foreground">Untick holidays and any other dates to skip.</p>
+                <ScrollArea className="h-48 rounded-md border p-2">
+                  <div className="grid gap-1">
+                    {patternDates.map((date) => {
+                      const key = format(date, "yyyy-MM-dd");
+                      const included = !excludedKeys.includes(key);
+                      return (
+                        <div key={key} className="flex items-center space-x-2">
+                          <Checkbox
+                            id={`series-date-${key}`}
+                            checked={included}
+                            onCheckedChange={(checked) => toggleDate(date, checked === true)}
+                          />
+                          <Label
+                            htmlFor={`series-date-${key}`}
+                            className={cn("font-normal", !included && "line-through text-muted-foreground")}
+                          >
+                            {format(date, "EEE, PPp")}
+                          </Label>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </ScrollArea>
+                {tooMany && (
+                  <p className="text-sm text-destructive">
+                    A series can have at most {MAX_SERIES_GAMES} games. Shorten the date range or pick fewer days.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || gameDates.length === 0 || tooMany}>
+              {loading ? "Creating..." : `Create ${gameDates.length} Games`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+
+      <GameConflictAlert
+        conflicts={conflicts}
+        confirmLabel="Create Anyway"
+        onCancel={() => setConflicts([])}
+        onConfirm={() => {
+          setConflicts([]);
+          submitSeries(true);
+        }}
+      />
+    </Dialog>
+  );
+};
+
+export default SeasonBuilderDialog;
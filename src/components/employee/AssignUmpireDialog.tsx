@@ -0,0 +1,351 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { Search, MapPin, Star, Sparkles } from "lucide-react";
+import { format } from "date-fns";
+import { UNAVAILABLE_REASON_LABELS, UnavailableReason } from "@/lib/availability";
+import { UmpireSuggestion } from "@/lib/matching";
+import { POSITION_LABELS, UmpirePosition, getOpenPositions } from "@/lib/crew";
+import { QualificationIssue, describeQualificationIssue } from "@/lib/levels";
+
+interface AssignUmpireDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  game: {
+    id: string;
+    opponent: string;
+    game_date: string;
+    location: string;
+    level: string | null;
+    required_positions: UmpirePosition[];
+    crew: {
+      umpire_id: string;
+      position: UmpirePosition;
+      umpire_profile?: { full_name: string | null; email: string };
+    }[];
+  };
+  onSuccess: () => void;
+}
+
+interface Candidate {
+  umpire_id: string;
+  full_name: string | null;
+  email: string;
+  distance_miles: number | null;
+  unavailable_reason: string | null;
+  conflict_opponent: string | null;
+  conflict_game_date: string | null;
+  average_rating: number | null;
+  rating_count: number;
+  current_position: UmpirePosition | null;
+}
+
+interface AssignUmpireResult {
+  success: boolean;
+  reason?:
+    | "not_employee"
+    | "not_umpire"
+    | "not_found"
+    | "game_closed"
+    | "already_assigned"
+    | "invalid_position"
+    | "crew_full"
+    | "schedule_conflict"
+    | QualificationIssue;
+}
+
+const AssignUmpireDialog = ({ open, onOpenChange, game, onSuccess }: AssignUmpireDialogProps) => {
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [suggestions, setSuggestions] = useState<UmpireSuggestion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [assigningId, setAssigningId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [conflictCandidate, setConflictCandidate] = useState<Candidate | null>(null);
+  const [targetPosition, setTargetPosition] = useState<UmpirePosition>(game.required_positions[0]);
+
+  useEffect(() => {
+    if (open) {
+      setSearch("");
+      // Default to the first open position; a full crew defaults to replacing the plate umpire
+      setTargetPosition(getOpenPositions(game.required_positions, game.crew)[0] || game.required_positions[0]);
+      fetchCandidates();
+    }
+  }, [open, game.id]);
+
+  const fetchCandidates = async () => {
+    setLoading(true);
+    try {
+      const [{ data, error }, { data: suggestionData, error: suggestionError }] = await Promise.all([
+        supabase.rpc("get_assignment_candidates", { game_id_param: game.id }),
+        supabase.rpc("get_umpire_suggestions", { game_id_param: game.id, limit_param: 3 }),
+      ]);
+
+      if (error) throw error;
+      if (suggestionError) throw suggestionError;
+      setSuggestions(suggestionData || []);
+
+      // Conflict-free, available umpires first, then closest
+      const sorted = [...(data || [])].sort((a, b) => {
+        const aBlocked = a.conflict_opponent || a.unavailable_reason ? 1 : 0;
+        const bBlocked = b.conflict_opponent || b.unavailable_reason ? 1 : 0;
+        if (aBlocked !== bBlocked) return aBlocked - bBlocked;
+        return (a.distance_miles ?? Infinity) - (b.distance_miles ?? Infinity);
+      });
+      setCandidates(sorted);
+    } catch (error) {
+      console.error("Error fetching candidates:", error);
+      toast.error("Failed to load umpires");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const describeAssignFailure = (result: AssignUmpireResult): string => {
+    switch (result.reason) {
+      case "game_closed":
+        return "This game is completed or cancelled";
+      case "already_assigned":
+        return "This umpire is already on the crew for this game";
+      case "invalid_position":
+        return "This game does not use that position";
+      case "crew_full":
+        return "Every position on this crew is already filled";
+      case "schedule_conflict":
+        return "This umpire has a conflicting game";
+      case "not_certified":
+      case "certification_expired":
+        return describeQualificationIssue(result.reason);
+      case "not_umpire":
+        return "The selected user is not an umpire";
+      case "not_found":
+        return "This game no longer exists";
+      default:
+        return "Unable to assign umpire";
+    }
+  };
+
+  const handleAssign = async (candidate: Candidate, force = false) => {
+    if (candidate.conflict_opponent && !force) {
+      setConflictCandidate(candidate);
+      return;
+    }
+
+    setAssigningId(candidate.umpire_id);
+    try {
+      const { data, error } = await supabase.rpc("assign_umpire", {
+        game_id_param: game.id,
+        umpire_id_param: candidate.umpire_id,
+        force_param: force,
+        position_param: targetPosition,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as AssignUmpireResult;
+      if (!result.success) {
+        toast.error(describeAssignFailure(result));
+        fetchCandidates();
+        return;
+      }
+
+      toast.success(`${candidate.full_name || candidate.email} assigned to ${POSITION_LABELS[targetPosition]}`);
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error assigning umpire:", error);
+      toast.error("Failed to assign umpire");
+    } finally {
+      setAssigningId(null);
+    }
+  };
+
+  const currentHolder = game.crew.find(m => m.position === targetPosition);
+  const query = search.trim().toLowerCase();
+  const filteredCandidates = candidates.filter(c =>
+    !query ||
+    (c.full_name || "").toLowerCase().includes(query) ||
+    c.email.toLowerCase().includes(query)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[650px]">
+        <DialogHeader>
+          <DialogTitle>{currentHolder ? "Reassign Umpire" : "Assign Umpire"}</DialogTitle>
+          <DialogDescription>
+            {game.opponent} · {format(new Date(game.game_date), "PPp")} · {game.location}
+            {game.level && ` · Only umpires certified for ${game.level} or above are listed`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {game.required_positions.length > 1 && (
+          <div className="flex flex-wrap gap-2">
+            {game.required_positions.map((position) => {
+              const holder = game.crew.find(m => m.position === position);
+              return (
+                <Button
+                  key={position}
+                  size="sm"
+                  variant={position === targetPosition ? "default" : "outline"}
+                  onClick={() => setTargetPosition(position)}
+                >
+                  {POSITION_LABELS[position]}: {holder ? holder.umpire_profile?.full_name || "Assigned" : "Open"}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search umpires by name or email"
+            className="pl-9"
+          />
+        </div>
+
+        {!loading && suggestions.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-1">
+              <Sparkles className="h-4 w-4" />
+              Suggested matches
+            </p>
+            <div className="grid gap-2 sm:grid-cols-3">
+              {suggestions.map((suggestion) => {
+                const candidate = candidates.find(c => c.umpire_id === suggestion.umpire_id);
+                return (
+                  <div key={suggestion.umpire_id} className="border rounded-lg p-3 space-y-2 bg-primary/5">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm truncate">{suggestion.full_name || candidate?.email}</span>
+                      <Badge variant="secondary">{suggestion.score}</Badge>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {suggestion.distance_miles !== null ? `${suggestion.distance_miles.toFixed(1)} mi` : "Distance unknown"}
+                      {" · "}
+                      {suggestion.average_rating !== null ? `${suggestion.average_rating}★` : "No ratings"}
+                      {" · "}
+                      {suggestion.reliability_score}% reliable
+                    </div>
+                    <Button
+                      size="sm"
+                      className="w-full"
+                      disabled={!candidate || assigningId !== null}
+                      onClick={() => candidate && handleAssign(candidate)}
+                    >
+                      {assigningId === suggestion.umpire_id ? "Assigning..." : "Assign"}
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        <ScrollArea className="h-[320px] pr-3">
+          {loading ? (
+            <p className="text-muted-foreground text-center py-4">Loading umpires...</p>
+          ) : filteredCandidates.length === 0 ? (
+            <p className="text-muted-foreground text-center py-4">No umpires found</p>
+          ) : (
+            <div className="space-y-2">
+              {filteredCandidates.map((candidate) => (
+                <div key={candidate.umpire_id} className="border rounded-lg p-3 flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{candidate.full_name || candidate.email}</span>
+                      {candidate.current_position && (
+                        <Badge>
+                          {game.required_positions.length > 1 ? POSITION_LABELS[candidate.current_position] : "Current"}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                      <span className="flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {candidate.distance_miles !== null
+                          ? `${candidate.distance_miles.toFixed(1)} mi`
+                          : "Distance unknown"}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Star className="h-3 w-3" />
+                        {candidate.average_rating !== null
+                          ? `${candidate.average_rating} (${candidate.rating_count})`
+                          : "No ratings"}
+                      </span>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {candidate.conflict_opponent && (
+                        <Badge variant="destructive">
+                          Conflict: {candidate.conflict_opponent} at {format(new Date(candidate.conflict_game_date), "p")}
+                        </Badge>
+                      )}
+                      {candidate.unavailable_reason && (
+                        <Badge variant="outline">
+                          {UNAVAILABLE_REASON_LABELS[candidate.unavailable_reason as UnavailableReason] || candidate.unavailable_reason}
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant={candidate.conflict_opponent ? "outline" : "default"}
+                    disabled={!!candidate.current_position || assigningId !== null}
+                    onClick={() => handleAssign(candidate)}
+                  >
+                    {assigningId === candidate.umpire_id
+                      ? "Assigning..."
+                      : candidate.conflict_opponent
+                      ? "Assign anyway"
+                      : "Assign"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </DialogContent>
+
+      <AlertDialog open={!!conflictCandidate} onOpenChange={(open) => !open && setConflictCandidate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Schedule conflict</AlertDialogTitle>
+            <AlertDialogDescription>
+              {conflictCandidate?.full_name || conflictCandidate?.email} already has a game against{" "}
+              {conflictCandidate?.conflict_opponent} around this time, including travel time. Assign anyway?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (conflictCandidate) handleAssign(conflictCandidate, true);
+                setConflictCandidate(null);
+              }}
+            >
+              Assign anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+};
+
+export default AssignUmpireDialog;
@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Wand2 } from "lucide-react";
+import { format } from "date-fns";
+import { MatchableGame, ProposedAssignment, UmpireSuggestion, planAutoFill } from "@/lib/matching";
+import { POSITION_LABELS } from "@/lib/crew";
+
+interface AutoFillGamesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  games: (MatchableGame & { opponent: string; location: string; required_positions: string[] })[];
+  onSuccess: () => void;
+}
+
+const AutoFillGamesDialog = ({ open, onOpenChange, games, onSuccess }: AutoFillGamesDialogProps) => {
+  const [plan, setPlan] = useState<ProposedAssignment[]>([]);
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      buildPlan();
+    }
+  }, [open]);
+
+  const proposalKey = (proposal: ProposedAssignment) => `${proposal.gameId}:${proposal.position}`;
+
+  const buildPlan = async () => {
+    setLoading(true);
+    try {
+      const suggestionsByGame = new Map<string, UmpireSuggestion[]>();
+
+      for (const game of games) {
+        const { data, error } = await supabase.rpc("get_umpire_suggestions", {
+          game_id_param: game.id,
+          limit_param: 10,
+        });
+
+        if (error) throw error;
+        suggestionsByGame.set(game.id, data || []);
+      }
+
+      const proposed = planAutoFill(games, suggestionsByGame);
+      setPlan(proposed);
+      setSelectedKeys(new Set(proposed.filter(p => p.suggestion).map(proposalKey)));
+    } catch (error) {
+      console.error("Error building auto-fill plan:", error);
+      toast.error("Failed to build suggestions");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleProposal = (key: string, checked: boolean) => {
+    setSelectedKeys(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const handleCommit = async () => {
+    const toAssign = plan.filter(p => p.suggestion && selectedKeys.has(proposalKey(p)));
+    if (toAssign.length === 0) {
+      toast.error("Select at least one assignment");
+      return;
+    }
+
+    setCommitting(true);
+    let successCount = 0;
+    let failedCount = 0;
+
+    try {
+      // Each assignment re-checks conflicts server-side, so a stale preview cannot double-book
+      for (const assignment of toAssign) {
+        const { data, error } = await supabase.rpc("assign_umpire", {
+          game_id_param: assignment.gameId,
+          umpire_id_param: assignment.suggestion!.umpire_id,
+          position_param: assignment.position,
+        });
+
+        const result = data as unknown as { success: boolean } | null;
+        if (error || !result?.success) {
+          failedCount++;
+        } else {
+          successCount++;
+        }
+      }
+
+      if (successCount > 0) {
+        toast.success(`Filled ${successCount} position${successCount === 1 ? "" : "s"}${failedCount > 0 ? `, ${failedCount} could not be assigned` : ""}`);
+        onSuccess();
+        onOpenChange(false);
+      } else {
+        toast.error("No positions could be filled");
+        buildPlan();
+      }
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  const gamesById = new Map(games.map(g => [g.id, g]));
+  const selectedCount = plan.filter(p => p.suggestion && selectedKeys.has(proposalKey(p))).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            Auto-Fill This Week
+          </DialogTitle>
+          <DialogDescription>
+            Review the best-scoring umpire for each open position in the next 7 days before assigning.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <p className="text-muted-foreground text-center py-8">Scoring umpires...</p>
+        ) : plan.length === 0 ? (
+          <p className="text-muted-foreground text-center py-8">No uncovered games in the next 7 days</p>
+        ) : (
+          <ScrollArea className="h-[400px] border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10" />
+                  <TableHead>Game</TableHead>
+                  <TableHead>Proposed Umpire</TableHead>
+                  <TableHead>Score</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {plan.map((proposal) => {
+                  const game = gamesById.get(proposal.gameId);
+                  const suggestion = proposal.suggestion;
+                  const key = proposalKey(proposal);
+
+                  return (
+                    <TableRow key={key} className={!suggestion ? "bg-destructive/10" : ""}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selectedKeys.has(key)}
+                          disabled={!suggestion}
+                          onCheckedChange={(checked) => toggleProposal(key, checked === true)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">
+                          {game?.opponent}
+                          {game && game.required_positions.length > 1 && ` · ${POSITION_LABELS[proposal.position]}`}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          {game && format(new Date(game.game_date), "EEE PPp")} · {game?.location}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {suggestion ? (
+                          <>
+                            <div>{suggestion.full_name || "Unnamed umpire"}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {suggestion.distance_miles !== null ? `${suggestion.distance_miles.toFixed(1)} mi` : "Distance unknown"}
+                              {" · "}
+                              {suggestion.average_rating !== null ? `${suggestion.average_rating}★` : "No ratings"}
+                              {" · "}
+                              {suggestion.upcoming_games} upcoming
+                            </div>
+                          </>
+                        ) : (
+                          <span className="text-sm text-destructive">No eligible umpire</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {suggestion && <Badge variant="secondary">{suggestion.score}</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleCommit} disabled={loading || committing || selectedCount === 0}>
+            {committing ? "Assigning..." : `Assign ${selectedCount} Game${selectedCount === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AutoFillGamesDialog;
@@ -2,14 +2,45 @@ import { useState, useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { toast } from "sonner";
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2 } from "lucide-react";
+import { Upload, FileSpreadsheet, AlertCircle, AlertTriangle, CheckCircle2, ArrowLeft, Download, MailPlus } from "lucide-react";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { geocodeAll, toCoordinates } from "@/lib/geocoding";
+import { Venue, fetchVenues } from "@/lib/venues";
+import {
+  CoachResolution,
+  ColumnMapping,
+  ExistingImportedGame,
+  GAME_FIELDS,
+  GameField,
+  ImportBatchResult,
+  ImportCoach,
+  ImportRowResult,
+  ImportSheet,
+  ImportedGameFields,
+  ParsedGame,
+  PendingCoachInvitation,
+  RowDiff,
+  TeamCoachAlias,
+  applyMapping,
+  diffImportedGame,
+  downloadErrorSpreadsheet,
+  findRemovedGames,
+  guessMapping,
+  missingRequiredFields,
+  resolveCoach,
+  restrictMapping,
+} from "@/lib/gameImport";
+import { importFileAccept, readImportFile } from "@/lib/importParsers";
+import { CONFLICT_TYPE_LABELS, GameConflict, describeConflict, findGameConflicts, groupConflictsByRow } from "@/lib/gameConflicts";
+import InviteCoachDialog from "@/components/employee/InviteCoachDialog";
 
 interface BulkUploadGamesDialogProps {
   open: boolean;
@@ -17,33 +48,53 @@ interface BulkUploadGamesDialogProps {
   onSuccess: () => void;
 }
 
-interface Coach {
+interface ImportSource {
   id: string;
-  full_name: string | null;
-  email: string;
+  name: string;
+  column_mapping: ColumnMapping;
 }
 
-interface ParsedGame {
-  opponent: string;
-  location: string;
-  date: string;
-  time: string;
-  valid: boolean;
-  error?: string;
-}
+type Step = "upload" | "map" | "preview" | "results";
+
+const NEW_SOURCE = "new";
+const UNMAPPED = "__unmapped__";
 
 const BulkUploadGamesDialog = ({ open, onOpenChange, onSuccess }: BulkUploadGamesDialogProps) => {
   const [loading, setLoading] = useState(false);
   const [uploading, setUploading] = useState(false);
-  const [coaches, setCoaches] = useState<Coach[]>([]);
+  const [step, setStep] = useState<Step>("upload");
+  const [coaches, setCoaches] = useState<ImportCoach[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [sources, setSources] = useState<ImportSource[]>([]);
+  const [invitations, setInvitations] = useState<PendingCoachInvitation[]>([]);
+  const [teamAliases, setTeamAliases] = useState<TeamCoachAlias[]>([]);
   const [selectedCoachId, setSelectedCoachId] = useState("");
+  const [coachOverrides, setCoachOverrides] = useState<Record<number, CoachResolution>>({});
+  const [inviteRowIndex, setInviteRowIndex] = useState<number | null>(null);
+  const [conflicts, setConflicts] = useState<GameConflict[]>([]);
+  const [conflictsConfirmed, setConflictsConfirmed] = useState(false);
+  const conflictCheckRef = useRef(0);
+  const [sourceId, setSourceId] = useState(NEW_SOURCE);
+  const [newSourceName, setNewSourceName] = useState("");
+  const [rememberMapping, setRememberMapping] = useState(true);
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
   const [parsedGames, setParsedGames] = useState<ParsedGame[]>([]);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [results, setResults] = useState<ImportRowResult[]>([]);
+  const [existingGames, setExistingGames] = useState<ExistingImportedGame[]>([]);
+  const [cancelGameIds, setCancelGameIds] = useState<string[]>([]);
   const [fileName, setFileName] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (open) {
       fetchCoaches();
+      fetchCoachLookups();
+      fetchSources();
+      fetchVenues()
+        .then(setVenues)
+        .catch((error) => console.error("Error fetching venues:", error));
       resetForm();
     }
   }, [open]);
@@ -59,7 +110,7 @@ const BulkUploadGamesDialog = ({ open, onOpenChange, onSuccess }: BulkUploadGame
 
       if (coachRoles && coachRoles.length > 0) {
         const coachIds = coachRoles.map(r => r.user_id);
-        
+
         const { data: profiles, error: profilesError } = await supabase
           .from("profiles")
           .select("id, full_name, email")
@@ -74,40 +125,68 @@ const BulkUploadGamesDialog = ({ open, onOpenChange, onSuccess }: BulkUploadGame
     }
   };
 
+  // Pending invitations and remembered team names, for resolving rows that don't match a coach account
+  const fetchCoachLookups = async () => {
+    try {
+      const { data: invitationData, error: invitationsError } = await supabase
+        .from("coach_invitations")
+        .select("id, email, full_name, team_name, token")
+        .is("accepted_at", null)
+        .order("email");
+
+      if (invitationsError) throw invitationsError;
+      setInvitations(invitationData || []);
+
+      const { data: aliasData, error: aliasesError } = await supabase
+        .from("team_coach_aliases")
+        .select("team_key, coach_id, coach_invitation_id");
+
+      if (aliasesError) throw aliasesError;
+      setTeamAliases(aliasData || []);
+    } catch (error) {
+      console.error("Error fetching coach lookups:", error);
+    }
+  };
+
+  const fetchSources = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("import_sources")
+        .select("id, name, column_mapping")
+        .order("name");
+
+      if (error) throw error;
+      setSources((data || []).map((s) => ({ ...s, column_mapping: s.column_mapping as ColumnMapping })));
+    } catch (error) {
+      console.error("Error fetching import sources:", error);
+    }
+  };
+
   const resetForm = () => {
+    setStep("upload");
     setSelectedCoachId("");
+    setSourceId(NEW_SOURCE);
+    setNewSourceName("");
+    setRememberMapping(true);
+    setSheet(null);
+    setMapping({});
     setParsedGames([]);
+    setCoachOverrides({});
+    setInviteRowIndex(null);
+    setConflicts([]);
+    setConflictsConfirmed(false);
+    setSkipInvalid(false);
+    setResults([]);
+    setExistingGames([]);
+    setCancelGameIds([]);
     setFileName("");
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   };
 
-  const parseExcelDate = (value: any): { date: string; time: string } | null => {
-    if (!value) return null;
-    
-    // If it's a number (Excel serial date)
-    if (typeof value === "number") {
-      const date = XLSX.SSF.parse_date_code(value);
-      if (date) {
-        const dateStr = `${date.y}-${String(date.m).padStart(2, "0")}-${String(date.d).padStart(2, "0")}`;
-        const timeStr = `${String(date.H).padStart(2, "0")}:${String(date.M).padStart(2, "0")}`;
-        return { date: dateStr, time: timeStr };
-      }
-    }
-    
-    // If it's a string, try to parse it
-    if (typeof value === "string") {
-      const parsed = new Date(value);
-      if (!isNaN(parsed.getTime())) {
-        const dateStr = parsed.toISOString().split("T")[0];
-        const timeStr = `${String(parsed.getHours()).padStart(2, "0")}:${String(parsed.getMinutes()).padStart(2, "0")}`;
-        return { date: dateStr, time: timeStr };
-      }
-    }
-    
-    return null;
-  };
+  const selectedSource = sources.find((s) => s.id === sourceId);
+  const sourceName = selectedSource?.name ?? newSourceName.trim();
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -117,243 +196,580 @@ const BulkUploadGamesDialog = ({ open, onOpenChange, onSuccess }: BulkUploadGame
     setUploading(true);
 
     try {
-      const buffer = await file.arrayBuffer();
-      const workbook = XLSX.read(buffer, { type: "array", cellDates: true });
-      
-      const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
-      const jsonData = XLSX.utils.sheet_to_json(firstSheet, { raw: false, dateNF: "yyyy-mm-dd" });
-
-      const games: ParsedGame[] = jsonData.map((row: any) => {
-        const opponent = row.opponent || row.Opponent || row.OPPONENT || "";
-        const location = row.location || row.Location || row.LOCATION || "";
-        
-        // Try to get date/time from various column names
-        let dateValue = row.date || row.Date || row.DATE || row.game_date || row.GameDate || "";
-        let timeValue = row.time || row.Time || row.TIME || row.game_time || row.GameTime || "18:00";
-        
-        // If there's a combined datetime column
-        const dateTimeValue = row.datetime || row.DateTime || row.DATETIME || row.game_datetime || "";
-        
-        let parsedDate = dateValue;
-        let parsedTime = timeValue;
-        
-        if (dateTimeValue) {
-          const parsed = parseExcelDate(dateTimeValue);
-          if (parsed) {
-            parsedDate = parsed.date;
-            parsedTime = parsed.time;
-          }
-        } else if (dateValue) {
-          // Try to parse just the date
-          const parsed = parseExcelDate(dateValue);
-          if (parsed) {
-            parsedDate = parsed.date;
-            if (parsed.time !== "00:00") {
-              parsedTime = parsed.time;
-            }
-          }
-        }
-
-        const errors: string[] = [];
-        if (!opponent) errors.push("Missing opponent");
-        if (!location) errors.push("Missing location");
-        if (!parsedDate) errors.push("Missing/invalid date");
-
-        return {
-          opponent: opponent.toString().trim(),
-          location: location.toString().trim(),
-          date: parsedDate.toString(),
-          time: parsedTime.toString() || "18:00",
-          valid: errors.length === 0,
-          error: errors.length > 0 ? errors.join(", ") : undefined
-        };
-      });
-
-      setParsedGames(games);
-      
-      const validCount = games.filter(g => g.valid).length;
-      const invalidCount = games.filter(g => !g.valid).length;
-      
-      if (invalidCount > 0) {
-        toast.warning(`Parsed ${games.length} games: ${validCount} valid, ${invalidCount} have errors`);
-      } else {
-        toast.success(`Parsed ${games.length} games successfully`);
+      const parsed = await readImportFile(file);
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast.error("The file has no header row or no data rows");
+        return;
       }
+
+      // A saved mapping wins; anything it doesn't cover falls back to recognised header names
+      const saved = selectedSource ? restrictMapping(selectedSource.column_mapping, parsed.headers) : {};
+      setMapping({ ...guessMapping(parsed.headers), ...saved });
+      setSheet(parsed);
+      setStep("map");
     } catch (error) {
       console.error("Error parsing file:", error);
-      toast.error("Failed to parse Excel file");
-      setParsedGames([]);
+      toast.error(error instanceof Error ? error.message : "Failed to parse file");
+      setSheet(null);
     } finally {
       setUploading(false);
     }
   };
 
-  const handleSubmit = async () => {
-    if (!selectedCoachId) {
-      toast.error("Please select a coach");
+  const setFieldHeader = (field: GameField, header: string) => {
+    const next = { ...mapping };
+    if (header === UNMAPPED) {
+      delete next[field];
+    } else {
+      next[field] = header;
+    }
+    setMapping(next);
+  };
+
+  const saveMapping = async (): Promise<string | null> => {
+    if (!sourceName) return null;
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from("import_sources")
+        .upsert(
+          { name: sourceName, column_mapping: mapping, created_by: selectedSource ? undefined : user?.id },
+          { onConflict: "name" }
+        )
+        .select("id, name, column_mapping")
+        .single();
+
+      if (error) throw error;
+
+      setSources([
+        ...sources.filter((s) => s.id !== data.id),
+        { ...data, column_mapping: data.column_mapping as ColumnMapping },
+      ]);
+      setSourceId(data.id);
+      return data.id;
+    } catch (error) {
+      console.error("Error saving column mapping:", error);
+      toast.error("Failed to save the column mapping");
+      return selectedSource?.id ?? null;
+    }
+  };
+
+  // Games this source created on earlier uploads, to diff the new file against
+  const fetchExistingGames = async (importSourceId: string | null) => {
+    if (!importSourceId) {
+      setExistingGames([]);
       return;
     }
 
+    try {
+      const { data, error } = await supabase
+        .from("games")
+        .select("id, external_id, game_date, location, venue_id, opponent, level, coach_id, coach_invitation_id, status")
+        .eq("import_source_id", importSourceId)
+        .not("external_id", "is", null);
+
+      if (error) throw error;
+      setExistingGames((data || []) as ExistingImportedGame[]);
+    } catch (error) {
+      console.error("Error fetching previously imported games:", error);
+      setExistingGames([]);
+    }
+  };
+
+  const handleApplyMapping = async () => {
+    if (!sheet) return;
+
+    const importSourceId = rememberMapping && sourceName ? await saveMapping() : selectedSource?.id ?? null;
+    await fetchExistingGames(importSourceId);
+
+    const games = applyMapping(sheet.rows, mapping, venues);
+    setParsedGames(games);
+    setCancelGameIds([]);
+    setStep("preview");
+
+    const validCount = games.filter(g => g.valid).length;
+    const invalidCount = games.length - validCount;
+
+    const unmatchedCount = games.filter(g => g.location && !g.venueId).length;
+    if (venues.length > 0 && unmatchedCount > 0) {
+      toast.info(`${unmatchedCount} locations didn't match a registered venue`);
+    }
+
+    if (invalidCount > 0) {
+      toast.warning(`Parsed ${games.length} games: ${validCount} valid, ${invalidCount} have errors`);
+    } else {
+      toast.success(`Parsed ${games.length} games successfully`);
+    }
+  };
+
+  const coachFor = (index: number): CoachResolution | null =>
+    resolveCoach(
+      parsedGames[index],
+      { coaches, invitations, aliases: teamAliases, defaultCoachId: selectedCoachId || null },
+      coachOverrides[index]
+    );
+
+  const rememberTeamCoach = async (teamName: string, choice: CoachResolution) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from("team_coach_aliases")
+        .upsert(
+          {
+            team_name: teamName,
+            coach_id: choice.kind === "coach" ? choice.coachId : null,
+            coach_invitation_id: choice.kind === "invitation" ? choice.invitationId : null,
+            created_by: user?.id,
+          },
+          { onConflict: "team_key" }
+        )
+        .select("team_key, coach_id, coach_invitation_id")
+        .single();
+
+      if (error) throw error;
+      setTeamAliases([...teamAliases.filter((a) => a.team_key !== data.team_key), data]);
+    } catch (error) {
+      console.error("Error saving team coach:", error);
+      toast.error(`Couldn't remember the coach for ${teamName}`);
+    }
+  };
+
+  // Picking a coach for one row settles every row that names the same team or coach email
+  const handlePickCoach = (index: number, choice: CoachResolution) => {
+    const picked = parsedGames[index];
+    const next = { ...coachOverrides };
+    parsedGames.forEach((game, i) => {
+      const sameTeam = picked.teamName && game.teamName === picked.teamName;
+      const sameEmail = picked.coachEmail && game.coachEmail === picked.coachEmail;
+      if (i === index || sameTeam || sameEmail) {
+        next[i] = choice;
+      }
+    });
+    setCoachOverrides(next);
+
+    if (picked.teamName) {
+      rememberTeamCoach(picked.teamName, choice);
+    }
+  };
+
+  const handleCoachSelect = (index: number, value: string) => {
+    const [kind, id] = value.split(":");
+    handlePickCoach(
+      index,
+      kind === "invite"
+        ? { kind: "invitation", invitationId: id, via: "manual" }
+        : { kind: "coach", coachId: id, via: "manual" }
+    );
+  };
+
+  const handleInvited = (invitation: PendingCoachInvitation) => {
+    setInvitations([...invitations, invitation]);
+    if (inviteRowIndex !== null) {
+      handlePickCoach(inviteRowIndex, { kind: "invitation", invitationId: invitation.id, via: "manual" });
+    }
+  };
+
+  const gameDateFor = (game: ParsedGame): string => {
+    const gameDateTime = new Date(`${game.date}T${game.time}`);
+    return isNaN(gameDateTime.getTime()) ? "" : gameDateTime.toISOString();
+  };
+
+  const toImportFields = (game: ParsedGame, index: number): ImportedGameFields => {
+    const coach = coachFor(index);
+    return {
+      game_date: gameDateFor(game),
+      location: venueName(game.venueId) ?? game.location,
+      venue_id: game.venueId,
+      opponent: game.opponent,
+      level: game.level,
+      coach_id: coach?.kind === "coach" ? coach.coachId : null,
+      coach_invitation_id: coach?.kind === "invitation" ? coach.invitationId : null,
+    };
+  };
+
+  const diffFor = (game: ParsedGame, index: number): RowDiff =>
+    diffImportedGame(
+      toImportFields(game, index),
+      game.externalId ? existingGames.find((g) => g.external_id === game.externalId) : undefined
+    );
+
+  useEffect(() => {
+    if (step === "preview") {
+      checkConflicts();
+    }
+  }, [step, parsedGames, coachOverrides, teamAliases, selectedCoachId, existingGames]);
+
+  // Re-run whenever rows or their coaches change; only the latest check's answer is kept
+  const checkConflicts = async () => {
+    const checkId = ++conflictCheckRef.current;
+    const candidates = parsedGames.flatMap((game, index) => {
+      const fields = toImportFields(game, index);
+      const existing = game.externalId ? existingGames.find((g) => g.external_id === game.externalId) : undefined;
+      if (!game.valid || !fields.game_date || diffImportedGame(fields, existing).kind === "unchanged") {
+        return [];
+      }
+
+      return [{
+        rowIndex: index,
+        gameId: existing?.id ?? null,
+        coachId: fields.coach_id,
+        coachInvitationId: fields.coach_invitation_id,
+        opponent: fields.opponent,
+        gameDate: fields.game_date,
+        venueId: fields.venue_id,
+        location: fields.location,
+      }];
+    });
+
+    try {
+      const found = await findGameConflicts(candidates);
+      if (checkId !== conflictCheckRef.current) return;
+      setConflicts(found);
+      setConflictsConfirmed(false);
+    } catch (error) {
+      console.error("Error checking for conflicts:", error);
+    }
+  };
+
+  const handleSubmit = async () => {
     const validGames = parsedGames.filter(g => g.valid);
-    if (validGames.length === 0) {
+    if (validGames.length === 0 && cancelGameIds.length === 0) {
       toast.error("No valid games to upload");
       return;
     }
 
     setLoading(true);
-    let successCount = 0;
-    let errorCount = 0;
 
     try {
-      for (const game of validGames) {
-        try {
-          const gameDateTime = new Date(`${game.date}T${game.time}`);
-          
-          if (isNaN(gameDateTime.getTime())) {
-            errorCount++;
-            continue;
-          }
-
-          const { data: createdGame, error: gameError } = await supabase
-            .from("games")
-            .insert({
-              coach_id: selectedCoachId,
-              game_date: gameDateTime.toISOString(),
-              location: game.location,
-              opponent: game.opponent,
-              status: "pending",
-            })
-            .select()
-            .single();
-
-          if (gameError) {
-            errorCount++;
-            continue;
-          }
-
-          const { error: requestError } = await supabase
-            .from("umpire_requests")
-            .insert({
-              game_id: createdGame.id,
-              coach_id: selectedCoachId,
-              status: "pending",
-            });
-
-          if (requestError) {
-            errorCount++;
-          } else {
-            successCount++;
-          }
-        } catch {
-          errorCount++;
+      // Games at a registered venue take its coordinates in the database
+      const unmatchedGames = validGames.filter((g) => !g.venueId);
+      const places = await geocodeAll(unmatchedGames.map((g) => g.location));
+      const unresolvedCount = unmatchedGames.filter((g) => !places.get(g.location.trim())).length;
+
+      // Rows that failed parsing never reach the server but still belong in the report
+      const clientFailures: ImportRowResult[] = [];
+      const batch = parsedGames.flatMap((game, index) => {
+        const fields = toImportFields(game, index);
+        if (!game.valid || !fields.game_date) {
+          clientFailures.push({ row_index: index, status: "failed", error: game.error || "Invalid date or time" });
+          return [];
+        }
+
+        return [{
+          row_index: index,
+          ...fields,
+          ...toCoordinates(places.get(game.location.trim()) ?? null),
+          external_id: game.externalId,
+        }];
+      });
+
+      const { data, error } = await supabase.rpc("import_games", {
+        rows_param: batch,
+        source_id_param: selectedSource?.id ?? null,
+        skip_invalid_param: skipInvalid,
+        cancel_game_ids_param: cancelGameIds,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as ImportBatchResult;
+      setResults([...clientFailures, ...result.rows].sort((a, b) => a.row_index - b.row_index));
+      setStep("results");
+
+      if (result.rolled_back) {
+        toast.error(`${result.failed_count} rows failed, so nothing was imported`);
+      } else {
+        const summary = [
+          `${result.created_count} created`,
+          result.updated_count > 0 && `${result.updated_count} updated`,
+          result.cancelled_count > 0 && `${result.cancelled_count} cancelled`,
+          result.failed_count > 0 && `${result.failed_count} failed`,
+        ].filter(Boolean).join(", ");
+        toast.success(`Import finished: ${summary}`);
+        if (unresolvedCount > 0) {
+          toast.warning(`${unresolvedCount} games have locations that could not be geocoded`);
         }
       }
 
-      if (successCount > 0) {
-        toast.success(`Created ${successCount} games successfully${errorCount > 0 ? `, ${errorCount} failed` : ""}`);
+      if (result.created_count + result.updated_count + result.cancelled_count > 0) {
         onSuccess();
-        onOpenChange(false);
-      } else {
-        toast.error("Failed to create any games");
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error creating games:", error);
-      toast.error("Failed to create games: " + error.message);
+      toast.error("Failed to create games: " + (error instanceof Error ? error.message : "unknown error"));
     } finally {
       setLoading(false);
     }
   };
 
+  const venueName = (venueId: string | null) => venues.find(v => v.id === venueId)?.name;
+
+  const setGameVenue = (index: number, venueId: string | null) => {
+    setParsedGames(parsedGames.map((game, i) => (i === index ? { ...game, venueId } : game)));
+  };
+
   const validGamesCount = parsedGames.filter(g => g.valid).length;
+  const invalidGamesCount = parsedGames.length - validGamesCount;
+  const unresolvedCoachCount = parsedGames.filter((game, index) => game.valid && !coachFor(index)).length;
+  const conflictsByRow = groupConflictsByRow(conflicts);
+  const conflictingRowCount = [...conflictsByRow.keys()].filter((index) => parsedGames[index]?.valid).length;
+  const rowDiffs = parsedGames.map(diffFor);
+  const diffCounts = {
+    new: rowDiffs.filter((d, i) => parsedGames[i].valid && d.kind === "new").length,
+    changed: rowDiffs.filter((d, i) => parsedGames[i].valid && d.kind === "changed").length,
+    unchanged: rowDiffs.filter((d, i) => parsedGames[i].valid && d.kind === "unchanged").length,
+  };
+  const removedGames = findRemovedGames(existingGames, parsedGames);
+
+  const toggleCancelGame = (gameId: string, checked: boolean) => {
+    setCancelGameIds(checked ? [...cancelGameIds, gameId] : cancelGameIds.filter((id) => id !== gameId));
+  };
+
+  const createdCount = results.filter((r) => r.status === "created").length;
+  const updatedCount = results.filter((r) => r.status === "updated").length;
+  const failedResults = results.filter((r) => r.status === "failed");
+  const rolledBackCount = results.filter((r) => r.status === "rolled_back").length;
+  const missingFields = missingRequiredFields(mapping);
+  const sampleRow = sheet?.rows[0];
+  const showLevel = parsedGames.some((g) => g.level);
+  const showExternalId = parsedGames.some((g) => g.externalId);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[700px] max-h-[90vh]">
+      <DialogContent className="sm:max-w-[800px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileSpreadsheet className="h-5 w-5" />
             Bulk Upload Games
           </DialogTitle>
           <DialogDescription>
-            Upload an Excel file (.xlsx, .xls) to create multiple games at once.
-            Required columns: opponent, location, date. Optional: time (defaults to 18:00).
+            {step === "upload" &&
+              "Upload an Excel, CSV or calendar (.ics) file to create multiple games at once. You'll match its columns to game fields next."}
+            {step === "map" && `Match the columns in ${fileName} to game fields.`}
+            {step === "preview" && "Check the games below before creating them."}
+            {step === "results" && "Rows that failed can be downloaded, fixed and uploaded again on their own."}
           </DialogDescription>
         </DialogHeader>
 
-        <div className="grid gap-4 py-4">
-          <div className="grid gap-2">
-            <Label htmlFor="coach">Assign to Coach</Label>
-            <Select value={selectedCoachId} onValueChange={setSelectedCoachId}>
-              <SelectTrigger>
-                <SelectValue placeholder="Select a coach for all games" />
-              </SelectTrigger>
-              <SelectContent>
-                {coaches.map((coach) => (
-                  <SelectItem key={coach.id} value={coach.id}>
-                    {coach.full_name || coach.email}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        {step === "upload" && (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="coach">Default Coach (optional)</Label>
+              <Select value={selectedCoachId} onValueChange={setSelectedCoachId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="For rows without a coach email or team" />
+                </SelectTrigger>
+                <SelectContent>
+                  {coaches.map((coach) => (
+                    <SelectItem key={coach.id} value={coach.id}>
+                      {coach.full_name || coach.email}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
 
-          <div className="grid gap-2">
-            <Label>Excel File</Label>
-            <div className="flex gap-2">
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept=".xlsx,.xls"
-                onChange={handleFileUpload}
-                className="hidden"
-                id="excel-upload"
-              />
-              <Button
-                type="button"
-                variant="outline"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={uploading}
-                className="flex-1"
-              >
-                <Upload className="mr-2 h-4 w-4" />
-                {uploading ? "Parsing..." : fileName || "Choose Excel File"}
-              </Button>
+            <div className="grid gap-2">
+              <Label htmlFor="importSource">Source</Label>
+              <Select value={sourceId} onValueChange={setSourceId}>
+                <SelectTrigger id="importSource">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEW_SOURCE}>New source</SelectItem>
+                  {sources.map((source) => (
+                    <SelectItem key={source.id} value={source.id}>
+                      {source.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {sourceId === NEW_SOURCE && (
+                <Input
+                  value={newSourceName}
+                  onChange={(e) => setNewSourceName(e.target.value)}
+                  placeholder="e.g. County Rec League export"
+                  maxLength={100}
+                />
+              )}
+              <p className="text-xs text-muted-foreground">
+                Naming the source lets its column mapping be reused on the next upload.
+              </p>
             </div>
-          </div>
 
-          {parsedGames.length > 0 && (
             <div className="grid gap-2">
-              <div className="flex items-center justify-between">
-                <Label>Preview ({parsedGames.length} games)</Label>
-                <div className="flex gap-2">
-                  <Badge variant="default">
-                    <CheckCircle2 className="mr-1 h-3 w-3" />
-                    {validGamesCount} valid
-                  </Badge>
-                  {parsedGames.length - validGamesCount > 0 && (
-                    <Badge variant="destructive">
-                      <AlertCircle className="mr-1 h-3 w-3" />
-                      {parsedGames.length - validGamesCount} errors
-                    </Badge>
-                  )}
-                </div>
+              <Label>Schedule File</Label>
+              <div className="flex gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={importFileAccept()}
+                  onChange={handleFileUpload}
+                  className="hidden"
+                  id="excel-upload"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploading}
+                  className="flex-1"
+                >
+                  <Upload className="mr-2 h-4 w-4" />
+                  {uploading ? "Parsing..." : fileName || "Choose File"}
+                </Button>
               </div>
-              <ScrollArea className="h-[250px] border rounded-md">
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Opponent</TableHead>
-                      <TableHead>Location</TableHead>
-                      <TableHead>Date</TableHead>
-                      <TableHead>Time</TableHead>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <div className="grid gap-4 py-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Game Field</TableHead>
+                  <TableHead>Column in File</TableHead>
+                  <TableHead>First Row</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {GAME_FIELDS.map((definition) => {
+                  const header = mapping[definition.field];
+                  return (
+                    <TableRow key={definition.field}>
+                      <TableCell>
+                        <div className="font-medium">{definition.label}</div>
+                        <div className="text-xs text-muted-foreground">{definition.description}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={header ?? UNMAPPED}
+                          onValueChange={(value) => setFieldHeader(definition.field, value)}
+                        >
+                          <SelectTrigger className="w-[200px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                            {sheet.headers.map((h) => (
+                              <SelectItem key={h} value={h}>
+                                {h}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-[200px] truncate">
+                        {header && sampleRow ? String(sampleRow[header] ?? "") || "-" : "-"}
+                      </TableCell>
                     </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {parsedGames.map((game, index) => (
-                      <TableRow key={index} className={!game.valid ? "bg-destructive/10" : ""}>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {missingFields.length > 0 && (
+              <p className="flex items-center gap-1 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Map a column for: {missingFields.join(", ")}
+              </p>
+            )}
+
+            {sourceName && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="rememberMapping"
+                  checked={rememberMapping}
+                  onCheckedChange={(checked) => setRememberMapping(checked === true)}
+                />
+                <Label htmlFor="rememberMapping" className="font-normal cursor-pointer">
+                  Remember this mapping for {sourceName}
+                </Label>
+              </div>
+            )}
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="grid gap-2 py-4">
+            <div className="flex items-center justify-between">
+              <Label>Preview ({parsedGames.length} games)</Label>
+              <div className="flex gap-2">
+                <Badge variant="default">
+                  <CheckCircle2 className="mr-1 h-3 w-3" />
+                  {validGamesCount} valid
+                </Badge>
+                {parsedGames.length - validGamesCount > 0 && (
+                  <Badge variant="destructive">
+                    <AlertCircle className="mr-1 h-3 w-3" />
+                    {parsedGames.length - validGamesCount} errors
+                  </Badge>
+                )}
+                {unresolvedCoachCount > 0 && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-600">
+                    {unresolvedCoachCount} need a coach
+                  </Badge>
+                )}
+                {conflictingRowCount > 0 && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-600">
+                    <AlertTriangle className="mr-1 h-3 w-3" />
+                    {conflictingRowCount} possible conflicts
+                  </Badge>
+                )}
+              </div>
+            </div>
+            {existingGames.length > 0 && (
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="secondary">{diffCounts.new} new</Badge>
+                <Badge variant="secondary">{diffCounts.changed} changed</Badge>
+                <Badge variant="outline">{diffCounts.unchanged} unchanged</Badge>
+                <Badge variant="outline">{removedGames.length} removed</Badge>
+              </div>
+            )}
+            <ScrollArea className="h-[350px] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Status</TableHead>
+                    {existingGames.length > 0 && <TableHead>Change</TableHead>}
+                    {showExternalId && <TableHead>ID</TableHead>}
+                    <TableHead>Opponent</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Venue</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Time</TableHead>
+                    {showLevel && <TableHead>Level</TableHead>}
+                    <TableHead>Coach</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {parsedGames.map((game, index) => {
+                    const coach = coachFor(index);
+                    const diff = rowDiffs[index];
+                    const rowConflicts = conflictsByRow.get(index) || [];
+                    return (
+                      <TableRow
+                        key={index}
+                        className={
+                          !game.valid ? "bg-destructive/10" : !coach || rowConflicts.length > 0 ? "bg-amber-500/10" : ""
+                        }
+                      >
                         <TableCell>
-                          {game.valid ? (
+                          {game.valid && rowConflicts.length > 0 ? (
+                            <div className="space-y-1 text-xs min-w-[180px]">
+                              {rowConflicts.map((conflict, conflictIndex) => (
+                                <div key={conflictIndex}>
+                                  <span className="flex items-center gap-1 text-amber-600">
+                                    <AlertTriangle className="h-4 w-4" />
+                                    {CONFLICT_TYPE_LABELS[conflict.type]}
+                                  </span>
+                                  <span className="text-muted-foreground">{describeConflict(conflict)}</span>
+                                </div>
+                              ))}
+                            </div>
+                          ) : game.valid ? (
                             <CheckCircle2 className="h-4 w-4 text-green-500" />
                           ) : (
                             <span className="flex items-center gap-1 text-destructive text-xs">
@@ -362,31 +778,294 @@ const BulkUploadGamesDialog = ({ open, onOpenChange, onSuccess }: BulkUploadGame
                             </span>
                           )}
                         </TableCell>
+                        {existingGames.length > 0 && (
+                          <TableCell className="text-xs">
+                            {diff.kind === "new" && <Badge variant="secondary">New</Badge>}
+                            {diff.kind === "changed" && (
+                              <div className="space-y-1">
+                                <Badge>Changed</Badge>
+                                <div className="text-muted-foreground">{diff.changes.join(", ")}</div>
+                              </div>
+                            )}
+                            {diff.kind === "unchanged" && <span className="text-muted-foreground">Unchanged</span>}
+                          </TableCell>
+                        )}
+                        {showExternalId && <TableCell className="text-xs">{game.externalId || "-"}</TableCell>}
                         <TableCell>{game.opponent || "-"}</TableCell>
                         <TableCell>{game.location || "-"}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={game.venueId ?? "none"}
+                            onValueChange={(value) => setGameVenue(index, value === "none" ? null : value)}
+                          >
+                            <SelectTrigger className={`h-8 w-[160px] ${!game.venueId ? "text-muted-foreground" : ""}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">No match</SelectItem>
+                              {venues.map((venue) => (
+                                <SelectItem key={venue.id} value={venue.id}>
+                                  {venue.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
                         <TableCell>{game.date || "-"}</TableCell>
                         <TableCell>{game.time || "-"}</TableCell>
+                        {showLevel && <TableCell>{game.level || "-"}</TableCell>}
+                        <TableCell className="text-xs">
+                          <div className="flex items-center gap-1">
+                            <Select
+                              value={
+                                coach?.kind === "coach"
+                                  ? `coach:${coach.coachId}`
+                                  : coach?.kind === "invitation"
+                                    ? `invite:${coach.invitationId}`
+                                    : ""
+                              }
+                              onValueChange={(value) => handleCoachSelect(index, value)}
+                            >
+                              <SelectTrigger className={`h-8 w-[170px] ${!coach ? "border-amber-500" : ""}`}>
+                                <SelectValue placeholder="Pick a coach" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {coaches.map((c) => (
+                                  <SelectItem key={c.id} value={`coach:${c.id}`}>
+                                    {c.full_name || c.email}
+                                  </SelectItem>
+                                ))}
+                                {invitations.map((invitation) => (
+                                  <SelectItem key={invitation.id} value={`invite:${invitation.id}`}>
+                                    {invitation.full_name || invitation.email} (invited)
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            {!coach && (
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Invite a new coach"
+                                onClick={() => setInviteRowIndex(index)}
+                              >
+                                <MailPlus className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                          {!coach && (game.coachEmail || game.teamName) && (
+                            <div className="text-amber-600 mt-1">No coach for {game.coachEmail || game.teamName}</div>
+                          )}
+                          {coach?.via === "team" && (
+                            <div className="text-muted-foreground mt-1">via {game.teamName}</div>
+                          )}
+                        </TableCell>
                       </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </ScrollArea>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            {removedGames.length > 0 && (
+              <div className="grid gap-2 pt-2">
+                <Label>Missing from this file ({removedGames.length})</Label>
+                <p className="text-xs text-muted-foreground">
+                  These upcoming games came from {sourceName} before but aren't in this file. Tick any that should
+                  be cancelled; assigned umpires will be notified.
+                </p>
+                <div className="border rounded-md divide-y max-h-[160px] overflow-y-auto">
+                  {removedGames.map((game) => (
+                    <div key={game.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                      <Checkbox
+                        id={`cancel-${game.id}`}
+                        checked={cancelGameIds.includes(game.id)}
+                        onCheckedChange={(checked) => toggleCancelGame(game.id, checked === true)}
+                      />
+                      <Label htmlFor={`cancel-${game.id}`} className="font-normal cursor-pointer flex-1">
+                        <span className="font-medium">{game.opponent}</span>
+                        <span className="text-muted-foreground">
+                          {" "}· {format(new Date(game.game_date), "PPp")} · {game.location} · #{game.external_id}
+                        </span>
+                      </Label>
+                      {game.status === "assigned" && <Badge variant="outline">Assigned</Badge>}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            {conflictingRowCount > 0 && (
+              <div className="flex items-center space-x-2 pt-2">
+                <Checkbox
+                  id="conflictsConfirmed"
+                  checked={conflictsConfirmed}
+                  onCheckedChange={(checked) => setConflictsConfirmed(checked === true)}
+                />
+                <Label htmlFor="conflictsConfirmed" className="font-normal cursor-pointer">
+                  I've checked the {conflictingRowCount} possible conflicts and want to import them anyway
+                </Label>
+              </div>
+            )}
+            <div className="flex items-center space-x-2 pt-2">
+              <Checkbox
+                id="skipInvalid"
+                checked={skipInvalid}
+                onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+              />
+              <Label htmlFor="skipInvalid" className="font-normal cursor-pointer">
+                Skip bad rows and create the rest
+              </Label>
             </div>
-          )}
-        </div>
+            {!skipInvalid && invalidGamesCount + unresolvedCoachCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                Without skipping, the upload is all-or-nothing: fix the rows with errors and pick coaches for the
+                rest first.
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "results" && (
+          <div className="grid gap-2 py-4">
+            <div className="flex gap-2">
+              <Badge variant="default">
+                <CheckCircle2 className="mr-1 h-3 w-3" />
+                {createdCount} created
+              </Badge>
+              {updatedCount > 0 && <Badge variant="secondary">{updatedCount} updated</Badge>}
+              {failedResults.length > 0 && (
+                <Badge variant="destructive">
+                  <AlertCircle className="mr-1 h-3 w-3" />
+                  {failedResults.length} failed
+                </Badge>
+              )}
+              {rolledBackCount > 0 && (
+                <Badge variant="outline">{rolledBackCount} not created because the batch was rejected</Badge>
+              )}
+            </div>
+            <ScrollArea className="h-[350px] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Opponent</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.map((result) => {
+                    const game = parsedGames[result.row_index];
+                    return (
+                      <TableRow
+                        key={result.row_index}
+                        className={result.status === "failed" ? "bg-destructive/10" : ""}
+                      >
+                        {/* Spreadsheet row numbers, counting the header row */}
+                        <TableCell>{result.row_index + 2}</TableCell>
+                        <TableCell>{game?.opponent || "-"}</TableCell>
+                        <TableCell>{game?.date || "-"}</TableCell>
+                        <TableCell>
+                          {result.status === "created" && (
+                            <span className="flex items-center gap-1 text-xs">
+                              <CheckCircle2 className="h-4 w-4 text-green-500" />
+                              Created
+                            </span>
+                          )}
+                          {result.status === "updated" && (
+                            <span className="flex items-center gap-1 text-xs">
+                              <CheckCircle2 className="h-4 w-4 text-green-500" />
+                              Updated {result.changes?.join(", ")}
+                            </span>
+                          )}
+                          {result.status === "unchanged" && (
+                            <span className="text-xs text-muted-foreground">Unchanged</span>
+                          )}
+                          {result.status === "failed" && (
+                            <span className="flex items-center gap-1 text-destructive text-xs">
+                              <AlertCircle className="h-4 w-4" />
+                              {result.error}
+                            </span>
+                          )}
+                          {result.status === "rolled_back" && (
+                            <span className="text-xs text-muted-foreground">Not created</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
 
         <DialogFooter>
-          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-            Cancel
-          </Button>
-          <Button 
-            onClick={handleSubmit} 
-            disabled={loading || validGamesCount === 0 || !selectedCoachId}
-          >
-            {loading ? "Creating..." : `Create ${validGamesCount} Games`}
-          </Button>
+          {(step === "map" || step === "preview") && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setStep(step === "preview" ? "map" : "upload")}
+              className="mr-auto"
+            >
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back
+            </Button>
+          )}
+          {step === "results" ? (
+            <>
+              {failedResults.length > 0 && sheet && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => downloadErrorSpreadsheet(sheet, results, fileName)}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Error Rows
+                </Button>
+              )}
+              <Button type="button" onClick={() => onOpenChange(false)}>
+                Done
+              </Button>
+            </>
+          ) : (
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+          )}
+          {step === "map" && (
+            <Button onClick={handleApplyMapping} disabled={missingFields.length > 0}>
+              Preview Games
+            </Button>
+          )}
+          {step === "preview" && (
+            <Button
+              onClick={handleSubmit}
+              disabled={
+                loading ||
+                (validGamesCount === 0 && cancelGameIds.length === 0) ||
+                (!skipInvalid && invalidGamesCount + unresolvedCoachCount > 0) ||
+                (conflictingRowCount > 0 && !conflictsConfirmed)
+              }
+            >
+              {loading
+                ? "Importing..."
+                : existingGames.length > 0
+                  ? `Import ${validGamesCount} Games${cancelGameIds.length > 0 ? `, Cancel ${cancelGameIds.length}` : ""}`
+                  : `Create ${validGamesCount} Games`}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
+
+      <InviteCoachDialog
+        open={inviteRowIndex !== null}
+        onOpenChange={(isOpen) => !isOpen && setInviteRowIndex(null)}
+        defaultEmail={inviteRowIndex !== null ? parsedGames[inviteRowIndex]?.coachEmail : null}
+        defaultTeamName={inviteRowIndex !== null ? parsedGames[inviteRowIndex]?.teamName : null}
+        onSuccess={handleInvited}
+      />
     </Dialog>
   );
 };
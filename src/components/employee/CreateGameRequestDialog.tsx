@@ -11,6 +11,14 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import CrewPositionsPicker from "@/components/CrewPositionsPicker";
+import GameLevelPicker from "@/components/GameLevelPicker";
+import VenuePicker, { VenueSelection } from "@/components/VenuePicker";
+import { UmpirePosition } from "@/lib/crew";
+import GameConflictAlert from "@/components/GameConflictAlert";
+import { geocode, toCoordinates } from "@/lib/geocoding";
+import { GameConflict, findGameConflicts } from "@/lib/gameConflicts";
+import { EMPTY_LEVEL, LevelSelection, toGameLevel } from "@/lib/levels";
 
 interface CreateGameRequestDialogProps {
   open: boolean;
@@ -31,7 +39,10 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
   const [date, setDate] = useState<Date>();
   const [time, setTime] = useState("18:00");
   const [opponent, setOpponent] = useState("");
-  const [location, setLocation] = useState("");
+  const [venue, setVenue] = useState<VenueSelection>({ venueId: null, location: "" });
+  const [level, setLevel] = useState<LevelSelection>(EMPTY_LEVEL);
+  const [positions, setPositions] = useState<UmpirePosition[]>(["plate"]);
+  const [conflicts, setConflicts] = useState<GameConflict[]>([]);
 
   useEffect(() => {
     if (open) {
@@ -66,8 +77,12 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    submitGame(false);
+  };
+
+  const submitGame = async (confirmed: boolean) => {
     if (!selectedCoachId || !date) {
       toast.error("Please select a coach and date");
       return;
@@ -79,14 +94,35 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
       const [hours, minutes] = time.split(":");
       gameDateTime.setHours(parseInt(hours), parseInt(minutes));
 
+      if (!confirmed) {
+        const found = await findGameConflicts([{
+          rowIndex: 0,
+          coachId: selectedCoachId,
+          opponent,
+          gameDate: gameDateTime.toISOString(),
+          venueId: venue.venueId,
+          location: venue.location,
+        }]);
+        if (found.length > 0) {
+          setConflicts(found);
+          return;
+        }
+      }
+
+      const place = await geocode(venue.location);
+
       const { data: game, error: gameError } = await supabase
         .from("games")
         .insert({
           coach_id: selectedCoachId,
           game_date: gameDateTime.toISOString(),
-          location,
+          location: venue.location,
+          venue_id: venue.venueId,
+          ...toCoordinates(place),
           opponent,
+          ...toGameLevel(level),
           status: "pending",
+          required_positions: positions,
         })
         .select()
         .single();
@@ -104,6 +140,9 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
       if (requestError) throw requestError;
 
       toast.success("Game and umpire request created successfully!");
+      if (!place) {
+        toast.warning("Location not found in the gazetteer, so this game won't appear in distance filters");
+      }
       onSuccess();
       onOpenChange(false);
       resetForm();
@@ -120,7 +159,9 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
     setDate(undefined);
     setTime("18:00");
     setOpponent("");
-    setLocation("");
+    setVenue({ venueId: null, location: "" });
+    setLevel(EMPTY_LEVEL);
+    setPositions(["plate"]);
   };
 
   return (
@@ -159,16 +200,7 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
                 required
               />
             </div>
-            <div className="grid gap-2">
-              <Label htmlFor="location">Location</Label>
-              <Input
-                id="location"
-                value={location}
-                onChange={(e) => setLocation(e.target.value)}
-                placeholder="Enter game location"
-                required
-              />
-            </div>
+            <VenuePicker value={venue} onChange={setVenue} />
             <div className="grid gap-2">
               <Label>Game Date</Label>
               <Popover>
@@ -206,6 +238,8 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
                 required
               />
             </div>
+            <GameLevelPicker value={level} onChange={setLevel} />
+            <CrewPositionsPicker value={positions} onChange={setPositions} />
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
@@ -217,6 +251,16 @@ const CreateGameRequestDialog = ({ open, onOpenChange, onSuccess }: CreateGameRe
           </DialogFooter>
         </form>
       </DialogContent>
+
+      <GameConflictAlert
+        conflicts={conflicts}
+        confirmLabel="Create Anyway"
+        onCancel={() => setConflicts([])}
+        onConfirm={() => {
+          setConflicts([]);
+          submitGame(true);
+        }}
+      />
     </Dialog>
   );
 };
@@ -0,0 +1,97 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+
+interface GameStatusTimelineProps {
+  gameId: string;
+}
+
+interface StatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  changed_by: string | null;
+  changed_at: string;
+  actor_name?: string;
+}
+
+const GameStatusTimeline = ({ gameId }: GameStatusTimelineProps) => {
+  const [history, setHistory] = useState<StatusChange[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [gameId]);
+
+  const fetchHistory = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("game_status_history")
+        .select("id, from_status, to_status, changed_by, changed_at")
+        .eq("game_id", gameId)
+        .order("changed_at", { ascending: true });
+
+      if (error) throw error;
+
+      const actorIds = [...new Set((data || []).map(h => h.changed_by).filter(Boolean))];
+      const actorNames = new Map<string, string>();
+
+      if (actorIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("id, full_name, email")
+          .in("id", actorIds);
+
+        (profiles || []).forEach(p => actorNames.set(p.id, p.full_name || p.email));
+      }
+
+      setHistory(
+        (data || []).map(h => ({
+          ...h,
+          actor_name: h.changed_by ? actorNames.get(h.changed_by) : undefined,
+        }))
+      );
+    } catch (error) {
+      console.error("Error fetching status history:", error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (loading) {
+    return <p className="text-xs text-muted-foreground">Loading history...</p>;
+  }
+
+  if (history.length === 0) {
+    return <p className="text-xs text-muted-foreground">No status changes recorded</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {history.map((change) => (
+        <li key={change.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-primary" />
+          <div className="flex items-center gap-2 text-sm">
+            {change.from_status ? (
+              <>
+                <Badge variant="outline">{change.from_status}</Badge>
+                <span className="text-muted-foreground">→</span>
+              </>
+            ) : (
+              <span className="text-muted-foreground">Created as</span>
+            )}
+            <Badge variant="secondary">{change.to_status}</Badge>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {format(new Date(change.changed_at), "PPp")}
+            {" · "}
+            {change.actor_name || (change.changed_by ? "Unknown user" : "System")}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default GameStatusTimeline;
@@ -0,0 +1,148 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Copy, MailPlus } from "lucide-react";
+import { PendingCoachInvitation } from "@/lib/gameImport";
+
+interface InviteCoachDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultEmail?: string | null;
+  defaultTeamName?: string | null;
+  onSuccess: (invitation: PendingCoachInvitation) => void;
+}
+
+const getInvitationLink = (token: string) => `${window.location.origin}/auth?invite=${token}`;
+
+const InviteCoachDialog = ({ open, onOpenChange, defaultEmail, defaultTeamName, onSuccess }: InviteCoachDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [email, setEmail] = useState("");
+  const [fullName, setFullName] = useState("");
+  const [teamName, setTeamName] = useState("");
+  const [invitation, setInvitation] = useState<PendingCoachInvitation | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setEmail(defaultEmail || "");
+      setFullName("");
+      setTeamName(defaultTeamName || "");
+      setInvitation(null);
+    }
+  }, [open, defaultEmail, defaultTeamName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setLoading(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from("coach_invitations")
+        .insert({
+          email: email.trim().toLowerCase(),
+          full_name: fullName.trim() || null,
+          team_name: teamName.trim() || null,
+          invited_by: user?.id,
+        })
+        .select("id, email, full_name, team_name, token")
+        .single();
+
+      if (error) throw error;
+
+      setInvitation(data);
+      onSuccess(data);
+      toast.success(`Invitation created for ${data.email}`);
+    } catch (error) {
+      console.error("Error inviting coach:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create invitation");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!invitation) return;
+    await navigator.clipboard.writeText(getInvitationLink(invitation.token));
+    toast.success("Invitation link copied");
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MailPlus className="h-5 w-5" />
+            Invite Coach
+          </DialogTitle>
+          <DialogDescription>
+            Games can be imported for the coach now. They take them over when they sign up from the invitation link with this email.
+          </DialogDescription>
+        </DialogHeader>
+        {invitation ? (
+          <div className="grid gap-4 py-4">
+            <p className="text-sm">Send this sign-up link to {invitation.email}:</p>
+            <div className="flex gap-2">
+              <Input value={getInvitationLink(invitation.token)} readOnly />
+              <Button type="button" variant="outline" size="icon" onClick={handleCopyLink}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <DialogFooter>
+              <Button type="button" onClick={() => onOpenChange(false)}>
+                Done
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="inviteEmail">Email</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  placeholder="coach@example.com"
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="inviteName">Full Name</Label>
+                <Input
+                  id="inviteName"
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="inviteTeam">Team</Label>
+                <Input
+                  id="inviteTeam"
+                  value={teamName}
+                  onChange={(e) => setTeamName(e.target.value)}
+                  placeholder="Optional"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={loading || !email.trim()}>
+                {loading ? "Inviting..." : "Create Invitation"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteCoachDialog;
@@ -0,0 +1,294 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Award, CalendarIcon, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { cn } from "@/lib/utils";
+import CertificationStatusBadge from "@/components/CertificationStatusBadge";
+import {
+  GameLevel,
+  UmpireCertification,
+  fetchCertifications,
+  fetchGameLevels,
+  getCertificationStatus,
+} from "@/lib/levels";
+
+interface ManageCertificationsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface Umpire {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+const ManageCertificationsDialog = ({ open, onOpenChange }: ManageCertificationsDialogProps) => {
+  const { user } = useAuth();
+  const [umpires, setUmpires] = useState<Umpire[]>([]);
+  const [levels, setLevels] = useState<GameLevel[]>([]);
+  const [certifications, setCertifications] = useState<UmpireCertification[]>([]);
+  const [umpireId, setUmpireId] = useState("");
+  const [levelId, setLevelId] = useState("");
+  const [certifiedOn, setCertifiedOn] = useState<Date>();
+  const [expiresOn, setExpiresOn] = useState<Date>();
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadData();
+      setUmpireId("");
+      resetForm();
+    }
+  }, [open]);
+
+  const loadData = async () => {
+    try {
+      const { data: umpireRoles, error: rolesError } = await supabase
+        .from("user_roles")
+        .select("user_id")
+        .eq("role", "umpire");
+
+      if (rolesError) throw rolesError;
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("id, full_name, email")
+        .in("id", (umpireRoles || []).map((r) => r.user_id))
+        .order("full_name");
+
+      if (profilesError) throw profilesError;
+
+      const [loadedLevels, loadedCertifications] = await Promise.all([fetchGameLevels(), fetchCertifications()]);
+      setUmpires(profiles || []);
+      setLevels(loadedLevels);
+      setCertifications(loadedCertifications);
+    } catch (error) {
+      console.error("Error fetching certifications:", error);
+      toast.error("Failed to load certifications");
+    }
+  };
+
+  const resetForm = () => {
+    setLevelId("");
+    setCertifiedOn(new Date());
+    setExpiresOn(undefined);
+    setNotes("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!umpireId || !levelId || !certifiedOn) return;
+
+    setLoading(true);
+    try {
+      // Re-certifying at a level replaces the earlier record
+      const { error } = await supabase.from("umpire_certifications").upsert(
+        {
+          umpire_id: umpireId,
+          level_id: levelId,
+          certified_on: format(certifiedOn, "yyyy-MM-dd"),
+          expires_on: expiresOn ? format(expiresOn, "yyyy-MM-dd") : null,
+          notes: notes.trim() || null,
+          created_by: user?.id,
+        },
+        { onConflict: "umpire_id,level_id" }
+      );
+
+      if (error) throw error;
+
+      toast.success("Certification saved");
+      resetForm();
+      loadData();
+    } catch (error) {
+      console.error("Error saving certification:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save certification");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (certification: UmpireCertification) => {
+    try {
+      const { error } = await supabase.from("umpire_certifications").delete().eq("id", certification.id);
+      if (error) throw error;
+
+      setCertifications(certifications.filter((c) => c.id !== certification.id));
+      toast.success("Certification removed");
+    } catch (error) {
+      console.error("Error removing certification:", error);
+      toast.error("Failed to remove certification");
+    }
+  };
+
+  const umpireName = (id: string) => {
+    const umpire = umpires.find((u) => u.id === id);
+    return umpire ? umpire.full_name || umpire.email : "Unknown";
+  };
+
+  // With no umpire picked, show everything that has lapsed or is about to
+  const shown = umpireId
+    ? certifications.filter((c) => c.umpire_id === umpireId)
+    : certifications.filter((c) => getCertificationStatus(c) !== "active");
+
+  const renderDatePicker = (
+    label: string,
+    value: Date | undefined,
+    onChange: (date: Date | undefined) => void,
+    placeholder: string
+  ) => (
+    <div className="grid gap-2">
+      <Label>{label}</Label>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className={cn("justify-start text-left font-normal", !value && "text-muted-foreground")}
+          >
+            <CalendarIcon className="mr-2 h-4 w-4" />
+            {value ? format(value, "PPP") : placeholder}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar mode="single" selected={value} onSelect={onChange} initialFocus className="pointer-events-auto" />
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Award className="h-5 w-5" />
+            Umpire Certifications
+          </DialogTitle>
+          <DialogDescription>
+            A certification covers its level and every level below it until it expires.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-2">
+          <Label>Umpire</Label>
+          <Select value={umpireId} onValueChange={setUmpireId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select an umpire" />
+            </SelectTrigger>
+            <SelectContent>
+              {umpires.map((umpire) => (
+                <SelectItem key={umpire.id} value={umpire.id}>
+                  {umpire.full_name || umpire.email}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {umpireId && (
+          <form onSubmit={handleSubmit} className="grid gap-4 border rounded-md p-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label>Level</Label>
+                <Select value={levelId} onValueChange={setLevelId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {levels.map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {renderDatePicker("Certified On", certifiedOn, setCertifiedOn, "Pick a date")}
+              {renderDatePicker("Expires On", expiresOn, setExpiresOn, "Never")}
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="certificationNotes">Notes</Label>
+              <Input
+                id="certificationNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="e.g. State association clinic"
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={loading || !levelId || !certifiedOn}>
+                {loading ? "Saving..." : "Save Certification"}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <ScrollArea className="h-[250px] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {!umpireId && <TableHead>Umpire</TableHead>}
+                <TableHead>Level</TableHead>
+                <TableHead>Certified</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    {umpireId ? "No certifications yet" : "No certifications expired or expiring soon"}
+                  </TableCell>
+                </TableRow>
+              ) : (
+                shown.map((certification) => (
+                  <TableRow key={certification.id}>
+                    {!umpireId && <TableCell className="font-medium">{umpireName(certification.umpire_id)}</TableCell>}
+                    <TableCell>
+                      {certification.game_levels?.name}
+                      {certification.notes && (
+                        <p className="text-xs text-muted-foreground">{certification.notes}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{format(parseISO(certification.certified_on), "PP")}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {certification.expires_on ? format(parseISO(certification.expires_on), "PP") : "Never"}
+                        <CertificationStatusBadge certification={certification} />
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(certification)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+        {!umpireId && certifications.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            {certifications.length} certifications on file. Pick an umpire to see or add theirs.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageCertificationsDialog;
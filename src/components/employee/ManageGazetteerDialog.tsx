@@ -0,0 +1,217 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { MapPin, Plus, Trash2 } from "lucide-react";
+
+interface ManageGazetteerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface GazetteerEntry {
+  id: string;
+  name: string;
+  address: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+const emptyEntry = { name: "", address: "", latitude: "", longitude: "" };
+
+const ManageGazetteerDialog = ({ open, onOpenChange }: ManageGazetteerDialogProps) => {
+  const [entries, setEntries] = useState<GazetteerEntry[]>([]);
+  const [newEntry, setNewEntry] = useState(emptyEntry);
+  const [loading, setLoading] = useState(false);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      fetchEntries();
+      setNewEntry(emptyEntry);
+      setSearch("");
+    }
+  }, [open]);
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("geocode_gazetteer")
+        .select("id, name, address, latitude, longitude")
+        .order("name");
+
+      if (error) throw error;
+      setEntries(data || []);
+    } catch (error) {
+      console.error("Error fetching gazetteer:", error);
+      toast.error("Failed to load known locations");
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const latitude = Number(newEntry.latitude);
+    const longitude = Number(newEntry.longitude);
+    if (isNaN(latitude) || latitude < -90 || latitude > 90 || isNaN(longitude) || longitude < -180 || longitude > 180) {
+      toast.error("Enter a valid latitude (-90 to 90) and longitude (-180 to 180)");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.from("geocode_gazetteer").insert({
+        name: newEntry.name.trim(),
+        address: newEntry.address.trim() || null,
+        latitude,
+        longitude,
+      });
+
+      if (error) throw error;
+
+      toast.success("Location added");
+      setNewEntry(emptyEntry);
+      fetchEntries();
+    } catch (error) {
+      console.error("Error adding location:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add location");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase.from("geocode_gazetteer").delete().eq("id", id);
+      if (error) throw error;
+
+      setEntries(entries.filter((entry) => entry.id !== id));
+      toast.success("Location removed");
+    } catch (error) {
+      console.error("Error removing location:", error);
+      toast.error("Failed to remove location");
+    }
+  };
+
+  const query = search.trim().toLowerCase();
+  const visibleEntries = query
+    ? entries.filter(
+        (entry) => entry.name.toLowerCase().includes(query) || entry.address?.toLowerCase().includes(query)
+      )
+    : entries;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px] max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Known Locations
+          </DialogTitle>
+          <DialogDescription>
+            Game locations and home addresses are matched against these entries to work out coordinates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleAdd} className="grid gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="gazetteerName">Name</Label>
+              <Input
+                id="gazetteerName"
+                value={newEntry.name}
+                onChange={(e) => setNewEntry({ ...newEntry, name: e.target.value })}
+                placeholder="e.g. Riverside Park"
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="gazetteerAddress">Address</Label>
+              <Input
+                id="gazetteerAddress"
+                value={newEntry.address}
+                onChange={(e) => setNewEntry({ ...newEntry, address: e.target.value })}
+                placeholder="Optional street address"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="gazetteerLatitude">Latitude</Label>
+              <Input
+                id="gazetteerLatitude"
+                type="number"
+                step="any"
+                value={newEntry.latitude}
+                onChange={(e) => setNewEntry({ ...newEntry, latitude: e.target.value })}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="gazetteerLongitude">Longitude</Label>
+              <Input
+                id="gazetteerLongitude"
+                type="number"
+                step="any"
+                value={newEntry.longitude}
+                onChange={(e) => setNewEntry({ ...newEntry, longitude: e.target.value })}
+                required
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={loading}>
+              <Plus className="mr-2 h-4 w-4" />
+              {loading ? "Adding..." : "Add Location"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="grid gap-2">
+          <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search locations..." />
+          <ScrollArea className="h-[250px] border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Coordinates</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleEntries.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No locations found
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleEntries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">{entry.name}</TableCell>
+                      <TableCell>{entry.address || "-"}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">
+                        {Number(entry.latitude).toFixed(4)}, {Number(entry.longitude).toFixed(4)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(entry.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageGazetteerDialog;
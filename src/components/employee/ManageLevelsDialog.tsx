@@ -0,0 +1,423 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { Layers, Pencil, Trash2 } from "lucide-react";
+import {
+  Division,
+  GameLevel,
+  League,
+  fetchDivisions,
+  fetchGameLevels,
+  fetchLeagues,
+  formatDivisionName,
+} from "@/lib/levels";
+
+interface ManageLevelsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface LevelForm {
+  name: string;
+  rank: string;
+  description: string;
+}
+
+interface DivisionForm {
+  league_id: string;
+  name: string;
+  level_id: string;
+}
+
+const emptyLevelForm: LevelForm = { name: "", rank: "", description: "" };
+const emptyDivisionForm: DivisionForm = { league_id: "", name: "", level_id: "" };
+
+const ManageLevelsDialog = ({ open, onOpenChange }: ManageLevelsDialogProps) => {
+  const [levels, setLevels] = useState<GameLevel[]>([]);
+  const [leagues, setLeagues] = useState<League[]>([]);
+  const [divisions, setDivisions] = useState<Division[]>([]);
+  const [levelForm, setLevelForm] = useState<LevelForm>(emptyLevelForm);
+  const [editingLevelId, setEditingLevelId] = useState<string | null>(null);
+  const [leagueName, setLeagueName] = useState("");
+  const [divisionForm, setDivisionForm] = useState<DivisionForm>(emptyDivisionForm);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadAll();
+      resetLevelForm();
+      setLeagueName("");
+      setDivisionForm(emptyDivisionForm);
+    }
+  }, [open]);
+
+  const loadAll = async () => {
+    try {
+      const [loadedLevels, loadedLeagues, loadedDivisions] = await Promise.all([
+        fetchGameLevels(),
+        fetchLeagues(),
+        fetchDivisions(),
+      ]);
+      setLevels(loadedLevels);
+      setLeagues(loadedLeagues);
+      setDivisions(loadedDivisions);
+    } catch (error) {
+      console.error("Error fetching levels:", error);
+      toast.error("Failed to load levels and leagues");
+    }
+  };
+
+  const resetLevelForm = () => {
+    setLevelForm(emptyLevelForm);
+    setEditingLevelId(null);
+  };
+
+  const handleSaveLevel = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rank = parseInt(levelForm.rank);
+    if (Number.isNaN(rank)) {
+      toast.error("Enter a whole number for the rank");
+      return;
+    }
+
+    const payload = {
+      name: levelForm.name.trim(),
+      rank,
+      description: levelForm.description.trim() || null,
+    };
+
+    setLoading(true);
+    try {
+      const { error } = editingLevelId
+        ? await supabase.from("game_levels").update(payload).eq("id", editingLevelId)
+        : await supabase.from("game_levels").insert(payload);
+
+      if (error) throw error;
+
+      toast.success(editingLevelId ? "Level updated" : "Level added");
+      resetLevelForm();
+      loadAll();
+    } catch (error) {
+      console.error("Error saving level:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save level");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteLevel = async (level: GameLevel) => {
+    try {
+      const { error } = await supabase.from("game_levels").delete().eq("id", level.id);
+      if (error) throw error;
+
+      if (editingLevelId === level.id) resetLevelForm();
+      toast.success(`${level.name} removed`);
+      loadAll();
+    } catch (error) {
+      console.error("Error removing level:", error);
+      // Divisions restrict deletes of the level they are played at
+      toast.error("Failed to remove level. Move any divisions at this level first.");
+    }
+  };
+
+  const handleAddLeague = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase.from("leagues").insert({ name: leagueName.trim() });
+      if (error) throw error;
+
+      toast.success("League added");
+      setLeagueName("");
+      loadAll();
+    } catch (error) {
+      console.error("Error adding league:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add league");
+    }
+  };
+
+  const handleDeleteLeague = async (league: League) => {
+    try {
+      const { error } = await supabase.from("leagues").delete().eq("id", league.id);
+      if (error) throw error;
+
+      toast.success(`${league.name} and its divisions removed`);
+      loadAll();
+    } catch (error) {
+      console.error("Error removing league:", error);
+      toast.error("Failed to remove league");
+    }
+  };
+
+  const handleAddDivision = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!divisionForm.league_id || !divisionForm.level_id) {
+      toast.error("Pick a league and a level");
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from("divisions").insert({
+        league_id: divisionForm.league_id,
+        name: divisionForm.name.trim(),
+        level_id: divisionForm.level_id,
+      });
+      if (error) throw error;
+
+      toast.success("Division added");
+      setDivisionForm({ ...emptyDivisionForm, league_id: divisionForm.league_id });
+      loadAll();
+    } catch (error) {
+      console.error("Error adding division:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to add division");
+    }
+  };
+
+  const handleDeleteDivision = async (division: Division) => {
+    try {
+      const { error } = await supabase.from("divisions").delete().eq("id", division.id);
+      if (error) throw error;
+
+      toast.success(`${formatDivisionName(division)} removed`);
+      loadAll();
+    } catch (error) {
+      console.error("Error removing division:", error);
+      toast.error("Failed to remove division");
+    }
+  };
+
+  const levelName = (levelId: string) => levels.find((level) => level.id === levelId)?.name || "-";
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            Levels & Leagues
+          </DialogTitle>
+          <DialogDescription>
+            Umpires see and can be assigned games at the levels they are certified for and below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="levels">
+          <TabsList>
+            <TabsTrigger value="levels">Levels</TabsTrigger>
+            <TabsTrigger value="leagues">Leagues & Divisions</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="levels" className="grid gap-4">
+            <form onSubmit={handleSaveLevel} className="grid gap-4">
+              <div className="grid grid-cols-[2fr_1fr] gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="levelName">Name</Label>
+                  <Input
+                    id="levelName"
+                    value={levelForm.name}
+                    onChange={(e) => setLevelForm({ ...levelForm, name: e.target.value })}
+                    placeholder="e.g. 14U Travel"
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="levelRank">Rank</Label>
+                  <Input
+                    id="levelRank"
+                    type="number"
+                    value={levelForm.rank}
+                    onChange={(e) => setLevelForm({ ...levelForm, rank: e.target.value })}
+                    placeholder="Higher is harder"
+                    required
+                  />
+                </div>
+                <div className="grid gap-2 col-span-2">
+                  <Label htmlFor="levelDescription">Description</Label>
+                  <Input
+                    id="levelDescription"
+                    value={levelForm.description}
+                    onChange={(e) => setLevelForm({ ...levelForm, description: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end gap-2">
+                {editingLevelId && (
+                  <Button type="button" variant="outline" onClick={resetLevelForm}>
+                    Cancel Edit
+                  </Button>
+                )}
+                <Button type="submit" disabled={loading}>
+                  {loading ? "Saving..." : editingLevelId ? "Save Level" : "Add Level"}
+                </Button>
+              </div>
+            </form>
+
+            <ScrollArea className="h-[250px] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rank</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {levels.map((level) => (
+                    <TableRow key={level.id} className={level.id === editingLevelId ? "bg-accent" : ""}>
+                      <TableCell>{level.rank}</TableCell>
+                      <TableCell className="font-medium">{level.name}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{level.description || "-"}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => {
+                            setEditingLevelId(level.id);
+                            setLevelForm({
+                              name: level.name,
+                              rank: level.rank.toString(),
+                              description: level.description || "",
+                            });
+                          }}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDeleteLevel(level)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="leagues" className="grid gap-4">
+            <form onSubmit={handleAddLeague} className="flex items-end gap-2">
+              <div className="grid gap-2 flex-1">
+                <Label htmlFor="leagueName">League</Label>
+                <Input
+                  id="leagueName"
+                  value={leagueName}
+                  onChange={(e) => setLeagueName(e.target.value)}
+                  placeholder="e.g. Metro League"
+                  required
+                />
+              </div>
+              <Button type="submit" variant="outline">Add League</Button>
+            </form>
+
+            {leagues.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {leagues.map((league) => (
+                  <div key={league.id} className="flex items-center gap-1 rounded-md border pl-3 text-sm">
+                    {league.name}
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDeleteLeague(league)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <form onSubmit={handleAddDivision} className="grid grid-cols-[1fr_1fr_1fr_auto] items-end gap-2">
+              <div className="grid gap-2">
+                <Label>League</Label>
+                <Select
+                  value={divisionForm.league_id}
+                  onValueChange={(leagueId) => setDivisionForm({ ...divisionForm, league_id: leagueId })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select league" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {leagues.map((league) => (
+                      <SelectItem key={league.id} value={league.id}>
+                        {league.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="divisionName">Division</Label>
+                <Input
+                  id="divisionName"
+                  value={divisionForm.name}
+                  onChange={(e) => setDivisionForm({ ...divisionForm, name: e.target.value })}
+                  placeholder="e.g. 14U Boys"
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Level</Label>
+                <Select
+                  value={divisionForm.level_id}
+                  onValueChange={(levelId) => setDivisionForm({ ...divisionForm, level_id: levelId })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select level" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {levels.map((level) => (
+                      <SelectItem key={level.id} value={level.id}>
+                        {level.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" variant="outline">Add</Button>
+            </form>
+
+            <ScrollArea className="h-[220px] border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Division</TableHead>
+                    <TableHead>Level</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {divisions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={3} className="text-center text-muted-foreground">
+                        No divisions yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    divisions.map((division) => (
+                      <TableRow key={division.id}>
+                        <TableCell className="font-medium">{formatDivisionName(division)}</TableCell>
+                        <TableCell>{levelName(division.level_id)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button variant="ghost" size="icon" onClick={() => handleDeleteDivision(division)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageLevelsDialog;
@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+import { Building2, Pencil, Search, Trash2 } from "lucide-react";
+import { geocode } from "@/lib/geocoding";
+import { Venue, describeVenue, fetchVenues } from "@/lib/venues";
+
+interface ManageVenuesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface VenueForm {
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  field_count: string;
+  has_lights: boolean;
+  surface_notes: string;
+}
+
+const emptyForm: VenueForm = {
+  name: "",
+  address: "",
+  latitude: "",
+  longitude: "",
+  field_count: "1",
+  has_lights: false,
+  surface_notes: "",
+};
+
+const toForm = (venue: Venue): VenueForm => ({
+  name: venue.name,
+  address: venue.address || "",
+  latitude: venue.latitude?.toString() ?? "",
+  longitude: venue.longitude?.toString() ?? "",
+  field_count: venue.field_count.toString(),
+  has_lights: venue.has_lights,
+  surface_notes: venue.surface_notes || "",
+});
+
+const ManageVenuesDialog = ({ open, onOpenChange }: ManageVenuesDialogProps) => {
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [form, setForm] = useState<VenueForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [lookingUp, setLookingUp] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      loadVenues();
+      resetForm();
+    }
+  }, [open]);
+
+  const loadVenues = async () => {
+    try {
+      setVenues(await fetchVenues());
+    } catch (error) {
+      console.error("Error fetching venues:", error);
+      toast.error("Failed to load venues");
+    }
+  };
+
+  const resetForm = () => {
+    setForm(emptyForm);
+    setEditingId(null);
+  };
+
+  const handleLookup = async () => {
+    setLookingUp(true);
+    try {
+      const place = await geocode(form.address || form.name);
+      if (place) {
+        setForm({ ...form, latitude: place.latitude.toString(), longitude: place.longitude.toString() });
+        toast.success(`Found coordinates for ${place.matchedName}`);
+      } else {
+        toast.error("No coordinates found for that address");
+      }
+    } finally {
+      setLookingUp(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const latitude = form.latitude.trim() ? Number(form.latitude) : null;
+    const longitude = form.longitude.trim() ? Number(form.longitude) : null;
+    if ((latitude === null) !== (longitude === null) || Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      toast.error("Enter both latitude and longitude, or leave both blank");
+      return;
+    }
+
+    const fieldCount = parseInt(form.field_count);
+    if (!fieldCount || fieldCount < 1) {
+      toast.error("A venue needs at least one field");
+      return;
+    }
+
+    const payload = {
+      name: form.name.trim(),
+      address: form.address.trim() || null,
+      latitude,
+      longitude,
+      field_count: fieldCount,
+      has_lights: form.has_lights,
+      surface_notes: form.surface_notes.trim() || null,
+    };
+
+    setLoading(true);
+    try {
+      const { error } = editingId
+        ? await supabase.from("venues").update(payload).eq("id", editingId)
+        : await supabase.from("venues").insert(payload);
+
+      if (error) throw error;
+
+      toast.success(editingId ? "Venue updated" : "Venue added");
+      resetForm();
+      loadVenues();
+    } catch (error) {
+      console.error("Error saving venue:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save venue");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (venue: Venue) => {
+    try {
+      const { error } = await supabase.from("venues").delete().eq("id", venue.id);
+      if (error) throw error;
+
+      setVenues(venues.filter((v) => v.id !== venue.id));
+      if (editingId === venue.id) resetForm();
+      toast.success(`${venue.name} removed`);
+    } catch (error) {
+      console.error("Error removing venue:", error);
+      toast.error("Failed to remove venue");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[750px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Venues
+          </DialogTitle>
+          <DialogDescription>
+            Registered venues are offered to coaches when they request umpires and matched during bulk uploads.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="grid gap-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="venueName">Name</Label>
+              <Input
+                id="venueName"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Riverside Park"
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="venueAddress">Address</Label>
+              <Input
+                id="venueAddress"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                placeholder="Street address"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="venueLatitude">Latitude</Label>
+              <Input
+                id="venueLatitude"
+                type="number"
+                step="any"
+                value={form.latitude}
+                onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="venueLongitude">Longitude</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="venueLongitude"
+                  type="number"
+                  step="any"
+                  value={form.longitude}
+                  onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="icon"
+                  onClick={handleLookup}
+                  disabled={lookingUp || (!form.address.trim() && !form.name.trim())}
+                  title="Look up coordinates"
+                >
+                  <Search className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="venueFields">Fields</Label>
+              <Input
+                id="venueFields"
+                type="number"
+                min="1"
+                value={form.field_count}
+                onChange={(e) => setForm({ ...form, field_count: e.target.value })}
+                required
+              />
+            </div>
+            <div className="flex items-center gap-2 pt-6">
+              <Switch
+                id="venueLights"
+                checked={form.has_lights}
+                onCheckedChange={(checked) => setForm({ ...form, has_lights: checked })}
+              />
+              <Label htmlFor="venueLights">Lights for night games</Label>
+            </div>
+            <div className="grid gap-2 col-span-2">
+              <Label htmlFor="venueSurface">Surface Notes</Label>
+              <Input
+                id="venueSurface"
+                value={form.surface_notes}
+                onChange={(e) => setForm({ ...form, surface_notes: e.target.value })}
+                placeholder="e.g. Turf infield, grass outfield"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button type="button" variant="outline" onClick={resetForm}>
+                Cancel Edit
+              </Button>
+            )}
+            <Button type="submit" disabled={loading}>
+              {loading ? "Saving..." : editingId ? "Save Venue" : "Add Venue"}
+            </Button>
+          </div>
+        </form>
+
+        <ScrollArea className="h-[250px] border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Address</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {venues.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                    No venues registered yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                venues.map((venue) => (
+                  <TableRow key={venue.id} className={venue.id === editingId ? "bg-accent" : ""}>
+                    <TableCell className="font-medium">
+                      {venue.name}
+                      {(venue.latitude === null || venue.longitude === null) && (
+                        <p className="text-xs text-destructive">No coordinates</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{venue.address || "-"}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{describeVenue(venue)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setEditingId(venue.id);
+                          setForm(toForm(venue));
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(venue)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ManageVenuesDialog;
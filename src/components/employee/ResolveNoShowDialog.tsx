@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+
+interface ResolveNoShowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: {
+    id: string;
+    details: string | null;
+    dispute_reason: string | null;
+  };
+  umpireName: string;
+  onSuccess: () => void;
+}
+
+const ResolveNoShowDialog = ({ open, onOpenChange, report, umpireName, onSuccess }: ResolveNoShowDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setNotes("");
+    }
+  }, [open]);
+
+  const handleResolve = async (confirm: boolean) => {
+    setLoading(true);
+    try {
+      const { error } = await supabase.rpc("resolve_no_show", {
+        report_id_param: report.id,
+        confirm_param: confirm,
+        notes_param: notes.trim() || null,
+      });
+
+      if (error) throw error;
+
+      toast.success(confirm ? "No-show confirmed" : "No-show report dismissed");
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error resolving no-show:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to resolve report");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Review No-Show Report</DialogTitle>
+          <DialogDescription>
+            A confirmed no-show counts against {umpireName}'s reliability score.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="rounded-lg border bg-muted/30 p-3 text-sm space-y-2">
+            <p>
+              <span className="font-medium">Coach's report:</span> {report.details || "No details provided"}
+            </p>
+            <p>
+              <span className="font-medium">Umpire's dispute:</span> {report.dispute_reason || "Not disputed"}
+            </p>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="resolutionNotes">Resolution notes (optional)</Label>
+            <Textarea
+              id="resolutionNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Record how this report was verified..."
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => handleResolve(false)} disabled={loading}>
+            Dismiss Report
+          </Button>
+          <Button type="button" variant="destructive" onClick={() => handleResolve(true)} disabled={loading}>
+            {loading ? "Saving..." : "Confirm No-Show"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ResolveNoShowDialog;
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "sonner";
+import { CalendarCheck } from "lucide-react";
+import { UNAVAILABLE_REASON_LABELS, UnavailableReason } from "@/lib/availability";
+
+interface UmpireAvailabilityPopoverProps {
+  gameId: string;
+}
+
+interface UmpireAvailabilityRow {
+  umpire_id: string;
+  full_name: string | null;
+  unavailable_reason: string | null;
+}
+
+const UmpireAvailabilityPopover = ({ gameId }: UmpireAvailabilityPopoverProps) => {
+  const [umpires, setUmpires] = useState<UmpireAvailabilityRow[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchAvailability = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("get_umpire_availability_for_game", {
+        game_id_param: gameId,
+      });
+
+      if (error) throw error;
+      setUmpires(data || []);
+    } catch (error) {
+      console.error("Error fetching umpire availability:", error);
+      toast.error("Failed to load umpire availability");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const availableCount = umpires.filter(u => !u.unavailable_reason).length;
+
+  return (
+    <Popover onOpenChange={(open) => open && fetchAvailability()}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <CalendarCheck className="mr-2 h-4 w-4" />
+          Availability
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80" align="end">
+        {loading ? (
+          <p className="text-sm text-muted-foreground">Loading...</p>
+        ) : umpires.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No umpires found</p>
+        ) : (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">
+              {availableCount} of {umpires.length} umpires available
+            </p>
+            <ScrollArea className="h-60">
+              <div className="space-y-1 pr-3">
+                {umpires.map((umpire) => (
+                  <div key={umpire.umpire_id} className="flex items-center justify-between text-sm py-1">
+                    <span>{umpire.full_name || "Unnamed umpire"}</span>
+                    {umpire.unavailable_reason ? (
+                      <Badge variant="outline" className="text-muted-foreground">
+                        {UNAVAILABLE_REASON_LABELS[umpire.unavailable_reason as UnavailableReason] || umpire.unavailable_reason}
+                      </Badge>
+                    ) : (
+                      <Badge variant="default">Available</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default UmpireAvailabilityPopover;
@@ -0,0 +1,218 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { AvailabilityWindow, DAYS_OF_WEEK, UmpireAvailability, normalizeTime } from "@/lib/availability";
+
+interface AvailabilityCalendarProps {
+  umpireId: string;
+  availability: UmpireAvailability;
+  onSaved: (availability: UmpireAvailability) => void;
+}
+
+const AvailabilityCalendar = ({ umpireId, availability, onSaved }: AvailabilityCalendarProps) => {
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [blackoutDates, setBlackoutDates] = useState<Date[]>([]);
+  const [maxGamesPerDay, setMaxGamesPerDay] = useState("");
+  const [newDay, setNewDay] = useState("6");
+  const [newStart, setNewStart] = useState("09:00");
+  const [newEnd, setNewEnd] = useState("17:00");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setWindows(availability.windows);
+    setBlackoutDates(availability.blackoutDates.map((d) => parseISO(d)));
+    setMaxGamesPerDay(availability.maxGamesPerDay ? String(availability.maxGamesPerDay) : "");
+  }, [availability]);
+
+  const handleAddWindow = () => {
+    if (newEnd <= newStart) {
+      toast.error("End time must be after start time");
+      return;
+    }
+
+    setWindows((prev) =>
+      [...prev, { day_of_week: Number(newDay), start_time: normalizeTime(newStart), end_time: normalizeTime(newEnd) }]
+        .sort((a, b) => a.day_of_week - b.day_of_week || a.start_time.localeCompare(b.start_time))
+    );
+  };
+
+  const handleRemoveWindow = (index: number) => {
+    setWindows((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const maxPerDay = maxGamesPerDay ? Number(maxGamesPerDay) : null;
+    if (maxPerDay !== null && (!Number.isInteger(maxPerDay) || maxPerDay < 1)) {
+      toast.error("Max games per day must be a whole number of at least 1");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error: deleteWindowsError } = await supabase
+        .from("umpire_availability_windows")
+        .delete()
+        .eq("umpire_id", umpireId);
+
+      if (deleteWindowsError) throw deleteWindowsError;
+
+      if (windows.length > 0) {
+        const { error: insertWindowsError } = await supabase
+          .from("umpire_availability_windows")
+          .insert(windows.map((w) => ({ ...w, umpire_id: umpireId })));
+
+        if (insertWindowsError) throw insertWindowsError;
+      }
+
+      const { error: deleteBlackoutsError } = await supabase
+        .from("umpire_blackout_dates")
+        .delete()
+        .eq("umpire_id", umpireId);
+
+      if (deleteBlackoutsError) throw deleteBlackoutsError;
+
+      if (blackoutDates.length > 0) {
+        const { error: insertBlackoutsError } = await supabase
+          .from("umpire_blackout_dates")
+          .insert(blackoutDates.map((d) => ({ umpire_id: umpireId, blackout_date: format(d, "yyyy-MM-dd") })));
+
+        if (insertBlackoutsError) throw insertBlackoutsError;
+      }
+
+      // Availability windows are interpreted in the umpire's own time zone
+      const { error: profileError } = await supabase
+        .from("profiles")
+        .update({
+          max_games_per_day: maxPerDay,
+          time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        })
+        .eq("id", umpireId);
+
+      if (profileError) throw profileError;
+
+      toast.success("Availability saved");
+      onSaved({
+        windows,
+        blackoutDates: blackoutDates.map((d) => format(d, "yyyy-MM-dd")),
+        maxGamesPerDay: maxPerDay,
+      });
+    } catch (error) {
+      console.error("Error saving availability:", error);
+      toast.error("Failed to save availability");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock className="h-5 w-5" />
+          My Availability
+        </CardTitle>
+        <CardDescription>
+          Set when you can work. Games outside these times are hidden from Available Games.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Weekly Availability</Label>
+              {windows.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No weekly hours set - you are shown games at any time.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {windows.map((w, index) => (
+                    <div key={index} className="flex items-center justify-between border rounded-md px-3 py-2 text-sm">
+                      <span>
+                        <span className="font-medium">{DAYS_OF_WEEK[w.day_of_week]}</span>{" "}
+                        {w.start_time.slice(0, 5)} - {w.end_time.slice(0, 5)}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemoveWindow(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="grid gap-1">
+                <Label className="text-xs">Day</Label>
+                <Select value={newDay} onValueChange={setNewDay}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DAYS_OF_WEEK.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="windowStart" className="text-xs">From</Label>
+                <Input id="windowStart" type="time" value={newStart} onChange={(e) => setNewStart(e.target.value)} className="w-28" />
+              </div>
+              <div className="grid gap-1">
+                <Label htmlFor="windowEnd" className="text-xs">To</Label>
+                <Input id="windowEnd" type="time" value={newEnd} onChange={(e) => setNewEnd(e.target.value)} className="w-28" />
+              </div>
+              <Button variant="outline" onClick={handleAddWindow}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add
+              </Button>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="maxGamesPerDay">Max games per day</Label>
+              <Input
+                id="maxGamesPerDay"
+                type="number"
+                min="1"
+                value={maxGamesPerDay}
+                onChange={(e) => setMaxGamesPerDay(e.target.value)}
+                placeholder="No limit"
+                className="w-32"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Blackout Dates</Label>
+            <p className="text-sm text-muted-foreground">Click dates you cannot work.</p>
+            <Calendar
+              mode="multiple"
+              selected={blackoutDates}
+              onSelect={(dates) => setBlackoutDates(dates || [])}
+              disabled={(date) => date < new Date(new Date().setHours(0, 0, 0, 0))}
+              className="rounded-md border w-fit pointer-events-auto"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end mt-6">
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save Availability"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AvailabilityCalendar;
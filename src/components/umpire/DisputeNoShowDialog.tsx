@@ -0,0 +1,99 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+interface DisputeNoShowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: {
+    id: string;
+    dispute_deadline: string;
+    details: string | null;
+  };
+  onSuccess: () => void;
+}
+
+const DisputeNoShowDialog = ({ open, onOpenChange, report, onSuccess }: DisputeNoShowDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.rpc("dispute_no_show", {
+        report_id_param: report.id,
+        reason_param: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      toast.success("Dispute submitted. Staff will review it.");
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error disputing no-show:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit dispute");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Dispute No-Show Report</DialogTitle>
+          <DialogDescription>
+            Explain what happened. Disputes are accepted until{" "}
+            {format(new Date(report.dispute_deadline), "PPp")}.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            {report.details && (
+              <div className="rounded-lg border bg-muted/30 p-3 text-sm">
+                <span className="font-medium">Coach's report:</span> {report.details}
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="disputeReason">Your explanation</Label>
+              <Textarea
+                id="disputeReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. I was at the field but the game had been moved..."
+                rows={4}
+                maxLength={1000}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || !reason.trim()}>
+              {loading ? "Submitting..." : "Submit Dispute"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DisputeNoShowDialog;
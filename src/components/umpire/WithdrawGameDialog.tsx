@@ -0,0 +1,139 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { AlertTriangle } from "lucide-react";
+import { differenceInHours, format } from "date-fns";
+
+interface WithdrawGameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  game: {
+    id: string;
+    opponent: string;
+    game_date: string;
+  };
+  noticeHours: number;
+  onSuccess: () => void;
+}
+
+interface WithdrawResult {
+  success: boolean;
+  reason?: "reason_required" | "not_found" | "not_on_crew" | "game_closed" | "game_started";
+  late_withdrawal?: boolean;
+}
+
+const describeWithdrawFailure = (result: WithdrawResult): string => {
+  switch (result.reason) {
+    case "reason_required":
+      return "Please give a reason for withdrawing";
+    case "not_on_crew":
+      return "You are no longer assigned to this game";
+    case "game_closed":
+      return "This game has already been completed or cancelled";
+    case "game_started":
+      return "You cannot withdraw from a game that has already started";
+    case "not_found":
+      return "This game no longer exists";
+    default:
+      return "Unable to withdraw from this game";
+  }
+};
+
+const WithdrawGameDialog = ({ open, onOpenChange, game, noticeHours, onSuccess }: WithdrawGameDialogProps) => {
+  const [loading, setLoading] = useState(false);
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+    }
+  }, [open]);
+
+  const isLate = differenceInHours(new Date(game.game_date), new Date()) < noticeHours;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("withdraw_from_game", {
+        game_id_param: game.id,
+        reason_param: reason.trim(),
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as WithdrawResult;
+      if (!result.success) {
+        toast.error(describeWithdrawFailure(result));
+        return;
+      }
+
+      toast.success(
+        result.late_withdrawal
+          ? "Withdrawn. This was recorded as a late drop."
+          : "Withdrawn. The game has been reopened for other umpires."
+      );
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error withdrawing from game:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to withdraw");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Withdraw from Game</DialogTitle>
+          <DialogDescription>
+            {game.opponent} · {format(new Date(game.game_date), "PPp")}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            {isLate && (
+              <div className="flex gap-2 rounded-lg border border-destructive bg-destructive/5 p-3 text-sm">
+                <AlertTriangle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                <span>
+                  This game starts in less than {noticeHours} hours. Withdrawing now counts as a late drop on
+                  your record.
+                </span>
+              </div>
+            )}
+            <div className="grid gap-2">
+              <Label htmlFor="withdrawReason">Reason</Label>
+              <Textarea
+                id="withdrawReason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="e.g. Family emergency, illness..."
+                rows={4}
+                maxLength={1000}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={loading || !reason.trim()}>
+              {loading ? "Withdrawing..." : "Withdraw"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WithdrawGameDialog;
@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from "react";
+
+// Long enough to notice, matching the highlight animation in tailwind.config.ts
+const HIGHLIGHT_MS = 2000;
+
+/**
+ * Ids of items that were added or changed since the list last updated, cleared again after a
+ * moment. Nothing is highlighted until enabled, so the first load doesn't flash everything.
+ */
+export function useChangeHighlights<T extends { id: string }>(
+  items: T[],
+  fingerprint: (item: T) => string,
+  enabled = true
+): Set<string> {
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const previous = useRef<Map<string, string> | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout>>();
+  const fingerprintRef = useRef(fingerprint);
+  fingerprintRef.current = fingerprint;
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  useEffect(() => {
+    const next = new Map(items.map((item) => [item.id, fingerprintRef.current(item)]));
+    const before = previous.current;
+    previous.current = next;
+
+    if (!enabled || !before) return;
+
+    const changed = [...next].filter(([id, print]) => before.get(id) !== print).map(([id]) => id);
+    if (changed.length === 0) return;
+
+    setHighlighted(new Set(changed));
+    clearTimeout(timer.current);
+    timer.current = setTimeout(() => setHighlighted(new Set()), HIGHLIGHT_MS);
+  }, [items, enabled]);
+
+  return highlighted;
+}
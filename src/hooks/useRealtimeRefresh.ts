@@ -0,0 +1,48 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+// Tables published to Supabase Realtime
+export type RealtimeTable = "games" | "game_assignments" | "ratings" | "umpire_requests";
+
+// Bursts of changes, like a crew filling up or a bulk import, are refreshed once
+const REFRESH_DELAY_MS = 500;
+
+/**
+ * Calls onChange with the table name whenever rows in one of the tables change. Events are
+ * filtered by RLS, so a dashboard only hears about rows its user can read; the callback
+ * refetches rather than patching from the payload, which keeps joins and derived data right.
+ */
+export function useRealtimeRefresh(
+  tables: RealtimeTable[],
+  onChange: (table: RealtimeTable) => void,
+  enabled = true
+) {
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const tableKey = tables.join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timers = new Map<RealtimeTable, ReturnType<typeof setTimeout>>();
+    const channel = supabase.channel(`dashboard-${tableKey}-${crypto.randomUUID()}`);
+
+    tableKey.split(",").forEach((name) => {
+      const table = name as RealtimeTable;
+      channel.on("postgres_changes", { event: "*", schema: "public", table }, () => {
+        clearTimeout(timers.get(table));
+        timers.set(
+          table,
+          setTimeout(() => onChangeRef.current(table), REFRESH_DELAY_MS)
+        );
+      });
+    });
+
+    channel.subscribe();
+
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      supabase.removeChannel(channel);
+    };
+  }, [tableKey, enabled]);
+}
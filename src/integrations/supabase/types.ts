@@ -14,6 +14,123 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          description: string | null
+          key: string
+          updated_at: string
+          value: string
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          updated_at?: string
+          value: string
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          updated_at?: string
+          value?: string
+        }
+        Relationships: []
+      }
+      coach_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_user_id: string | null
+          created_at: string
+          email: string
+          full_name: string | null
+          id: string
+          invited_by: string | null
+          team_name: string | null
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_user_id?: string | null
+          created_at?: string
+          email: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          team_name?: string | null
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_user_id?: string | null
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          team_name?: string | null
+          token?: string
+        }
+        Relationships: []
+      }
+      divisions: {
+        Row: {
+          created_at: string
+          id: string
+          league_id: string
+          level_id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          league_id: string
+          level_id: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          league_id?: string
+          level_id?: string
+          name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "divisions_league_id_fkey"
+            columns: ["league_id"]
+            isOneToOne: false
+            referencedRelation: "leagues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "divisions_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "game_levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_bounces: {
+        Row: {
+          bounce_count: number
+          email: string
+          last_bounced_at: string
+          reason: string | null
+        }
+        Insert: {
+          bounce_count?: number
+          email: string
+          last_bounced_at?: string
+          reason?: string | null
+        }
+        Update: {
+          bounce_count?: number
+          email?: string
+          last_bounced_at?: string
+          reason?: string | null
+        }
+        Relationships: []
+      }
       external_umpire_leads: {
         Row: {
           coach_id: string
@@ -55,109 +172,176 @@ export type Database = {
           },
         ]
       }
-      games: {
+      game_assignments: {
         Row: {
-          assigned_umpire_id: string | null
-          coach_id: string
+          assigned_by: string | null
           created_at: string
-          game_date: string
+          game_id: string
           id: string
-          latitude: number | null
-          location: string
-          longitude: number | null
-          opponent: string
-          status: Database["public"]["Enums"]["game_status"]
+          position: Database["public"]["Enums"]["umpire_position"]
+          reschedule_confirm_by: string | null
+          umpire_id: string
           updated_at: string
         }
         Insert: {
-          assigned_umpire_id?: string | null
-          coach_id: string
+          assigned_by?: string | null
           created_at?: string
-          game_date: string
+          game_id: string
           id?: string
-          latitude?: number | null
-          location: string
-          longitude?: number | null
-          opponent: string
-          status?: Database["public"]["Enums"]["game_status"]
+          position: Database["public"]["Enums"]["umpire_position"]
+          reschedule_confirm_by?: string | null
+          umpire_id: string
           updated_at?: string
         }
         Update: {
-          assigned_umpire_id?: string | null
-          coach_id?: string
+          assigned_by?: string | null
           created_at?: string
-          game_date?: string
+          game_id?: string
           id?: string
-          latitude?: number | null
-          location?: string
-          longitude?: number | null
-          opponent?: string
-          status?: Database["public"]["Enums"]["game_status"]
+          position?: Database["public"]["Enums"]["umpire_position"]
+          reschedule_confirm_by?: string | null
+          umpire_id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "game_assignments_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      profiles: {
+      game_change_log: {
         Row: {
+          change_type: string
+          changed_by: string | null
+          changes: Json
           created_at: string
-          email: string
-          full_name: string | null
-          home_latitude: number | null
-          home_longitude: number | null
+          crew_umpire_ids: string[]
+          game_id: string
           id: string
-          updated_at: string
+          reason: string | null
         }
         Insert: {
+          change_type: string
+          changed_by?: string | null
+          changes?: Json
           created_at?: string
-          email: string
-          full_name?: string | null
-          home_latitude?: number | null
-          home_longitude?: number | null
+          crew_umpire_ids?: string[]
+          game_id: string
+          id?: string
+          reason?: string | null
+        }
+        Update: {
+          change_type?: string
+          changed_by?: string | null
+          changes?: Json
+          created_at?: string
+          crew_umpire_ids?: string[]
+          game_id?: string
+          id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_change_log_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_levels: {
+        Row: {
+          created_at: string
+          description: string | null
           id: string
-          updated_at?: string
+          name: string
+          rank: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          rank: number
         }
         Update: {
           created_at?: string
-          email?: string
-          full_name?: string | null
-          home_latitude?: number | null
-          home_longitude?: number | null
+          description?: string | null
           id?: string
-          updated_at?: string
+          name?: string
+          rank?: number
         }
         Relationships: []
       }
-      ratings: {
+      game_series: {
         Row: {
           coach_id: string
-          comment: string | null
           created_at: string
-          game_id: string
+          days_of_week: number[]
+          end_date: string
+          excluded_dates: string[]
           id: string
-          rating: number
-          umpire_id: string
+          name: string
+          start_date: string
+          start_time: string
         }
         Insert: {
           coach_id: string
-          comment?: string | null
           created_at?: string
-          game_id: string
+          days_of_week: number[]
+          end_date: string
+          excluded_dates?: string[]
           id?: string
-          rating: number
-          umpire_id: string
+          name: string
+          start_date: string
+          start_time: string
         }
         Update: {
           coach_id?: string
-          comment?: string | null
           created_at?: string
+          days_of_week?: number[]
+          end_date?: string
+          excluded_dates?: string[]
+          id?: string
+          name?: string
+          start_date?: string
+          start_time?: string
+        }
+        Relationships: []
+      }
+      game_status_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          from_status: Database["public"]["Enums"]["game_status"] | null
+          game_id: string
+          id: string
+          to_status: Database["public"]["Enums"]["game_status"]
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["game_status"] | null
+          game_id: string
+          id?: string
+          to_status: Database["public"]["Enums"]["game_status"]
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          from_status?: Database["public"]["Enums"]["game_status"] | null
           game_id?: string
           id?: string
-          rating?: number
-          umpire_id?: string
+          to_status?: Database["public"]["Enums"]["game_status"]
         }
         Relationships: [
           {
-            foreignKeyName: "ratings_game_id_fkey"
+            foreignKeyName: "game_status_history_game_id_fkey"
             columns: ["game_id"]
             isOneToOne: false
             referencedRelation: "games"
@@ -165,71 +349,963 @@ export type Database = {
           },
         ]
       }
-      umpire_requests: {
+      games: {
         Row: {
-          coach_id: string
+          away_team_id: string | null
+          coach_id: string | null
+          coach_invitation_id: string | null
           created_at: string
-          game_id: string
+          division_id: string | null
+          external_id: string | null
+          game_date: string
+          home_team_id: string | null
           id: string
-          status: Database["public"]["Enums"]["request_status"]
+          import_source_id: string | null
+          latitude: number | null
+          level: string | null
+          level_id: string | null
+          location: string
+          longitude: number | null
+          opponent: string
+          required_positions: Database["public"]["Enums"]["umpire_position"][]
+          series_id: string | null
+          status: Database["public"]["Enums"]["game_status"]
           updated_at: string
+          venue_id: string | null
         }
         Insert: {
-          coach_id: string
+          away_team_id?: string | null
+          coach_id?: string | null
+          coach_invitation_id?: string | null
           created_at?: string
-          game_id: string
+          division_id?: string | null
+          external_id?: string | null
+          game_date: string
+          home_team_id?: string | null
           id?: string
-          status?: Database["public"]["Enums"]["request_status"]
+          import_source_id?: string | null
+          latitude?: number | null
+          level?: string | null
+          level_id?: string | null
+          location: string
+          longitude?: number | null
+          opponent: string
+          required_positions?: Database["public"]["Enums"]["umpire_position"][]
+          series_id?: string | null
+          status?: Database["public"]["Enums"]["game_status"]
           updated_at?: string
+          venue_id?: string | null
         }
         Update: {
-          coach_id?: string
+          away_team_id?: string | null
+          coach_id?: string | null
+          coach_invitation_id?: string | null
           created_at?: string
-          game_id?: string
+          division_id?: string | null
+          external_id?: string | null
+          game_date?: string
+          home_team_id?: string | null
           id?: string
-          status?: Database["public"]["Enums"]["request_status"]
+          import_source_id?: string | null
+          latitude?: number | null
+          level?: string | null
+          level_id?: string | null
+          location?: string
+          longitude?: number | null
+          opponent?: string
+          required_positions?: Database["public"]["Enums"]["umpire_position"][]
+          series_id?: string | null
+          status?: Database["public"]["Enums"]["game_status"]
           updated_at?: string
+          venue_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "umpire_requests_game_id_fkey"
-            columns: ["game_id"]
+            foreignKeyName: "games_venue_id_fkey"
+            columns: ["venue_id"]
             isOneToOne: false
-            referencedRelation: "games"
+            referencedRelation: "venues"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_import_source_id_fkey"
+            columns: ["import_source_id"]
+            isOneToOne: false
+            referencedRelation: "import_sources"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_coach_invitation_id_fkey"
+            columns: ["coach_invitation_id"]
+            isOneToOne: false
+            referencedRelation: "coach_invitations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "game_series"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_away_team_id_fkey"
+            columns: ["away_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_home_team_id_fkey"
+            columns: ["home_team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_division_id_fkey"
+            columns: ["division_id"]
+            isOneToOne: false
+            referencedRelation: "divisions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "games_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "game_levels"
             referencedColumns: ["id"]
           },
         ]
       }
-      user_roles: {
+      geocode_gazetteer: {
         Row: {
+          address: string | null
+          address_key: string | null
+          created_at: string
           id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          latitude: number
+          longitude: number
+          name: string
+          name_key: string | null
+          updated_at: string
         }
         Insert: {
+          address?: string | null
+          address_key?: string | null
+          created_at?: string
           id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          latitude: number
+          longitude: number
+          name: string
+          name_key?: string | null
+          updated_at?: string
         }
         Update: {
+          address?: string | null
+          address_key?: string | null
+          created_at?: string
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
-          user_id?: string
+          latitude?: number
+          longitude?: number
+          name?: string
+          name_key?: string | null
+          updated_at?: string
         }
         Relationships: []
       }
-    }
-    Views: {
-      umpire_public_profiles: {
+      import_sources: {
         Row: {
-          created_at: string | null
-          full_name: string | null
-          id: string | null
+          column_mapping: Json
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          full_name?: string | null
-          id?: string | null
+          column_mapping?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          column_mapping?: Json
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      leagues: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      message_thread_participants: {
+        Row: {
+          joined_at: string
+          last_read_at: string | null
+          thread_id: string
+          user_id: string
+        }
+        Insert: {
+          joined_at?: string
+          last_read_at?: string | null
+          thread_id: string
+          user_id: string
+        }
+        Update: {
+          joined_at?: string
+          last_read_at?: string | null
+          thread_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_thread_participants_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_threads: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          game_id: string | null
+          id: string
+          last_message_at: string
+          rating_id: string | null
+          subject: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          game_id?: string | null
+          id?: string
+          last_message_at?: string
+          rating_id?: string | null
+          subject: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          game_id?: string | null
+          id?: string
+          last_message_at?: string
+          rating_id?: string | null
+          subject?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_threads_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_threads_rating_id_fkey"
+            columns: ["rating_id"]
+            isOneToOne: false
+            referencedRelation: "ratings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          sender_id: string | null
+          thread_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          sender_id?: string | null
+          thread_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          sender_id?: string | null
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      no_show_reports: {
+        Row: {
+          coach_id: string
+          created_at: string
+          details: string | null
+          dispute_deadline: string
+          dispute_reason: string | null
+          disputed_at: string | null
+          game_id: string
+          id: string
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: Database["public"]["Enums"]["no_show_status"]
+          umpire_id: string
+          updated_at: string
+        }
+        Insert: {
+          coach_id: string
+          created_at?: string
+          details?: string | null
+          dispute_deadline?: string
+          dispute_reason?: string | null
+          disputed_at?: string | null
+          game_id: string
+          id?: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["no_show_status"]
+          umpire_id: string
+          updated_at?: string
+        }
+        Update: {
+          coach_id?: string
+          created_at?: string
+          details?: string | null
+          dispute_deadline?: string
+          dispute_reason?: string | null
+          disputed_at?: string | null
+          game_id?: string
+          id?: string
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["no_show_status"]
+          umpire_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "no_show_reports_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          email: boolean
+          event_type: string
+          in_app: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          email?: boolean
+          event_type: string
+          in_app?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          email?: boolean
+          event_type?: string
+          in_app?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          email_attempts: number
+          email_error: string | null
+          email_next_attempt_at: string | null
+          email_status: string | null
+          emailed_at: string | null
+          game_id: string | null
+          id: string
+          read_at: string | null
+          send_email: boolean
+          show_in_app: boolean
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_error?: string | null
+          email_next_attempt_at?: string | null
+          email_status?: string | null
+          emailed_at?: string | null
+          game_id?: string | null
+          id?: string
+          read_at?: string | null
+          send_email?: boolean
+          show_in_app?: boolean
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          email_attempts?: number
+          email_error?: string | null
+          email_next_attempt_at?: string | null
+          email_status?: string | null
+          emailed_at?: string | null
+          game_id?: string | null
+          id?: string
+          read_at?: string | null
+          send_email?: boolean
+          show_in_app?: boolean
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string | null
+          home_address: string | null
+          home_latitude: number | null
+          home_longitude: number | null
+          id: string
+          max_games_per_day: number | null
+          time_zone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name?: string | null
+          home_address?: string | null
+          home_latitude?: number | null
+          home_longitude?: number | null
+          id: string
+          max_games_per_day?: number | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string | null
+          home_address?: string | null
+          home_latitude?: number | null
+          home_longitude?: number | null
+          id?: string
+          max_games_per_day?: number | null
+          time_zone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ratings: {
+        Row: {
+          coach_id: string
+          comment: string | null
+          created_at: string
+          game_id: string
+          id: string
+          rating: number
+          umpire_id: string
+        }
+        Insert: {
+          coach_id: string
+          comment?: string | null
+          created_at?: string
+          game_id: string
+          id?: string
+          rating: number
+          umpire_id: string
+        }
+        Update: {
+          coach_id?: string
+          comment?: string | null
+          created_at?: string
+          game_id?: string
+          id?: string
+          rating?: number
+          umpire_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ratings_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reminder_log: {
+        Row: {
+          game_date: string
+          game_id: string
+          id: string
+          kind: string
+          sent_at: string
+          user_id: string
+        }
+        Insert: {
+          game_date: string
+          game_id: string
+          id?: string
+          kind: string
+          sent_at?: string
+          user_id: string
+        }
+        Update: {
+          game_date?: string
+          game_id?: string
+          id?: string
+          kind?: string
+          sent_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reminder_log_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_coach_aliases: {
+        Row: {
+          coach_id: string | null
+          coach_invitation_id: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          team_key: string | null
+          team_name: string
+        }
+        Insert: {
+          coach_id?: string | null
+          coach_invitation_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          team_key?: string | null
+          team_name: string
+        }
+        Update: {
+          coach_id?: string | null
+          coach_invitation_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          team_key?: string | null
+          team_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_coach_aliases_coach_invitation_id_fkey"
+            columns: ["coach_invitation_id"]
+            isOneToOne: false
+            referencedRelation: "coach_invitations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      team_members: {
+        Row: {
+          coach_id: string
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["team_role"]
+          team_id: string
+        }
+        Insert: {
+          coach_id: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["team_role"]
+          team_id: string
+        }
+        Update: {
+          coach_id?: string
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["team_role"]
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          age_division: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          league: string | null
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          age_division?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          league?: string | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          age_division?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          league?: string | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      umpire_assignment_log: {
+        Row: {
+          assigned_by: string | null
+          created_at: string
+          game_id: string
+          id: string
+          method: string
+          position: Database["public"]["Enums"]["umpire_position"] | null
+          previous_umpire_id: string | null
+          umpire_id: string | null
+        }
+        Insert: {
+          assigned_by?: string | null
+          created_at?: string
+          game_id: string
+          id?: string
+          method: string
+          position?: Database["public"]["Enums"]["umpire_position"] | null
+          previous_umpire_id?: string | null
+          umpire_id?: string | null
+        }
+        Update: {
+          assigned_by?: string | null
+          created_at?: string
+          game_id?: string
+          id?: string
+          method?: string
+          position?: Database["public"]["Enums"]["umpire_position"] | null
+          previous_umpire_id?: string | null
+          umpire_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "umpire_assignment_log_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      umpire_availability_windows: {
+        Row: {
+          created_at: string
+          day_of_week: number
+          end_time: string
+          id: string
+          start_time: string
+          umpire_id: string
+        }
+        Insert: {
+          created_at?: string
+          day_of_week: number
+          end_time: string
+          id?: string
+          start_time: string
+          umpire_id: string
+        }
+        Update: {
+          created_at?: string
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          start_time?: string
+          umpire_id?: string
+        }
+        Relationships: []
+      }
+      umpire_blackout_dates: {
+        Row: {
+          blackout_date: string
+          created_at: string
+          id: string
+          reason: string | null
+          umpire_id: string
+        }
+        Insert: {
+          blackout_date: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          umpire_id: string
+        }
+        Update: {
+          blackout_date?: string
+          created_at?: string
+          id?: string
+          reason?: string | null
+          umpire_id?: string
+        }
+        Relationships: []
+      }
+      umpire_certifications: {
+        Row: {
+          certified_on: string
+          created_at: string
+          created_by: string | null
+          expires_on: string | null
+          id: string
+          level_id: string
+          notes: string | null
+          umpire_id: string
+          updated_at: string
+        }
+        Insert: {
+          certified_on?: string
+          created_at?: string
+          created_by?: string | null
+          expires_on?: string | null
+          id?: string
+          level_id: string
+          notes?: string | null
+          umpire_id: string
+          updated_at?: string
+        }
+        Update: {
+          certified_on?: string
+          created_at?: string
+          created_by?: string | null
+          expires_on?: string | null
+          id?: string
+          level_id?: string
+          notes?: string | null
+          umpire_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "umpire_certifications_level_id_fkey"
+            columns: ["level_id"]
+            isOneToOne: false
+            referencedRelation: "game_levels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      umpire_requests: {
+        Row: {
+          coach_id: string | null
+          created_at: string
+          game_id: string
+          id: string
+          status: Database["public"]["Enums"]["request_status"]
+          updated_at: string
+        }
+        Insert: {
+          coach_id?: string | null
+          created_at?: string
+          game_id: string
+          id?: string
+          status?: Database["public"]["Enums"]["request_status"]
+          updated_at?: string
+        }
+        Update: {
+          coach_id?: string | null
+          created_at?: string
+          game_id?: string
+          id?: string
+          status?: Database["public"]["Enums"]["request_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "umpire_requests_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      umpire_withdrawals: {
+        Row: {
+          created_at: string
+          game_id: string
+          id: string
+          is_late: boolean
+          notice_hours: number
+          position: Database["public"]["Enums"]["umpire_position"]
+          reason: string
+          umpire_id: string
+        }
+        Insert: {
+          created_at?: string
+          game_id: string
+          id?: string
+          is_late?: boolean
+          notice_hours: number
+          position: Database["public"]["Enums"]["umpire_position"]
+          reason: string
+          umpire_id: string
+        }
+        Update: {
+          created_at?: string
+          game_id?: string
+          id?: string
+          is_late?: boolean
+          notice_hours?: number
+          position?: Database["public"]["Enums"]["umpire_position"]
+          reason?: string
+          umpire_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "umpire_withdrawals_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      venues: {
+        Row: {
+          address: string | null
+          created_at: string
+          field_count: number
+          has_lights: boolean
+          id: string
+          latitude: number | null
+          longitude: number | null
+          name: string
+          name_key: string | null
+          surface_notes: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          field_count?: number
+          has_lights?: boolean
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          name_key?: string | null
+          surface_notes?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          field_count?: number
+          has_lights?: boolean
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          name_key?: string | null
+          surface_notes?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      umpire_public_profiles: {
+        Row: {
+          created_at: string | null
+          full_name: string | null
+          id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          full_name?: string | null
+          id?: string | null
         }
         Update: {
           created_at?: string | null
@@ -240,10 +1316,258 @@ export type Database = {
       }
     }
     Functions: {
-      get_assigned_umpire_name: {
-        Args: { game_id_param: string }
+      accept_game: {
+        Args: {
+          game_id_param: string
+          position_param?: Database["public"]["Enums"]["umpire_position"]
+        }
+        Returns: Json
+      }
+      add_team_member: {
+        Args: {
+          email_param: string
+          role_param: Database["public"]["Enums"]["team_role"]
+          team_id_param: string
+        }
+        Returns: Json
+      }
+      assign_umpire: {
+        Args: {
+          force_param?: boolean
+          game_id_param: string
+          position_param?: Database["public"]["Enums"]["umpire_position"]
+          umpire_id_param: string
+        }
+        Returns: Json
+      }
+      cancel_game: {
+        Args: { game_id_param: string; reason_param: string }
+        Returns: Json
+      }
+      cancel_game_series: {
+        Args: { reason_param: string; series_id_param: string }
+        Returns: Json
+      }
+      check_umpire_availability: {
+        Args: {
+          _exclude_game_id?: string
+          _game_date: string
+          _umpire_id: string
+        }
+        Returns: string
+      }
+      claim_coach_invitation: {
+        Args: { token_param: string }
+        Returns: Json
+      }
+      claim_email_batch: {
+        Args: { limit_param?: number }
+        Returns: {
+          attempt: number
+          body: string
+          email: string
+          full_name: string
+          game_date: string
+          game_id: string
+          level: string
+          location: string
+          notification_id: string
+          opponent: string
+          time_zone: string
+          title: string
+          type: string
+        }[]
+      }
+      create_game_series: {
+        Args: {
+          away_team_id_param?: string
+          days_of_week_param: number[]
+          division_id_param?: string
+          end_date_param: string
+          excluded_dates_param: string[]
+          game_dates_param: string[]
+          home_team_id_param?: string
+          latitude_param: number
+          level_id_param?: string
+          location_param: string
+          longitude_param: number
+          name_param: string
+          opponent_param: string
+          required_positions_param: Database["public"]["Enums"]["umpire_position"][]
+          start_date_param: string
+          start_time_param: string
+          venue_id_param: string
+        }
+        Returns: Json
+      }
+      create_team: {
+        Args: {
+          age_division_param: string
+          league_param: string
+          name_param: string
+        }
+        Returns: Json
+      }
+      dispute_no_show: {
+        Args: { reason_param: string; report_id_param: string }
+        Returns: undefined
+      }
+      distance_miles: {
+        Args: { lat1: number; lat2: number; lon1: number; lon2: number }
+        Returns: number
+      }
+      edit_game: {
+        Args: {
+          division_id_param: string
+          game_id_param: string
+          level_id_param: string
+          opponent_param: string
+          reason_param: string
+          required_positions_param: Database["public"]["Enums"]["umpire_position"][]
+        }
+        Returns: Json
+      }
+      find_game_conflicts: {
+        Args: { games_param: Json }
+        Returns: {
+          conflict_type: string
+          game_date: string
+          game_id: string
+          location: string
+          opponent: string
+          other_row_index: number
+          row_index: number
+        }[]
+      }
+      find_schedule_conflict: {
+        Args: {
+          _exclude_game_id?: string
+          _game_date: string
+          _latitude: number
+          _longitude: number
+          _umpire_id: string
+        }
+        Returns: {
+          game_date: string
+          game_id: string
+          location: string
+          opponent: string
+          required_buffer_minutes: number
+        }[]
+      }
+      format_local_time: {
+        Args: { _time_zone: string; _ts: string }
+        Returns: string
+      }
+      game_change_blocked: {
+        Args: {
+          _game: Database["public"]["Tables"]["games"]["Row"]
+          _reason: string
+        }
         Returns: string
       }
+      geocode_lookup: {
+        Args: { query_param: string }
+        Returns: {
+          latitude: number
+          longitude: number
+          matched_name: string
+        }[]
+      }
+      get_assignment_candidates: {
+        Args: { game_id_param: string }
+        Returns: {
+          average_rating: number
+          conflict_game_date: string
+          conflict_opponent: string
+          current_position: Database["public"]["Enums"]["umpire_position"]
+          distance_miles: number
+          email: string
+          full_name: string
+          rating_count: number
+          umpire_id: string
+          unavailable_reason: string
+        }[]
+      }
+      get_coach_invitation: {
+        Args: { token_param: string }
+        Returns: {
+          email: string
+          full_name: string
+          team_name: string
+        }[]
+      }
+      get_game_crew: {
+        Args: { game_id_param: string }
+        Returns: {
+          full_name: string
+          position: Database["public"]["Enums"]["umpire_position"]
+          umpire_id: string
+        }[]
+      }
+      get_inbox: {
+        Args: never
+        Returns: {
+          game_id: string
+          last_message: string
+          last_message_at: string
+          last_sender_name: string
+          participant_names: string[]
+          rating_id: string
+          subject: string
+          thread_id: string
+          unread_count: number
+        }[]
+      }
+      get_team_members: {
+        Args: { team_id_param: string }
+        Returns: {
+          coach_id: string
+          email: string
+          full_name: string
+          role: Database["public"]["Enums"]["team_role"]
+        }[]
+      }
+      get_thread_messages: {
+        Args: { thread_id_param: string }
+        Returns: {
+          body: string
+          created_at: string
+          id: string
+          sender_id: string
+          sender_is_staff: boolean
+          sender_name: string
+        }[]
+      }
+      get_umpire_availability_for_game: {
+        Args: { game_id_param: string }
+        Returns: {
+          full_name: string
+          umpire_id: string
+          unavailable_reason: string
+        }[]
+      }
+      get_umpire_reliability: {
+        Args: { _umpire_id: string }
+        Returns: {
+          confirmed_no_shows: number
+          games_worked: number
+          late_withdrawals: number
+          reliability_score: number
+        }[]
+      }
+      get_umpire_suggestions: {
+        Args: { game_id_param: string; limit_param?: number }
+        Returns: {
+          average_rating: number
+          distance_miles: number
+          full_name: string
+          reliability_score: number
+          score: number
+          umpire_id: string
+          upcoming_games: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -251,11 +1575,184 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_games: {
+        Args: {
+          cancel_game_ids_param?: string[]
+          rows_param: Json
+          skip_invalid_param?: boolean
+          source_id_param?: string
+        }
+        Returns: Json
+      }
+      is_game_coach: {
+        Args: { _game_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_game_official: {
+        Args: { _game_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_qualified_for_level: {
+        Args: { _game_date: string; _level_id: string }
+        Returns: boolean
+      }
+      is_team_coach: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_team_head: {
+        Args: { _team_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_thread_participant: {
+        Args: { _thread_id: string; _user_id: string }
+        Returns: boolean
+      }
+      mark_thread_read: {
+        Args: { thread_id_param: string }
+        Returns: undefined
+      }
+      normalize_place: {
+        Args: { _value: string }
+        Returns: string
+      }
+      notify_game_coaches: {
+        Args: {
+          _body: string
+          _game_id: string
+          _title: string
+          _type: string
+        }
+        Returns: undefined
+      }
+      notify_game_crew: {
+        Args: {
+          _body: string
+          _game_id: string
+          _title: string
+          _type: string
+        }
+        Returns: undefined
+      }
+      notify_user: {
+        Args: {
+          _body: string
+          _game_id: string
+          _title: string
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      record_email_result: {
+        Args: {
+          error_param?: string
+          notification_id_param: string
+          outcome_param: string
+        }
+        Returns: undefined
+      }
+      record_game_outcome: {
+        Args: { game_id_param: string; played_param: boolean }
+        Returns: Json
+      }
+      release_unconfirmed_reschedules: {
+        Args: never
+        Returns: number
+      }
+      remove_team_member: {
+        Args: { coach_id_param: string; team_id_param: string }
+        Returns: Json
+      }
+      render_local_times: {
+        Args: { _text: string; _time_zone: string }
+        Returns: string
+      }
+      reschedule_game: {
+        Args: {
+          game_date_param: string
+          game_id_param: string
+          latitude_param: number
+          location_param: string
+          longitude_param: number
+          reason_param: string
+          venue_id_param: string
+        }
+        Returns: Json
+      }
+      resolve_no_show: {
+        Args: {
+          confirm_param: boolean
+          notes_param?: string
+          report_id_param: string
+        }
+        Returns: undefined
+      }
+      respond_to_reschedule: {
+        Args: { confirm_param: boolean; game_id_param: string }
+        Returns: Json
+      }
+      send_game_reminders: {
+        Args: never
+        Returns: Json
+      }
+      send_message: {
+        Args: { body_param: string; thread_id_param: string }
+        Returns: Json
+      }
+      send_reminder: {
+        Args: {
+          _body: string
+          _game: Database["public"]["Tables"]["games"]["Row"]
+          _kind: string
+          _title: string
+          _type: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      shift_game_series: {
+        Args: {
+          reason_param: string
+          series_id_param: string
+          shift_minutes_param: number
+        }
+        Returns: Json
+      }
+      start_message_thread: {
+        Args: {
+          body_param: string
+          game_id_param?: string
+          rating_id_param?: string
+          recipient_ids_param?: string[]
+          subject_param: string
+        }
+        Returns: Json
+      }
+      time_marker: {
+        Args: { _ts: string }
+        Returns: string
+      }
+      umpire_qualification_issue: {
+        Args: {
+          _game_date: string
+          _level_id: string
+          _umpire_id: string
+        }
+        Returns: string
+      }
+      withdraw_from_game: {
+        Args: { game_id_param: string; reason_param: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "coach" | "umpire" | "employee" | "admin"
       game_status: "pending" | "assigned" | "completed" | "cancelled"
+      no_show_status: "reported" | "disputed" | "confirmed" | "dismissed"
       request_status: "pending" | "accepted" | "rejected"
+      team_role: "head" | "assistant"
+      umpire_position: "plate" | "first_base" | "third_base"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -385,7 +1882,10 @@ export const Constants = {
     Enums: {
       app_role: ["coach", "umpire", "employee", "admin"],
       game_status: ["pending", "assigned", "completed", "cancelled"],
+      no_show_status: ["reported", "disputed", "confirmed", "dismissed"],
       request_status: ["pending", "accepted", "rejected"],
+      team_role: ["head", "assistant"],
+      umpire_position: ["plate", "first_base", "third_base"],
     },
   },
 } as const
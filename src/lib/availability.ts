@@ -0,0 +1,56 @@
+import { format, isSameDay } from "date-fns";
+
+export interface AvailabilityWindow {
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+}
+
+export interface UmpireAvailability {
+  windows: AvailabilityWindow[];
+  blackoutDates: string[];
+  maxGamesPerDay: number | null;
+}
+
+export type UnavailableReason = "blackout" | "outside_hours" | "daily_limit";
+
+export const DAYS_OF_WEEK = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export const UNAVAILABLE_REASON_LABELS: Record<UnavailableReason, string> = {
+  blackout: "Blackout date",
+  outside_hours: "Outside available hours",
+  daily_limit: "Daily game limit reached",
+};
+
+// Postgres returns TIME columns as HH:mm:ss, time inputs produce HH:mm
+export const normalizeTime = (time: string): string => (time.length === 5 ? `${time}:00` : time);
+
+// Mirrors public.check_umpire_availability: no weekly windows means available any time,
+// and only the game's start time has to fall inside a window.
+export const getUnavailableReason = (
+  gameDate: Date,
+  availability: UmpireAvailability,
+  scheduledGameDates: Date[]
+): UnavailableReason | null => {
+  if (availability.blackoutDates.includes(format(gameDate, "yyyy-MM-dd"))) {
+    return "blackout";
+  }
+
+  if (availability.windows.length > 0) {
+    const startTime = format(gameDate, "HH:mm:ss");
+    const inWindow = availability.windows.some(
+      (w) =>
+        w.day_of_week === gameDate.getDay() &&
+        startTime >= normalizeTime(w.start_time) &&
+        startTime < normalizeTime(w.end_time)
+    );
+    if (!inWindow) return "outside_hours";
+  }
+
+  if (availability.maxGamesPerDay) {
+    const gamesThatDay = scheduledGameDates.filter((d) => isSameDay(d, gameDate)).length;
+    if (gamesThatDay >= availability.maxGamesPerDay) return "daily_limit";
+  }
+
+  return null;
+};
@@ -0,0 +1,29 @@
+export type UmpirePosition = "plate" | "first_base" | "third_base";
+
+// Same order as the umpire_position enum, which is also the order open positions are filled in
+export const UMPIRE_POSITIONS: UmpirePosition[] = ["plate", "first_base", "third_base"];
+
+export const POSITION_LABELS: Record<UmpirePosition, string> = {
+  plate: "Plate",
+  first_base: "1st Base",
+  third_base: "3rd Base",
+};
+
+export interface CrewAssignment {
+  umpire_id: string;
+  position: UmpirePosition;
+}
+
+export const getOpenPositions = (
+  requiredPositions: UmpirePosition[],
+  assignments: CrewAssignment[]
+): UmpirePosition[] =>
+  requiredPositions.filter((position) => !assignments.some((a) => a.position === position));
+
+export const getCrewFillLabel = (requiredPositions: UmpirePosition[], assignments: CrewAssignment[]): string => {
+  const filled = requiredPositions.length - getOpenPositions(requiredPositions, assignments).length;
+  return `${filled} of ${requiredPositions.length} filled`;
+};
+
+export const sortPositions = (positions: UmpirePosition[]): UmpirePosition[] =>
+  [...positions].sort((a, b) => UMPIRE_POSITIONS.indexOf(a) - UMPIRE_POSITIONS.indexOf(b));
@@ -0,0 +1,140 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { UNAVAILABLE_REASON_LABELS, UnavailableReason } from "@/lib/availability";
+import { POSITION_LABELS, UmpirePosition } from "@/lib/crew";
+
+export type GameChangeType =
+  | "edited"
+  | "rescheduled"
+  | "cancelled"
+  | "reinstated"
+  | "reschedule_confirmed"
+  | "reschedule_declined"
+  | "reschedule_expired";
+
+export interface GameChange {
+  id: string;
+  change_type: GameChangeType;
+  reason: string | null;
+  changes: Record<string, { from: unknown; to: unknown }>;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export interface GameChangeResult {
+  success: boolean;
+  reason?:
+    | "reason_required"
+    | "not_found"
+    | "not_allowed"
+    | "game_closed"
+    | "game_started"
+    | "game_not_started"
+    | "date_in_past"
+    | "invalid_details"
+    | "position_filled"
+    | "crew_not_qualified"
+    | "no_change"
+    | "not_on_crew"
+    | "nothing_to_confirm"
+    | "schedule_conflict"
+    | "unavailable";
+  crew_to_confirm?: number;
+  confirm_by?: string;
+  conflict?: {
+    game_id: string;
+    game_date: string;
+    location: string;
+    opponent: string;
+    required_buffer_minutes: number;
+  };
+  unavailable_reason?: UnavailableReason;
+}
+
+export const GAME_CHANGE_LABELS: Record<GameChangeType, string> = {
+  edited: "Edited",
+  rescheduled: "Rescheduled",
+  cancelled: "Cancelled",
+  reinstated: "Reinstated",
+  reschedule_confirmed: "New time confirmed",
+  reschedule_declined: "New time declined",
+  reschedule_expired: "New time not confirmed in time",
+};
+
+export const describeGameChangeFailure = (result: GameChangeResult): string => {
+  switch (result.reason) {
+    case "reason_required":
+      return "Please give a reason for the change";
+    case "not_allowed":
+      return "Only the game's coach or staff can change this game";
+    case "game_closed":
+      return "This game has already been completed or cancelled";
+    case "game_started":
+      return "This game has already started";
+    case "game_not_started":
+      return "This game hasn't started yet";
+    case "date_in_past":
+      return "Pick a new time in the future";
+    case "invalid_details":
+      return "Fill in every field";
+    case "position_filled":
+      return "An umpire is working a position you removed. Ask staff to move them first.";
+    case "crew_not_qualified":
+      return "An assigned umpire isn't certified for that level. Ask staff to change the crew first.";
+    case "no_change":
+      return "Nothing was changed";
+    case "not_on_crew":
+      return "You are no longer assigned to this game";
+    case "nothing_to_confirm":
+      return "This game doesn't need confirming";
+    case "schedule_conflict":
+      return result.conflict
+        ? `Cannot keep this game: the new time conflicts with ${result.conflict.opponent} at ${format(new Date(result.conflict.game_date), "PPp")} (needs ${result.conflict.required_buffer_minutes} min between games, including travel time)`
+        : "Cannot keep this game: the new time conflicts with your existing schedule (including travel time)";
+    case "unavailable":
+      return result.unavailable_reason
+        ? `Cannot keep this game: ${UNAVAILABLE_REASON_LABELS[result.unavailable_reason]} at the new time`
+        : "Cannot keep this game: the new time is outside your availability";
+    case "not_found":
+      return "This game no longer exists";
+    default:
+      return "Unable to change this game";
+  }
+};
+
+// Closes a game that has started as played (completed) or not played (cancelled)
+export const recordGameOutcome = async (gameId: string, played: boolean): Promise<void> => {
+  const { data, error } = await supabase.rpc("record_game_outcome", {
+    game_id_param: gameId,
+    played_param: played,
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as GameChangeResult;
+  if (!result.success) throw new Error(describeGameChangeFailure(result));
+};
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "none";
+  if (field === "game_date") return format(new Date(String(value)), "PPp");
+  if (field === "required_positions" && Array.isArray(value)) {
+    return value.map((position: UmpirePosition) => POSITION_LABELS[position]).join(", ");
+  }
+  return String(value);
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  game_date: "Time",
+  location: "Location",
+  opponent: "Opponent",
+  level: "Level",
+  required_positions: "Crew",
+};
+
+// One line per changed field, e.g. "Time: Sat, Apr 4, 6:00 PM → Sun, Apr 5, 1:00 PM"
+export const describeChanges = (change: GameChange): string[] =>
+  Object.entries(change.changes || {}).map(
+    ([field, { from, to }]) =>
+      `${FIELD_LABELS[field] || field}: ${formatValue(field, from)} → ${formatValue(field, to)}`
+  );
@@ -0,0 +1,84 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+
+export type GameConflictType = "duplicate" | "venue_collision";
+
+export interface GameConflictCandidate {
+  // Lets a batch tell its rows apart; single creates can leave it at 0
+  rowIndex: number;
+  // An existing game being moved, so it isn't reported against itself
+  gameId?: string | null;
+  coachId: string | null;
+  coachInvitationId?: string | null;
+  opponent: string;
+  gameDate: string;
+  venueId: string | null;
+  location: string;
+}
+
+export interface GameConflict {
+  rowIndex: number;
+  type: GameConflictType;
+  // Set when the conflict is with a saved game
+  gameId: string | null;
+  // Set when the conflict is with another row of the same batch
+  otherRowIndex: number | null;
+  gameDate: string;
+  // Hidden when the other game belongs to a different coach
+  opponent: string | null;
+  location: string;
+}
+
+export const CONFLICT_TYPE_LABELS: Record<GameConflictType, string> = {
+  duplicate: "Possible duplicate",
+  venue_collision: "Field already booked",
+};
+
+// Mirrors public.find_game_conflicts: duplicates are the same coach and opponent within the
+// duplicate_game_window_minutes setting, collisions are games overlapping at a full venue
+export const findGameConflicts = async (candidates: GameConflictCandidate[]): Promise<GameConflict[]> => {
+  if (candidates.length === 0) return [];
+
+  const { data, error } = await supabase.rpc("find_game_conflicts", {
+    games_param: candidates.map((candidate) => ({
+      row_index: candidate.rowIndex,
+      game_id: candidate.gameId ?? null,
+      coach_id: candidate.coachId,
+      coach_invitation_id: candidate.coachInvitationId ?? null,
+      opponent: candidate.opponent,
+      game_date: candidate.gameDate,
+      venue_id: candidate.venueId,
+      location: candidate.location,
+    })),
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row) => ({
+    rowIndex: row.row_index,
+    type: row.conflict_type as GameConflictType,
+    gameId: row.game_id,
+    otherRowIndex: row.other_row_index,
+    gameDate: row.game_date,
+    opponent: row.opponent,
+    location: row.location,
+  }));
+};
+
+// Row numbers match the spreadsheet, where the header is row 1
+export const describeConflict = (conflict: GameConflict): string => {
+  const when = format(new Date(conflict.gameDate), "PPp");
+  const what = conflict.opponent ? `vs ${conflict.opponent}` : "Another game";
+  const where = conflict.type === "venue_collision" ? ` at ${conflict.location}` : "";
+  const source = conflict.otherRowIndex !== null ? ` (row ${conflict.otherRowIndex + 2} of this file)` : "";
+
+  return `${what}${where}, ${when}${source}`;
+};
+
+export const groupConflictsByRow = (conflicts: GameConflict[]): Map<number, GameConflict[]> => {
+  const byRow = new Map<number, GameConflict[]>();
+  for (const conflict of conflicts) {
+    byRow.set(conflict.rowIndex, [...(byRow.get(conflict.rowIndex) || []), conflict]);
+  }
+  return byRow;
+};
@@ -0,0 +1,428 @@
+import * as XLSX from "xlsx";
+import { Venue, findBestVenue, normalizePlace } from "@/lib/venues";
+
+export type GameField =
+  | "opponent"
+  | "location"
+  | "venue"
+  | "date"
+  | "time"
+  | "datetime"
+  | "level"
+  | "coach_email"
+  | "team"
+  | "external_id";
+
+export interface GameFieldDefinition {
+  field: GameField;
+  label: string;
+  description: string;
+  // Header spellings recognised without a saved mapping, compared after normalizePlace()
+  aliases: string[];
+}
+
+export const GAME_FIELDS: GameFieldDefinition[] = [
+  {
+    field: "opponent",
+    label: "Opponent",
+    description: "Required",
+    aliases: ["opponent", "opponent team", "away team", "visitor", "visiting team", "vs"],
+  },
+  {
+    field: "location",
+    label: "Location",
+    description: "Required unless a venue is mapped",
+    aliases: ["location", "field", "park", "site", "diamond"],
+  },
+  {
+    field: "venue",
+    label: "Venue",
+    description: "Matched against registered venues",
+    aliases: ["venue", "venue name", "facility"],
+  },
+  {
+    field: "date",
+    label: "Date",
+    description: "Required unless date & time is mapped",
+    aliases: ["date", "game date", "gamedate"],
+  },
+  {
+    field: "time",
+    label: "Time",
+    description: "Defaults to 18:00",
+    aliases: ["time", "game time", "gametime", "start time", "start"],
+  },
+  {
+    field: "datetime",
+    label: "Date & Time",
+    description: "Combined date and start time",
+    aliases: ["datetime", "date time", "game datetime", "start date time"],
+  },
+  {
+    field: "level",
+    label: "Level",
+    description: "e.g. 12U, Varsity",
+    aliases: ["level", "division", "age group", "age", "league"],
+  },
+  {
+    field: "coach_email",
+    label: "Coach Email",
+    description: "Overrides the default coach for the row",
+    aliases: ["coach email", "email", "contact email"],
+  },
+  {
+    field: "team",
+    label: "Team",
+    description: "Resolved to a coach through saved team names",
+    aliases: ["team", "team name", "home team", "home"],
+  },
+  {
+    field: "external_id",
+    label: "External ID",
+    description: "The source's own game number",
+    aliases: ["external id", "game id", "game number", "game no", "match id"],
+  },
+];
+
+export type ColumnMapping = Partial<Record<GameField, string>>;
+
+export type ImportRow = Record<string, unknown>;
+
+export interface ParsedGame {
+  opponent: string;
+  location: string;
+  date: string;
+  time: string;
+  venueId: string | null;
+  level: string | null;
+  coachEmail: string | null;
+  teamName: string | null;
+  externalId: string | null;
+  valid: boolean;
+  error?: string;
+}
+
+export interface ImportSheet {
+  headers: string[];
+  rows: ImportRow[];
+}
+
+export const DEFAULT_GAME_TIME = "18:00";
+
+// Maps every field whose aliases match a header, without reusing a header
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const definition of GAME_FIELDS) {
+    const header = headers.find(
+      (h) => !used.has(h) && definition.aliases.includes(normalizePlace(h))
+    );
+    if (header) {
+      mapping[definition.field] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+};
+
+// Drops mapped headers that this file doesn't have, so a saved mapping never points at nothing
+export const restrictMapping = (mapping: ColumnMapping, headers: string[]): ColumnMapping =>
+  Object.fromEntries(
+    Object.entries(mapping).filter(([, header]) => header && headers.includes(header))
+  ) as ColumnMapping;
+
+export const parseDateValue = (value: unknown): { date: string; time: string } | null => {
+  if (!value) return null;
+
+  // Excel serial date
+  if (typeof value === "number") {
+    const date = XLSX.SSF.parse_date_code(value);
+    if (date) {
+      const dateStr = `${date.y}-${String(date.m).padStart(2, "0")}-${String(date.d).padStart(2, "0")}`;
+      const timeStr = `${String(date.H).padStart(2, "0")}:${String(date.M).padStart(2, "0")}`;
+      return { date: dateStr, time: timeStr };
+    }
+  }
+
+  // A bare ISO date is a calendar day, not UTC midnight
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value.trim())) {
+    return { date: value.trim(), time: "00:00" };
+  }
+
+  if (typeof value === "string" || value instanceof Date) {
+    const parsed = new Date(value);
+    if (!isNaN(parsed.getTime())) {
+      const dateStr = `${parsed.getFullYear()}-${String(parsed.getMonth() + 1).padStart(2, "0")}-${String(parsed.getDate()).padStart(2, "0")}`;
+      const timeStr = `${String(parsed.getHours()).padStart(2, "0")}:${String(parsed.getMinutes()).padStart(2, "0")}`;
+      return { date: dateStr, time: timeStr };
+    }
+  }
+
+  return null;
+};
+
+// Accepts "18:30", "6:30 PM" and "6pm"; anything else is passed through for the row to fail on
+export const parseTimeValue = (value: string): string => {
+  const match = value.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap])\.?m?\.?$/i) ||
+    value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?()$/);
+  if (!match) return value;
+
+  let hours = parseInt(match[1]);
+  const minutes = match[2] || "00";
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+
+  return `${String(hours).padStart(2, "0")}:${minutes}`;
+};
+
+const readCell = (row: ImportRow, mapping: ColumnMapping, field: GameField): string => {
+  const header = mapping[field];
+  if (!header) return "";
+  const value = row[header];
+  return value === undefined || value === null ? "" : String(value).trim();
+};
+
+export const applyMapping = (rows: ImportRow[], mapping: ColumnMapping, venues: Venue[]): ParsedGame[] =>
+  flagDuplicateExternalIds(rows.map((row) => {
+    const opponent = readCell(row, mapping, "opponent");
+    const venueText = readCell(row, mapping, "venue");
+    const location = readCell(row, mapping, "location") || venueText;
+
+    let date = "";
+    const timeValue = readCell(row, mapping, "time");
+    let time = timeValue ? parseTimeValue(timeValue) : DEFAULT_GAME_TIME;
+
+    const dateTimeValue = readCell(row, mapping, "datetime");
+    const dateValue = readCell(row, mapping, "date");
+    if (dateTimeValue) {
+      const parsed = parseDateValue(dateTimeValue);
+      if (parsed) {
+        date = parsed.date;
+        time = parsed.time;
+      }
+    } else if (dateValue) {
+      const parsed = parseDateValue(dateValue);
+      if (parsed) {
+        date = parsed.date;
+        if (parsed.time !== "00:00") {
+          time = parsed.time;
+        }
+      }
+    }
+
+    const venueQuery = venueText || location;
+    const venueId = venueQuery ? findBestVenue(venueQuery, venues)?.venue.id ?? null : null;
+
+    const errors: string[] = [];
+    if (!opponent) errors.push("Missing opponent");
+    if (!location) errors.push("Missing location");
+    if (!date) errors.push("Missing/invalid date");
+
+    return {
+      opponent,
+      location,
+      date,
+      time,
+      venueId,
+      level: readCell(row, mapping, "level") || null,
+      coachEmail: readCell(row, mapping, "coach_email").toLowerCase() || null,
+      teamName: readCell(row, mapping, "team") || null,
+      externalId: readCell(row, mapping, "external_id") || null,
+      valid: errors.length === 0,
+      error: errors.length > 0 ? errors.join(", ") : undefined,
+    };
+  }));
+
+// A game number that appears twice in one file can't say which row is the real game
+const flagDuplicateExternalIds = (games: ParsedGame[]): ParsedGame[] => {
+  const counts = new Map<string, number>();
+  for (const game of games) {
+    if (game.externalId) counts.set(game.externalId, (counts.get(game.externalId) || 0) + 1);
+  }
+
+  return games.map((game) =>
+    game.externalId && counts.get(game.externalId)! > 1
+      ? {
+          ...game,
+          valid: false,
+          error: [game.error, "Duplicate external ID in file"].filter(Boolean).join(", "),
+        }
+      : game
+  );
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): string[] => {
+  const missing: string[] = [];
+  if (!mapping.opponent) missing.push("Opponent");
+  if (!mapping.location && !mapping.venue) missing.push("Location or Venue");
+  if (!mapping.date && !mapping.datetime) missing.push("Date or Date & Time");
+  return missing;
+};
+
+export type ImportRowStatus = "created" | "updated" | "unchanged" | "failed" | "rolled_back";
+
+export interface ImportRowResult {
+  row_index: number;
+  status: ImportRowStatus;
+  game_id?: string;
+  changes?: string[];
+  error?: string;
+}
+
+export interface ImportCancellationResult {
+  game_id: string;
+  status: "cancelled" | "failed";
+  error?: string;
+}
+
+// Shape returned by the import_games() RPC
+export interface ImportBatchResult {
+  success: boolean;
+  created_count: number;
+  updated_count: number;
+  unchanged_count: number;
+  cancelled_count: number;
+  failed_count: number;
+  rolled_back: boolean;
+  rows: ImportRowResult[];
+  cancellations: ImportCancellationResult[];
+}
+
+// The fields a re-import can change on a game it created earlier
+export interface ImportedGameFields {
+  game_date: string;
+  location: string;
+  venue_id: string | null;
+  opponent: string;
+  level: string | null;
+  coach_id: string | null;
+  coach_invitation_id: string | null;
+}
+
+export interface ExistingImportedGame extends ImportedGameFields {
+  id: string;
+  external_id: string;
+  status: string;
+}
+
+export type RowDiffKind = "new" | "changed" | "unchanged";
+
+export interface RowDiff {
+  kind: RowDiffKind;
+  gameId?: string;
+  changes: string[];
+}
+
+// Same comparison import_games() makes, so the preview matches what will be written
+export const diffImportedGame = (incoming: ImportedGameFields, existing?: ExistingImportedGame): RowDiff => {
+  if (!existing) return { kind: "new", changes: [] };
+
+  const changes: string[] = [];
+  if (new Date(incoming.game_date).getTime() !== new Date(existing.game_date).getTime()) changes.push("time");
+  if (incoming.location !== existing.location || incoming.venue_id !== existing.venue_id) changes.push("location");
+  if (incoming.opponent !== existing.opponent) changes.push("opponent");
+  if ((incoming.level || null) !== existing.level) changes.push("level");
+  if (
+    incoming.coach_id !== existing.coach_id ||
+    (!incoming.coach_id && incoming.coach_invitation_id !== existing.coach_invitation_id)
+  ) {
+    changes.push("coach");
+  }
+
+  return { kind: changes.length > 0 ? "changed" : "unchanged", gameId: existing.id, changes };
+};
+
+// Open upcoming games from the source that the new file no longer lists
+export const findRemovedGames = (
+  existing: ExistingImportedGame[],
+  games: ParsedGame[]
+): ExistingImportedGame[] => {
+  const listed = new Set(games.map((g) => g.externalId).filter(Boolean));
+  const now = Date.now();
+  return existing.filter(
+    (game) =>
+      !listed.has(game.external_id) &&
+      ["pending", "assigned"].includes(game.status) &&
+      new Date(game.game_date).getTime() > now
+  );
+};
+
+// Writes the failed rows back out in their original columns plus an Error column,
+// so staff can fix them and upload just that file
+export const downloadErrorSpreadsheet = (sheet: ImportSheet, results: ImportRowResult[], fileName: string) => {
+  const failed = results
+    .filter((result) => result.status === "failed")
+    .sort((a, b) => a.row_index - b.row_index);
+
+  const rows = failed.map((result) => ({ ...sheet.rows[result.row_index], Error: result.error || "" }));
+  const worksheet = XLSX.utils.json_to_sheet(rows, { header: [...sheet.headers, "Error"] });
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, "Errors");
+
+  const baseName = fileName.replace(/\.[^.]+$/, "") || "games";
+  XLSX.writeFile(workbook, `${baseName}-errors.xlsx`);
+};
+
+export interface ImportCoach {
+  id: string;
+  full_name: string | null;
+  email: string;
+}
+
+export interface PendingCoachInvitation {
+  id: string;
+  email: string;
+  full_name: string | null;
+  team_name: string | null;
+  token: string;
+}
+
+export interface TeamCoachAlias {
+  team_key: string;
+  coach_id: string | null;
+  coach_invitation_id: string | null;
+}
+
+export type CoachResolution =
+  | { kind: "coach"; coachId: string; via: "manual" | "email" | "team" | "default" }
+  | { kind: "invitation"; invitationId: string; via: "manual" | "email" | "team" };
+
+export interface CoachDirectory {
+  coaches: ImportCoach[];
+  invitations: PendingCoachInvitation[];
+  aliases: TeamCoachAlias[];
+  defaultCoachId: string | null;
+}
+
+// A manual pick wins, then the row's coach email, then a saved team name. The default coach only
+// covers rows that name no coach at all, so an unknown email or team is flagged rather than guessed.
+export const resolveCoach = (
+  game: ParsedGame,
+  directory: CoachDirectory,
+  manual?: CoachResolution
+): CoachResolution | null => {
+  if (manual) return manual;
+
+  if (game.coachEmail) {
+    const coach = directory.coaches.find((c) => c.email.toLowerCase() === game.coachEmail);
+    if (coach) return { kind: "coach", coachId: coach.id, via: "email" };
+
+    const invitation = directory.invitations.find((i) => i.email.toLowerCase() === game.coachEmail);
+    if (invitation) return { kind: "invitation", invitationId: invitation.id, via: "email" };
+  }
+
+  if (game.teamName) {
+    const alias = directory.aliases.find((a) => a.team_key === normalizePlace(game.teamName!));
+    if (alias?.coach_id) return { kind: "coach", coachId: alias.coach_id, via: "team" };
+    if (alias?.coach_invitation_id) return { kind: "invitation", invitationId: alias.coach_invitation_id, via: "team" };
+  }
+
+  if (directory.defaultCoachId && !game.coachEmail && !game.teamName) {
+    return { kind: "coach", coachId: directory.defaultCoachId, via: "default" };
+  }
+
+  return null;
+};
@@ -0,0 +1,101 @@
+import { eachDayOfInterval, format } from "date-fns";
+import { DAYS_OF_WEEK } from "@/lib/availability";
+
+export interface SeriesRecurrence {
+  // 0 = Sunday ... 6 = Saturday
+  daysOfWeek: number[];
+  // HH:mm
+  time: string;
+  startDate: Date;
+  endDate: Date;
+  excludedDates: Date[];
+}
+
+export interface GameSeries {
+  id: string;
+  name: string;
+  days_of_week: number[];
+  start_time: string;
+  start_date: string;
+  end_date: string;
+  excluded_dates: string[];
+}
+
+export interface GameSeriesResult {
+  success: boolean;
+  reason?:
+    | "not_found"
+    | "not_allowed"
+    | "reason_required"
+    | "invalid_details"
+    | "no_games"
+    | "too_many_games"
+    | "date_in_past"
+    | "no_change"
+    | "no_remaining_games";
+  max_games?: number;
+  series_id?: string;
+  games_created?: number;
+  games_changed?: number;
+  games_skipped?: number;
+  crew_to_confirm?: number;
+}
+
+// Matches the max_series_games default; the database has the final say
+export const MAX_SERIES_GAMES = 100;
+
+const toDayKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Expands a recurrence into local game times, skipping excluded dates. Times are built in the
+// browser's time zone so "18:00" stays 18:00 across daylight saving changes.
+export const generateSeriesDates = (recurrence: SeriesRecurrence): Date[] => {
+  const { daysOfWeek, time, startDate, endDate, excludedDates } = recurrence;
+  if (!time || daysOfWeek.length === 0 || endDate < startDate) return [];
+
+  const [hours, minutes] = time.split(":").map((part) => parseInt(part));
+  const excluded = new Set(excludedDates.map(toDayKey));
+
+  return eachDayOfInterval({ start: startDate, end: endDate })
+    .filter((day) => daysOfWeek.includes(day.getDay()) && !excluded.has(toDayKey(day)))
+    .map((day) => {
+      const gameDate = new Date(day);
+      gameDate.setHours(hours, minutes, 0, 0);
+      return gameDate;
+    });
+};
+
+// e.g. "Every Tuesday and Thursday at 18:00, Apr 1 – Jun 15 (2 dates skipped)"
+export const describeSeries = (series: GameSeries): string => {
+  const days = [...series.days_of_week].sort().map((day) => DAYS_OF_WEEK[day]);
+  const dayList = days.length > 1 ? `${days.slice(0, -1).join(", ")} and ${days[days.length - 1]}` : days[0];
+  const range = `${format(new Date(`${series.start_date}T00:00`), "MMM d")} – ${format(new Date(`${series.end_date}T00:00`), "MMM d")}`;
+  const skipped = series.excluded_dates.length;
+
+  return `Every ${dayList} at ${series.start_time.slice(0, 5)}, ${range}` +
+    (skipped > 0 ? ` (${skipped} date${skipped === 1 ? "" : "s"} skipped)` : "");
+};
+
+export const describeSeriesFailure = (result: GameSeriesResult): string => {
+  switch (result.reason) {
+    case "not_allowed":
+      return "Only the series' coach or staff can change this series";
+    case "reason_required":
+      return "Please give a reason for the change";
+    case "invalid_details":
+      return "Fill in every field";
+    case "no_games":
+      return "The recurrence doesn't produce any games";
+    case "too_many_games":
+      return `A series can have at most ${result.max_games ?? MAX_SERIES_GAMES} games`;
+    case "date_in_past":
+      return "Every game in the series has to be in the future";
+    case "no_change":
+      return "Nothing was changed";
+    case "no_remaining_games":
+      return "This series has no upcoming games left to change";
+    case "not_found":
+      return "This series no longer exists";
+    default:
+      return "Unable to save this series";
+  }
+};
@@ -0,0 +1,36 @@
+const EARTH_RADIUS_MILES = 3959;
+const AVERAGE_TRAVEL_MPH = 30;
+const TWO_HOURS_MS = 2 * 60 * 60 * 1000;
+
+export interface ScheduledGame {
+  game_date: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_MILES * c;
+};
+
+// Same rule as public.find_schedule_conflict: games under 2 hours apart conflict unless
+// both have coordinates and the gap covers travel time at 30 mph plus a 1 hour buffer.
+export const gamesConflict = (a: ScheduledGame, b: ScheduledGame): boolean => {
+  const timeDiff = Math.abs(new Date(a.game_date).getTime() - new Date(b.game_date).getTime());
+  if (timeDiff >= TWO_HOURS_MS) return false;
+
+  if (a.latitude && a.longitude && b.latitude && b.longitude) {
+    const distance = calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+    const travelTimeMinutes = (distance / AVERAGE_TRAVEL_MPH) * 60;
+    const requiredBuffer = (travelTimeMinutes + 60) * 60 * 1000;
+    return timeDiff < requiredBuffer;
+  }
+
+  return true;
+};
@@ -0,0 +1,65 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+  matchedName: string;
+}
+
+export interface GeocodingProvider {
+  name: string;
+  geocode: (query: string) => Promise<GeocodeResult | null>;
+}
+
+// Looks places up in the geocode_gazetteer table, so geocoding works without any external service
+export const gazetteerProvider: GeocodingProvider = {
+  name: "gazetteer",
+  geocode: async (query) => {
+    const { data, error } = await supabase.rpc("geocode_lookup", { query_param: query });
+    if (error) throw error;
+
+    const match = data?.[0];
+    if (!match) return null;
+
+    return {
+      latitude: Number(match.latitude),
+      longitude: Number(match.longitude),
+      matchedName: match.matched_name,
+    };
+  },
+};
+
+let activeProvider: GeocodingProvider = gazetteerProvider;
+
+export const setGeocodingProvider = (provider: GeocodingProvider) => {
+  activeProvider = provider;
+};
+
+export const getGeocodingProvider = (): GeocodingProvider => activeProvider;
+
+// Coordinates are a nice-to-have, so lookup failures resolve to null rather than blocking a save
+export const geocode = async (query: string): Promise<GeocodeResult | null> => {
+  const trimmed = query.trim();
+  if (!trimmed) return null;
+
+  try {
+    return await activeProvider.geocode(trimmed);
+  } catch (error) {
+    console.error(`Error geocoding "${trimmed}" with ${activeProvider.name}:`, error);
+    return null;
+  }
+};
+
+// Resolves each distinct place once, for imports where many rows share a venue
+export const geocodeAll = async (queries: string[]): Promise<Map<string, GeocodeResult | null>> => {
+  const results = new Map<string, GeocodeResult | null>();
+  for (const query of new Set(queries.map((q) => q.trim()))) {
+    results.set(query, await geocode(query));
+  }
+  return results;
+};
+
+export const toCoordinates = (result: GeocodeResult | null) => ({
+  latitude: result?.latitude ?? null,
+  longitude: result?.longitude ?? null,
+});
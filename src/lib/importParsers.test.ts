@@ -0,0 +1,150 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { decodeText, detectDelimiter, parseCalendar, parseCalendarDate, parseDelimited } from "@/lib/importParsers";
+
+const readFixture = (name: string): ArrayBuffer => {
+  const buffer = readFileSync(new URL(`./__fixtures__/imports/${name}`, import.meta.url));
+  return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+};
+
+const readFixtureText = (name: string): string => decodeText(readFixture(name));
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Zoned times become the wall clock of whatever zone the tests run in, like in the browser
+const localDateTime = (instant: number) => {
+  const local = new Date(instant);
+  return {
+    date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+    time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+  };
+};
+
+describe("decodeText", () => {
+  it("strips a UTF-8 byte order mark", () => {
+    expect(readFixtureText("utf8-bom.csv")).toBe("Date,Opponent,Location\r\n2026-04-04,Águilas,Estadio Municipal\r\n");
+  });
+
+  it("decodes UTF-16 in either byte order", () => {
+    const expected = "Date,Opponent,Location\r\n2026-04-04,Águilas,Estadio Municipal\r\n";
+    expect(readFixtureText("utf16le-bom.csv")).toBe(expected);
+    expect(readFixtureText("utf16be-bom.csv")).toBe(expected);
+  });
+
+  it("falls back to Windows-1252 when the file isn't valid UTF-8", () => {
+    expect(readFixtureText("windows-1252.csv")).toBe(
+      "Date,Opponent,Location\r\n2026-04-04,Águilas Reserve,Café Müller Field\r\n"
+    );
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("picks commas, semicolons and tabs", () => {
+    expect(detectDelimiter(readFixtureText("quoted.csv"))).toBe(",");
+    expect(detectDelimiter(readFixtureText("semicolon.csv"))).toBe(";");
+    expect(detectDelimiter(readFixtureText("tabs.tsv"))).toBe("\t");
+  });
+
+  it("ignores delimiters inside quoted fields", () => {
+    expect(detectDelimiter('Opponent;Location\n"Eagles, Blue; Red, Green";Park\n')).toBe(";");
+  });
+
+  it("defaults to commas for a single column", () => {
+    expect(detectDelimiter("Opponent\nEagles\n")).toBe(",");
+  });
+});
+
+describe("parseDelimited", () => {
+  it("keeps quoted delimiters, doubled quotes and line breaks in one field", () => {
+    expect(parseDelimited(readFixtureText("quoted.csv"), ",")).toEqual([
+      ["Date", "Time", "Opponent", "Location", "Notes"],
+      ["2026-04-04", "18:00", "Eagles, Blue", "Memorial Park", 'Bring "extra" balls'],
+      ["2026-04-11", "10:30", "Hawks", "Field 2\r\nNorth Complex", ""],
+    ]);
+  });
+
+  it("splits semicolon-separated files", () => {
+    expect(parseDelimited(readFixtureText("semicolon.csv"), ";")).toEqual([
+      ["Datum", "Zeit", "Gegner", "Ort"],
+      ["2026-04-04", "18:00", "Eagles", "Stadtpark"],
+      ["2026-04-11", "10:30", "Hawks; Reserve", "Feld 2"],
+    ]);
+  });
+
+  it("treats CRLF and LF line endings alike", () => {
+    expect(parseDelimited("a,b\r\nc,d\ne,f", ",")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+    ]);
+  });
+});
+
+describe("parseCalendarDate", () => {
+  it("reads all-day dates without a time", () => {
+    expect(parseCalendarDate("20260425")).toEqual({ date: "2026-04-25", time: null });
+  });
+
+  it("takes floating times as written", () => {
+    expect(parseCalendarDate("20260418T100000")).toEqual({ date: "2026-04-18", time: "10:00" });
+  });
+
+  it("converts UTC times to local time", () => {
+    expect(parseCalendarDate("20260411T150000Z")).toEqual(localDateTime(Date.UTC(2026, 3, 11, 15, 0)));
+  });
+
+  it("converts TZID times to local time", () => {
+    // 18:00 in Chicago on April 4 is daylight time, UTC-5
+    expect(parseCalendarDate("20260404T180000", "America/Chicago")).toEqual(
+      localDateTime(Date.UTC(2026, 3, 4, 23, 0))
+    );
+  });
+
+  it("takes times in unknown zones as written", () => {
+    expect(parseCalendarDate("20260404T180000", "Central Standard Time")).toEqual({
+      date: "2026-04-04",
+      time: "18:00",
+    });
+  });
+
+  it("rejects values that aren't dates", () => {
+    expect(parseCalendarDate("April 4")).toBeNull();
+  });
+});
+
+describe("parseCalendar", () => {
+  const sheet = parseCalendar(readFixtureText("schedule.ics"));
+
+  it("reads one row per event and leaves out cancelled ones", () => {
+    expect(sheet.rows.map((row) => row["Game ID"])).toEqual([
+      "game-101@league.example",
+      "game-102@league.example",
+      "game-103@league.example",
+      "game-104@league.example",
+    ]);
+  });
+
+  it("unfolds continuation lines and unescapes text", () => {
+    expect(sheet.rows[0]).toMatchObject({
+      Location: "Memorial Park, Field 2",
+      Description: "Bring both uniforms.\nArrive 30 minutes early; gates open at 5pm.",
+    });
+  });
+
+  it("splits the summary into team and opponent", () => {
+    expect(sheet.rows[1]).toMatchObject({ Team: "Tigers", Opponent: "Hawks", Summary: "Tigers @ Hawks" });
+    expect(sheet.rows[3]).toMatchObject({ Opponent: "Jamboree", Summary: "Jamboree" });
+    expect(sheet.rows[3]).not.toHaveProperty("Team");
+  });
+
+  it("converts each event's start", () => {
+    const chicago = localDateTime(Date.UTC(2026, 3, 4, 23, 0));
+    const utc = localDateTime(Date.UTC(2026, 3, 11, 15, 0));
+
+    expect(sheet.rows[0]).toMatchObject({ Date: chicago.date, Time: chicago.time });
+    expect(sheet.rows[1]).toMatchObject({ Date: utc.date, Time: utc.time });
+    expect(sheet.rows[2]).toMatchObject({ Date: "2026-04-18", Time: "10:00" });
+    expect(sheet.rows[3]).toMatchObject({ Date: "2026-04-25" });
+    expect(sheet.rows[3]).not.toHaveProperty("Time");
+  });
+});
@@ -0,0 +1,345 @@
+import * as XLSX from "xlsx";
+import { ImportRow, ImportSheet } from "@/lib/gameImport";
+
+export interface ImportParser {
+  name: string;
+  label: string;
+  // Lower-case file extensions including the dot, e.g. ".csv"
+  extensions: string[];
+  parse: (file: File) => Promise<ImportSheet>;
+}
+
+const toSheet = (headerRow: string[], dataRows: string[][]): ImportSheet => {
+  const headers = headerRow.map((header) => header.trim()).filter(Boolean);
+  const rows = dataRows
+    .filter((cells) => cells.some((cell) => cell.trim()))
+    .map((cells) => {
+      const row: ImportRow = {};
+      headerRow.forEach((header, index) => {
+        const value = cells[index]?.trim();
+        if (header.trim() && value) row[header.trim()] = value;
+      });
+      return row;
+    });
+
+  return { headers, rows };
+};
+
+export const spreadsheetParser: ImportParser = {
+  name: "spreadsheet",
+  label: "Excel",
+  extensions: [".xlsx", ".xls"],
+  parse: async (file) => {
+    const buffer = await file.arrayBuffer();
+    const workbook = XLSX.read(buffer, { type: "array", cellDates: true });
+    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+
+    const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(firstSheet, { header: 1, raw: false });
+    const headers = headerRow.map((header) => String(header ?? "").trim()).filter(Boolean);
+    const rows = XLSX.utils.sheet_to_json<ImportRow>(firstSheet, { raw: false, dateNF: "yyyy-mm-dd" });
+
+    return { headers, rows };
+  },
+};
+
+// CSV
+
+const CSV_DELIMITERS = [",", ";", "\t", "|"];
+
+// Honours a byte order mark, then tries strict UTF-8 and falls back to Windows-1252,
+// which is what spreadsheet programs on Windows write when "CSV" is picked
+export const decodeText = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return new TextDecoder("utf-8").decode(bytes.subarray(3));
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  }
+
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder("windows-1252").decode(bytes);
+  }
+};
+
+// Delimiter counts for the first records, with quoted text (including line breaks) skipped
+const countPerRecord = (text: string, delimiter: string, limit = 10): number[] => {
+  const counts: number[] = [];
+  let count = 0;
+  let quoted = false;
+  let blank = true;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    if (quoted) continue;
+
+    if (char === "\n") {
+      if (!blank) counts.push(count);
+      if (counts.length === limit) break;
+      count = 0;
+      blank = true;
+    } else if (char !== "\r") {
+      if (char === delimiter) count++;
+      if (char.trim()) blank = false;
+    }
+  }
+  if (!blank && counts.length < limit) counts.push(count);
+
+  return counts;
+};
+
+// Picks the delimiter that splits the first records into the most columns, consistently
+export const detectDelimiter = (text: string): string => {
+  let best = ",";
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = countPerRecord(text, delimiter);
+    const score = counts.length > 0 ? Math.min(...counts) : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// RFC 4180: quoted fields may contain the delimiter, line breaks and doubled quotes
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+// Also covers Google Sheets, whose "Download as CSV" is plain UTF-8 CSV
+export const csvParser: ImportParser = {
+  name: "csv",
+  label: "CSV",
+  extensions: [".csv", ".tsv"],
+  parse: async (file) => {
+    const text = decodeText(await file.arrayBuffer());
+    const [headerRow = [], ...dataRows] = parseDelimited(text, detectDelimiter(text));
+    return toSheet(headerRow, dataRows);
+  },
+};
+
+// iCalendar
+
+export const ICS_HEADERS = ["Opponent", "Team", "Summary", "Location", "Date", "Time", "Game ID", "Description"];
+
+interface CalendarProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+// Continuation lines start with a space or tab and belong to the line before
+const unfoldLines = (text: string): string[] =>
+  text.split(/\r?\n/).reduce<string[]>((lines, line) => {
+    if (/^[ \t]/.test(line) && lines.length > 0) {
+      lines[lines.length - 1] += line.slice(1);
+    } else if (line) {
+      lines.push(line);
+    }
+    return lines;
+  }, []);
+
+const parseProperty = (line: string): CalendarProperty | null => {
+  // The value starts at the first colon outside a quoted parameter value
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...rest] = part.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char)).trim();
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Milliseconds the zone is ahead of UTC at the given instant
+const zoneOffset = (instant: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  return Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second")) - instant;
+};
+
+/**
+ * Converts an iCalendar DTSTART into a local date and time. UTC ("Z") and TZID times
+ * become the browser's wall clock, like every other import; floating times and TZIDs
+ * the browser doesn't know (e.g. Windows zone names) are taken as written.
+ */
+export const parseCalendarDate = (
+  value: string,
+  timeZone?: string
+): { date: string; time: string | null } | null => {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  if (!hours) return { date: `${year}-${month}-${day}`, time: null };
+
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hours, +minutes, +(seconds || 0));
+  let instant: number | null = null;
+  if (utc) {
+    instant = wallClock;
+  } else if (timeZone) {
+    try {
+      // A second pass settles times near a daylight-saving change
+      const guess = wallClock - zoneOffset(wallClock, timeZone);
+      instant = wallClock - zoneOffset(guess, timeZone);
+    } catch {
+      instant = null;
+    }
+  }
+
+  if (instant === null) return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}` };
+
+  const local = new Date(instant);
+  return {
+    date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+    time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+  };
+};
+
+// "Tigers vs Eagles", "Tigers @ Eagles" and "Tigers at Eagles" name our team first
+export const splitSummary = (summary: string): { team: string; opponent: string } => {
+  const match = summary.match(/^(.+?)\s+(?:vs\.?|v\.?|versus|@|at)\s+(.+)$/i);
+  return match ? { team: match[1].trim(), opponent: match[2].trim() } : { team: "", opponent: summary };
+};
+
+export const parseCalendar = (text: string): ImportSheet => {
+  const rows: ImportRow[] = [];
+  let event: Record<string, CalendarProperty> | null = null;
+
+  for (const line of unfoldLines(text)) {
+    const property = parseProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN" && property.value.toUpperCase() === "VEVENT") {
+      event = {};
+    } else if (property.name === "END" && property.value.toUpperCase() === "VEVENT" && event) {
+      // Cancelled events are left out, so the games show up as missing from the file
+      if (event.STATUS?.value.toUpperCase() !== "CANCELLED") {
+        const start = event.DTSTART && parseCalendarDate(event.DTSTART.value, event.DTSTART.params.TZID);
+        const summary = event.SUMMARY ? unescapeText(event.SUMMARY.value) : "";
+        const { team, opponent } = splitSummary(summary);
+        const row: ImportRow = {
+          Opponent: opponent,
+          Team: team,
+          Summary: summary,
+          Location: event.LOCATION ? unescapeText(event.LOCATION.value) : "",
+          Date: start?.date ?? "",
+          Time: start?.time ?? "",
+          "Game ID": event.UID ? unescapeText(event.UID.value) : "",
+          Description: event.DESCRIPTION ? unescapeText(event.DESCRIPTION.value) : "",
+        };
+        rows.push(Object.fromEntries(Object.entries(row).filter(([, value]) => value)));
+      }
+      event = null;
+    } else if (event && !(property.name in event)) {
+      event[property.name] = property;
+    }
+  }
+
+  return { headers: ICS_HEADERS, rows };
+};
+
+export const icsParser: ImportParser = {
+  name: "ics",
+  label: "iCalendar",
+  extensions: [".ics", ".ical"],
+  parse: async (file) => parseCalendar(decodeText(await file.arrayBuffer())),
+};
+
+const parsers: ImportParser[] = [spreadsheetParser, csvParser, icsParser];
+
+// Later registrations win, so a parser can take over an extension from a built-in one
+export const registerImportParser = (parser: ImportParser) => {
+  parsers.unshift(parser);
+};
+
+export const getImportParsers = (): ImportParser[] => [...parsers];
+
+export const importFileAccept = (): string =>
+  [...new Set(parsers.flatMap((parser) => parser.extensions))].join(",");
+
+export const findImportParser = (fileName: string): ImportParser | undefined => {
+  const lowerName = fileName.toLowerCase();
+  return parsers.find((parser) => parser.extensions.some((extension) => lowerName.endsWith(extension)));
+};
+
+export const readImportFile = async (file: File): Promise<ImportSheet> => {
+  const parser = findImportParser(file.name);
+  if (!parser) {
+    throw new Error(`Unsupported file type. Upload one of: ${importFileAccept().replace(/,/g, ", ")}`);
+  }
+  return parser.parse(file);
+};
@@ -0,0 +1,118 @@
+import { supabase } from "@/integrations/supabase/client";
+import { differenceInCalendarDays, parseISO } from "date-fns";
+
+export interface GameLevel {
+  id: string;
+  name: string;
+  rank: number;
+  description: string | null;
+}
+
+export interface League {
+  id: string;
+  name: string;
+}
+
+export interface Division {
+  id: string;
+  name: string;
+  league_id: string;
+  level_id: string;
+  leagues: { name: string } | null;
+}
+
+export interface UmpireCertification {
+  id: string;
+  umpire_id: string;
+  level_id: string;
+  certified_on: string;
+  expires_on: string | null;
+  notes: string | null;
+  game_levels: { name: string; rank: number } | null;
+}
+
+export type CertificationStatus = "active" | "expiring" | "expired";
+
+// Why the database turned an umpire away from a game, from umpire_qualification_issue()
+export type QualificationIssue = "not_certified" | "certification_expired";
+
+// What a game is played at. A division implies its level; a level can also be picked on its own
+// for games outside any league.
+export interface LevelSelection {
+  divisionId: string | null;
+  levelId: string | null;
+}
+
+export const EMPTY_LEVEL: LevelSelection = { divisionId: null, levelId: null };
+
+// Certifications this close to lapsing are flagged so they can be renewed in time
+export const EXPIRY_WARNING_DAYS = 30;
+
+export const fetchGameLevels = async (): Promise<GameLevel[]> => {
+  const { data, error } = await supabase
+    .from("game_levels")
+    .select("id, name, rank, description")
+    .order("rank");
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchLeagues = async (): Promise<League[]> => {
+  const { data, error } = await supabase.from("leagues").select("id, name").order("name");
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchDivisions = async (): Promise<Division[]> => {
+  const { data, error } = await supabase
+    .from("divisions")
+    .select("id, name, league_id, level_id, leagues (name)")
+    .order("name");
+
+  if (error) throw error;
+  return (data || []).sort((a, b) => formatDivisionName(a).localeCompare(formatDivisionName(b)));
+};
+
+export const fetchCertifications = async (umpireId?: string): Promise<UmpireCertification[]> => {
+  let query = supabase
+    .from("umpire_certifications")
+    .select("id, umpire_id, level_id, certified_on, expires_on, notes, game_levels (name, rank)");
+
+  if (umpireId) {
+    query = query.eq("umpire_id", umpireId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []).sort((a, b) => (b.game_levels?.rank ?? 0) - (a.game_levels?.rank ?? 0));
+};
+
+// e.g. "Metro League · 14U Boys"
+export const formatDivisionName = (division: Division): string =>
+  division.leagues ? `${division.leagues.name} · ${division.name}` : division.name;
+
+export const toGameLevel = (selection: LevelSelection) => ({
+  division_id: selection.divisionId,
+  level_id: selection.levelId,
+});
+
+export const getCertificationStatus = (certification: UmpireCertification, on = new Date()): CertificationStatus => {
+  if (!certification.expires_on) return "active";
+
+  const daysLeft = differenceInCalendarDays(parseISO(certification.expires_on), on);
+  if (daysLeft < 0) return "expired";
+  return daysLeft <= EXPIRY_WARNING_DAYS ? "expiring" : "active";
+};
+
+export const describeQualificationIssue = (reason: QualificationIssue): string => {
+  switch (reason) {
+    case "certification_expired":
+      return "The umpire's certification for this level has expired";
+    case "not_certified":
+    default:
+      return "The umpire isn't certified for this game's level";
+  }
+};
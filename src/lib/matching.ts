@@ -0,0 +1,50 @@
+import { ScheduledGame, gamesConflict } from "@/lib/geo";
+import { UmpirePosition } from "@/lib/crew";
+
+export interface UmpireSuggestion {
+  umpire_id: string;
+  full_name: string | null;
+  score: number;
+  distance_miles: number | null;
+  average_rating: number | null;
+  reliability_score: number;
+  upcoming_games: number;
+}
+
+export interface MatchableGame extends ScheduledGame {
+  id: string;
+  open_positions: UmpirePosition[];
+}
+
+export interface ProposedAssignment {
+  gameId: string;
+  position: UmpirePosition;
+  suggestion: UmpireSuggestion | null;
+}
+
+// Greedy plan for filling several games at once. Suggestions already exclude conflicts with
+// each umpire's existing schedule; this also keeps one batch from double-booking an umpire.
+// Earliest games are filled first so they get first pick of the highest scoring umpires, and
+// an umpire planned for one position of a crew is never offered another position in it.
+export const planAutoFill = (
+  games: MatchableGame[],
+  suggestionsByGame: Map<string, UmpireSuggestion[]>
+): ProposedAssignment[] => {
+  const planned = new Map<string, MatchableGame[]>();
+
+  return [...games]
+    .sort((a, b) => new Date(a.game_date).getTime() - new Date(b.game_date).getTime())
+    .flatMap((game) =>
+      game.open_positions.map((position) => {
+        const suggestion = (suggestionsByGame.get(game.id) || []).find((candidate) =>
+          !(planned.get(candidate.umpire_id) || []).some((other) => other.id === game.id || gamesConflict(game, other))
+        );
+
+        if (suggestion) {
+          planned.set(suggestion.umpire_id, [...(planned.get(suggestion.umpire_id) || []), game]);
+        }
+
+        return { gameId: game.id, position, suggestion: suggestion || null };
+      })
+    );
+};
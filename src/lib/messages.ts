@@ -0,0 +1,68 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface InboxThread {
+  thread_id: string;
+  subject: string;
+  rating_id: string | null;
+  game_id: string | null;
+  last_message_at: string;
+  last_message: string | null;
+  last_sender_name: string | null;
+  participant_names: string[];
+  unread_count: number;
+}
+
+export interface ThreadMessage {
+  id: string;
+  sender_id: string | null;
+  sender_name: string | null;
+  sender_is_staff: boolean;
+  body: string;
+  created_at: string;
+}
+
+export interface MessageResult {
+  success: boolean;
+  reason?: "not_allowed" | "invalid_details" | "recipient_not_found" | "not_found";
+  thread_id?: string;
+}
+
+// Matches the limit on messages.body
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export const fetchInbox = async (): Promise<InboxThread[]> => {
+  const { data, error } = await supabase.rpc("get_inbox");
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchThreadMessages = async (threadId: string): Promise<ThreadMessage[]> => {
+  const { data, error } = await supabase.rpc("get_thread_messages", { thread_id_param: threadId });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const countUnread = (threads: InboxThread[]): number =>
+  threads.reduce((total, thread) => total + thread.unread_count, 0);
+
+// Who a thread is with, from the reader's side. Threads to staff that no one has answered yet
+// have no other participants.
+export const describeParticipants = (thread: InboxThread): string =>
+  thread.participant_names.length > 0 ? thread.participant_names.join(", ") : "Staff";
+
+export const describeMessageFailure = (result: MessageResult): string => {
+  switch (result.reason) {
+    case "not_allowed":
+      return "You can message staff, or the coaches and officials of a game you're part of";
+    case "invalid_details":
+      return "Enter a subject and a message";
+    case "recipient_not_found":
+      return "That person no longer has an account";
+    case "not_found":
+      return "This conversation no longer exists";
+    default:
+      return "Unable to send message";
+  }
+};
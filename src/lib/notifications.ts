@@ -0,0 +1,172 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type AppRole = "coach" | "umpire" | "employee" | "admin";
+
+export type NotificationEvent =
+  | "game_assigned"
+  | "game_updated"
+  | "game_rescheduled"
+  | "game_cancelled"
+  | "umpire_withdrew"
+  | "rating_received"
+  | "new_nearby_game"
+  | "game_reminder"
+  | "game_unfilled"
+  | "completion_reminder";
+
+export type NotificationChannel = "in_app" | "email";
+
+export interface AppNotification {
+  id: string;
+  game_id: string | null;
+  type: string;
+  title: string;
+  body: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface NotificationPreference {
+  event_type: NotificationEvent;
+  in_app: boolean;
+  email: boolean;
+}
+
+// An address the mail server rejected. Email stops until the bounce is cleared.
+export interface EmailBounce {
+  email: string;
+  reason: string | null;
+  last_bounced_at: string;
+}
+
+export interface NotificationEventInfo {
+  event: NotificationEvent;
+  label: string;
+  description: string;
+  roles: AppRole[];
+}
+
+// Matches the event_type check on notification_preferences
+export const NOTIFICATION_EVENTS: NotificationEventInfo[] = [
+  {
+    event: "game_assigned",
+    label: "Assignments",
+    description: "An umpire takes one of your games, or staff put you on a crew",
+    roles: ["coach", "umpire"],
+  },
+  {
+    event: "game_updated",
+    label: "Game changes",
+    description: "Details change on a game you're working",
+    roles: ["umpire"],
+  },
+  {
+    event: "game_rescheduled",
+    label: "Reschedules",
+    description: "A game you're part of moves to a new time",
+    roles: ["coach", "umpire"],
+  },
+  {
+    event: "game_cancelled",
+    label: "Cancellations",
+    description: "A game you're part of is cancelled",
+    roles: ["coach", "umpire"],
+  },
+  {
+    event: "umpire_withdrew",
+    label: "Withdrawals",
+    description: "An umpire drops out of a game",
+    roles: ["coach", "employee", "admin"],
+  },
+  {
+    event: "rating_received",
+    label: "Ratings",
+    description: "A coach rates your work",
+    roles: ["umpire"],
+  },
+  {
+    event: "new_nearby_game",
+    label: "Nearby games",
+    description: "A game you're qualified for opens up near your home address",
+    roles: ["umpire"],
+  },
+  {
+    event: "game_reminder",
+    label: "Game reminders",
+    description: "48 hours and 2 hours before a game you're part of",
+    roles: ["coach", "umpire"],
+  },
+  {
+    event: "game_unfilled",
+    label: "Unfilled games",
+    description: "A game is still missing officials in the days before it starts",
+    roles: ["employee", "admin"],
+  },
+  {
+    event: "completion_reminder",
+    label: "Completion reminders",
+    description: "A game you coached still needs confirming a day after it was played",
+    roles: ["coach"],
+  },
+];
+
+// What a user gets for events they haven't set a preference for
+export const DEFAULT_PREFERENCE: Omit<NotificationPreference, "event_type"> = { in_app: true, email: false };
+
+// How many recent notifications the notification center shows
+export const NOTIFICATION_LIMIT = 20;
+
+export const fetchNotifications = async (userId: string): Promise<AppNotification[]> => {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, game_id, type, title, body, read_at, created_at")
+    .eq("user_id", userId)
+    .eq("show_in_app", true)
+    .order("created_at", { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const markNotificationsRead = async (ids: string[]) => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", ids);
+
+  if (error) throw error;
+};
+
+// Every event, with the user's saved choices filled in over the defaults
+export const fetchPreferences = async (userId: string): Promise<NotificationPreference[]> => {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("event_type, in_app, email")
+    .eq("user_id", userId);
+
+  if (error) throw error;
+
+  const saved = new Map((data || []).map((p) => [p.event_type, p]));
+  return NOTIFICATION_EVENTS.map(({ event }) => ({
+    event_type: event,
+    in_app: saved.get(event)?.in_app ?? DEFAULT_PREFERENCE.in_app,
+    email: saved.get(event)?.email ?? DEFAULT_PREFERENCE.email,
+  }));
+};
+
+export const getEventsForRoles = (roles: AppRole[]): NotificationEventInfo[] =>
+  NOTIFICATION_EVENTS.filter((info) => info.roles.some((role) => roles.includes(role)));
+
+export const fetchEmailBounce = async (email: string): Promise<EmailBounce | null> => {
+  const { data, error } = await supabase
+    .from("email_bounces")
+    .select("email, reason, last_bounced_at")
+    .eq("email", email.toLowerCase())
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,140 @@
+import { supabase } from "@/integrations/supabase/client";
+import { normalizePlace } from "@/lib/venues";
+
+export type TeamRole = "head" | "assistant";
+
+export interface Team {
+  id: string;
+  name: string;
+  age_division: string | null;
+  league: string | null;
+}
+
+export interface CoachTeam extends Team {
+  role: TeamRole;
+}
+
+export interface TeamMember {
+  coach_id: string;
+  full_name: string | null;
+  email: string;
+  role: TeamRole;
+}
+
+export interface TeamResult {
+  success: boolean;
+  reason?:
+    | "not_allowed"
+    | "invalid_details"
+    | "team_exists"
+    | "coach_not_found"
+    | "already_member"
+    | "last_head_coach"
+    | "not_found";
+  team_id?: string;
+  coach_id?: string;
+}
+
+// Which team a coach is entering a game for, and who they are playing. The opponent stays free
+// text so games against teams that aren't in the system can still be requested.
+export interface MatchupSelection {
+  teamId: string | null;
+  side: "home" | "away";
+  opponent: string;
+  opponentTeamId: string | null;
+}
+
+export const EMPTY_MATCHUP: MatchupSelection = { teamId: null, side: "home", opponent: "", opponentTeamId: null };
+
+export const TEAM_ROLE_LABELS: Record<TeamRole, string> = {
+  head: "Head Coach",
+  assistant: "Assistant Coach",
+};
+
+export const fetchTeams = async (): Promise<Team[]> => {
+  const { data, error } = await supabase
+    .from("teams")
+    .select("id, name, age_division, league")
+    .order("name");
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchCoachTeams = async (coachId: string): Promise<CoachTeam[]> => {
+  const { data, error } = await supabase
+    .from("team_members")
+    .select("role, teams (id, name, age_division, league)")
+    .eq("coach_id", coachId);
+
+  if (error) throw error;
+  return (data || [])
+    .filter((membership) => membership.teams)
+    .map((membership) => ({ ...membership.teams, role: membership.role }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// PostgREST filter for the games a coach shares: the ones they requested, plus every game any
+// of their teams plays in
+export const getCoachGamesFilter = (coachId: string, teamIds: string[]): string => {
+  const teamFilter = teamIds.length > 0
+    ? `,home_team_id.in.(${teamIds.join(",")}),away_team_id.in.(${teamIds.join(",")})`
+    : "";
+  return `coach_id.eq.${coachId}${teamFilter}`;
+};
+
+// e.g. "Tigers (U12 · Metro League)"
+export const formatTeamName = (team: Team): string => {
+  const details = [team.age_division, team.league].filter(Boolean);
+  return details.length > 0 ? `${team.name} (${details.join(" · ")})` : team.name;
+};
+
+export const searchTeams = (query: string, teams: Team[], limit = 8): Team[] => {
+  const normalized = normalizePlace(query);
+  if (!normalized) return [];
+
+  return teams
+    .filter((team) => normalizePlace(formatTeamName(team)).includes(normalized))
+    .slice(0, limit);
+};
+
+export const toGameTeams = (matchup: MatchupSelection) => ({
+  home_team_id: matchup.side === "home" ? matchup.teamId : matchup.opponentTeamId,
+  away_team_id: matchup.side === "home" ? matchup.opponentTeamId : matchup.teamId,
+});
+
+// The other side of a game from the point of view of a coach on one of the teams. Games
+// without teams fall back to the free-text opponent.
+export const describeOpponent = (
+  game: { opponent: string; home_team: Team | null; away_team: Team | null },
+  coachTeamIds: string[]
+): string => {
+  if (game.away_team && coachTeamIds.includes(game.away_team.id)) {
+    return `@ ${game.home_team ? game.home_team.name : game.opponent}`;
+  }
+  if (game.home_team && coachTeamIds.includes(game.home_team.id) && game.away_team) {
+    return `vs ${game.away_team.name}`;
+  }
+  return `vs ${game.opponent}`;
+};
+
+export const describeTeamFailure = (result: TeamResult): string => {
+  switch (result.reason) {
+    case "not_allowed":
+      return "Only the team's head coach or staff can do this";
+    case "invalid_details":
+      return "Enter a team name";
+    case "team_exists":
+      return "A team with this name already exists in that division and league";
+    case "coach_not_found":
+      return "No coach account uses that email. Ask them to sign up as a coach first.";
+    case "already_member":
+      return "That coach is already on this team";
+    case "last_head_coach":
+      return "A team needs at least one head coach. Add another head coach first.";
+    case "not_found":
+      return "That coach is no longer on this team";
+    default:
+      return "Unable to update the team";
+  }
+};
@@ -0,0 +1,110 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Venue {
+  id: string;
+  name: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  field_count: number;
+  has_lights: boolean;
+  surface_notes: string | null;
+}
+
+export interface VenueMatch {
+  venue: Venue;
+  score: number;
+}
+
+export const fetchVenues = async (): Promise<Venue[]> => {
+  const { data, error } = await supabase
+    .from("venues")
+    .select("id, name, address, latitude, longitude, field_count, has_lights, surface_notes")
+    .order("name");
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Below this a spreadsheet location is treated as unknown rather than guessed
+export const VENUE_MATCH_THRESHOLD = 0.6;
+
+// Mirrors normalize_place() in the database
+export const normalizePlace = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  // "Riverside Park Field 2" should still land on "Riverside Park"
+  const padded = ` ${a} `;
+  if (padded.includes(` ${b} `)) return 0.9;
+
+  const editScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const aTokens = new Set(a.split(" "));
+  const bTokens = new Set(b.split(" "));
+  const shared = [...aTokens].filter((token) => bTokens.has(token)).length;
+  const tokenScore = shared / new Set([...aTokens, ...bTokens]).size;
+
+  return Math.max(editScore, tokenScore);
+};
+
+export const scoreVenue = (query: string, venue: Venue): number => {
+  const key = normalizePlace(query);
+  return Math.max(
+    similarity(key, normalizePlace(venue.name)),
+    venue.address ? similarity(key, normalizePlace(venue.address)) : 0
+  );
+};
+
+export const findBestVenue = (query: string, venues: Venue[]): VenueMatch | null => {
+  let best: VenueMatch | null = null;
+  for (const venue of venues) {
+    const score = scoreVenue(query, venue);
+    if (!best || score > best.score) {
+      best = { venue, score };
+    }
+  }
+  return best && best.score >= VENUE_MATCH_THRESHOLD ? best : null;
+};
+
+export const searchVenues = (query: string, venues: Venue[], limit = 8): Venue[] => {
+  const key = normalizePlace(query);
+  if (!key) return venues.slice(0, limit);
+
+  return venues
+    .map((venue) => ({
+      venue,
+      score: normalizePlace(`${venue.name} ${venue.address || ""}`).includes(key) ? 1 : scoreVenue(query, venue),
+    }))
+    .filter((match) => match.score >= VENUE_MATCH_THRESHOLD / 2)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((match) => match.venue);
+};
+
+export const describeVenue = (venue: Venue): string => {
+  const details = [`${venue.field_count} field${venue.field_count === 1 ? "" : "s"}`];
+  if (venue.has_lights) details.push("lights");
+  if (venue.surface_notes) details.push(venue.surface_notes);
+  return details.join(" · ");
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,13 +11,71 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 
 type UserRole = "coach" | "umpire";
 
+interface CoachInvitation {
+  email: string;
+  full_name: string | null;
+  team_name: string | null;
+}
+
+interface ClaimInvitationResult {
+  success: boolean;
+  reason?: "not_signed_in" | "not_found" | "email_not_confirmed" | "email_mismatch" | "not_coach";
+}
+
+// Used or unknown invitations are already reported when the page loads the invitation
+const SILENT_CLAIM_FAILURES: ClaimInvitationResult["reason"][] = ["not_signed_in", "not_found"];
+
+const describeClaimFailure = (result: ClaimInvitationResult): string => {
+  switch (result.reason) {
+    case "email_not_confirmed":
+      return "Confirm your email address, then open your invitation link again.";
+    case "email_mismatch":
+      return "This invitation was sent to a different email address.";
+    case "not_coach":
+      return "Invitations are for coach accounts. Sign up as a coach to take over your games.";
+    default:
+      return "Could not accept the invitation.";
+  }
+};
+
 const Auth = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite");
   const [loading, setLoading] = useState(false);
+  const [invitation, setInvitation] = useState<CoachInvitation | null>(null);
+
+  // Takes over the games waiting on the invitation this page was opened with
+  const claimInvitation = async () => {
+    if (!inviteToken) return;
+
+    const { data, error } = await supabase.rpc("claim_coach_invitation", { token_param: inviteToken });
+
+    if (error) {
+      console.error("Error claiming invitation:", error);
+      return;
+    }
+
+    const result = data as unknown as ClaimInvitationResult;
+    if (result.success) {
+      toast({
+        title: "Invitation Accepted",
+        description: "Your scheduled games are now on your dashboard.",
+      });
+    } else if (!SILENT_CLAIM_FAILURES.includes(result.reason)) {
+      toast({
+        title: "Invitation Not Accepted",
+        description: describeClaimFailure(result),
+        variant: "destructive",
+      });
+    }
+  };
 
   // Helper function to redirect based on role
   const redirectBasedOnRole = async (userId: string) => {
+    await claimInvitation();
+
     const { data: roleData } = await supabase
       .from("user_roles")
       .select("role")
@@ -46,6 +104,29 @@ const Auth = () => {
     });
   }, [navigate]);
 
+  // Coaches invited by the league sign up from a link carrying their invitation token
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    supabase
+      .rpc("get_coach_invitation", { token_param: inviteToken })
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error loading invitation:", error);
+          return;
+        }
+        if (data && data.length > 0) {
+          setInvitation(data[0]);
+        } else {
+          toast({
+            title: "Invitation Not Found",
+            description: "This invitation has already been used. You can still sign up below.",
+            variant: "destructive",
+          });
+        }
+      });
+  }, [inviteToken]);
+
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setLoading(true);
@@ -70,7 +151,10 @@ const Auth = () => {
       email,
       password,
       options: {
-        emailRedirectTo: `${window.location.origin}/`,
+        // Invited coaches come back to their invitation link to claim it once confirmed
+        emailRedirectTo: inviteToken
+          ? `${window.location.origin}/auth?invite=${inviteToken}`
+          : `${window.location.origin}/`,
         data: {
           full_name: fullName,
           role: role,
@@ -187,7 +271,7 @@ const Auth = () => {
           <CardDescription>Streamline your umpire scheduling</CardDescription>
         </CardHeader>
         <CardContent>
-          <Tabs defaultValue="signin" className="w-full">
+          <Tabs defaultValue={inviteToken ? "signup" : "signin"} className="w-full">
             <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="signin">Sign In</TabsTrigger>
               <TabsTrigger value="signup">Sign Up</TabsTrigger>
@@ -223,7 +307,14 @@ const Auth = () => {
             </TabsContent>
 
             <TabsContent value="signup">
-              <form onSubmit={handleSignUp} className="space-y-4">
+              {invitation && (
+                <p className="text-sm text-muted-foreground mb-4">
+                  You've been invited to coach{invitation.team_name ? ` ${invitation.team_name}` : ""}. Your
+                  scheduled games will be waiting once you sign up as a coach with {invitation.email} and confirm it.
+                </p>
+              )}
+              {/* Remount once the invitation loads so its details become the defaults */}
+              <form key={invitation?.email ?? "signup"} onSubmit={handleSignUp} className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="full-name">Full Name</Label>
                   <Input
@@ -231,6 +322,7 @@ const Auth = () => {
                     name="full-name"
                     type="text"
                     placeholder="John Doe"
+                    defaultValue={invitation?.full_name ?? ""}
                     required
                   />
                 </div>
@@ -241,6 +333,7 @@ const Auth = () => {
                     name="signup-email"
                     type="email"
                     placeholder="your@email.com"
+                    defaultValue={invitation?.email ?? ""}
                     required
                   />
                 </div>
@@ -257,7 +350,7 @@ const Auth = () => {
                 </div>
                 <div className="space-y-3">
                   <Label>I am a...</Label>
-                  <RadioGroup name="role" required>
+                  <RadioGroup name="role" defaultValue={invitation ? "coach" : undefined} required>
                     <div className="flex items-center space-x-2">
                       <RadioGroupItem value="coach" id="coach" />
                       <Label htmlFor="coach" className="font-normal cursor-pointer">
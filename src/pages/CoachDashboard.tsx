@@ -1,19 +1,33 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useChangeHighlights } from "@/hooks/useChangeHighlights";
+import { useRealtimeRefresh } from "@/hooks/useRealtimeRefresh";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
-import { Calendar, MapPin, Star, Plus, Pencil } from "lucide-react";
+import { Calendar, MapPin, Star, Plus, Pencil, CalendarClock, XCircle, History, Repeat, Users, Award } from "lucide-react";
 import { toast } from "sonner";
+import { cn } from "@/lib/utils";
 import { format, isPast, differenceInHours } from "date-fns";
 import RequestUmpireDialog from "@/components/coach/RequestUmpireDialog";
 import RateUmpireDialog from "@/components/coach/RateUmpireDialog";
 import PastGamesNotificationDialog from "@/components/coach/PastGamesNotificationDialog";
 import PastPendingGamesDialog from "@/components/coach/PastPendingGamesDialog";
+import EditGameDialog from "@/components/coach/EditGameDialog";
+import CancelGameDialog from "@/components/coach/CancelGameDialog";
+import SeasonBuilderDialog from "@/components/coach/SeasonBuilderDialog";
+import EditSeriesDialog from "@/components/coach/EditSeriesDialog";
+import GameChangeLog from "@/components/GameChangeLog";
+import ManageTeamsDialog from "@/components/ManageTeamsDialog";
+import InboxButton from "@/components/InboxButton";
+import NotificationBell from "@/components/NotificationBell";
 import Navigation from "@/components/Navigation";
+import { POSITION_LABELS, UmpirePosition, getCrewFillLabel } from "@/lib/crew";
+import { GameSeries } from "@/lib/gameSeries";
+import { Team, describeOpponent, fetchCoachTeams, formatTeamName, getCoachGamesFilter } from "@/lib/teams";
 
 interface GameRating {
   id: string;
@@ -22,17 +36,35 @@ interface GameRating {
   created_at: string;
 }
 
+interface GameNoShowReport {
+  id: string;
+  status: string;
+}
+
+interface CrewMember {
+  position: UmpirePosition;
+  umpire_id: string;
+  full_name: string | null;
+  existing_rating?: GameRating | null;
+  no_show_report?: GameNoShowReport | null;
+}
+
 interface Game {
   id: string;
   game_date: string;
   location: string;
+  venue_id: string | null;
   opponent: string;
   status: string;
-  assigned_umpire_id: string | null;
-  umpire_profile?: {
-    full_name: string;
-  };
-  existing_rating?: GameRating | null;
+  division_id: string | null;
+  level_id: string | null;
+  level: string | null;
+  required_positions: UmpirePosition[];
+  series_id: string | null;
+  game_series: GameSeries | null;
+  home_team: Team | null;
+  away_team: Team | null;
+  crew: CrewMember[];
 }
 
 interface PastGame {
@@ -40,10 +72,7 @@ interface PastGame {
   game_date: string;
   location: string;
   opponent: string;
-  assigned_umpire_id: string;
-  umpire_profile?: {
-    full_name: string;
-  };
+  crew: CrewMember[];
 }
 
 interface PastPendingGame {
@@ -61,10 +90,18 @@ const CoachDashboard = () => {
   const [requestDialogOpen, setRequestDialogOpen] = useState(false);
   const [rateDialogOpen, setRateDialogOpen] = useState(false);
   const [selectedGame, setSelectedGame] = useState<Game | null>(null);
+  const [selectedMember, setSelectedMember] = useState<CrewMember | null>(null);
   const [pastGamesDialogOpen, setPastGamesDialogOpen] = useState(false);
   const [pastGamesNeedingConfirmation, setPastGamesNeedingConfirmation] = useState<PastGame[]>([]);
   const [pastPendingDialogOpen, setPastPendingDialogOpen] = useState(false);
   const [pastPendingGames, setPastPendingGames] = useState<PastPendingGame[]>([]);
+  const [editingGame, setEditingGame] = useState<{ game: Game; mode: "edit" | "reschedule" } | null>(null);
+  const [cancellingGame, setCancellingGame] = useState<Game | null>(null);
+  const [historyGameId, setHistoryGameId] = useState<string | null>(null);
+  const [seasonDialogOpen, setSeasonDialogOpen] = useState(false);
+  const [editingSeries, setEditingSeries] = useState<{ series: GameSeries; mode: "shift" | "cancel" } | null>(null);
+  const [coachTeamIds, setCoachTeamIds] = useState<string[]>([]);
+  const [teamsDialogOpen, setTeamsDialogOpen] = useState(false);
 
   useEffect(() => {
     if (!user) {
@@ -77,6 +114,21 @@ const CoachDashboard = () => {
     checkPastPendingGames();
   }, [user, navigate]);
 
+  // Crews filling up, umpires withdrawing and ratings land without a reload
+  useRealtimeRefresh(["games", "game_assignments", "umpire_requests", "ratings"], () => fetchGames(), !!user);
+
+  const highlighted = useChangeHighlights(
+    games,
+    (game) =>
+      [
+        game.status,
+        game.game_date,
+        game.location,
+        game.crew.map((member) => `${member.umpire_id}:${member.existing_rating?.rating ?? ""}`).join(),
+      ].join("|"),
+    !loading
+  );
+
   const checkCoachRole = async () => {
     const { data, error } = await supabase
       .from("user_roles")
@@ -95,30 +147,24 @@ const CoachDashboard = () => {
     if (!user) return;
 
     try {
-      // Fetch assigned games that are in the past and not completed
+      // Fetch fully staffed games that are in the past and not completed, for any of the coach's teams
+      const teamIds = (await fetchCoachTeams(user.id)).map((team) => team.id);
       const { data: pastGames, error } = await supabase
         .from("games")
         .select("*")
-        .eq("coach_id", user.id)
+        .or(getCoachGamesFilter(user.id, teamIds))
         .eq("status", "assigned")
-        .not("assigned_umpire_id", "is", null)
         .lt("game_date", new Date().toISOString())
         .order("game_date", { ascending: true });
 
       if (error) throw error;
 
       if (pastGames && pastGames.length > 0) {
-        // Fetch umpire names for these games
+        // Fetch crew names for these games
         const gamesWithUmpires = await Promise.all(
           pastGames.map(async (game) => {
-            const { data: umpireName } = await supabase.rpc(
-              "get_assigned_umpire_name",
-              { game_id_param: game.id }
-            );
-            return {
-              ...game,
-              umpire_profile: umpireName ? { full_name: umpireName } : undefined,
-            } as PastGame;
+            const { data: crew } = await supabase.rpc("get_game_crew", { game_id_param: game.id });
+            return { ...game, crew: crew || [] } as PastGame;
           })
         );
 
@@ -134,13 +180,13 @@ const CoachDashboard = () => {
     if (!user) return;
 
     try {
-      // Fetch pending games that are in the past and have no assigned umpire
+      // Fetch pending games that are in the past and never had a full crew, for any of the coach's teams
+      const teamIds = (await fetchCoachTeams(user.id)).map((team) => team.id);
       const { data: pendingGames, error } = await supabase
         .from("games")
         .select("id, game_date, location, opponent")
-        .eq("coach_id", user.id)
+        .or(getCoachGamesFilter(user.id, teamIds))
         .eq("status", "pending")
-        .is("assigned_umpire_id", null)
         .lt("game_date", new Date().toISOString())
         .order("game_date", { ascending: true });
 
@@ -156,11 +202,25 @@ const CoachDashboard = () => {
   };
 
   const fetchGames = async () => {
+    if (!user) return;
+
     try {
+      // Frees spots the crew didn't confirm after a reschedule, so statuses below are current
+      await supabase.rpc("release_unconfirmed_reschedules");
+
+      // Games the coach requested, plus every game any of their teams plays in
+      const teamIds = (await fetchCoachTeams(user.id)).map((team) => team.id);
+      setCoachTeamIds(teamIds);
+
       const { data: gamesData, error } = await supabase
         .from("games")
-        .select("*")
-        .eq("coach_id", user?.id)
+        .select(
+          `*, game_assignments (umpire_id),
+          game_series (id, name, days_of_week, start_time, start_date, end_date, excluded_dates),
+          home_team:teams!games_home_team_id_fkey (id, name, age_division, league),
+          away_team:teams!games_away_team_id_fkey (id, name, age_division, league)`
+        )
+        .or(getCoachGamesFilter(user.id, teamIds))
         .order("game_date", { ascending: true });
 
       if (error) throw error;
@@ -168,32 +228,37 @@ const CoachDashboard = () => {
       // Fetch ratings for completed games
       const { data: ratingsData } = await supabase
         .from("ratings")
-        .select("id, game_id, rating, comment, created_at")
+        .select("id, game_id, umpire_id, rating, comment, created_at")
         .eq("coach_id", user?.id);
 
       const ratingsMap = new Map(
-        (ratingsData || []).map((r) => [r.game_id, r])
+        (ratingsData || []).map((r) => [`${r.game_id}:${r.umpire_id}`, r])
+      );
+
+      // Fetch no-show reports, which are tracked separately from ratings
+      const { data: noShowData } = await supabase
+        .from("no_show_reports")
+        .select("id, game_id, umpire_id, status")
+        .eq("coach_id", user?.id);
+
+      const noShowMap = new Map(
+        (noShowData || []).map((r) => [`${r.game_id}:${r.umpire_id}`, r])
       );
 
-      // Fetch umpire names using secure function
+      // Fetch crew names using secure function
       const gamesWithProfiles = await Promise.all(
-        (gamesData || []).map(async (game) => {
-          let umpireProfile = null;
-          if (game.assigned_umpire_id) {
-            const { data: umpireName } = await supabase.rpc(
-              "get_assigned_umpire_name",
-              { game_id_param: game.id }
-            );
-            umpireProfile = umpireName ? { full_name: umpireName } : null;
+        (gamesData || []).map(async ({ game_assignments, ...game }) => {
+          let crew: CrewMember[] = [];
+          if (game_assignments.length > 0) {
+            const { data: crewData } = await supabase.rpc("get_game_crew", { game_id_param: game.id });
+            crew = (crewData || []).map((member) => ({
+              ...member,
+              existing_rating: ratingsMap.get(`${game.id}:${member.umpire_id}`) || null,
+              no_show_report: noShowMap.get(`${game.id}:${member.umpire_id}`) || null,
+            }));
           }
 
-          const existingRating = ratingsMap.get(game.id);
-
-          return {
-            ...game,
-            umpire_profile: umpireProfile,
-            existing_rating: existingRating || null,
-          };
+          return { ...game, crew };
         })
       );
 
@@ -221,11 +286,34 @@ const CoachDashboard = () => {
     }
   };
 
-  const handleRateUmpire = (game: Game) => {
+  const isUpcoming = (game: Game) =>
+    (game.status === "pending" || game.status === "assigned") && !isPast(new Date(game.game_date));
+
+  // The games a series-wide change would touch, mirroring shift_game_series/cancel_game_series
+  const getRemainingSeriesGames = (seriesId: string) =>
+    games.filter((game) => game.series_id === seriesId && isUpcoming(game));
+
+  const handleRateUmpire = (game: Game, member: CrewMember) => {
     setSelectedGame(game);
+    setSelectedMember(member);
     setRateDialogOpen(true);
   };
 
+  const getNoShowStatusLabel = (status: string) => {
+    switch (status) {
+      case "reported":
+        return "Awaiting umpire response";
+      case "disputed":
+        return "Disputed - under review";
+      case "confirmed":
+        return "Confirmed";
+      case "dismissed":
+        return "Dismissed";
+      default:
+        return status;
+    }
+  };
+
   const canEditRating = (rating: GameRating) => {
     const hoursSinceCreation = differenceInHours(
       new Date(),
@@ -236,34 +324,38 @@ const CoachDashboard = () => {
 
   // Inline component to display rating or rate button
   const GameRatingDisplay = ({
-    game,
+    member,
     onRate,
   }: {
-    game: Game;
+    member: CrewMember;
     onRate: () => void;
   }) => {
-    if (game.existing_rating) {
-      const editable = canEditRating(game.existing_rating);
-      const isNoShow = game.existing_rating.rating === 0;
-      
+    if (member.no_show_report) {
       return (
         <div className="flex items-center gap-2">
-          {isNoShow ? (
-            <span className="text-sm font-medium text-destructive">Umpire did not show up</span>
-          ) : (
-            <div className="flex items-center gap-1">
-              {[1, 2, 3, 4, 5].map((value) => (
-                <Star
-                  key={value}
-                  className={`h-4 w-4 ${
-                    value <= game.existing_rating!.rating
-                      ? "fill-yellow-400 text-yellow-400"
-                      : "text-muted-foreground/30"
-                  }`}
-                />
-              ))}
-            </div>
-          )}
+          <span className="text-sm font-medium text-destructive">Umpire did not show up</span>
+          <Badge variant="outline">{getNoShowStatusLabel(member.no_show_report.status)}</Badge>
+        </div>
+      );
+    }
+
+    if (member.existing_rating) {
+      const editable = canEditRating(member.existing_rating);
+
+      return (
+        <div className="flex items-center gap-2">
+          <div className="flex items-center gap-1">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Star
+                key={value}
+                className={`h-4 w-4 ${
+                  value <= member.existing_rating!.rating
+                    ? "fill-yellow-400 text-yellow-400"
+                    : "text-muted-foreground/30"
+                }`}
+              />
+            ))}
+          </div>
           {editable ? (
             <Tooltip>
               <TooltipTrigger asChild>
@@ -308,10 +400,22 @@ const CoachDashboard = () => {
             <h1 className="text-4xl font-bold text-foreground mb-2">Coach Dashboard</h1>
             <p className="text-muted-foreground">Manage your games and umpire assignments</p>
           </div>
-          <Button onClick={() => setRequestDialogOpen(true)} size="lg">
-            <Plus className="mr-2 h-5 w-5" />
-            Request Umpire
-          </Button>
+          <div className="flex gap-2">
+            <NotificationBell size="lg" />
+            <InboxButton size="lg" />
+            <Button onClick={() => setTeamsDialogOpen(true)} size="lg" variant="outline">
+              <Users className="mr-2 h-5 w-5" />
+              Teams
+            </Button>
+            <Button onClick={() => setSeasonDialogOpen(true)} size="lg" variant="outline">
+              <Repeat className="mr-2 h-5 w-5" />
+              Build Season
+            </Button>
+            <Button onClick={() => setRequestDialogOpen(true)} size="lg">
+              <Plus className="mr-2 h-5 w-5" />
+              Request Umpire
+            </Button>
+          </div>
         </div>
 
         <div className="grid gap-6">
@@ -319,17 +423,20 @@ const CoachDashboard = () => {
             <Card>
               <CardContent className="pt-6">
                 <p className="text-center text-muted-foreground">
-                  No games scheduled yet. Click "Request Umpire" to add your first game.
+                  No games scheduled yet. Click "Request Umpire" to add your first game, or "Build Season" to add a whole schedule.
                 </p>
               </CardContent>
             </Card>
           ) : (
             games.map((game) => (
-              <Card key={game.id} className="hover:shadow-lg transition-shadow">
+              <Card
+                key={game.id}
+                className={cn("hover:shadow-lg transition-shadow", highlighted.has(game.id) && "animate-highlight")}
+              >
                 <CardHeader>
                   <div className="flex justify-between items-start">
                     <div>
-                      <CardTitle className="text-xl mb-2">vs {game.opponent}</CardTitle>
+                      <CardTitle className="text-xl mb-2">{describeOpponent(game, coachTeamIds)}</CardTitle>
                       <CardDescription className="space-y-2">
                         <div className="flex items-center gap-2">
                           <Calendar className="h-4 w-4" />
@@ -339,6 +446,26 @@ const CoachDashboard = () => {
                           <MapPin className="h-4 w-4" />
                           {game.location}
                         </div>
+                        {[game.home_team, game.away_team]
+                          .filter((team) => team && coachTeamIds.includes(team.id))
+                          .map((team) => (
+                            <div key={team.id} className="flex items-center gap-2">
+                              <Users className="h-4 w-4" />
+                              {formatTeamName(team)} · {team.id === game.home_team?.id ? "Home" : "Away"}
+                            </div>
+                          ))}
+                        {game.level && (
+                          <div className="flex items-center gap-2">
+                            <Award className="h-4 w-4" />
+                            {game.level}
+                          </div>
+                        )}
+                        {game.game_series && (
+                          <div className="flex items-center gap-2">
+                            <Repeat className="h-4 w-4" />
+                            {game.game_series.name}
+                          </div>
+                        )}
                       </CardDescription>
                     </div>
                     <Badge className={getStatusColor(game.status)}>
@@ -347,24 +474,87 @@ const CoachDashboard = () => {
                   </div>
                 </CardHeader>
                 <CardContent>
-                  <div className="flex justify-between items-center">
-                    <div>
-                      {game.assigned_umpire_id ? (
-                        <p className="text-sm text-foreground">
-                          <span className="font-semibold">Umpire:</span>{" "}
-                          {game.umpire_profile?.full_name || "Assigned"}
+                  {game.crew.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                      No umpire assigned yet
+                      {game.required_positions.length > 1 && ` (${getCrewFillLabel(game.required_positions, [])})`}
+                    </p>
+                  ) : (
+                    <div className="space-y-2">
+                      {game.required_positions.length > 1 && (
+                        <p className="text-sm text-muted-foreground">
+                          Crew: {getCrewFillLabel(game.required_positions, game.crew)}
                         </p>
-                      ) : (
-                        <p className="text-sm text-muted-foreground">No umpire assigned yet</p>
                       )}
+                      {game.crew.map((member) => (
+                        <div key={member.umpire_id} className="flex justify-between items-center">
+                          <p className="text-sm text-foreground">
+                            <span className="font-semibold">
+                              {game.required_positions.length > 1 ? POSITION_LABELS[member.position] : "Umpire"}:
+                            </span>{" "}
+                            {member.full_name || "Assigned"}
+                          </p>
+                          {game.status === "completed" && (
+                            <GameRatingDisplay
+                              member={member}
+                              onRate={() => handleRateUmpire(game, member)}
+                            />
+                          )}
+                        </div>
+                      ))}
                     </div>
-                    {game.status === "completed" && game.assigned_umpire_id && (
-                      <GameRatingDisplay
-                        game={game}
-                        onRate={() => handleRateUmpire(game)}
-                      />
+                  )}
+                  <div className="flex flex-wrap gap-2 mt-4">
+                    {isUpcoming(game) && (
+                      <>
+                        <Button variant="outline" size="sm" onClick={() => setEditingGame({ game, mode: "edit" })}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setEditingGame({ game, mode: "reschedule" })}>
+                          <CalendarClock className="mr-2 h-4 w-4" />
+                          Reschedule
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setCancellingGame(game)}>
+                          <XCircle className="mr-2 h-4 w-4" />
+                          Cancel
+                        </Button>
+                        {game.game_series && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditingSeries({ series: game.game_series, mode: "shift" })}
+                            >
+                              <Repeat className="mr-2 h-4 w-4" />
+                              Move Series
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setEditingSeries({ series: game.game_series, mode: "cancel" })}
+                            >
+                              <XCircle className="mr-2 h-4 w-4" />
+                              Cancel Series
+                            </Button>
+                          </>
+                        )}
+                      </>
                     )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryGameId(historyGameId === game.id ? null : game.id)}
+                    >
+                      <History className="mr-2 h-4 w-4" />
+                      {historyGameId === game.id ? "Hide Changes" : "Changes"}
+                    </Button>
                   </div>
+                  {historyGameId === game.id && (
+                    <div className="mt-4 pt-4 border-t">
+                      <GameChangeLog gameId={game.id} />
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))
@@ -378,15 +568,70 @@ const CoachDashboard = () => {
         onSuccess={fetchGames}
       />
 
-      {selectedGame && (
+      <ManageTeamsDialog
+        open={teamsDialogOpen}
+        onOpenChange={setTeamsDialogOpen}
+        onTeamsChange={fetchGames}
+      />
+
+      <SeasonBuilderDialog
+        open={seasonDialogOpen}
+        onOpenChange={setSeasonDialogOpen}
+        onSuccess={fetchGames}
+      />
+
+      {selectedGame && selectedMember && (
         <RateUmpireDialog
           open={rateDialogOpen}
           onOpenChange={setRateDialogOpen}
-          game={selectedGame}
+          game={{
+            id: selectedGame.id,
+            umpire_id: selectedMember.umpire_id,
+            position: selectedGame.required_positions.length > 1 ? selectedMember.position : undefined,
+            umpire_profile: selectedMember.full_name ? { full_name: selectedMember.full_name } : undefined,
+            existing_rating: selectedMember.existing_rating,
+          }}
           onSuccess={() => {
             fetchGames();
             setSelectedGame(null);
+            setSelectedMember(null);
+          }}
+        />
+      )}
+
+      {editingGame && (
+        <EditGameDialog
+          open={!!editingGame}
+          onOpenChange={(open) => !open && setEditingGame(null)}
+          mode={editingGame.mode}
+          game={{ ...editingGame.game, crew_count: editingGame.game.crew.length }}
+          onSuccess={fetchGames}
+        />
+      )}
+
+      {cancellingGame && (
+        <CancelGameDialog
+          open={!!cancellingGame}
+          onOpenChange={(open) => !open && setCancellingGame(null)}
+          game={{ ...cancellingGame, crew_count: cancellingGame.crew.length }}
+          onSuccess={fetchGames}
+        />
+      )}
+
+      {editingSeries && (
+        <EditSeriesDialog
+          open={!!editingSeries}
+          onOpenChange={(open) => !open && setEditingSeries(null)}
+          mode={editingSeries.mode}
+          series={{
+            ...editingSeries.series,
+            remaining_count: getRemainingSeriesGames(editingSeries.series.id).length,
+            crew_count: getRemainingSeriesGames(editingSeries.series.id).reduce(
+              (total, game) => total + game.crew.length,
+              0
+            ),
           }}
+          onSuccess={fetchGames}
         />
       )}
 
@@ -1,13 +1,15 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useChangeHighlights } from "@/hooks/useChangeHighlights";
+import { useRealtimeRefresh } from "@/hooks/useRealtimeRefresh";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
+import { cn } from "@/lib/utils";
 import { 
   Calendar, 
   MapPin, 
@@ -20,15 +22,43 @@ import {
   Filter,
   UserPlus,
   PlusCircle,
-  FileSpreadsheet
+  FileSpreadsheet,
+  History,
+  UserX,
+  UserCheck,
+  Wand2,
+  Building2,
+  Shield,
+  Layers,
+  Award
 } from "lucide-react";
 import { format } from "date-fns";
-import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Textarea } from "@/components/ui/textarea";
-import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import ManageEmployeesDialog from "@/components/employee/ManageEmployeesDialog";
+import ManageGazetteerDialog from "@/components/employee/ManageGazetteerDialog";
+import ManageVenuesDialog from "@/components/employee/ManageVenuesDialog";
+import ManageLevelsDialog from "@/components/employee/ManageLevelsDialog";
+import ManageCertificationsDialog from "@/components/employee/ManageCertificationsDialog";
 import CreateGameRequestDialog from "@/components/employee/CreateGameRequestDialog";
 import BulkUploadGamesDialog from "@/components/employee/BulkUploadGamesDialog";
+import GameStatusTimeline from "@/components/employee/GameStatusTimeline";
+import GameChangeLog from "@/components/GameChangeLog";
+import ComposeMessageDialog from "@/components/ComposeMessageDialog";
+import InboxButton from "@/components/InboxButton";
+import NotificationBell from "@/components/NotificationBell";
+import ManageTeamsDialog from "@/components/ManageTeamsDialog";
+import ResolveNoShowDialog from "@/components/employee/ResolveNoShowDialog";
+import UmpireAvailabilityPopover from "@/components/employee/UmpireAvailabilityPopover";
+import AssignUmpireDialog from "@/components/employee/AssignUmpireDialog";
+import AutoFillGamesDialog from "@/components/employee/AutoFillGamesDialog";
+import { POSITION_LABELS, UmpirePosition, getCrewFillLabel, getOpenPositions } from "@/lib/crew";
+import { Team, fetchTeams, formatTeamName } from "@/lib/teams";
+
+interface CrewMember {
+  umpire_id: string;
+  position: UmpirePosition;
+  umpire_profile?: { full_name: string | null; email: string };
+}
 
 interface Game {
   id: string;
@@ -36,10 +66,15 @@ interface Game {
   location: string;
   opponent: string;
   status: string;
-  assigned_umpire_id: string | null;
   coach_id: string;
+  latitude: number | null;
+  longitude: number | null;
+  level: string | null;
+  required_positions: UmpirePosition[];
+  home_team: Team | null;
+  away_team: Team | null;
+  crew: CrewMember[];
   coach_profile?: { full_name: string | null; email: string };
-  umpire_profile?: { full_name: string | null; email: string };
 }
 
 interface Rating {
@@ -55,20 +90,52 @@ interface Rating {
   game?: { opponent: string; game_date: string };
 }
 
+interface NoShowReport {
+  id: string;
+  game_id: string;
+  umpire_id: string;
+  status: string;
+  details: string | null;
+  dispute_reason: string | null;
+  dispute_deadline: string;
+  created_at: string;
+}
+
+interface Withdrawal {
+  id: string;
+  game_id: string;
+  umpire_id: string;
+  reason: string;
+  is_late: boolean;
+  notice_hours: number;
+  created_at: string;
+}
+
 const EmployeeDashboard = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const [games, setGames] = useState<Game[]>([]);
   const [ratings, setRatings] = useState<Rating[]>([]);
   const [loading, setLoading] = useState(true);
-  const [messageDialogOpen, setMessageDialogOpen] = useState(false);
-  const [selectedRating, setSelectedRating] = useState<Rating | null>(null);
-  const [message, setMessage] = useState("");
+  const [contactRating, setContactRating] = useState<Rating | null>(null);
   const [ratingFilter, setRatingFilter] = useState<"all" | "low">("all");
   const [manageEmployeesOpen, setManageEmployeesOpen] = useState(false);
+  const [gazetteerOpen, setGazetteerOpen] = useState(false);
+  const [venuesOpen, setVenuesOpen] = useState(false);
   const [createGameOpen, setCreateGameOpen] = useState(false);
   const [bulkUploadOpen, setBulkUploadOpen] = useState(false);
   const [isAdmin, setIsAdmin] = useState(false);
+  const [historyGameId, setHistoryGameId] = useState<string | null>(null);
+  const [noShowReports, setNoShowReports] = useState<NoShowReport[]>([]);
+  const [selectedNoShow, setSelectedNoShow] = useState<NoShowReport | null>(null);
+  const [assignGame, setAssignGame] = useState<Game | null>(null);
+  const [autoFillOpen, setAutoFillOpen] = useState(false);
+  const [withdrawals, setWithdrawals] = useState<Withdrawal[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [teamFilter, setTeamFilter] = useState("all");
+  const [teamsOpen, setTeamsOpen] = useState(false);
+  const [levelsOpen, setLevelsOpen] = useState(false);
+  const [certificationsOpen, setCertificationsOpen] = useState(false);
 
   useEffect(() => {
     if (!user) {
@@ -79,6 +146,9 @@ const EmployeeDashboard = () => {
     fetchData();
   }, [user, navigate]);
 
+  // Keeps the urgent list and its count current as umpires take and drop games
+  useRealtimeRefresh(["games", "game_assignments", "umpire_requests", "ratings"], () => fetchData(), !!user);
+
   const checkEmployeeRole = async () => {
     if (!user) return;
     
@@ -109,18 +179,27 @@ const EmployeeDashboard = () => {
     if (!user) return;
 
     try {
+      // Frees spots whose crews didn't confirm a reschedule in time
+      await supabase.rpc("release_unconfirmed_reschedules");
+
       // Fetch all games with coach and umpire profiles
       const { data: gamesData, error: gamesError } = await supabase
         .from("games")
-        .select("*")
+        .select(
+          `*, game_assignments (umpire_id, position),
+          home_team:teams!games_home_team_id_fkey (id, name, age_division, league),
+          away_team:teams!games_away_team_id_fkey (id, name, age_division, league)`
+        )
         .order("game_date", { ascending: true });
 
       if (gamesError) throw gamesError;
 
+      setTeams(await fetchTeams());
+
       // Fetch profiles for coaches and umpires
       const gamesWithProfiles = await Promise.all(
-        (gamesData || []).map(async (game) => {
-          const gameWithProfiles: Game = { ...game };
+        (gamesData || []).map(async ({ game_assignments, ...game }) => {
+          const gameWithProfiles: Game = { ...game, crew: [] };
 
           // Fetch coach profile
           const { data: coachProfile } = await supabase
@@ -133,18 +212,18 @@ const EmployeeDashboard = () => {
             gameWithProfiles.coach_profile = coachProfile;
           }
 
-          // Fetch umpire profile if assigned
-          if (game.assigned_umpire_id) {
-            const { data: umpireProfile } = await supabase
-              .from("profiles")
-              .select("full_name, email")
-              .eq("id", game.assigned_umpire_id)
-              .single();
-            
-            if (umpireProfile) {
-              gameWithProfiles.umpire_profile = umpireProfile;
-            }
-          }
+          // Fetch a profile for each member of the crew
+          gameWithProfiles.crew = await Promise.all(
+            game_assignments.map(async (assignment) => {
+              const { data: umpireProfile } = await supabase
+                .from("profiles")
+                .select("full_name, email")
+                .eq("id", assignment.umpire_id)
+                .single();
+
+              return { ...assignment, umpire_profile: umpireProfile || undefined };
+            })
+          );
 
           return gameWithProfiles;
         })
@@ -195,6 +274,25 @@ const EmployeeDashboard = () => {
       );
 
       setRatings(ratingsWithProfiles);
+
+      // Fetch no-show reports awaiting adjudication
+      const { data: noShowData, error: noShowError } = await supabase
+        .from("no_show_reports")
+        .select("id, game_id, umpire_id, status, details, dispute_reason, dispute_deadline, created_at")
+        .in("status", ["reported", "disputed"])
+        .order("created_at", { ascending: true });
+
+      if (noShowError) throw noShowError;
+      setNoShowReports(noShowData || []);
+
+      // Most recent withdrawals first, so each game keeps its latest one
+      const { data: withdrawalData, error: withdrawalError } = await supabase
+        .from("umpire_withdrawals")
+        .select("id, game_id, umpire_id, reason, is_late, notice_hours, created_at")
+        .order("created_at", { ascending: false });
+
+      if (withdrawalError) throw withdrawalError;
+      setWithdrawals(withdrawalData || []);
     } catch (error: any) {
       toast.error("Error loading data: " + error.message);
     } finally {
@@ -202,26 +300,27 @@ const EmployeeDashboard = () => {
     }
   };
 
-  const handleContactReviewer = (rating: Rating) => {
-    setSelectedRating(rating);
-    setMessage("");
-    setMessageDialogOpen(true);
-  };
-
-  const handleSendMessage = async () => {
-    if (!selectedRating || !message.trim()) {
-      toast.error("Please enter a message");
-      return;
-    }
-
-    // For now, just show success - in production this would send an email or in-app notification
-    toast.success(`Message sent to ${selectedRating.coach_profile?.full_name || "reviewer"}`);
-    setMessageDialogOpen(false);
-    setMessage("");
-    setSelectedRating(null);
-  };
-
-  const gamesNeedingUmpire = games.filter(g => !g.assigned_umpire_id && g.status === "pending");
+  const latestWithdrawalByGame = new Map<string, Withdrawal>();
+  withdrawals.forEach(w => {
+    if (!latestWithdrawalByGame.has(w.game_id)) latestWithdrawalByGame.set(w.game_id, w);
+  });
+
+  // Pending games have at least one open position, so partially staffed crews count too.
+  // Games reopened by a late withdrawal go to the top; otherwise keep date order.
+  const gamesNeedingUmpire = games
+    .filter(g => g.status === "pending")
+    .sort((a, b) => {
+      const aLate = latestWithdrawalByGame.get(a.id)?.is_late ? 0 : 1;
+      const bLate = latestWithdrawalByGame.get(b.id)?.is_late ? 0 : 1;
+      return aLate - bLate;
+    });
+  const weekFromNow = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  const uncoveredThisWeek = gamesNeedingUmpire
+    .filter(g => {
+      const gameDate = new Date(g.game_date);
+      return gameDate > new Date() && gameDate <= weekFromNow;
+    })
+    .map(g => ({ ...g, open_positions: getOpenPositions(g.required_positions, g.crew) }));
   const totalGames = games.length;
   const averageRating = ratings.length > 0
     ? (ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length).toFixed(1)
@@ -229,6 +328,23 @@ const EmployeeDashboard = () => {
   const lowRatings = ratings.filter(r => r.rating <= 2);
 
   const filteredRatings = ratingFilter === "low" ? lowRatings : ratings;
+  const gamesById = new Map(games.map(g => [g.id, g]));
+
+  // Team report: a team's games are the ones it plays in, home or away
+  const selectedTeam = teams.find(t => t.id === teamFilter);
+  const filteredGames = selectedTeam
+    ? games.filter(g => g.home_team?.id === selectedTeam.id || g.away_team?.id === selectedTeam.id)
+    : games;
+  const filteredGameIds = new Set(filteredGames.map(g => g.id));
+  const teamRatings = ratings.filter(r => filteredGameIds.has(r.game_id));
+  const countByStatus = (status: string) => filteredGames.filter(g => g.status === status).length;
+
+  const highlighted = useChangeHighlights(
+    games,
+    (game) =>
+      [game.status, game.game_date, game.location, game.crew.map(c => `${c.position}:${c.umpire_id}`).join()].join("|"),
+    !loading
+  );
 
   if (loading) {
     return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
@@ -251,12 +367,34 @@ const EmployeeDashboard = () => {
               <FileSpreadsheet className="mr-2 h-4 w-4" />
               Bulk Upload
             </Button>
+            <Button variant="outline" onClick={() => setTeamsOpen(true)}>
+              <Shield className="mr-2 h-4 w-4" />
+              Teams
+            </Button>
+            <Button variant="outline" onClick={() => setVenuesOpen(true)}>
+              <Building2 className="mr-2 h-4 w-4" />
+              Venues
+            </Button>
+            <Button variant="outline" onClick={() => setLevelsOpen(true)}>
+              <Layers className="mr-2 h-4 w-4" />
+              Levels
+            </Button>
+            <Button variant="outline" onClick={() => setCertificationsOpen(true)}>
+              <Award className="mr-2 h-4 w-4" />
+              Certifications
+            </Button>
+            <Button variant="outline" onClick={() => setGazetteerOpen(true)}>
+              <MapPin className="mr-2 h-4 w-4" />
+              Locations
+            </Button>
             {isAdmin && (
               <Button variant="outline" onClick={() => setManageEmployeesOpen(true)}>
                 <UserPlus className="mr-2 h-4 w-4" />
                 Manage Employees
               </Button>
             )}
+            <InboxButton isStaff />
+            <NotificationBell />
             <Button variant="outline" onClick={() => signOut()}>
               <LogOut className="mr-2 h-4 w-4" />
               Sign Out
@@ -323,14 +461,25 @@ const EmployeeDashboard = () => {
           {/* Urgent Actions Tab */}
           <TabsContent value="urgent">
             <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <AlertTriangle className="h-5 w-5 text-destructive" />
-                  Games Requiring Umpire Assignment
-                </CardTitle>
-                <CardDescription>
-                  These games need immediate attention - sorted by date
-                </CardDescription>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center gap-2">
+                    <AlertTriangle className="h-5 w-5 text-destructive" />
+                    Games Requiring Umpire Assignment
+                  </CardTitle>
+                  <CardDescription>
+                    These games need immediate attention - late withdrawals first, then by date
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={uncoveredThisWeek.length === 0}
+                  onClick={() => setAutoFillOpen(true)}
+                >
+                  <Wand2 className="mr-2 h-4 w-4" />
+                  Auto-fill this week ({uncoveredThisWeek.length})
+                </Button>
               </CardHeader>
               <CardContent>
                 {gamesNeedingUmpire.length === 0 ? (
@@ -339,56 +488,188 @@ const EmployeeDashboard = () => {
                   </p>
                 ) : (
                   <div className="space-y-4">
-                    {gamesNeedingUmpire.map((game) => (
-                      <div key={game.id} className="border border-destructive rounded-lg p-4 bg-destructive/5">
-                        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
-                          <div className="space-y-2">
-                            <div className="flex items-center gap-2">
-                              <h3 className="font-semibold text-lg">{game.opponent}</h3>
-                              <Badge variant="destructive">No Umpire</Badge>
-                            </div>
-                            <div className="flex flex-col gap-1 text-sm text-muted-foreground">
-                              <div className="flex items-center gap-1">
-                                <Calendar className="h-3 w-3" />
-                                {format(new Date(game.game_date), "PPp")}
-                              </div>
-                              <div className="flex items-center gap-1">
-                                <MapPin className="h-3 w-3" />
-                                {game.location}
+                    {gamesNeedingUmpire.map((game) => {
+                      const withdrawal = latestWithdrawalByGame.get(game.id);
+
+                      return (
+                        <div
+                          key={game.id}
+                          className={cn(
+                            "border border-destructive rounded-lg p-4 bg-destructive/5",
+                            highlighted.has(game.id) && "animate-highlight"
+                          )}
+                        >
+                          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                            <div className="space-y-2">
+                              <div className="flex items-center gap-2">
+                                <h3 className="font-semibold text-lg">{game.opponent}</h3>
+                                <Badge variant="destructive">
+                                  {game.crew.length === 0 ? "No Umpire" : getCrewFillLabel(game.required_positions, game.crew)}
+                                </Badge>
+                                {withdrawal?.is_late && <Badge variant="outline">Late withdrawal</Badge>}
                               </div>
-                              <div className="flex items-center gap-1">
-                                <Users className="h-3 w-3" />
-                                Coach: {game.coach_profile?.full_name || "Unknown"}
+                              <div className="flex flex-col gap-1 text-sm text-muted-foreground">
+                                <div className="flex items-center gap-1">
+                                  <Calendar className="h-3 w-3" />
+                                  {format(new Date(game.game_date), "PPp")}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <MapPin className="h-3 w-3" />
+                                  {game.location}
+                                </div>
+                                <div className="flex items-center gap-1">
+                                  <Users className="h-3 w-3" />
+                                  Coach: {game.coach_profile?.full_name || "Unknown"}
+                                </div>
+                                {game.required_positions.length > 1 && (
+                                  <div>
+                                    Open: {getOpenPositions(game.required_positions, game.crew).map(p => POSITION_LABELS[p]).join(", ")}
+                                  </div>
+                                )}
+                                {withdrawal && (
+                                  <div className="flex items-center gap-1">
+                                    <UserX className="h-3 w-3" />
+                                    Umpire withdrew {withdrawal.notice_hours}h before the game: "{withdrawal.reason}"
+                                  </div>
+                                )}
                               </div>
                             </div>
+                            <div className="flex items-center gap-2">
+                              <UmpireAvailabilityPopover gameId={game.id} />
+                              <Button size="sm" onClick={() => setAssignGame(game)}>
+                                <UserCheck className="mr-2 h-4 w-4" />
+                                Assign Umpire
+                              </Button>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </CardContent>
             </Card>
+            {noShowReports.length > 0 && (
+              <Card className="mt-4">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <UserX className="h-5 w-5 text-destructive" />
+                    Reported No-Shows
+                  </CardTitle>
+                  <CardDescription>
+                    Review coach reports and umpire disputes
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {noShowReports.map((report) => {
+                      const game = gamesById.get(report.game_id);
+                      const reportedUmpire = game?.crew.find(m => m.umpire_id === report.umpire_id);
+
+                      return (
+                        <div key={report.id} className="border border-destructive rounded-lg p-4 bg-destructive/5">
+                          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                            <div className="space-y-2">
+                              <div className="flex items-center gap-2">
+                                <h3 className="font-semibold text-lg">{game?.opponent || "Game"}</h3>
+                                <Badge variant={report.status === "disputed" ? "secondary" : "destructive"}>
+                                  {report.status === "disputed" ? "Disputed" : "Reported"}
+                                </Badge>
+                              </div>
+                              <div className="flex flex-col gap-1 text-sm text-muted-foreground">
+                                {game && (
+                                  <div className="flex items-center gap-1">
+                                    <Calendar className="h-3 w-3" />
+                                    {format(new Date(game.game_date), "PPp")}
+                                  </div>
+                                )}
+                                <div className="flex items-center gap-1">
+                                  <Users className="h-3 w-3" />
+                                  Umpire: {reportedUmpire?.umpire_profile?.full_name || "Unknown"} · Coach: {game?.coach_profile?.full_name || "Unknown"}
+                                </div>
+                                {report.status === "reported" && (
+                                  <div>
+                                    Dispute window {new Date(report.dispute_deadline) < new Date() ? "closed" : `open until ${format(new Date(report.dispute_deadline), "PPp")}`}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                            <Button variant="outline" size="sm" onClick={() => setSelectedNoShow(report)}>
+                              Review
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </TabsContent>
 
           {/* All Games Tab */}
           <TabsContent value="all-games">
             <Card>
               <CardHeader>
-                <CardTitle>All Games</CardTitle>
-                <CardDescription>Complete overview of all scheduled games</CardDescription>
+                <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                  <div>
+                    <CardTitle>All Games</CardTitle>
+                    <CardDescription>Complete overview of all scheduled games</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Filter className="h-4 w-4 text-muted-foreground" />
+                    <Select value={teamFilter} onValueChange={setTeamFilter}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All teams</SelectItem>
+                        {teams.map((team) => (
+                          <SelectItem key={team.id} value={team.id}>
+                            {formatTeamName(team)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {selectedTeam && (
+                  <div className="flex flex-wrap gap-2 pt-2">
+                    <Badge variant="outline">{filteredGames.length} games</Badge>
+                    <Badge variant="outline">{countByStatus("pending")} need umpires</Badge>
+                    <Badge variant="outline">{countByStatus("assigned")} staffed</Badge>
+                    <Badge variant="outline">{countByStatus("completed")} completed</Badge>
+                    <Badge variant="outline">{countByStatus("cancelled")} cancelled</Badge>
+                    <Badge variant="outline">
+                      Avg rating given:{" "}
+                      {teamRatings.length > 0
+                        ? (teamRatings.reduce((sum, r) => sum + r.rating, 0) / teamRatings.length).toFixed(1)
+                        : "N/A"}
+                    </Badge>
+                  </div>
+                )}
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {games.map((game) => (
-                    <div key={game.id} className="border rounded-lg p-4">
+                  {filteredGames.length === 0 && (
+                    <p className="text-center text-muted-foreground py-8">No games for this team yet</p>
+                  )}
+                  {filteredGames.map((game) => (
+                    <div
+                      key={game.id}
+                      className={cn("border rounded-lg p-4", highlighted.has(game.id) && "animate-highlight")}
+                    >
                       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                         <div className="space-y-2">
                           <div className="flex items-center gap-2">
                             <h3 className="font-semibold">{game.opponent}</h3>
-                            <Badge variant={game.assigned_umpire_id ? "default" : "destructive"}>
+                            <Badge variant={game.status === "pending" ? "destructive" : "default"}>
                               {game.status}
                             </Badge>
+                            {game.required_positions.length > 1 && (
+                              <Badge variant="outline">{getCrewFillLabel(game.required_positions, game.crew)}</Badge>
+                            )}
+                            {game.level && <Badge variant="outline">{game.level}</Badge>}
                           </div>
                           <div className="flex flex-col gap-1 text-sm text-muted-foreground">
                             <div className="flex items-center gap-1">
@@ -399,17 +680,53 @@ const EmployeeDashboard = () => {
                               <MapPin className="h-3 w-3" />
                               {game.location}
                             </div>
+                            {(game.home_team || game.away_team) && (
+                              <div className="flex items-center gap-1">
+                                <Shield className="h-3 w-3" />
+                                {game.home_team ? formatTeamName(game.home_team) : game.opponent} (home) vs{" "}
+                                {game.away_team ? formatTeamName(game.away_team) : game.opponent} (away)
+                              </div>
+                            )}
                             <div>
                               Coach: {game.coach_profile?.full_name || "Unknown"} ({game.coach_profile?.email})
                             </div>
-                            {game.assigned_umpire_id && (
-                              <div>
-                                Umpire: {game.umpire_profile?.full_name || "Unknown"} ({game.umpire_profile?.email})
+                            {game.crew.map((member) => (
+                              <div key={member.umpire_id}>
+                                {game.required_positions.length > 1 ? POSITION_LABELS[member.position] : "Umpire"}:{" "}
+                                {member.umpire_profile?.full_name || "Unknown"} ({member.umpire_profile?.email})
                               </div>
-                            )}
+                            ))}
                           </div>
                         </div>
+                        <div className="flex items-center gap-2">
+                          {(game.status === "pending" || game.status === "assigned") && (
+                            <Button variant="outline" size="sm" onClick={() => setAssignGame(game)}>
+                              <UserCheck className="mr-2 h-4 w-4" />
+                              {game.status === "assigned" ? "Reassign" : "Assign Umpire"}
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setHistoryGameId(historyGameId === game.id ? null : game.id)}
+                          >
+                            <History className="mr-2 h-4 w-4" />
+                            {historyGameId === game.id ? "Hide History" : "History"}
+                          </Button>
+                        </div>
                       </div>
+                      {historyGameId === game.id && (
+                        <div className="mt-4 pt-4 border-t grid gap-4 md:grid-cols-2">
+                          <div>
+                            <p className="text-sm font-medium mb-2">Status</p>
+                            <GameStatusTimeline gameId={game.id} />
+                          </div>
+                          <div>
+                            <p className="text-sm font-medium mb-2">Changes</p>
+                            <GameChangeLog gameId={game.id} />
+                          </div>
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -493,7 +810,7 @@ const EmployeeDashboard = () => {
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => handleContactReviewer(rating)}
+                            onClick={() => setContactRating(rating)}
                           >
                             <MessageSquare className="mr-2 h-4 w-4" />
                             Contact Reviewer
@@ -509,50 +826,81 @@ const EmployeeDashboard = () => {
         </Tabs>
       </main>
 
-      {/* Message Dialog */}
-      <Dialog open={messageDialogOpen} onOpenChange={setMessageDialogOpen}>
-        <DialogContent>
-          <DialogHeader>
-            <DialogTitle>Contact Reviewer</DialogTitle>
-            <DialogDescription>
-              Send a message to {selectedRating?.coach_profile?.full_name || "the reviewer"}
-            </DialogDescription>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div>
-              <Label>Reviewer Email</Label>
-              <Input
-                value={selectedRating?.coach_profile?.email || ""}
-                disabled
-                className="mt-1"
-              />
-            </div>
-            <div>
-              <Label htmlFor="message">Message</Label>
-              <Textarea
-                id="message"
-                value={message}
-                onChange={(e) => setMessage(e.target.value)}
-                placeholder="Type your message here..."
-                rows={5}
-                className="mt-1"
-              />
-            </div>
-          </div>
-          <DialogFooter>
-            <Button variant="outline" onClick={() => setMessageDialogOpen(false)}>
-              Cancel
-            </Button>
-            <Button onClick={handleSendMessage}>Send Message</Button>
-          </DialogFooter>
-        </DialogContent>
-      </Dialog>
+      {contactRating && (
+        <ComposeMessageDialog
+          open={!!contactRating}
+          onOpenChange={(open) => !open && setContactRating(null)}
+          recipientIds={[contactRating.coach_id]}
+          recipientLabel={contactRating.coach_profile?.full_name || "the reviewer"}
+          defaultSubject={`Your rating of ${contactRating.umpire_profile?.full_name || "the umpire"}${
+            contactRating.game ? ` (${contactRating.game.opponent})` : ""
+          }`}
+          ratingId={contactRating.id}
+          gameId={contactRating.game_id}
+        />
+      )}
+
+      {selectedNoShow && (
+        <ResolveNoShowDialog
+          open={!!selectedNoShow}
+          onOpenChange={(open) => !open && setSelectedNoShow(null)}
+          report={selectedNoShow}
+          umpireName={
+            gamesById.get(selectedNoShow.game_id)?.crew.find(m => m.umpire_id === selectedNoShow.umpire_id)
+              ?.umpire_profile?.full_name || "the umpire"
+          }
+          onSuccess={fetchData}
+        />
+      )}
+
+      {assignGame && (
+        <AssignUmpireDialog
+          open={!!assignGame}
+          onOpenChange={(open) => !open && setAssignGame(null)}
+          game={assignGame}
+          onSuccess={fetchData}
+        />
+      )}
+
+      <AutoFillGamesDialog
+        open={autoFillOpen}
+        onOpenChange={setAutoFillOpen}
+        games={uncoveredThisWeek}
+        onSuccess={fetchData}
+      />
 
       <ManageEmployeesDialog 
         open={manageEmployeesOpen} 
         onOpenChange={setManageEmployeesOpen} 
       />
 
+      <ManageTeamsDialog
+        open={teamsOpen}
+        onOpenChange={setTeamsOpen}
+        manageAll
+        onTeamsChange={fetchData}
+      />
+
+      <ManageVenuesDialog
+        open={venuesOpen}
+        onOpenChange={setVenuesOpen}
+      />
+
+      <ManageLevelsDialog
+        open={levelsOpen}
+        onOpenChange={setLevelsOpen}
+      />
+
+      <ManageCertificationsDialog
+        open={certificationsOpen}
+        onOpenChange={setCertificationsOpen}
+      />
+
+      <ManageGazetteerDialog
+        open={gazetteerOpen}
+        onOpenChange={setGazetteerOpen}
+      />
+
       <CreateGameRequestDialog
         open={createGameOpen}
         onOpenChange={setCreateGameOpen}
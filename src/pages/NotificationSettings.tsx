@@ -0,0 +1,212 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { ArrowLeft, LogOut, AlertTriangle } from "lucide-react";
+import { format } from "date-fns";
+import {
+  AppRole,
+  EmailBounce,
+  NotificationChannel,
+  NotificationEvent,
+  NotificationPreference,
+  fetchEmailBounce,
+  fetchPreferences,
+  getEventsForRoles,
+} from "@/lib/notifications";
+
+// Same priority as the redirect after signing in
+const getDashboardPath = (roles: AppRole[]): string => {
+  if (roles.includes("admin") || roles.includes("employee")) return "/employee";
+  if (roles.includes("coach")) return "/coach";
+  if (roles.includes("umpire")) return "/umpire";
+  return "/";
+};
+
+const NotificationSettings = () => {
+  const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [preferences, setPreferences] = useState<NotificationPreference[]>([]);
+  const [bounce, setBounce] = useState<EmailBounce | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    fetchSettings();
+  }, [user, navigate]);
+
+  const fetchSettings = async () => {
+    if (!user) return;
+
+    try {
+      const { data: roleData, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      setRoles(roleData?.map((r) => r.role) || []);
+      setPreferences(await fetchPreferences(user.id));
+      setBounce(user.email ? await fetchEmailBounce(user.email) : null);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      toast.error("Failed to load notification preferences");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setChannel = (event: NotificationEvent, channel: NotificationChannel, enabled: boolean) => {
+    setPreferences(preferences.map((p) => (p.event_type === event ? { ...p, [channel]: enabled } : p)));
+  };
+
+  const handleResumeEmail = async () => {
+    if (!bounce) return;
+
+    try {
+      const { error } = await supabase.from("email_bounces").delete().eq("email", bounce.email);
+
+      if (error) throw error;
+
+      setBounce(null);
+      toast.success("Email notifications resumed");
+    } catch (error) {
+      console.error("Error clearing email bounce:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to resume email");
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const shownEvents = new Set(getEventsForRoles(roles).map((info) => info.event));
+      const { error } = await supabase.from("notification_preferences").upsert(
+        preferences
+          .filter((p) => shownEvents.has(p.event_type))
+          .map((p) => ({ user_id: user.id, event_type: p.event_type, in_app: p.in_app, email: p.email })),
+        { onConflict: "user_id,event_type" }
+      );
+
+      if (error) throw error;
+
+      toast.success("Notification preferences saved");
+    } catch (error) {
+      console.error("Error saving notification preferences:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save notification preferences");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  const events = getEventsForRoles(roles);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Notification Settings</h1>
+            <p className="text-sm text-muted-foreground">{user?.email}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate(getDashboardPath(roles))}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+            <Button variant="outline" onClick={() => signOut()}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>What You Hear About</CardTitle>
+            <CardDescription>
+              Choose which events notify you, and whether they show in the app, arrive by email at {user?.email}, or both
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {bounce && (
+              <div className="mb-6 flex items-start justify-between gap-4 rounded-lg border border-destructive p-3">
+                <p className="flex items-start gap-2 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    Emails to {bounce.email} were rejected on {format(new Date(bounce.last_bounced_at), "PP")}
+                    {bounce.reason && ` (${bounce.reason})`}, so we've stopped sending them.
+                  </span>
+                </p>
+                <Button variant="outline" size="sm" onClick={handleResumeEmail}>
+                  Resume Email
+                </Button>
+              </div>
+            )}
+            {events.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">There are no notifications for your account yet</p>
+            ) : (
+              <div className="grid gap-4">
+                <div className="grid grid-cols-[1fr_64px_64px] gap-4 text-xs font-medium text-muted-foreground">
+                  <span>Event</span>
+                  <span className="text-center">In app</span>
+                  <span className="text-center">Email</span>
+                </div>
+                {events.map((info) => {
+                  const preference = preferences.find((p) => p.event_type === info.event);
+                  return (
+                    <div key={info.event} className="grid grid-cols-[1fr_64px_64px] gap-4 items-center border-t pt-4">
+                      <div>
+                        <p className="font-medium">{info.label}</p>
+                        <p className="text-sm text-muted-foreground">{info.description}</p>
+                      </div>
+                      <div className="flex justify-center">
+                        <Switch
+                          checked={preference?.in_app}
+                          onCheckedChange={(checked) => setChannel(info.event, "in_app", checked)}
+                          aria-label={`${info.label} in app`}
+                        />
+                      </div>
+                      <div className="flex justify-center">
+                        <Switch
+                          checked={preference?.email}
+                          onCheckedChange={(checked) => setChannel(info.event, "email", checked)}
+                          aria-label={`${info.label} by email`}
+                        />
+                      </div>
+                    </div>
+                  );
+                })}
+                <div className="flex justify-end">
+                  <Button onClick={handleSave} disabled={saving}>
+                    {saving ? "Saving..." : "Save Preferences"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,192 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { ArrowLeft, LogOut, MapPin, AlertTriangle } from "lucide-react";
+import { geocode, toCoordinates } from "@/lib/geocoding";
+
+interface ProfileForm {
+  full_name: string;
+  home_address: string;
+  home_latitude: number | null;
+  home_longitude: number | null;
+}
+
+const ProfileSettings = () => {
+  const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const [profile, setProfile] = useState<ProfileForm>({
+    full_name: "",
+    home_address: "",
+    home_latitude: null,
+    home_longitude: null,
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [addressUnresolved, setAddressUnresolved] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    fetchProfile();
+  }, [user, navigate]);
+
+  const fetchProfile = async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("full_name, home_address, home_latitude, home_longitude")
+        .eq("id", user.id)
+        .single();
+
+      if (error) throw error;
+
+      setProfile({
+        full_name: data.full_name || "",
+        home_address: data.home_address || "",
+        home_latitude: data.home_latitude,
+        home_longitude: data.home_longitude,
+      });
+      setAddressUnresolved(!!data.home_address && data.home_latitude === null);
+    } catch (error) {
+      console.error("Error fetching profile:", error);
+      toast.error("Failed to load profile");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const homeAddress = profile.home_address.trim();
+      const place = homeAddress ? await geocode(homeAddress) : null;
+      const coordinates = toCoordinates(place);
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({
+          full_name: profile.full_name.trim() || null,
+          home_address: homeAddress || null,
+          home_latitude: coordinates.latitude,
+          home_longitude: coordinates.longitude,
+        })
+        .eq("id", user.id);
+
+      if (error) throw error;
+
+      setProfile({
+        ...profile,
+        home_address: homeAddress,
+        home_latitude: coordinates.latitude,
+        home_longitude: coordinates.longitude,
+      });
+      setAddressUnresolved(!!homeAddress && !place);
+
+      if (homeAddress && !place) {
+        toast.warning("Profile saved, but we couldn't locate that address");
+      } else {
+        toast.success("Profile saved");
+      }
+    } catch (error) {
+      console.error("Error saving profile:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="flex items-center justify-center min-h-screen">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Profile Settings</h1>
+            <p className="text-sm text-muted-foreground">{user?.email}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/umpire")}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Dashboard
+            </Button>
+            <Button variant="outline" onClick={() => signOut()}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-2xl">
+        <Card>
+          <CardHeader>
+            <CardTitle>Your Details</CardTitle>
+            <CardDescription>
+              Your home address is used to show how far away games are and to suggest nearby assignments
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="grid gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="fullName">Full Name</Label>
+                <Input
+                  id="fullName"
+                  value={profile.full_name}
+                  onChange={(e) => setProfile({ ...profile, full_name: e.target.value })}
+                  placeholder="Enter your full name"
+                  maxLength={100}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="homeAddress">Home Address</Label>
+                <Input
+                  id="homeAddress"
+                  value={profile.home_address}
+                  onChange={(e) => setProfile({ ...profile, home_address: e.target.value })}
+                  placeholder="e.g. 123 Main St, Springfield"
+                  maxLength={300}
+                />
+                {profile.home_latitude !== null && profile.home_longitude !== null && (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground">
+                    <MapPin className="h-3 w-3" />
+                    Located at {profile.home_latitude.toFixed(4)}, {profile.home_longitude.toFixed(4)}
+                  </p>
+                )}
+                {addressUnresolved && (
+                  <p className="flex items-center gap-1 text-xs text-destructive">
+                    <AlertTriangle className="h-3 w-3" />
+                    This address isn't in our location directory yet. Distance filters are off until staff add it.
+                  </p>
+                )}
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>
+                  {saving ? "Saving..." : "Save Profile"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default ProfileSettings;
@@ -1,6 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useChangeHighlights } from "@/hooks/useChangeHighlights";
+import { useRealtimeRefresh } from "@/hooks/useRealtimeRefresh";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -8,18 +10,57 @@ import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
-import { Calendar, MapPin, Star, TrendingUp, LogOut, Filter } from "lucide-react";
-import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { Calendar, MapPin, Star, TrendingUp, LogOut, Filter, ShieldCheck, AlertTriangle, UserCog, History, Award } from "lucide-react";
+import { format, isPast, parseISO } from "date-fns";
+import DisputeNoShowDialog from "@/components/umpire/DisputeNoShowDialog";
+import AvailabilityCalendar from "@/components/umpire/AvailabilityCalendar";
+import WithdrawGameDialog from "@/components/umpire/WithdrawGameDialog";
+import GameChangeLog from "@/components/GameChangeLog";
+import InboxButton from "@/components/InboxButton";
+import NotificationBell from "@/components/NotificationBell";
+import CertificationStatusBadge from "@/components/CertificationStatusBadge";
+import { UmpireAvailability, getUnavailableReason } from "@/lib/availability";
+import { calculateDistance } from "@/lib/geo";
+import { CrewAssignment, POSITION_LABELS, UmpirePosition, getCrewFillLabel, getOpenPositions } from "@/lib/crew";
+import { GameChangeResult, describeGameChangeFailure } from "@/lib/gameChanges";
+import { QualificationIssue, UmpireCertification, fetchCertifications } from "@/lib/levels";
 
 interface Game {
   id: string;
   game_date: string;
   location: string;
   opponent: string;
+  level: string | null;
   latitude: number | null;
   longitude: number | null;
   coach_id: string;
-  assigned_umpire_id: string | null;
+  status: string;
+  required_positions: UmpirePosition[];
+  game_assignments: CrewAssignment[];
+  my_position?: UmpirePosition;
+  // Set while the game has been rescheduled and this umpire hasn't confirmed the new time
+  confirm_by?: string | null;
+}
+
+interface AcceptGameResult {
+  success: boolean;
+  reason?:
+    | "not_umpire"
+    | "not_found"
+    | "already_taken"
+    | "already_on_crew"
+    | "schedule_conflict"
+    | QualificationIssue;
+  game_id?: string;
+  position?: UmpirePosition;
+  conflict?: {
+    game_id: string;
+    game_date: string;
+    location: string;
+    opponent: string;
+    required_buffer_minutes: number;
+  };
 }
 
 interface Rating {
@@ -32,16 +73,52 @@ interface Rating {
   };
 }
 
+interface NoShowReport {
+  id: string;
+  status: string;
+  details: string | null;
+  dispute_deadline: string;
+  dispute_reason: string | null;
+  created_at: string;
+  games: {
+    opponent: string;
+    game_date: string;
+  } | null;
+}
+
+interface Reliability {
+  games_worked: number;
+  confirmed_no_shows: number;
+  reliability_score: number;
+  late_withdrawals: number;
+}
+
 const UmpireDashboard = () => {
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const [availableGames, setAvailableGames] = useState<Game[]>([]);
   const [myGames, setMyGames] = useState<Game[]>([]);
   const [ratings, setRatings] = useState<Rating[]>([]);
+  const [noShowReports, setNoShowReports] = useState<NoShowReport[]>([]);
+  const [reliability, setReliability] = useState<Reliability | null>(null);
+  const [certifications, setCertifications] = useState<UmpireCertification[]>([]);
+  const [disputeReport, setDisputeReport] = useState<NoShowReport | null>(null);
+  const [withdrawGame, setWithdrawGame] = useState<Game | null>(null);
+  const [withdrawalNoticeHours, setWithdrawalNoticeHours] = useState(48);
+  const [historyGameId, setHistoryGameId] = useState<string | null>(null);
+  const [availability, setAvailability] = useState<UmpireAvailability>({
+    windows: [],
+    blackoutDates: [],
+    maxGamesPerDay: null,
+  });
   const [loading, setLoading] = useState(true);
   const [maxDistance, setMaxDistance] = useState<number>(50);
   const [userLat, setUserLat] = useState<number | null>(null);
   const [userLng, setUserLng] = useState<number | null>(null);
+  // Games on screen, so a realtime refresh can say which ones went away
+  const visibleGames = useRef<Game[]>([]);
+  // Games this umpire tried to accept, which shouldn't be reported as taken by someone else
+  const acceptedGameIds = useRef(new Set<string>());
 
   useEffect(() => {
     if (!user) {
@@ -56,10 +133,13 @@ const UmpireDashboard = () => {
     if (!user) return;
 
     try {
+      // Frees spots whose crews didn't confirm a reschedule in time, reopening them below
+      await supabase.rpc("release_unconfirmed_reschedules");
+
       // Fetch user's home coordinates
       const { data: profile } = await supabase
         .from("profiles")
-        .select("home_latitude, home_longitude")
+        .select("home_latitude, home_longitude, max_games_per_day")
         .eq("id", user.id)
         .single();
 
@@ -68,65 +148,63 @@ const UmpireDashboard = () => {
         setUserLng(profile.home_longitude);
       }
 
-      // Fetch available games (pending requests without assigned umpire)
-      const { data: gamesData, error: gamesError } = await supabase
-        .from("games")
+      // Fetch availability so games the umpire can't take are hidden
+      const { data: windowsData } = await supabase
+        .from("umpire_availability_windows")
+        .select("day_of_week, start_time, end_time")
+        .eq("umpire_id", user.id)
+        .order("day_of_week")
+        .order("start_time");
+
+      const { data: blackoutData } = await supabase
+        .from("umpire_blackout_dates")
+        .select("blackout_date")
+        .eq("umpire_id", user.id);
+
+      setAvailability({
+        windows: windowsData || [],
+        blackoutDates: (blackoutData || []).map((b) => b.blackout_date),
+        maxGamesPerDay: profile?.max_games_per_day ?? null,
+      });
+
+      await fetchGames();
+      await fetchRatings();
+
+      // Fetch no-show reports filed against this umpire
+      const { data: reportsData, error: reportsError } = await supabase
+        .from("no_show_reports")
         .select(`
           id,
-          game_date,
-          location,
-          opponent,
-          latitude,
-          longitude,
-          coach_id,
-          assigned_umpire_id
+          status,
+          details,
+          dispute_deadline,
+          dispute_reason,
+          created_at,
+          games (opponent, game_date)
         `)
-        .is("assigned_umpire_id", null)
-        .eq("status", "pending")
-        .order("game_date", { ascending: true });
+        .eq("umpire_id", user.id)
+        .order("created_at", { ascending: false });
 
-      if (gamesError) {
-        console.error("Error fetching available games:", gamesError);
-        throw gamesError;
-      }
-      
-      console.log("Available games fetched:", gamesData);
-      setAvailableGames(gamesData || []);
+      if (reportsError) throw reportsError;
+      setNoShowReports(reportsData || []);
 
-      // Fetch umpire's assigned games
-      const { data: myGamesData, error: myGamesError } = await supabase
-        .from("games")
-        .select(`
-          id,
-          game_date,
-          location,
-          opponent,
-          latitude,
-          longitude,
-          coach_id,
-          assigned_umpire_id
-        `)
-        .eq("assigned_umpire_id", user.id)
-        .order("game_date", { ascending: true });
+      const { data: reliabilityData } = await supabase.rpc("get_umpire_reliability", {
+        _umpire_id: user.id,
+      });
+      setReliability(reliabilityData?.[0] || null);
 
-      if (myGamesError) throw myGamesError;
-      setMyGames(myGamesData || []);
+      // Games at levels above these are hidden from Available Games
+      setCertifications(await fetchCertifications(user.id));
 
-      // Fetch ratings
-      const { data: ratingsData, error: ratingsError } = await supabase
-        .from("ratings")
-        .select(`
-          rating,
-          comment,
-          created_at,
-          games (opponent, game_date)
-        `)
-        .eq("umpire_id", user.id)
-        .order("created_at", { ascending: false })
-        .limit(10);
+      const { data: noticeSetting } = await supabase
+        .from("app_settings")
+        .select("value")
+        .eq("key", "withdrawal_notice_hours")
+        .maybeSingle();
 
-      if (ratingsError) throw ratingsError;
-      setRatings(ratingsData || []);
+      if (noticeSetting) {
+        setWithdrawalNoticeHours(Number(noticeSetting.value));
+      }
     } catch (error: any) {
       toast.error("Error loading data: " + error.message);
     } finally {
@@ -134,76 +212,209 @@ const UmpireDashboard = () => {
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 3959; // Earth's radius in miles
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+  const describeAcceptFailure = (result: AcceptGameResult): string => {
+    switch (result.reason) {
+      case "already_taken":
+        return "This position has already been taken by another umpire";
+      case "already_on_crew":
+        return "You are already on the crew for this game";
+      case "schedule_conflict":
+        return result.conflict
+          ? `Cannot accept: conflicts with ${result.conflict.opponent} at ${format(new Date(result.conflict.game_date), "PPp")} (needs ${result.conflict.required_buffer_minutes} min between games, including travel time)`
+          : "Cannot accept: This game conflicts with your existing schedule (including travel time)";
+      case "not_certified":
+        return "You aren't certified for this game's level";
+      case "certification_expired":
+        return "Your certification for this game's level has expired. Contact staff to renew it.";
+      case "not_found":
+        return "This game no longer exists";
+      case "not_umpire":
+        return "Only umpires can accept games";
+      default:
+        return "Unable to accept this game";
+    }
   };
 
-  const checkDoubleBooking = (gameDate: string, gameLat: number | null, gameLng: number | null): boolean => {
-    const newGameTime = new Date(gameDate).getTime();
-    const twoHours = 2 * 60 * 60 * 1000;
-
-    for (const game of myGames) {
-      const existingGameTime = new Date(game.game_date).getTime();
-      const timeDiff = Math.abs(newGameTime - existingGameTime);
-
-      // Check if games are at the same time
-      if (timeDiff < twoHours) {
-        // If at different locations, calculate travel time consideration
-        if (gameLat && gameLng && game.latitude && game.longitude) {
-          const distance = calculateDistance(gameLat, gameLng, game.latitude, game.longitude);
-          // Assume 30 miles per hour average travel speed
-          const travelTimeMinutes = (distance / 30) * 60;
-          const requiredBuffer = (travelTimeMinutes + 60) * 60 * 1000; // Add 1 hour buffer
-
-          if (timeDiff < requiredBuffer) {
-            return true;
-          }
-        } else {
-          return true;
-        }
-      }
+  // Available games and the umpire's own games. Returns the available games so realtime
+  // refreshes can tell which ones disappeared.
+  const fetchGames = async (): Promise<Game[]> => {
+    if (!user) return [];
+
+    // Fetch available games (pending games with at least one open crew position)
+    const { data: gamesData, error: gamesError } = await supabase
+      .from("games")
+      .select(`
+        id,
+        game_date,
+        location,
+        opponent,
+        level,
+        latitude,
+        longitude,
+        coach_id,
+        status,
+        required_positions,
+        game_assignments (umpire_id, position)
+      `)
+      .eq("status", "pending")
+      .order("game_date", { ascending: true });
+
+    if (gamesError) {
+      console.error("Error fetching available games:", gamesError);
+      throw gamesError;
     }
-    return false;
+    
+    console.log("Available games fetched:", gamesData);
+    const available = (gamesData || []).filter(game => !game.game_assignments.some(a => a.umpire_id === user.id));
+    setAvailableGames(available);
+
+    // Fetch umpire's assigned games along with the rest of each crew
+    const { data: myAssignmentsData, error: myGamesError } = await supabase
+      .from("game_assignments")
+      .select(`
+        position,
+        reschedule_confirm_by,
+        games (
+          id,
+          game_date,
+          location,
+          opponent,
+          level,
+          latitude,
+          longitude,
+          coach_id,
+          status,
+          required_positions,
+          game_assignments (umpire_id, position)
+        )
+      `)
+      .eq("umpire_id", user.id);
+
+    if (myGamesError) throw myGamesError;
+    setMyGames(
+      (myAssignmentsData || [])
+        .filter(assignment => assignment.games)
+        .map(assignment => ({
+          ...assignment.games,
+          my_position: assignment.position,
+          confirm_by: assignment.reschedule_confirm_by,
+        }))
+        .sort((a, b) => new Date(a.game_date).getTime() - new Date(b.game_date).getTime())
+    );
+
+    return available;
   };
 
-  const handleAcceptGame = async (gameId: string, gameDate: string, gameLat: number | null, gameLng: number | null) => {
+  const fetchRatings = async () => {
     if (!user) return;
 
-    if (checkDoubleBooking(gameDate, gameLat, gameLng)) {
-      toast.error("Cannot accept: This game conflicts with your existing schedule (including travel time)");
-      return;
+    // Fetch ratings
+    const { data: ratingsData, error: ratingsError } = await supabase
+      .from("ratings")
+      .select(`
+        rating,
+        comment,
+        created_at,
+        games (opponent, game_date)
+      `)
+      .eq("umpire_id", user.id)
+      .order("created_at", { ascending: false })
+      .limit(10);
+
+    if (ratingsError) throw ratingsError;
+    setRatings(ratingsData || []);
+  };
+
+  // Refetches after a realtime change and tells the umpire about games that were on screen
+  // and are now gone, so they don't try to accept them
+  const refreshGames = async () => {
+    const shown = visibleGames.current;
+
+    try {
+      const available = await fetchGames();
+      const gone = shown.filter(
+        game => !acceptedGameIds.current.has(game.id) && !available.some(a => a.id === game.id)
+      );
+      if (gone.length === 0) return;
+
+      const { data: requests } = await supabase
+        .from("umpire_requests")
+        .select("game_id, status")
+        .in("game_id", gone.map(game => game.id));
+
+      gone.forEach(game => {
+        const label = `${game.opponent} (${format(new Date(game.game_date), "PP p")})`;
+        const taken = requests?.some(r => r.game_id === game.id && r.status === "accepted");
+        toast.info(taken ? `${label} was just taken` : `${label} is no longer available`);
+      });
+    } catch (error) {
+      console.error("Error refreshing games:", error);
     }
+  };
 
+  useRealtimeRefresh(
+    ["games", "game_assignments", "umpire_requests", "ratings"],
+    (table) => {
+      if (table !== "ratings") {
+        refreshGames();
+        return;
+      }
+      fetchRatings().catch(error => console.error("Error refreshing ratings:", error));
+    },
+    !!user
+  );
+
+  const handleAcceptGame = async (gameId: string, position: UmpirePosition) => {
+    if (!user) return;
+
+    acceptedGameIds.current.add(gameId);
     try {
-      const { error } = await supabase
-        .from("games")
-        .update({ assigned_umpire_id: user.id, status: "assigned" })
-        .eq("id", gameId);
+      const { data, error } = await supabase.rpc("accept_game", {
+        game_id_param: gameId,
+        position_param: position,
+      });
 
       if (error) throw error;
 
-      // Update umpire_request status
-      await supabase
-        .from("umpire_requests")
-        .update({ status: "accepted" })
-        .eq("game_id", gameId);
+      const result = data as unknown as AcceptGameResult;
+      if (!result.success) {
+        toast.error(describeAcceptFailure(result));
+        fetchData();
+        return;
+      }
 
-      toast.success("Game accepted successfully!");
+      toast.success(`Game accepted - you are working ${POSITION_LABELS[position]}`);
       fetchData();
     } catch (error: any) {
       toast.error("Error accepting game: " + error.message);
     }
   };
 
-  const filteredGames = availableGames.filter(game => {
+  const handleRespondToReschedule = async (game: Game, confirm: boolean) => {
+    try {
+      const { data, error } = await supabase.rpc("respond_to_reschedule", {
+        game_id_param: game.id,
+        confirm_param: confirm,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as GameChangeResult;
+      if (!result.success) {
+        toast.error(describeGameChangeFailure(result));
+      } else {
+        toast.success(confirm ? "You're still on this game" : "You've been released from this game");
+      }
+      fetchData();
+    } catch (error) {
+      console.error("Error responding to reschedule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to respond to reschedule");
+    }
+  };
+
+  const scheduledGameDates = myGames.map(g => new Date(g.game_date));
+
+  const gamesWithinDistance = availableGames.filter(game => {
     if (!userLat || !userLng || !game.latitude || !game.longitude) {
       return true; // Show all games if coordinates not available
     }
@@ -211,6 +422,22 @@ const UmpireDashboard = () => {
     return distance <= maxDistance;
   });
 
+  const filteredGames = gamesWithinDistance.filter(
+    game => !getUnavailableReason(new Date(game.game_date), availability, scheduledGameDates)
+  );
+
+  const hiddenByAvailabilityCount = gamesWithinDistance.length - filteredGames.length;
+  visibleGames.current = filteredGames;
+
+  const gameFingerprint = (game: Game) =>
+    [game.game_date, game.location, game.status, game.game_assignments.map(a => a.position).sort().join()].join("|");
+  const highlightedAvailable = useChangeHighlights(availableGames, gameFingerprint, !loading);
+  const highlightedMine = useChangeHighlights(
+    myGames,
+    (game) => `${gameFingerprint(game)}|${game.confirm_by ?? ""}`,
+    !loading
+  );
+
   const averageRating = ratings.length > 0 
     ? (ratings.reduce((sum, r) => sum + r.rating, 0) / ratings.length).toFixed(1)
     : "N/A";
@@ -229,16 +456,24 @@ const UmpireDashboard = () => {
             <h1 className="text-2xl font-bold text-foreground">Umpire Dashboard</h1>
             <p className="text-sm text-muted-foreground">Welcome back, {user?.email}</p>
           </div>
-          <Button variant="outline" onClick={() => signOut()}>
-            <LogOut className="mr-2 h-4 w-4" />
-            Sign Out
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={() => navigate("/settings/profile")}>
+              <UserCog className="mr-2 h-4 w-4" />
+              Profile
+            </Button>
+            <InboxButton />
+            <NotificationBell />
+            <Button variant="outline" onClick={() => signOut()}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign Out
+            </Button>
+          </div>
         </div>
       </header>
 
       <main className="container mx-auto px-4 py-8">
         {/* Analytics Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium">Total Games</CardTitle>
@@ -271,15 +506,138 @@ const UmpireDashboard = () => {
               <p className="text-xs text-muted-foreground">Feedback received</p>
             </CardContent>
           </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">Reliability</CardTitle>
+              <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">
+                {reliability ? `${reliability.reliability_score}%` : "N/A"}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {reliability?.confirmed_no_shows || 0} confirmed no-show{reliability?.confirmed_no_shows === 1 ? "" : "s"}
+                {" · "}
+                {reliability?.late_withdrawals || 0} late drop{reliability?.late_withdrawals === 1 ? "" : "s"}
+              </p>
+            </CardContent>
+          </Card>
         </div>
 
+        {/* No-Show Reports */}
+        {noShowReports.length > 0 && (
+          <Card className="mb-8 border-destructive">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-destructive" />
+                No-Show Reports
+              </CardTitle>
+              <CardDescription>Coaches reported that you did not show up for these games</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {noShowReports.map((report) => {
+                  const canDispute = report.status === "reported" && !isPast(new Date(report.dispute_deadline));
+
+                  return (
+                    <div key={report.id} className="border rounded-lg p-4">
+                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <h3 className="font-semibold">{report.games?.opponent || "Game"}</h3>
+                            <Badge variant={report.status === "confirmed" ? "destructive" : "outline"}>
+                              {report.status}
+                            </Badge>
+                          </div>
+                          {report.games && (
+                            <p className="text-sm text-muted-foreground">
+                              {format(new Date(report.games.game_date), "PPp")}
+                            </p>
+                          )}
+                          {report.details && (
+                            <p className="text-sm text-muted-foreground italic">"{report.details}"</p>
+                          )}
+                          {report.dispute_reason && (
+                            <p className="text-sm">
+                              <span className="font-medium">Your dispute:</span> {report.dispute_reason}
+                            </p>
+                          )}
+                          {report.status === "reported" && (
+                            <p className="text-xs text-muted-foreground">
+                              {canDispute
+                                ? `Dispute by ${format(new Date(report.dispute_deadline), "PPp")}`
+                                : "Dispute window closed"}
+                            </p>
+                          )}
+                        </div>
+                        {canDispute && (
+                          <Button variant="outline" onClick={() => setDisputeReport(report)}>
+                            Dispute
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Certifications */}
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Award className="h-5 w-5" />
+              My Certifications
+            </CardTitle>
+            <CardDescription>You can take games at these levels and below</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {certifications.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No certifications on file, so only games without a level are offered to you. Contact staff to add yours.
+              </p>
+            ) : (
+              <div className="flex flex-wrap gap-3">
+                {certifications.map((certification) => (
+                  <div key={certification.id} className="border rounded-lg p-3 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{certification.game_levels?.name}</span>
+                      <CertificationStatusBadge certification={certification} />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {certification.expires_on
+                        ? `Expires ${format(parseISO(certification.expires_on), "PP")}`
+                        : "Does not expire"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Available Games */}
         <Card className="mb-8">
           <CardHeader>
             <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
               <div>
                 <CardTitle>Available Games</CardTitle>
-                <CardDescription>Select games to umpire</CardDescription>
+                <CardDescription>
+                  Select games to umpire
+                  {hiddenByAvailabilityCount > 0 &&
+                    ` · ${hiddenByAvailabilityCount} hidden by your availability`}
+                </CardDescription>
+                {(!userLat || !userLng) && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    <Button variant="link" className="h-auto p-0 text-xs" onClick={() => navigate("/settings/profile")}>
+                      Add your home address
+                    </Button>{" "}
+                    to see distances and filter nearby games
+                  </p>
+                )}
               </div>
               {userLat && userLng && (
                 <div className="flex items-center gap-2">
@@ -306,14 +664,27 @@ const UmpireDashboard = () => {
                   const distance = userLat && userLng && game.latitude && game.longitude
                     ? calculateDistance(userLat, userLng, game.latitude, game.longitude)
                     : null;
+                  const openPositions = getOpenPositions(game.required_positions, game.game_assignments);
 
                   return (
-                    <div key={game.id} className="border rounded-lg p-4 hover:bg-accent/50 transition-colors">
+                    <div
+                      key={game.id}
+                      className={cn(
+                        "border rounded-lg p-4 hover:bg-accent/50 transition-colors",
+                        highlightedAvailable.has(game.id) && "animate-highlight"
+                      )}
+                    >
                       <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
                         <div className="space-y-2">
                           <div className="flex items-center gap-2">
                             <h3 className="font-semibold">{game.opponent}</h3>
                             <Badge variant="outline">Available</Badge>
+                            {game.level && <Badge variant="secondary">{game.level}</Badge>}
+                            {game.required_positions.length > 1 && (
+                              <Badge variant="secondary">
+                                {getCrewFillLabel(game.required_positions, game.game_assignments)}
+                              </Badge>
+                            )}
                           </div>
                           <div className="flex flex-col gap-1 text-sm text-muted-foreground">
                             <div className="flex items-center gap-1">
@@ -327,11 +698,19 @@ const UmpireDashboard = () => {
                             </div>
                           </div>
                         </div>
-                        <Button
-                          onClick={() => handleAcceptGame(game.id, game.game_date, game.latitude, game.longitude)}
-                        >
-                          Accept Game
-                        </Button>
+                        <div className="flex flex-wrap gap-2">
+                          {openPositions.map((position) => (
+                            <Button
+                              key={position}
+                              variant={position === openPositions[0] ? "default" : "outline"}
+                              onClick={() => handleAcceptGame(game.id, position)}
+                            >
+                              {game.required_positions.length > 1
+                                ? `Accept ${POSITION_LABELS[position]}`
+                                : "Accept Game"}
+                            </Button>
+                          ))}
+                        </div>
                       </div>
                     </div>
                   );
@@ -353,23 +732,78 @@ const UmpireDashboard = () => {
             ) : (
               <div className="space-y-4">
                 {myGames.map((game) => (
-                  <div key={game.id} className="border rounded-lg p-4">
-                    <div className="space-y-2">
-                      <div className="flex items-center gap-2">
-                        <h3 className="font-semibold">{game.opponent}</h3>
-                        <Badge>Confirmed</Badge>
-                      </div>
-                      <div className="flex flex-col gap-1 text-sm text-muted-foreground">
-                        <div className="flex items-center gap-1">
-                          <Calendar className="h-3 w-3" />
-                          {format(new Date(game.game_date), "PPp")}
+                  <div
+                    key={game.id}
+                    className={cn("border rounded-lg p-4", highlightedMine.has(game.id) && "animate-highlight")}
+                  >
+                    <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                      <div className="space-y-2">
+                        <div className="flex items-center gap-2">
+                          <h3 className="font-semibold">{game.opponent}</h3>
+                          {game.status === "cancelled" ? (
+                            <Badge variant="destructive">Cancelled</Badge>
+                          ) : game.confirm_by ? (
+                            <Badge variant="outline" className="border-amber-500 text-amber-600">
+                              Rescheduled
+                            </Badge>
+                          ) : (
+                            <Badge>Confirmed</Badge>
+                          )}
+                          {game.my_position && (
+                            <Badge variant="outline">{POSITION_LABELS[game.my_position]}</Badge>
+                          )}
+                          {game.required_positions.length > 1 && (
+                            <Badge variant="secondary">
+                              {getCrewFillLabel(game.required_positions, game.game_assignments)}
+                            </Badge>
+                          )}
                         </div>
-                        <div className="flex items-center gap-1">
-                          <MapPin className="h-3 w-3" />
-                          {game.location}
+                        <div className="flex flex-col gap-1 text-sm text-muted-foreground">
+                          <div className="flex items-center gap-1">
+                            <Calendar className="h-3 w-3" />
+                            {format(new Date(game.game_date), "PPp")}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {game.location}
+                          </div>
+                          {game.confirm_by && game.status !== "cancelled" && (
+                            <p className="text-xs text-amber-600">
+                              The time or place changed. Confirm by {format(new Date(game.confirm_by), "PPp")} to keep
+                              your spot.
+                            </p>
+                          )}
                         </div>
                       </div>
+                      <div className="flex flex-wrap gap-2">
+                        {game.confirm_by && game.status !== "cancelled" && (
+                          <>
+                            <Button onClick={() => handleRespondToReschedule(game, true)}>Keep Game</Button>
+                            <Button variant="outline" onClick={() => handleRespondToReschedule(game, false)}>
+                              Decline
+                            </Button>
+                          </>
+                        )}
+                        {!game.confirm_by && (game.status === "pending" || game.status === "assigned") && !isPast(new Date(game.game_date)) && (
+                          <Button variant="outline" onClick={() => setWithdrawGame(game)}>
+                            Withdraw
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setHistoryGameId(historyGameId === game.id ? null : game.id)}
+                        >
+                          <History className="mr-2 h-4 w-4" />
+                          Changes
+                        </Button>
+                      </div>
                     </div>
+                    {historyGameId === game.id && (
+                      <div className="mt-4 pt-4 border-t">
+                        <GameChangeLog gameId={game.id} />
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -377,6 +811,15 @@ const UmpireDashboard = () => {
           </CardContent>
         </Card>
 
+        {/* Availability */}
+        {user && (
+          <AvailabilityCalendar
+            umpireId={user.id}
+            availability={availability}
+            onSaved={setAvailability}
+          />
+        )}
+
         {/* Ratings */}
         <Card>
           <CardHeader>
@@ -421,6 +864,25 @@ const UmpireDashboard = () => {
           </CardContent>
         </Card>
       </main>
+
+      {disputeReport && (
+        <DisputeNoShowDialog
+          open={!!disputeReport}
+          onOpenChange={(open) => !open && setDisputeReport(null)}
+          report={disputeReport}
+          onSuccess={fetchData}
+        />
+      )}
+
+      {withdrawGame && (
+        <WithdrawGameDialog
+          open={!!withdrawGame}
+          onOpenChange={(open) => !open && setWithdrawGame(null)}
+          game={withdrawGame}
+          noticeHours={withdrawalNoticeHours}
+          onSuccess={fetchData}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,119 @@
+// Sends queued notification emails over SMTP. Each run claims a batch from claim_email_batch,
+// renders it with the templates and reports every outcome back with record_email_result, which
+// schedules retries and tracks bounces.
+//
+// Configure with SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASS, SMTP_TLS, SMTP_FROM and APP_URL.
+// For local development, point it at the mail catcher that ships with `supabase start`
+// (see .env.example) and read the results at http://localhost:54324.
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { EmailJob, renderEmail } from "./templates.ts";
+
+const DEFAULT_BATCH_SIZE = 25;
+
+type Outcome = "sent" | "retry" | "bounced";
+
+// Replies that mean the address itself is bad, as opposed to the server being unavailable or
+// refusing us. Anything else is retried.
+const isBounce = (message: string): boolean =>
+  /\b55[013][ -]/.test(message) || /\b5\.1\.\d{1,3}\b/.test(message);
+
+const createSmtpClient = () => {
+  const username = Deno.env.get("SMTP_USER");
+  const password = Deno.env.get("SMTP_PASS");
+
+  return new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOST") ?? "localhost",
+      port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      auth: username ? { username, password: password ?? "" } : undefined,
+    },
+  });
+};
+
+serve(async (req) => {
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+  // Only the scheduler, using the service role key, runs the worker
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      status: 401,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey);
+  const from = Deno.env.get("SMTP_FROM") ?? "UmpireScheduler <no-reply@localhost>";
+  const appUrl = (Deno.env.get("APP_URL") ?? "http://localhost:8080").replace(/\/$/, "");
+
+  let batchSize = DEFAULT_BATCH_SIZE;
+  try {
+    const payload = await req.json();
+    if (Number.isInteger(payload?.limit) && payload.limit > 0) batchSize = payload.limit;
+  } catch {
+    // No body; use the default batch size
+  }
+
+  const { data: jobs, error } = await supabase.rpc("claim_email_batch", { limit_param: batchSize });
+
+  if (error) {
+    console.error("Error claiming emails:", error);
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const counts: Record<Outcome, number> = { sent: 0, retry: 0, bounced: 0 };
+  if (!jobs || jobs.length === 0) {
+    return new Response(JSON.stringify({ claimed: 0, ...counts }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const client = createSmtpClient();
+
+  for (const job of jobs as EmailJob[]) {
+    let outcome: Outcome = "sent";
+    let errorMessage: string | null = null;
+
+    try {
+      const email = renderEmail(job, appUrl);
+      await client.send({
+        from,
+        to: job.full_name ? `${job.full_name} <${job.email}>` : job.email,
+        subject: email.subject,
+        content: email.text,
+        html: email.html,
+      });
+    } catch (sendError) {
+      errorMessage = sendError instanceof Error ? sendError.message : String(sendError);
+      outcome = isBounce(errorMessage) ? "bounced" : "retry";
+      console.error(`Error sending notification ${job.notification_id} (attempt ${job.attempt}):`, errorMessage);
+    }
+
+    counts[outcome] += 1;
+
+    const { error: recordError } = await supabase.rpc("record_email_result", {
+      notification_id_param: job.notification_id,
+      outcome_param: outcome,
+      error_param: errorMessage,
+    });
+
+    if (recordError) {
+      console.error(`Error recording result for notification ${job.notification_id}:`, recordError);
+    }
+  }
+
+  try {
+    await client.close();
+  } catch (closeError) {
+    console.error("Error closing SMTP connection:", closeError);
+  }
+
+  return new Response(JSON.stringify({ claimed: jobs.length, ...counts }), {
+    headers: { "Content-Type": "application/json" },
+  });
+});
@@ -0,0 +1,188 @@
+// Email templates for queued notifications. Each notification type maps to one template; the
+// notification's own title and body carry the specifics, and the template frames them.
+
+export type EmailTemplate =
+  | "assignment_confirmed"
+  | "game_tomorrow"
+  | "game_changed"
+  | "rating_received"
+  | "withdrawal"
+  | "game_available"
+  | "game_unfilled"
+  | "confirm_completion";
+
+// A row from claim_email_batch
+export interface EmailJob {
+  notification_id: string;
+  type: string;
+  title: string;
+  body: string | null;
+  attempt: number;
+  email: string;
+  full_name: string | null;
+  time_zone: string;
+  game_id: string | null;
+  opponent: string | null;
+  game_date: string | null;
+  location: string | null;
+  level: string | null;
+}
+
+export interface RenderedEmail {
+  template: EmailTemplate;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const TEMPLATE_FOR_TYPE: Record<string, EmailTemplate> = {
+  game_assigned: "assignment_confirmed",
+  game_reminder: "game_tomorrow",
+  game_updated: "game_changed",
+  game_rescheduled: "game_changed",
+  game_cancelled: "game_changed",
+  rating_received: "rating_received",
+  umpire_withdrew: "withdrawal",
+  new_nearby_game: "game_available",
+  game_unfilled: "game_unfilled",
+  completion_reminder: "confirm_completion",
+};
+
+interface TemplateCopy {
+  heading: string;
+  intro: string;
+  cta: string;
+}
+
+const TEMPLATES: Record<EmailTemplate, TemplateCopy> = {
+  assignment_confirmed: {
+    heading: "Assignment confirmed",
+    intro: "An umpire assignment for one of your games is confirmed.",
+    cta: "View your games",
+  },
+  game_tomorrow: {
+    heading: "Game coming up",
+    intro: "This is a reminder about a game you're part of.",
+    cta: "View game details",
+  },
+  game_changed: {
+    heading: "Game changed",
+    intro: "A game you're part of has changed. Please check the new details.",
+    cta: "Review the change",
+  },
+  rating_received: {
+    heading: "New rating",
+    intro: "A coach has rated your work on a recent game.",
+    cta: "See your ratings",
+  },
+  withdrawal: {
+    heading: "Umpire withdrawal",
+    intro: "An umpire has withdrawn from a game, so a position needs filling.",
+    cta: "Find a replacement",
+  },
+  game_available: {
+    heading: "Game available near you",
+    intro: "A game you're qualified for just opened up close to home.",
+    cta: "Take a look",
+  },
+  game_unfilled: {
+    heading: "Game still unfilled",
+    intro: "A game is coming up soon and still needs officials.",
+    cta: "Assign umpires",
+  },
+  confirm_completion: {
+    heading: "Confirm your game",
+    intro: "Please let us know whether this game was played, so the crew can be rated.",
+    cta: "Confirm the game",
+  },
+};
+
+export const getTemplate = (type: string): EmailTemplate => TEMPLATE_FOR_TYPE[type] ?? "game_changed";
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+// Game times in the recipient's own time zone, falling back to UTC for unknown zones
+const formatGameDate = (gameDate: string, timeZone: string): string => {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+  };
+
+  try {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone }).format(new Date(gameDate));
+  } catch {
+    return new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" }).format(new Date(gameDate));
+  }
+};
+
+const getGameDetails = (job: EmailJob): [string, string][] => {
+  if (!job.game_id || !job.game_date) return [];
+
+  const details: [string, string][] = [
+    ["Game", job.opponent ?? ""],
+    ["When", formatGameDate(job.game_date, job.time_zone)],
+    ["Where", job.location ?? ""],
+  ];
+  if (job.level) details.push(["Level", job.level]);
+  return details;
+};
+
+export const renderEmail = (job: EmailJob, appUrl: string): RenderedEmail => {
+  const template = getTemplate(job.type);
+  const copy = TEMPLATES[template];
+  const greeting = `Hi ${job.full_name || "there"},`;
+  const details = getGameDetails(job);
+  const settingsUrl = `${appUrl}/settings/notifications`;
+
+  const text = [
+    greeting,
+    "",
+    copy.intro,
+    "",
+    job.title,
+    ...(job.body ? [job.body] : []),
+    ...(details.length > 0 ? ["", ...details.map(([label, value]) => `${label}: ${value}`)] : []),
+    "",
+    `${copy.cta}: ${appUrl}`,
+    "",
+    `You're getting this because email is on for these notifications. Change that at ${settingsUrl}`,
+  ].join("\n");
+
+  const detailRows = details
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 12px 4px 0;color:#6b7280">${escapeHtml(label)}</td><td style="padding:4px 0">${escapeHtml(value)}</td></tr>`
+    )
+    .join("");
+
+  const html = `<!doctype html>
+<html>
+  <body style="margin:0;padding:24px;background:#f9fafb;font-family:Arial,Helvetica,sans-serif;color:#111827">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e5e7eb;border-radius:8px;padding:24px">
+      <h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(copy.heading)}</h1>
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(copy.intro)}</p>
+      <p style="font-weight:bold;margin-bottom:4px">${escapeHtml(job.title)}</p>
+      ${job.body ? `<p style="margin-top:0">${escapeHtml(job.body)}</p>` : ""}
+      ${detailRows ? `<table style="border-collapse:collapse;margin:16px 0">${detailRows}</table>` : ""}
+      <p><a href="${escapeHtml(appUrl)}" style="display:inline-block;background:#111827;color:#ffffff;padding:10px 16px;border-radius:6px;text-decoration:none">${escapeHtml(copy.cta)}</a></p>
+      <p style="font-size:12px;color:#6b7280;margin-top:24px">
+        You're getting this because email is on for these notifications.
+        <a href="${escapeHtml(settingsUrl)}" style="color:#6b7280">Change your notification settings</a>.
+      </p>
+    </div>
+  </body>
+</html>`;
+
+  return { template, subject: job.title, text, html };
+};
@@ -0,0 +1,140 @@
+-- Great-circle distance in miles between two coordinates
+CREATE OR REPLACE FUNCTION public.distance_miles(lat1 numeric, lon1 numeric, lat2 numeric, lon2 numeric)
+RETURNS DOUBLE PRECISION
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 3959 * 2 * atan2(
+    sqrt(
+      sin(radians(lat2 - lat1) / 2) ^ 2 +
+      cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lon2 - lon1) / 2) ^ 2
+    ),
+    sqrt(1 - (
+      sin(radians(lat2 - lat1) / 2) ^ 2 +
+      cos(radians(lat1)) * cos(radians(lat2)) * sin(radians(lon2 - lon1) / 2) ^ 2
+    ))
+  )
+$$;
+
+-- Returns the first assigned game of the umpire that conflicts with a game at the given
+-- time and place. Games closer than 2 hours apart conflict unless both have coordinates,
+-- in which case the gap must cover travel time (30 mph average) plus a 1 hour buffer.
+CREATE OR REPLACE FUNCTION public.find_schedule_conflict(
+  _umpire_id uuid,
+  _game_date timestamp with time zone,
+  _latitude numeric,
+  _longitude numeric,
+  _exclude_game_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  game_id uuid,
+  game_date timestamp with time zone,
+  location text,
+  opponent text,
+  required_buffer_minutes integer
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    g.id,
+    g.game_date,
+    g.location,
+    g.opponent,
+    CASE
+      WHEN _latitude IS NOT NULL AND _longitude IS NOT NULL
+        AND g.latitude IS NOT NULL AND g.longitude IS NOT NULL
+      THEN round(distance_miles(_latitude, _longitude, g.latitude, g.longitude) / 30 * 60 + 60)::integer
+      ELSE 120
+    END
+  FROM games g
+  WHERE g.assigned_umpire_id = _umpire_id
+    AND g.status = 'assigned'
+    AND (_exclude_game_id IS NULL OR g.id <> _exclude_game_id)
+    AND abs(extract(epoch FROM (g.game_date - _game_date))) < 2 * 60 * 60
+    AND (
+      _latitude IS NULL OR _longitude IS NULL
+      OR g.latitude IS NULL OR g.longitude IS NULL
+      OR abs(extract(epoch FROM (g.game_date - _game_date))) <
+        (distance_miles(_latitude, _longitude, g.latitude, g.longitude) / 30 * 60 + 60) * 60
+    )
+  ORDER BY g.game_date
+  LIMIT 1
+$$;
+
+-- Atomically accept a pending game for the calling umpire.
+-- Locks the game row and serialises accepts per umpire so two tabs cannot double-book.
+CREATE OR REPLACE FUNCTION public.accept_game(game_id_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  conflict RECORD;
+BEGIN
+  IF NOT has_role(auth.uid(), 'umpire') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_umpire');
+  END IF;
+
+  -- Serialise concurrent accepts by the same umpire
+  PERFORM pg_advisory_xact_lock(hashtext('accept_game:' || auth.uid()::text));
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_game.assigned_umpire_id IS NOT NULL OR target_game.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_taken');
+  END IF;
+
+  SELECT * INTO conflict
+  FROM find_schedule_conflict(
+    auth.uid(),
+    target_game.game_date,
+    target_game.latitude,
+    target_game.longitude,
+    target_game.id
+  );
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', 'schedule_conflict',
+      'conflict', jsonb_build_object(
+        'game_id', conflict.game_id,
+        'game_date', conflict.game_date,
+        'location', conflict.location,
+        'opponent', conflict.opponent,
+        'required_buffer_minutes', conflict.required_buffer_minutes
+      )
+    );
+  END IF;
+
+  UPDATE games
+  SET assigned_umpire_id = auth.uid(), status = 'assigned'
+  WHERE id = target_game.id;
+
+  UPDATE umpire_requests
+  SET status = 'accepted'
+  WHERE game_id = target_game.id
+    AND status = 'pending';
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_schedule_conflict(uuid, timestamp with time zone, numeric, numeric, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.accept_game(uuid) TO authenticated;
+
+-- Accepting now goes through accept_game() so the conflict check cannot be bypassed
+DROP POLICY IF EXISTS "Umpires can accept unassigned games" ON public.games;
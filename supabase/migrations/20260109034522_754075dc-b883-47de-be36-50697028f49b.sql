@@ -0,0 +1,119 @@
+-- Audit trail of game status changes
+CREATE TABLE public.game_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  from_status game_status,
+  to_status game_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_game_status_history_game ON public.game_status_history(game_id, changed_at);
+
+ALTER TABLE public.game_status_history ENABLE ROW LEVEL SECURITY;
+
+-- History rows are only written by the trigger below, so there are no insert/update policies
+CREATE POLICY "Employees can view all game status history"
+ON public.game_status_history
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Coaches can view status history of their games"
+ON public.game_status_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_status_history.game_id
+      AND games.coach_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Umpires can view status history of their assigned games"
+ON public.game_status_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_status_history.game_id
+      AND games.assigned_umpire_id = auth.uid()
+  )
+);
+
+-- Allowed transitions:
+--   pending   -> assigned, completed, cancelled
+--   assigned  -> pending, completed, cancelled
+--   cancelled -> pending (employees only)
+--   completed is final
+CREATE OR REPLACE FUNCTION public.enforce_game_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('assigned', 'completed', 'cancelled'))
+      OR (OLD.status = 'assigned' AND NEW.status IN ('pending', 'completed', 'cancelled'))
+      OR (OLD.status = 'cancelled' AND NEW.status = 'pending' AND has_role(auth.uid(), 'employee'))
+    ) THEN
+      RAISE EXCEPTION 'Invalid game status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'assigned' AND NEW.assigned_umpire_id IS NULL THEN
+    RAISE EXCEPTION 'An assigned game requires an assigned umpire'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'pending' AND NEW.assigned_umpire_id IS NOT NULL THEN
+    RAISE EXCEPTION 'A pending game cannot have an assigned umpire'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'completed'
+    AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed')
+    AND NEW.game_date > now() THEN
+    RAISE EXCEPTION 'A game cannot be completed before its game date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_game_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO game_status_history (game_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, NULL, NEW.status, auth.uid());
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO game_status_history (game_id, from_status, to_status, changed_by)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_game_status_transition
+  BEFORE INSERT OR UPDATE ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_game_status_transition();
+
+CREATE TRIGGER record_game_status_change
+  AFTER INSERT OR UPDATE ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_game_status_change();
+
+-- Seed history with the current status of existing games
+INSERT INTO public.game_status_history (game_id, from_status, to_status, changed_by, changed_at)
+SELECT id, NULL, status, NULL, created_at
+FROM public.games;
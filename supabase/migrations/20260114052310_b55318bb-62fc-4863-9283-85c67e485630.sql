@@ -0,0 +1,195 @@
+-- No-shows were stored as zero-star ratings, which the ratings CHECK constraint rejects.
+-- They now live in their own table with a dispute window and employee adjudication.
+CREATE TYPE public.no_show_status AS ENUM ('reported', 'disputed', 'confirmed', 'dismissed');
+
+CREATE TABLE public.no_show_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  umpire_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  details TEXT,
+  status no_show_status NOT NULL DEFAULT 'reported',
+  dispute_deadline TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + INTERVAL '72 hours'),
+  dispute_reason TEXT,
+  disputed_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolution_notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (game_id, umpire_id)
+);
+
+CREATE INDEX idx_no_show_reports_umpire ON public.no_show_reports(umpire_id, status);
+
+ALTER TABLE public.no_show_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches can report no-shows for their past games"
+ON public.no_show_reports
+FOR INSERT
+WITH CHECK (
+  auth.uid() = coach_id
+  AND status = 'reported'
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_id
+      AND games.coach_id = auth.uid()
+      AND games.assigned_umpire_id = umpire_id
+      AND games.game_date <= now()
+  )
+);
+
+CREATE POLICY "Coaches can view their own no-show reports"
+ON public.no_show_reports
+FOR SELECT
+USING (auth.uid() = coach_id);
+
+CREATE POLICY "Umpires can view no-show reports about them"
+ON public.no_show_reports
+FOR SELECT
+USING (auth.uid() = umpire_id);
+
+CREATE POLICY "Employees can view all no-show reports"
+ON public.no_show_reports
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE TRIGGER update_no_show_reports_updated_at
+  BEFORE UPDATE ON public.no_show_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Umpire disputes a report about them while the dispute window is open
+CREATE OR REPLACE FUNCTION public.dispute_no_show(report_id_param uuid, reason_param text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report no_show_reports%ROWTYPE;
+BEGIN
+  SELECT * INTO report
+  FROM no_show_reports
+  WHERE id = report_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND OR report.umpire_id <> auth.uid() THEN
+    RAISE EXCEPTION 'No-show report not found';
+  END IF;
+
+  IF report.status <> 'reported' THEN
+    RAISE EXCEPTION 'This report can no longer be disputed';
+  END IF;
+
+  IF report.dispute_deadline < now() THEN
+    RAISE EXCEPTION 'The dispute window for this report has closed';
+  END IF;
+
+  IF coalesce(trim(reason_param), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to dispute a no-show report';
+  END IF;
+
+  UPDATE no_show_reports
+  SET status = 'disputed', dispute_reason = trim(reason_param), disputed_at = now()
+  WHERE id = report.id;
+END;
+$$;
+
+-- Employee confirms or dismisses a report. A confirmed no-show on a game that has
+-- not happened yet reopens the game so another umpire can pick it up.
+CREATE OR REPLACE FUNCTION public.resolve_no_show(report_id_param uuid, confirm_param boolean, notes_param text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report no_show_reports%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can resolve no-show reports';
+  END IF;
+
+  SELECT * INTO report
+  FROM no_show_reports
+  WHERE id = report_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No-show report not found';
+  END IF;
+
+  IF report.status NOT IN ('reported', 'disputed') THEN
+    RAISE EXCEPTION 'This report has already been resolved';
+  END IF;
+
+  UPDATE no_show_reports
+  SET status = CASE WHEN confirm_param THEN 'confirmed'::no_show_status ELSE 'dismissed'::no_show_status END,
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      resolution_notes = nullif(trim(notes_param), '')
+  WHERE id = report.id;
+
+  IF confirm_param THEN
+    UPDATE games
+    SET status = 'pending', assigned_umpire_id = NULL
+    WHERE id = report.game_id
+      AND status = 'assigned'
+      AND assigned_umpire_id = report.umpire_id
+      AND game_date > now();
+
+    IF FOUND THEN
+      UPDATE umpire_requests
+      SET status = 'pending'
+      WHERE game_id = report.game_id;
+    END IF;
+  END IF;
+END;
+$$;
+
+-- Reliability counts worked games against confirmed no-shows; no-shows never touch star averages
+CREATE OR REPLACE FUNCTION public.get_umpire_reliability(_umpire_id uuid)
+RETURNS TABLE (
+  games_worked integer,
+  confirmed_no_shows integer,
+  reliability_score integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() <> _umpire_id AND NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Not allowed to view this umpire''s reliability';
+  END IF;
+
+  RETURN QUERY
+  WITH assignments AS (
+    SELECT id AS game_id
+    FROM games
+    WHERE assigned_umpire_id = _umpire_id
+      AND status = 'completed'
+    UNION
+    SELECT game_id
+    FROM no_show_reports
+    WHERE umpire_id = _umpire_id
+      AND status = 'confirmed'
+  ),
+  totals AS (
+    SELECT
+      (SELECT count(*)::integer FROM assignments) AS assigned,
+      (SELECT count(*)::integer FROM no_show_reports
+        WHERE umpire_id = _umpire_id AND status = 'confirmed') AS no_shows
+  )
+  SELECT
+    totals.assigned - totals.no_shows,
+    totals.no_shows,
+    CASE
+      WHEN totals.assigned = 0 THEN 100
+      ELSE round(100.0 * (totals.assigned - totals.no_shows) / totals.assigned)::integer
+    END
+  FROM totals;
+END;
+$$;
@@ -0,0 +1,139 @@
+-- Umpire availability: recurring weekly windows, one-off blackout dates and a daily game cap.
+-- An umpire with no weekly windows is treated as available at any time.
+ALTER TABLE public.profiles
+ADD COLUMN max_games_per_day INTEGER CHECK (max_games_per_day IS NULL OR max_games_per_day >= 1),
+ADD COLUMN time_zone TEXT NOT NULL DEFAULT 'UTC';
+
+CREATE TABLE public.umpire_availability_windows (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  umpire_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  day_of_week SMALLINT NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE public.umpire_blackout_dates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  umpire_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blackout_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (umpire_id, blackout_date)
+);
+
+CREATE INDEX idx_umpire_availability_windows_umpire ON public.umpire_availability_windows(umpire_id, day_of_week);
+
+ALTER TABLE public.umpire_availability_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.umpire_blackout_dates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Umpires can manage their own availability windows"
+ON public.umpire_availability_windows
+FOR ALL
+USING (auth.uid() = umpire_id)
+WITH CHECK (auth.uid() = umpire_id AND has_role(auth.uid(), 'umpire'::app_role));
+
+CREATE POLICY "Employees can view all availability windows"
+ON public.umpire_availability_windows
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Umpires can manage their own blackout dates"
+ON public.umpire_blackout_dates
+FOR ALL
+USING (auth.uid() = umpire_id)
+WITH CHECK (auth.uid() = umpire_id AND has_role(auth.uid(), 'umpire'::app_role));
+
+CREATE POLICY "Employees can view all blackout dates"
+ON public.umpire_blackout_dates
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Returns NULL when the umpire can take a game starting at _game_date, otherwise one of
+-- 'blackout', 'outside_hours' or 'daily_limit'. Times are compared in the umpire's time zone.
+CREATE OR REPLACE FUNCTION public.check_umpire_availability(_umpire_id uuid, _game_date timestamp with time zone)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz TEXT;
+  max_per_day INTEGER;
+  local_start TIMESTAMP;
+BEGIN
+  SELECT coalesce(time_zone, 'UTC'), max_games_per_day INTO tz, max_per_day
+  FROM profiles
+  WHERE id = _umpire_id;
+
+  local_start := _game_date AT TIME ZONE coalesce(tz, 'UTC');
+
+  IF EXISTS (
+    SELECT 1 FROM umpire_blackout_dates
+    WHERE umpire_id = _umpire_id
+      AND blackout_date = local_start::date
+  ) THEN
+    RETURN 'blackout';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM umpire_availability_windows WHERE umpire_id = _umpire_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM umpire_availability_windows
+      WHERE umpire_id = _umpire_id
+        AND day_of_week = extract(dow FROM local_start)
+        AND local_start::time >= start_time
+        AND local_start::time < end_time
+    ) THEN
+    RETURN 'outside_hours';
+  END IF;
+
+  IF max_per_day IS NOT NULL AND (
+    SELECT count(*)
+    FROM games
+    WHERE assigned_umpire_id = _umpire_id
+      AND status IN ('assigned', 'completed')
+      AND (game_date AT TIME ZONE coalesce(tz, 'UTC'))::date = local_start::date
+  ) >= max_per_day THEN
+    RETURN 'daily_limit';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_umpire_availability(uuid, timestamp with time zone) FROM PUBLIC, anon, authenticated;
+
+-- Availability of every umpire for one game, for staff filling Urgent Actions
+CREATE OR REPLACE FUNCTION public.get_umpire_availability_for_game(game_id_param uuid)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  unavailable_reason text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_date TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view umpire availability';
+  END IF;
+
+  SELECT game_date INTO target_date FROM games WHERE id = game_id_param;
+
+  RETURN QUERY
+  SELECT
+    ur.user_id,
+    p.full_name,
+    check_umpire_availability(ur.user_id, target_date)
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  WHERE ur.role = 'umpire'
+  ORDER BY check_umpire_availability(ur.user_id, target_date) NULLS FIRST, p.full_name;
+END;
+$$;
@@ -0,0 +1,238 @@
+-- Log of every umpire assignment, whether self-accepted or made by staff
+CREATE TABLE public.umpire_assignment_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  umpire_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  previous_umpire_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  method TEXT NOT NULL CHECK (method IN ('self_accept', 'manual')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_umpire_assignment_log_game ON public.umpire_assignment_log(game_id, created_at);
+
+ALTER TABLE public.umpire_assignment_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view the assignment log"
+ON public.umpire_assignment_log
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Self-accepts are now logged as well
+CREATE OR REPLACE FUNCTION public.accept_game(game_id_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  conflict RECORD;
+BEGIN
+  IF NOT has_role(auth.uid(), 'umpire') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_umpire');
+  END IF;
+
+  -- Serialise concurrent accepts by the same umpire
+  PERFORM pg_advisory_xact_lock(hashtext('accept_game:' || auth.uid()::text));
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_game.assigned_umpire_id IS NOT NULL OR target_game.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_taken');
+  END IF;
+
+  SELECT * INTO conflict
+  FROM find_schedule_conflict(
+    auth.uid(),
+    target_game.game_date,
+    target_game.latitude,
+    target_game.longitude,
+    target_game.id
+  );
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', 'schedule_conflict',
+      'conflict', jsonb_build_object(
+        'game_id', conflict.game_id,
+        'game_date', conflict.game_date,
+        'location', conflict.location,
+        'opponent', conflict.opponent,
+        'required_buffer_minutes', conflict.required_buffer_minutes
+      )
+    );
+  END IF;
+
+  UPDATE games
+  SET assigned_umpire_id = auth.uid(), status = 'assigned'
+  WHERE id = target_game.id;
+
+  UPDATE umpire_requests
+  SET status = 'accepted'
+  WHERE game_id = target_game.id
+    AND status = 'pending';
+
+  INSERT INTO umpire_assignment_log (game_id, umpire_id, previous_umpire_id, assigned_by, method)
+  VALUES (target_game.id, auth.uid(), NULL, auth.uid(), 'self_accept');
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+-- Staff assign or swap the umpire on a game. Schedule conflicts are reported back
+-- unless force_param is set, in which case staff have chosen to override them.
+CREATE OR REPLACE FUNCTION public.assign_umpire(game_id_param uuid, umpire_id_param uuid, force_param boolean DEFAULT false)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  conflict RECORD;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_employee');
+  END IF;
+
+  IF NOT has_role(umpire_id_param, 'umpire') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_umpire');
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('accept_game:' || umpire_id_param::text));
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_game.status NOT IN ('pending', 'assigned') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'game_closed');
+  END IF;
+
+  IF target_game.assigned_umpire_id = umpire_id_param THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_assigned');
+  END IF;
+
+  IF NOT force_param THEN
+    SELECT * INTO conflict
+    FROM find_schedule_conflict(
+      umpire_id_param,
+      target_game.game_date,
+      target_game.latitude,
+      target_game.longitude,
+      target_game.id
+    );
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'reason', 'schedule_conflict',
+        'conflict', jsonb_build_object(
+          'game_id', conflict.game_id,
+          'game_date', conflict.game_date,
+          'location', conflict.location,
+          'opponent', conflict.opponent,
+          'required_buffer_minutes', conflict.required_buffer_minutes
+        )
+      );
+    END IF;
+  END IF;
+
+  UPDATE games
+  SET assigned_umpire_id = umpire_id_param, status = 'assigned'
+  WHERE id = target_game.id;
+
+  UPDATE umpire_requests
+  SET status = 'accepted'
+  WHERE game_id = target_game.id;
+
+  INSERT INTO umpire_assignment_log (game_id, umpire_id, previous_umpire_id, assigned_by, method)
+  VALUES (target_game.id, umpire_id_param, target_game.assigned_umpire_id, auth.uid(), 'manual');
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+-- Every umpire with what staff need to pick one for a game: distance from home,
+-- schedule conflicts, availability and their average over the last 10 ratings
+CREATE OR REPLACE FUNCTION public.get_assignment_candidates(game_id_param uuid)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  email text,
+  distance_miles double precision,
+  unavailable_reason text,
+  conflict_opponent text,
+  conflict_game_date timestamp with time zone,
+  average_rating numeric,
+  rating_count integer,
+  is_current boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view assignment candidates';
+  END IF;
+
+  SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    CASE
+      WHEN p.home_latitude IS NOT NULL AND p.home_longitude IS NOT NULL
+        AND target_game.latitude IS NOT NULL AND target_game.longitude IS NOT NULL
+      THEN distance_miles(p.home_latitude, p.home_longitude, target_game.latitude, target_game.longitude)
+    END,
+    check_umpire_availability(p.id, target_game.game_date),
+    c.opponent,
+    c.game_date,
+    r.average_rating,
+    coalesce(r.rating_count, 0)::integer,
+    target_game.assigned_umpire_id IS NOT DISTINCT FROM p.id
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  LEFT JOIN LATERAL (
+    SELECT fc.opponent, fc.game_date
+    FROM find_schedule_conflict(p.id, target_game.game_date, target_game.latitude, target_game.longitude, target_game.id) fc
+  ) c ON true
+  LEFT JOIN LATERAL (
+    SELECT round(avg(recent.rating), 1) AS average_rating, count(*) AS rating_count
+    FROM (
+      SELECT rt.rating
+      FROM ratings rt
+      WHERE rt.umpire_id = p.id
+      ORDER BY rt.created_at DESC
+      LIMIT 10
+    ) recent
+  ) r ON true
+  WHERE ur.role = 'umpire'
+  ORDER BY p.full_name;
+END;
+$$;
@@ -0,0 +1,86 @@
+-- Ranked umpire suggestions for a game. Only umpires without a schedule conflict and who
+-- are available at the game time are eligible. The 0-100 score weighs:
+--   distance from home (40), recent average rating (30), reliability (15), current workload (15)
+CREATE OR REPLACE FUNCTION public.get_umpire_suggestions(game_id_param uuid, limit_param integer DEFAULT 10)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  score integer,
+  distance_miles double precision,
+  average_rating numeric,
+  reliability_score integer,
+  upcoming_games integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view umpire suggestions';
+  END IF;
+
+  SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT
+      p.id,
+      p.full_name,
+      CASE
+        WHEN p.home_latitude IS NOT NULL AND p.home_longitude IS NOT NULL
+          AND target_game.latitude IS NOT NULL AND target_game.longitude IS NOT NULL
+        THEN distance_miles(p.home_latitude, p.home_longitude, target_game.latitude, target_game.longitude)
+      END AS distance,
+      (
+        SELECT round(avg(recent.rating), 1)
+        FROM (
+          SELECT rt.rating FROM ratings rt
+          WHERE rt.umpire_id = p.id
+          ORDER BY rt.created_at DESC
+          LIMIT 10
+        ) recent
+      ) AS avg_rating,
+      (SELECT rel.reliability_score FROM get_umpire_reliability(p.id) rel) AS reliability,
+      (
+        SELECT count(*)::integer FROM games g
+        WHERE g.assigned_umpire_id = p.id
+          AND g.status = 'assigned'
+          AND g.game_date >= now()
+      ) AS workload
+    FROM user_roles ur
+    JOIN profiles p ON p.id = ur.user_id
+    WHERE ur.role = 'umpire'
+      AND p.id IS DISTINCT FROM target_game.assigned_umpire_id
+      AND check_umpire_availability(p.id, target_game.game_date) IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM find_schedule_conflict(
+          p.id, target_game.game_date, target_game.latitude, target_game.longitude, target_game.id
+        )
+      )
+  )
+  SELECT
+    e.id,
+    e.full_name,
+    round(
+      40 * CASE WHEN e.distance IS NULL THEN 0.5 ELSE greatest(0, 1 - e.distance / 50) END
+      + 30 * coalesce(e.avg_rating, 3.5) / 5
+      + 15 * e.reliability / 100.0
+      + 15 * greatest(0, 1 - e.workload / 10.0)
+    )::integer AS match_score,
+    e.distance,
+    e.avg_rating,
+    e.reliability,
+    e.workload
+  FROM eligible e
+  ORDER BY match_score DESC, e.distance NULLS LAST
+  LIMIT limit_param;
+END;
+$$;
@@ -0,0 +1,853 @@
+-- Umpire crews: each game declares the positions it needs and every filled position is a
+-- row in game_assignments, replacing games.assigned_umpire_id.
+CREATE TYPE public.umpire_position AS ENUM ('plate', 'first_base', 'third_base');
+
+ALTER TABLE public.games
+ADD COLUMN required_positions umpire_position[] NOT NULL DEFAULT '{plate}'::umpire_position[]
+  CHECK (cardinality(required_positions) BETWEEN 1 AND 3);
+
+CREATE TABLE public.game_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  umpire_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position umpire_position NOT NULL,
+  assigned_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (game_id, position),
+  UNIQUE (game_id, umpire_id)
+);
+
+CREATE INDEX idx_game_assignments_umpire ON public.game_assignments(umpire_id);
+
+CREATE TRIGGER update_game_assignments_updated_at
+  BEFORE UPDATE ON public.game_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Existing single-umpire games become a plate-only crew
+INSERT INTO public.game_assignments (game_id, umpire_id, position, created_at)
+SELECT id, assigned_umpire_id, 'plate', updated_at
+FROM public.games
+WHERE assigned_umpire_id IS NOT NULL;
+
+ALTER TABLE public.umpire_assignment_log
+ADD COLUMN position umpire_position;
+
+UPDATE public.umpire_assignment_log SET position = 'plate';
+
+-- Security definer so games policies can check the crew without recursing into
+-- the game_assignments policies, which themselves look at games
+CREATE OR REPLACE FUNCTION public.is_game_official(_game_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM game_assignments
+    WHERE game_id = _game_id
+      AND umpire_id = _user_id
+  )
+$$;
+
+ALTER TABLE public.game_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can manage all game assignments"
+ON public.game_assignments
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Coaches can view crews of their games"
+ON public.game_assignments
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_assignments.game_id
+      AND games.coach_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Umpires can view crews of open games and their own games"
+ON public.game_assignments
+FOR SELECT
+USING (
+  has_role(auth.uid(), 'umpire'::app_role)
+  AND (
+    is_game_official(game_id, auth.uid())
+    OR EXISTS (
+      SELECT 1 FROM public.games
+      WHERE games.id = game_assignments.game_id
+        AND games.status = 'pending'
+    )
+  )
+);
+
+-- Policies that looked at assigned_umpire_id now look at the crew
+DROP POLICY IF EXISTS "Umpires can view games they are assigned to" ON public.games;
+DROP POLICY IF EXISTS "Umpires can view unassigned games" ON public.games;
+
+CREATE POLICY "Umpires can view games they are assigned to"
+ON public.games
+AS PERMISSIVE
+FOR SELECT
+TO authenticated
+USING (is_game_official(id, auth.uid()));
+
+-- Pending now means at least one position is still open
+CREATE POLICY "Umpires can view unassigned games"
+ON public.games
+AS PERMISSIVE
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'umpire'::app_role)
+  AND status = 'pending'
+);
+
+DROP POLICY IF EXISTS "Umpires can view status history of their assigned games" ON public.game_status_history;
+
+CREATE POLICY "Umpires can view status history of their assigned games"
+ON public.game_status_history
+FOR SELECT
+USING (is_game_official(game_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Coaches can report no-shows for their past games" ON public.no_show_reports;
+
+CREATE POLICY "Coaches can report no-shows for their past games"
+ON public.no_show_reports
+FOR INSERT
+WITH CHECK (
+  auth.uid() = coach_id
+  AND status = 'reported'
+  AND is_game_official(game_id, umpire_id)
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_id
+      AND games.coach_id = auth.uid()
+      AND games.game_date <= now()
+  )
+);
+
+-- Coaches rate each member of the crew separately
+ALTER TABLE public.ratings DROP CONSTRAINT IF EXISTS ratings_game_id_coach_id_key;
+ALTER TABLE public.ratings ADD CONSTRAINT ratings_game_id_coach_id_umpire_id_key UNIQUE (game_id, coach_id, umpire_id);
+
+DROP POLICY IF EXISTS "Coaches can create ratings for completed games" ON public.ratings;
+
+CREATE POLICY "Coaches can create ratings for completed games"
+ON public.ratings
+FOR INSERT
+WITH CHECK (
+  auth.uid() = coach_id
+  AND is_game_official(game_id, umpire_id)
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE id = game_id
+      AND coach_id = auth.uid()
+      AND status = 'completed'
+  )
+);
+
+-- A game is 'assigned' once every required position is filled and 'pending' while any is open
+CREATE OR REPLACE FUNCTION public.enforce_game_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  filled_count INTEGER := 0;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT count(*) INTO filled_count
+    FROM game_assignments
+    WHERE game_id = NEW.id
+      AND position = ANY(NEW.required_positions);
+
+    IF EXISTS (
+      SELECT 1 FROM game_assignments
+      WHERE game_id = NEW.id
+        AND NOT (position = ANY(NEW.required_positions))
+    ) THEN
+      RAISE EXCEPTION 'Remove the official from a position before dropping it from the crew'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Changing the crew size moves the game between pending and assigned on its own
+    IF NEW.required_positions IS DISTINCT FROM OLD.required_positions
+      AND NEW.status IN ('pending', 'assigned') THEN
+      NEW.status := CASE
+        WHEN filled_count >= cardinality(NEW.required_positions) THEN 'assigned'::game_status
+        ELSE 'pending'::game_status
+      END;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'pending' AND NEW.status IN ('assigned', 'completed', 'cancelled'))
+      OR (OLD.status = 'assigned' AND NEW.status IN ('pending', 'completed', 'cancelled'))
+      OR (OLD.status = 'cancelled' AND NEW.status = 'pending' AND has_role(auth.uid(), 'employee'))
+    ) THEN
+      RAISE EXCEPTION 'Invalid game status transition from % to %', OLD.status, NEW.status
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'assigned' AND filled_count < cardinality(NEW.required_positions) THEN
+    RAISE EXCEPTION 'An assigned game requires every crew position to be filled'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'pending' AND filled_count >= cardinality(NEW.required_positions) THEN
+    RAISE EXCEPTION 'A pending game must have at least one open crew position'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.status = 'completed'
+    AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed')
+    AND NEW.game_date > now() THEN
+    RAISE EXCEPTION 'A game cannot be completed before its game date'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Keeps games.status in step with the crew as positions are filled and vacated
+CREATE OR REPLACE FUNCTION public.sync_game_crew_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.game_id ELSE NEW.game_id END;
+BEGIN
+  UPDATE games g
+  SET status = CASE
+    WHEN (
+      SELECT count(*) FROM game_assignments ga
+      WHERE ga.game_id = g.id
+        AND ga.position = ANY(g.required_positions)
+    ) >= cardinality(g.required_positions) THEN 'assigned'::game_status
+    ELSE 'pending'::game_status
+  END
+  WHERE g.id = target_game_id
+    AND g.status IN ('pending', 'assigned');
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_game_crew_status
+  AFTER INSERT OR UPDATE OR DELETE ON public.game_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_game_crew_status();
+
+-- Every official on a pending or fully staffed crew counts towards conflicts
+CREATE OR REPLACE FUNCTION public.find_schedule_conflict(
+  _umpire_id uuid,
+  _game_date timestamp with time zone,
+  _latitude numeric,
+  _longitude numeric,
+  _exclude_game_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  game_id uuid,
+  game_date timestamp with time zone,
+  location text,
+  opponent text,
+  required_buffer_minutes integer
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    g.id,
+    g.game_date,
+    g.location,
+    g.opponent,
+    CASE
+      WHEN _latitude IS NOT NULL AND _longitude IS NOT NULL
+        AND g.latitude IS NOT NULL AND g.longitude IS NOT NULL
+      THEN round(distance_miles(_latitude, _longitude, g.latitude, g.longitude) / 30 * 60 + 60)::integer
+      ELSE 120
+    END
+  FROM games g
+  JOIN game_assignments ga ON ga.game_id = g.id
+  WHERE ga.umpire_id = _umpire_id
+    AND g.status IN ('pending', 'assigned')
+    AND (_exclude_game_id IS NULL OR g.id <> _exclude_game_id)
+    AND abs(extract(epoch FROM (g.game_date - _game_date))) < 2 * 60 * 60
+    AND (
+      _latitude IS NULL OR _longitude IS NULL
+      OR g.latitude IS NULL OR g.longitude IS NULL
+      OR abs(extract(epoch FROM (g.game_date - _game_date))) <
+        (distance_miles(_latitude, _longitude, g.latitude, g.longitude) / 30 * 60 + 60) * 60
+    )
+  ORDER BY g.game_date
+  LIMIT 1
+$$;
+
+-- The umpire takes one open position. Without position_param the first open one in
+-- crew order (plate, first base, third base) is taken.
+DROP FUNCTION IF EXISTS public.accept_game(uuid);
+
+CREATE OR REPLACE FUNCTION public.accept_game(game_id_param uuid, position_param umpire_position DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  open_position umpire_position;
+  conflict RECORD;
+BEGIN
+  IF NOT has_role(auth.uid(), 'umpire') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_umpire');
+  END IF;
+
+  -- Serialise concurrent accepts by the same umpire
+  PERFORM pg_advisory_xact_lock(hashtext('accept_game:' || auth.uid()::text));
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_game.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_taken');
+  END IF;
+
+  IF is_game_official(target_game.id, auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_on_crew');
+  END IF;
+
+  SELECT p INTO open_position
+  FROM unnest(target_game.required_positions) p
+  WHERE (position_param IS NULL OR p = position_param)
+    AND NOT EXISTS (
+      SELECT 1 FROM game_assignments ga
+      WHERE ga.game_id = target_game.id
+        AND ga.position = p
+    )
+  ORDER BY p
+  LIMIT 1;
+
+  IF open_position IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_taken');
+  END IF;
+
+  SELECT * INTO conflict
+  FROM find_schedule_conflict(
+    auth.uid(),
+    target_game.game_date,
+    target_game.latitude,
+    target_game.longitude,
+    target_game.id
+  );
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', 'schedule_conflict',
+      'conflict', jsonb_build_object(
+        'game_id', conflict.game_id,
+        'game_date', conflict.game_date,
+        'location', conflict.location,
+        'opponent', conflict.opponent,
+        'required_buffer_minutes', conflict.required_buffer_minutes
+      )
+    );
+  END IF;
+
+  INSERT INTO game_assignments (game_id, umpire_id, position, assigned_by)
+  VALUES (target_game.id, auth.uid(), open_position, auth.uid());
+
+  UPDATE umpire_requests
+  SET status = 'accepted'
+  WHERE game_id = target_game.id
+    AND status = 'pending'
+    AND EXISTS (SELECT 1 FROM games WHERE id = target_game.id AND status = 'assigned');
+
+  INSERT INTO umpire_assignment_log (game_id, umpire_id, previous_umpire_id, assigned_by, method, position)
+  VALUES (target_game.id, auth.uid(), NULL, auth.uid(), 'self_accept', open_position);
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id, 'position', open_position);
+END;
+$$;
+
+-- Staff fill or swap a crew position. Without position_param the first open position is
+-- filled; naming a filled position replaces whoever holds it.
+DROP FUNCTION IF EXISTS public.assign_umpire(uuid, uuid, boolean);
+
+CREATE OR REPLACE FUNCTION public.assign_umpire(
+  game_id_param uuid,
+  umpire_id_param uuid,
+  force_param boolean DEFAULT false,
+  position_param umpire_position DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  target_position umpire_position;
+  existing game_assignments%ROWTYPE;
+  conflict RECORD;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_employee');
+  END IF;
+
+  IF NOT has_role(umpire_id_param, 'umpire') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_umpire');
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('accept_game:' || umpire_id_param::text));
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_game.status NOT IN ('pending', 'assigned') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'game_closed');
+  END IF;
+
+  IF is_game_official(target_game.id, umpire_id_param) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_assigned');
+  END IF;
+
+  IF position_param IS NOT NULL THEN
+    IF NOT (position_param = ANY(target_game.required_positions)) THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'invalid_position');
+    END IF;
+    target_position := position_param;
+  ELSE
+    SELECT p INTO target_position
+    FROM unnest(target_game.required_positions) p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM game_assignments ga
+      WHERE ga.game_id = target_game.id
+        AND ga.position = p
+    )
+    ORDER BY p
+    LIMIT 1;
+
+    IF target_position IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'crew_full');
+    END IF;
+  END IF;
+
+  IF NOT force_param THEN
+    SELECT * INTO conflict
+    FROM find_schedule_conflict(
+      umpire_id_param,
+      target_game.game_date,
+      target_game.latitude,
+      target_game.longitude,
+      target_game.id
+    );
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'reason', 'schedule_conflict',
+        'conflict', jsonb_build_object(
+          'game_id', conflict.game_id,
+          'game_date', conflict.game_date,
+          'location', conflict.location,
+          'opponent', conflict.opponent,
+          'required_buffer_minutes', conflict.required_buffer_minutes
+        )
+      );
+    END IF;
+  END IF;
+
+  SELECT * INTO existing
+  FROM game_assignments
+  WHERE game_id = target_game.id
+    AND position = target_position;
+
+  IF FOUND THEN
+    UPDATE game_assignments
+    SET umpire_id = umpire_id_param, assigned_by = auth.uid()
+    WHERE id = existing.id;
+  ELSE
+    INSERT INTO game_assignments (game_id, umpire_id, position, assigned_by)
+    VALUES (target_game.id, umpire_id_param, target_position, auth.uid());
+  END IF;
+
+  UPDATE umpire_requests
+  SET status = 'accepted'
+  WHERE game_id = target_game.id
+    AND EXISTS (SELECT 1 FROM games WHERE id = target_game.id AND status = 'assigned');
+
+  INSERT INTO umpire_assignment_log (game_id, umpire_id, previous_umpire_id, assigned_by, method, position)
+  VALUES (target_game.id, umpire_id_param, existing.umpire_id, auth.uid(), 'manual', target_position);
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id, 'position', target_position);
+END;
+$$;
+
+-- Crew of a game with names, for the game's coach, its officials and staff
+DROP FUNCTION IF EXISTS public.get_assigned_umpire_name(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_game_crew(game_id_param uuid)
+RETURNS TABLE (
+  "position" umpire_position,
+  umpire_id uuid,
+  full_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'employee')
+    OR is_game_official(game_id_param, auth.uid())
+    OR EXISTS (SELECT 1 FROM games WHERE id = game_id_param AND coach_id = auth.uid())
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT ga.position, ga.umpire_id, p.full_name
+  FROM game_assignments ga
+  LEFT JOIN profiles p ON p.id = ga.umpire_id
+  WHERE ga.game_id = game_id_param
+  ORDER BY ga.position;
+END;
+$$;
+
+-- A confirmed no-show on a game that has not happened yet frees that umpire's position
+CREATE OR REPLACE FUNCTION public.resolve_no_show(report_id_param uuid, confirm_param boolean, notes_param text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report no_show_reports%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can resolve no-show reports';
+  END IF;
+
+  SELECT * INTO report
+  FROM no_show_reports
+  WHERE id = report_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No-show report not found';
+  END IF;
+
+  IF report.status NOT IN ('reported', 'disputed') THEN
+    RAISE EXCEPTION 'This report has already been resolved';
+  END IF;
+
+  UPDATE no_show_reports
+  SET status = CASE WHEN confirm_param THEN 'confirmed'::no_show_status ELSE 'dismissed'::no_show_status END,
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      resolution_notes = nullif(trim(notes_param), '')
+  WHERE id = report.id;
+
+  IF confirm_param THEN
+    DELETE FROM game_assignments ga
+    USING games g
+    WHERE ga.game_id = g.id
+      AND ga.game_id = report.game_id
+      AND ga.umpire_id = report.umpire_id
+      AND g.status IN ('pending', 'assigned')
+      AND g.game_date > now();
+
+    IF FOUND THEN
+      UPDATE umpire_requests
+      SET status = 'pending'
+      WHERE game_id = report.game_id;
+    END IF;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_umpire_reliability(_umpire_id uuid)
+RETURNS TABLE (
+  games_worked integer,
+  confirmed_no_shows integer,
+  reliability_score integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() <> _umpire_id AND NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Not allowed to view this umpire''s reliability';
+  END IF;
+
+  RETURN QUERY
+  WITH assignments AS (
+    SELECT ga.game_id
+    FROM game_assignments ga
+    JOIN games g ON g.id = ga.game_id
+    WHERE ga.umpire_id = _umpire_id
+      AND g.status = 'completed'
+    UNION
+    SELECT game_id
+    FROM no_show_reports
+    WHERE umpire_id = _umpire_id
+      AND status = 'confirmed'
+  ),
+  totals AS (
+    SELECT
+      (SELECT count(*)::integer FROM assignments) AS assigned,
+      (SELECT count(*)::integer FROM no_show_reports
+        WHERE umpire_id = _umpire_id AND status = 'confirmed') AS no_shows
+  )
+  SELECT
+    totals.assigned - totals.no_shows,
+    totals.no_shows,
+    CASE
+      WHEN totals.assigned = 0 THEN 100
+      ELSE round(100.0 * (totals.assigned - totals.no_shows) / totals.assigned)::integer
+    END
+  FROM totals;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_umpire_availability(_umpire_id uuid, _game_date timestamp with time zone)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz TEXT;
+  max_per_day INTEGER;
+  local_start TIMESTAMP;
+BEGIN
+  SELECT coalesce(time_zone, 'UTC'), max_games_per_day INTO tz, max_per_day
+  FROM profiles
+  WHERE id = _umpire_id;
+
+  local_start := _game_date AT TIME ZONE coalesce(tz, 'UTC');
+
+  IF EXISTS (
+    SELECT 1 FROM umpire_blackout_dates
+    WHERE umpire_id = _umpire_id
+      AND blackout_date = local_start::date
+  ) THEN
+    RETURN 'blackout';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM umpire_availability_windows WHERE umpire_id = _umpire_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM umpire_availability_windows
+      WHERE umpire_id = _umpire_id
+        AND day_of_week = extract(dow FROM local_start)
+        AND local_start::time >= start_time
+        AND local_start::time < end_time
+    ) THEN
+    RETURN 'outside_hours';
+  END IF;
+
+  IF max_per_day IS NOT NULL AND (
+    SELECT count(*)
+    FROM game_assignments ga
+    JOIN games g ON g.id = ga.game_id
+    WHERE ga.umpire_id = _umpire_id
+      AND g.status IN ('pending', 'assigned', 'completed')
+      AND (g.game_date AT TIME ZONE coalesce(tz, 'UTC'))::date = local_start::date
+  ) >= max_per_day THEN
+    RETURN 'daily_limit';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_assignment_candidates(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_assignment_candidates(game_id_param uuid)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  email text,
+  distance_miles double precision,
+  unavailable_reason text,
+  conflict_opponent text,
+  conflict_game_date timestamp with time zone,
+  average_rating numeric,
+  rating_count integer,
+  current_position umpire_position
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view assignment candidates';
+  END IF;
+
+  SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    CASE
+      WHEN p.home_latitude IS NOT NULL AND p.home_longitude IS NOT NULL
+        AND target_game.latitude IS NOT NULL AND target_game.longitude IS NOT NULL
+      THEN distance_miles(p.home_latitude, p.home_longitude, target_game.latitude, target_game.longitude)
+    END,
+    check_umpire_availability(p.id, target_game.game_date),
+    c.opponent,
+    c.game_date,
+    r.average_rating,
+    coalesce(r.rating_count, 0)::integer,
+    ga.position
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  LEFT JOIN game_assignments ga ON ga.game_id = target_game.id AND ga.umpire_id = p.id
+  LEFT JOIN LATERAL (
+    SELECT fc.opponent, fc.game_date
+    FROM find_schedule_conflict(p.id, target_game.game_date, target_game.latitude, target_game.longitude, target_game.id) fc
+  ) c ON true
+  LEFT JOIN LATERAL (
+    SELECT round(avg(recent.rating), 1) AS average_rating, count(*) AS rating_count
+    FROM (
+      SELECT rt.rating
+      FROM ratings rt
+      WHERE rt.umpire_id = p.id
+      ORDER BY rt.created_at DESC
+      LIMIT 10
+    ) recent
+  ) r ON true
+  WHERE ur.role = 'umpire'
+  ORDER BY p.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_umpire_suggestions(game_id_param uuid, limit_param integer DEFAULT 10)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  score integer,
+  distance_miles double precision,
+  average_rating numeric,
+  reliability_score integer,
+  upcoming_games integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view umpire suggestions';
+  END IF;
+
+  SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT
+      p.id,
+      p.full_name,
+      CASE
+        WHEN p.home_latitude IS NOT NULL AND p.home_longitude IS NOT NULL
+          AND target_game.latitude IS NOT NULL AND target_game.longitude IS NOT NULL
+        THEN distance_miles(p.home_latitude, p.home_longitude, target_game.latitude, target_game.longitude)
+      END AS distance,
+      (
+        SELECT round(avg(recent.rating), 1)
+        FROM (
+          SELECT rt.rating FROM ratings rt
+          WHERE rt.umpire_id = p.id
+          ORDER BY rt.created_at DESC
+          LIMIT 10
+        ) recent
+      ) AS avg_rating,
+      (SELECT rel.reliability_score FROM get_umpire_reliability(p.id) rel) AS reliability,
+      (
+        SELECT count(*)::integer
+        FROM game_assignments ga
+        JOIN games g ON g.id = ga.game_id
+        WHERE ga.umpire_id = p.id
+          AND g.status IN ('pending', 'assigned')
+          AND g.game_date >= now()
+      ) AS workload
+    FROM user_roles ur
+    JOIN profiles p ON p.id = ur.user_id
+    WHERE ur.role = 'umpire'
+      AND NOT is_game_official(target_game.id, p.id)
+      AND check_umpire_availability(p.id, target_game.game_date) IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM find_schedule_conflict(
+          p.id, target_game.game_date, target_game.latitude, target_game.longitude, target_game.id
+        )
+      )
+  )
+  SELECT
+    e.id,
+    e.full_name,
+    round(
+      40 * CASE WHEN e.distance IS NULL THEN 0.5 ELSE greatest(0, 1 - e.distance / 50) END
+      + 30 * coalesce(e.avg_rating, 3.5) / 5
+      + 15 * e.reliability / 100.0
+      + 15 * greatest(0, 1 - e.workload / 10.0)
+    )::integer AS match_score,
+    e.distance,
+    e.avg_rating,
+    e.reliability,
+    e.workload
+  FROM eligible e
+  ORDER BY match_score DESC, e.distance NULLS LAST
+  LIMIT limit_param;
+END;
+$$;
+
+DROP INDEX IF EXISTS public.idx_games_assigned_umpire;
+
+ALTER TABLE public.games DROP COLUMN assigned_umpire_id;
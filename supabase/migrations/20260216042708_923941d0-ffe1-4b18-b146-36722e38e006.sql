@@ -0,0 +1,177 @@
+-- Operational settings that staff can tune without a migration
+CREATE TABLE public.app_settings (
+  key TEXT NOT NULL PRIMARY KEY,
+  value TEXT NOT NULL,
+  description TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view settings"
+ON public.app_settings
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Employees can manage settings"
+ON public.app_settings
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON public.app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.app_settings (key, value, description)
+VALUES ('withdrawal_notice_hours', '48', 'Withdrawals with less notice than this count as late drops');
+
+-- Umpires backing out of games they had accepted or been assigned
+CREATE TABLE public.umpire_withdrawals (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  umpire_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position umpire_position NOT NULL,
+  reason TEXT NOT NULL,
+  is_late BOOLEAN NOT NULL DEFAULT false,
+  notice_hours NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_umpire_withdrawals_umpire ON public.umpire_withdrawals(umpire_id, created_at);
+CREATE INDEX idx_umpire_withdrawals_game ON public.umpire_withdrawals(game_id);
+
+ALTER TABLE public.umpire_withdrawals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Umpires can view their own withdrawals"
+ON public.umpire_withdrawals
+FOR SELECT
+USING (auth.uid() = umpire_id);
+
+CREATE POLICY "Employees can view all withdrawals"
+ON public.umpire_withdrawals
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- The calling umpire leaves the crew of an upcoming game, which reopens their position.
+-- Leaving with less notice than withdrawal_notice_hours is recorded as a late drop.
+CREATE OR REPLACE FUNCTION public.withdraw_from_game(game_id_param uuid, reason_param text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  assignment game_assignments%ROWTYPE;
+  notice_window INTEGER;
+  hours_notice NUMERIC;
+  late BOOLEAN;
+BEGIN
+  IF coalesce(trim(reason_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'reason_required');
+  END IF;
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  SELECT * INTO assignment
+  FROM game_assignments
+  WHERE game_id = target_game.id
+    AND umpire_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_on_crew');
+  END IF;
+
+  IF target_game.status NOT IN ('pending', 'assigned') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'game_closed');
+  END IF;
+
+  IF target_game.game_date <= now() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'game_started');
+  END IF;
+
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'withdrawal_notice_hours'), 48)
+  INTO notice_window;
+
+  hours_notice := round((extract(epoch FROM (target_game.game_date - now())) / 3600)::numeric, 1);
+  late := hours_notice < notice_window;
+
+  DELETE FROM game_assignments WHERE id = assignment.id;
+
+  INSERT INTO umpire_withdrawals (game_id, umpire_id, position, reason, is_late, notice_hours)
+  VALUES (target_game.id, auth.uid(), assignment.position, trim(reason_param), late, hours_notice);
+
+  UPDATE umpire_requests
+  SET status = 'pending'
+  WHERE game_id = target_game.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'game_id', target_game.id,
+    'late_withdrawal', late,
+    'notice_hours', hours_notice
+  );
+END;
+$$;
+
+-- Late drops are reported alongside no-shows on the umpire's record
+DROP FUNCTION IF EXISTS public.get_umpire_reliability(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_umpire_reliability(_umpire_id uuid)
+RETURNS TABLE (
+  games_worked integer,
+  confirmed_no_shows integer,
+  reliability_score integer,
+  late_withdrawals integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() <> _umpire_id AND NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Not allowed to view this umpire''s reliability';
+  END IF;
+
+  RETURN QUERY
+  WITH assignments AS (
+    SELECT ga.game_id
+    FROM game_assignments ga
+    JOIN games g ON g.id = ga.game_id
+    WHERE ga.umpire_id = _umpire_id
+      AND g.status = 'completed'
+    UNION
+    SELECT game_id
+    FROM no_show_reports
+    WHERE umpire_id = _umpire_id
+      AND status = 'confirmed'
+  ),
+  totals AS (
+    SELECT
+      (SELECT count(*)::integer FROM assignments) AS assigned,
+      (SELECT count(*)::integer FROM no_show_reports
+        WHERE umpire_id = _umpire_id AND status = 'confirmed') AS no_shows,
+      (SELECT count(*)::integer FROM umpire_withdrawals
+        WHERE umpire_id = _umpire_id AND is_late) AS late_drops
+  )
+  SELECT
+    totals.assigned - totals.no_shows,
+    totals.no_shows,
+    CASE
+      WHEN totals.assigned = 0 THEN 100
+      ELSE round(100.0 * (totals.assigned - totals.no_shows) / totals.assigned)::integer
+    END,
+    totals.late_drops
+  FROM totals;
+END;
+$$;
@@ -0,0 +1,91 @@
+-- Normalizes free-text places so "Riverside Park, Field #2" and "riverside park field 2" match
+CREATE OR REPLACE FUNCTION public.normalize_place(_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT trim(regexp_replace(regexp_replace(lower(coalesce(_value, '')), '[^a-z0-9]+', ' ', 'g'), '\s+', ' ', 'g'));
+$$;
+
+-- Offline gazetteer of known venues and addresses, used by the default geocoding provider
+CREATE TABLE public.geocode_gazetteer (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  address TEXT,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  name_key TEXT GENERATED ALWAYS AS (public.normalize_place(name)) STORED,
+  address_key TEXT GENERATED ALWAYS AS (public.normalize_place(address)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT geocode_gazetteer_latitude_range CHECK (latitude BETWEEN -90 AND 90),
+  CONSTRAINT geocode_gazetteer_longitude_range CHECK (longitude BETWEEN -180 AND 180)
+);
+
+CREATE UNIQUE INDEX idx_geocode_gazetteer_name_key ON public.geocode_gazetteer(name_key);
+CREATE INDEX idx_geocode_gazetteer_address_key ON public.geocode_gazetteer(address_key);
+
+ALTER TABLE public.geocode_gazetteer ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view gazetteer"
+ON public.geocode_gazetteer
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Employees can manage gazetteer"
+ON public.geocode_gazetteer
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE TRIGGER update_geocode_gazetteer_updated_at
+  BEFORE UPDATE ON public.geocode_gazetteer
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Resolves a place to coordinates. An exact name or address match wins; otherwise the
+-- longest known name contained in the query is used, so "Riverside Park Field 2"
+-- resolves to "Riverside Park".
+CREATE OR REPLACE FUNCTION public.geocode_lookup(query_param text)
+RETURNS TABLE (
+  latitude numeric,
+  longitude numeric,
+  matched_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  query_key TEXT := normalize_place(query_param);
+BEGIN
+  IF query_key = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT g.latitude, g.longitude, g.name
+  FROM geocode_gazetteer g
+  WHERE g.name_key = query_key
+     OR g.address_key = query_key
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT g.latitude, g.longitude, g.name
+  FROM geocode_gazetteer g
+  WHERE length(g.name_key) >= 4
+    AND (' ' || query_key || ' ') LIKE ('% ' || g.name_key || ' %')
+  ORDER BY length(g.name_key) DESC
+  LIMIT 1;
+END;
+$$;
+
+-- Umpires keep the address their home coordinates were resolved from
+ALTER TABLE public.profiles
+ADD COLUMN home_address TEXT;
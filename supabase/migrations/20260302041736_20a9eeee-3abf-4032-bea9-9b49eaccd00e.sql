@@ -0,0 +1,155 @@
+-- Registry of parks and fields so games stop retyping the same location
+CREATE TABLE public.venues (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  address TEXT,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  field_count INTEGER NOT NULL DEFAULT 1,
+  has_lights BOOLEAN NOT NULL DEFAULT false,
+  surface_notes TEXT,
+  name_key TEXT GENERATED ALWAYS AS (public.normalize_place(name)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT venues_field_count_positive CHECK (field_count > 0),
+  CONSTRAINT venues_latitude_range CHECK (latitude BETWEEN -90 AND 90),
+  CONSTRAINT venues_longitude_range CHECK (longitude BETWEEN -180 AND 180)
+);
+
+CREATE UNIQUE INDEX idx_venues_name_key ON public.venues(name_key);
+
+ALTER TABLE public.venues ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view venues"
+ON public.venues
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Employees can manage venues"
+ON public.venues
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE TRIGGER update_venues_updated_at
+  BEFORE UPDATE ON public.venues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Games point at a venue when one was picked; location stays as the display text
+ALTER TABLE public.games
+ADD COLUMN venue_id UUID REFERENCES public.venues(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_games_venue ON public.games(venue_id, game_date);
+
+-- A game at a known venue takes the venue's coordinates, so distance math is consistent
+CREATE OR REPLACE FUNCTION public.apply_game_venue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  target_venue venues%ROWTYPE;
+BEGIN
+  IF NEW.venue_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.venue_id IS NOT DISTINCT FROM OLD.venue_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO target_venue FROM venues WHERE id = NEW.venue_id;
+
+  IF target_venue.latitude IS NOT NULL AND target_venue.longitude IS NOT NULL THEN
+    NEW.latitude := target_venue.latitude;
+    NEW.longitude := target_venue.longitude;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_game_venue_before_write
+  BEFORE INSERT OR UPDATE OF venue_id ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_game_venue();
+
+-- Moving a venue moves its upcoming games with it
+CREATE OR REPLACE FUNCTION public.sync_venue_coordinates()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.latitude IS NULL OR NEW.longitude IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE games
+  SET latitude = NEW.latitude,
+      longitude = NEW.longitude
+  WHERE venue_id = NEW.id
+    AND game_date > now();
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_venue_coordinates_after_update
+  AFTER UPDATE OF latitude, longitude ON public.venues
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_venue_coordinates();
+
+-- Venues are known places, so the default geocoder checks them before the gazetteer
+CREATE OR REPLACE FUNCTION public.geocode_lookup(query_param text)
+RETURNS TABLE (
+  latitude numeric,
+  longitude numeric,
+  matched_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  query_key TEXT := normalize_place(query_param);
+BEGIN
+  IF query_key = '' THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT v.latitude, v.longitude, v.name
+  FROM venues v
+  WHERE v.latitude IS NOT NULL
+    AND v.longitude IS NOT NULL
+    AND (v.name_key = query_key OR normalize_place(v.address) = query_key)
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT g.latitude, g.longitude, g.name
+  FROM geocode_gazetteer g
+  WHERE g.name_key = query_key
+     OR g.address_key = query_key
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT g.latitude, g.longitude, g.name
+  FROM geocode_gazetteer g
+  WHERE length(g.name_key) >= 4
+    AND (' ' || query_key || ' ') LIKE ('% ' || g.name_key || ' %')
+  ORDER BY length(g.name_key) DESC
+  LIMIT 1;
+END;
+$$;
@@ -0,0 +1,29 @@
+-- Schedule exports staff import from, with the column mapping used last time
+CREATE TABLE public.import_sources (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  column_mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.import_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can manage import sources"
+ON public.import_sources
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE TRIGGER update_import_sources_updated_at
+  BEFORE UPDATE ON public.import_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Imported games keep the details the source provided
+ALTER TABLE public.games
+ADD COLUMN level TEXT,
+ADD COLUMN external_id TEXT,
+ADD COLUMN import_source_id UUID REFERENCES public.import_sources(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_games_import_source ON public.games(import_source_id, external_id);
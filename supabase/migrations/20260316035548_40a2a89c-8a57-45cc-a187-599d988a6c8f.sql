@@ -0,0 +1,117 @@
+-- Imports a batch of games and their umpire requests in one call.
+-- Each row runs in its own savepoint so failures are reported per row. Unless
+-- skip_invalid_param is set, any failed row rolls the whole batch back.
+CREATE OR REPLACE FUNCTION public.import_games(
+  rows_param jsonb,
+  source_id_param uuid DEFAULT NULL,
+  skip_invalid_param boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  game_row jsonb;
+  new_game_id UUID;
+  row_results jsonb := '[]'::jsonb;
+  created_count INTEGER := 0;
+  failed_count INTEGER := 0;
+  rolled_back BOOLEAN := false;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can import games';
+  END IF;
+
+  IF jsonb_typeof(rows_param) <> 'array' THEN
+    RAISE EXCEPTION 'rows_param must be a JSON array';
+  END IF;
+
+  BEGIN
+    FOR game_row IN SELECT * FROM jsonb_array_elements(rows_param)
+    LOOP
+      BEGIN
+        IF coalesce(trim(game_row->>'opponent'), '') = '' THEN
+          RAISE EXCEPTION 'Missing opponent' USING ERRCODE = '22023';
+        END IF;
+
+        IF coalesce(trim(game_row->>'location'), '') = '' THEN
+          RAISE EXCEPTION 'Missing location' USING ERRCODE = '22023';
+        END IF;
+
+        IF game_row->>'game_date' IS NULL THEN
+          RAISE EXCEPTION 'Missing/invalid date' USING ERRCODE = '22023';
+        END IF;
+
+        IF game_row->>'coach_id' IS NULL OR NOT has_role((game_row->>'coach_id')::uuid, 'coach') THEN
+          RAISE EXCEPTION 'Coach not found' USING ERRCODE = '22023';
+        END IF;
+
+        INSERT INTO games (
+          coach_id, game_date, location, venue_id, latitude, longitude,
+          opponent, level, external_id, import_source_id, status
+        )
+        VALUES (
+          (game_row->>'coach_id')::uuid,
+          (game_row->>'game_date')::timestamptz,
+          trim(game_row->>'location'),
+          (game_row->>'venue_id')::uuid,
+          (game_row->>'latitude')::numeric,
+          (game_row->>'longitude')::numeric,
+          trim(game_row->>'opponent'),
+          nullif(trim(game_row->>'level'), ''),
+          nullif(trim(game_row->>'external_id'), ''),
+          source_id_param,
+          'pending'
+        )
+        RETURNING id INTO new_game_id;
+
+        INSERT INTO umpire_requests (game_id, coach_id, status)
+        VALUES (new_game_id, (game_row->>'coach_id')::uuid, 'pending');
+
+        created_count := created_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'created',
+          'game_id', new_game_id
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failed_count := failed_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'failed',
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    IF failed_count > 0 AND NOT skip_invalid_param THEN
+      RAISE EXCEPTION 'Batch rejected' USING ERRCODE = 'UI001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'UI001' THEN
+    rolled_back := true;
+  END;
+
+  IF rolled_back THEN
+    -- Nothing was kept, so rows that did insert are reported as not imported
+    SELECT coalesce(jsonb_agg(
+      CASE
+        WHEN r->>'status' = 'created' THEN (r - 'game_id') || jsonb_build_object('status', 'rolled_back')
+        ELSE r
+      END
+    ), '[]'::jsonb)
+    INTO row_results
+    FROM jsonb_array_elements(row_results) r;
+
+    created_count := 0;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', NOT rolled_back,
+    'created_count', created_count,
+    'failed_count', failed_count,
+    'rolled_back', rolled_back,
+    'rows', row_results
+  );
+END;
+$$;
@@ -0,0 +1,285 @@
+-- A source's game number identifies the same game across re-imports
+DROP INDEX IF EXISTS public.idx_games_import_source;
+
+CREATE UNIQUE INDEX idx_games_source_external_id
+ON public.games(import_source_id, external_id)
+WHERE import_source_id IS NOT NULL AND external_id IS NOT NULL;
+
+-- In-app notices for users about changes to their games
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  game_id UUID REFERENCES public.games(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Tells everyone on a game's crew that something about it changed
+CREATE OR REPLACE FUNCTION public.notify_game_crew(_game_id uuid, _type text, _title text, _body text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO notifications (user_id, game_id, type, title, body)
+  SELECT umpire_id, _game_id, _type, _title, _body
+  FROM game_assignments
+  WHERE game_id = _game_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_game_crew(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Re-importing a source now updates games it already created, matched by external_id,
+-- and can cancel games that dropped out of the source's schedule.
+DROP FUNCTION IF EXISTS public.import_games(jsonb, uuid, boolean);
+
+CREATE OR REPLACE FUNCTION public.import_games(
+  rows_param jsonb,
+  source_id_param uuid DEFAULT NULL,
+  skip_invalid_param boolean DEFAULT false,
+  cancel_game_ids_param uuid[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  game_row jsonb;
+  existing games%ROWTYPE;
+  new_game_id UUID;
+  cancel_id UUID;
+  incoming_date TIMESTAMP WITH TIME ZONE;
+  incoming_venue UUID;
+  changes TEXT[];
+  row_results jsonb := '[]'::jsonb;
+  cancel_results jsonb := '[]'::jsonb;
+  created_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  unchanged_count INTEGER := 0;
+  cancelled_count INTEGER := 0;
+  failed_count INTEGER := 0;
+  rolled_back BOOLEAN := false;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can import games';
+  END IF;
+
+  IF jsonb_typeof(rows_param) <> 'array' THEN
+    RAISE EXCEPTION 'rows_param must be a JSON array';
+  END IF;
+
+  BEGIN
+    FOR game_row IN SELECT * FROM jsonb_array_elements(rows_param)
+    LOOP
+      BEGIN
+        IF coalesce(trim(game_row->>'opponent'), '') = '' THEN
+          RAISE EXCEPTION 'Missing opponent' USING ERRCODE = '22023';
+        END IF;
+
+        IF coalesce(trim(game_row->>'location'), '') = '' THEN
+          RAISE EXCEPTION 'Missing location' USING ERRCODE = '22023';
+        END IF;
+
+        IF game_row->>'game_date' IS NULL THEN
+          RAISE EXCEPTION 'Missing/invalid date' USING ERRCODE = '22023';
+        END IF;
+
+        IF game_row->>'coach_id' IS NULL OR NOT has_role((game_row->>'coach_id')::uuid, 'coach') THEN
+          RAISE EXCEPTION 'Coach not found' USING ERRCODE = '22023';
+        END IF;
+
+        incoming_date := (game_row->>'game_date')::timestamptz;
+        incoming_venue := (game_row->>'venue_id')::uuid;
+
+        existing := NULL;
+        IF source_id_param IS NOT NULL AND nullif(trim(game_row->>'external_id'), '') IS NOT NULL THEN
+          SELECT * INTO existing
+          FROM games
+          WHERE import_source_id = source_id_param
+            AND external_id = trim(game_row->>'external_id')
+          FOR UPDATE;
+        END IF;
+
+        IF existing.id IS NOT NULL THEN
+          changes := ARRAY[]::TEXT[];
+          IF existing.game_date <> incoming_date THEN changes := changes || 'time'; END IF;
+          IF existing.location <> trim(game_row->>'location')
+            OR existing.venue_id IS DISTINCT FROM incoming_venue THEN
+            changes := changes || 'location';
+          END IF;
+          IF existing.opponent <> trim(game_row->>'opponent') THEN changes := changes || 'opponent'; END IF;
+          IF existing.level IS DISTINCT FROM nullif(trim(game_row->>'level'), '') THEN
+            changes := changes || 'level';
+          END IF;
+          IF existing.coach_id <> (game_row->>'coach_id')::uuid THEN changes := changes || 'coach'; END IF;
+
+          IF cardinality(changes) = 0 THEN
+            unchanged_count := unchanged_count + 1;
+            row_results := row_results || jsonb_build_object(
+              'row_index', (game_row->>'row_index')::integer,
+              'status', 'unchanged',
+              'game_id', existing.id
+            );
+            CONTINUE;
+          END IF;
+
+          IF existing.status IN ('completed', 'cancelled') THEN
+            RAISE EXCEPTION 'Game is already %', existing.status USING ERRCODE = '22023';
+          END IF;
+
+          UPDATE games
+          SET game_date = incoming_date,
+              location = trim(game_row->>'location'),
+              venue_id = incoming_venue,
+              latitude = coalesce((game_row->>'latitude')::numeric, CASE WHEN 'location' = ANY(changes) THEN NULL ELSE latitude END),
+              longitude = coalesce((game_row->>'longitude')::numeric, CASE WHEN 'location' = ANY(changes) THEN NULL ELSE longitude END),
+              opponent = trim(game_row->>'opponent'),
+              level = nullif(trim(game_row->>'level'), ''),
+              coach_id = (game_row->>'coach_id')::uuid
+          WHERE id = existing.id;
+
+          UPDATE umpire_requests
+          SET coach_id = (game_row->>'coach_id')::uuid
+          WHERE game_id = existing.id
+            AND 'coach' = ANY(changes);
+
+          IF 'time' = ANY(changes) OR 'location' = ANY(changes) THEN
+            PERFORM notify_game_crew(
+              existing.id,
+              'game_updated',
+              'Game updated: ' || trim(game_row->>'opponent'),
+              'Now ' || to_char(incoming_date, 'Dy Mon DD, HH24:MI') || ' at ' || trim(game_row->>'location')
+            );
+          END IF;
+
+          updated_count := updated_count + 1;
+          row_results := row_results || jsonb_build_object(
+            'row_index', (game_row->>'row_index')::integer,
+            'status', 'updated',
+            'game_id', existing.id,
+            'changes', to_jsonb(changes)
+          );
+          CONTINUE;
+        END IF;
+
+        INSERT INTO games (
+          coach_id, game_date, location, venue_id, latitude, longitude,
+          opponent, level, external_id, import_source_id, status
+        )
+        VALUES (
+          (game_row->>'coach_id')::uuid,
+          incoming_date,
+          trim(game_row->>'location'),
+          incoming_venue,
+          (game_row->>'latitude')::numeric,
+          (game_row->>'longitude')::numeric,
+          trim(game_row->>'opponent'),
+          nullif(trim(game_row->>'level'), ''),
+          nullif(trim(game_row->>'external_id'), ''),
+          source_id_param,
+          'pending'
+        )
+        RETURNING id INTO new_game_id;
+
+        INSERT INTO umpire_requests (game_id, coach_id, status)
+        VALUES (new_game_id, (game_row->>'coach_id')::uuid, 'pending');
+
+        created_count := created_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'created',
+          'game_id', new_game_id
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failed_count := failed_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'failed',
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    -- Games staff chose to cancel because they are no longer in the source's schedule
+    FOREACH cancel_id IN ARRAY coalesce(cancel_game_ids_param, '{}')
+    LOOP
+      UPDATE games
+      SET status = 'cancelled'
+      WHERE id = cancel_id
+        AND import_source_id = source_id_param
+        AND status IN ('pending', 'assigned')
+      RETURNING * INTO existing;
+
+      IF FOUND THEN
+        PERFORM notify_game_crew(
+          existing.id,
+          'game_cancelled',
+          'Game cancelled: ' || existing.opponent,
+          to_char(existing.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || existing.location
+        );
+        cancelled_count := cancelled_count + 1;
+        cancel_results := cancel_results || jsonb_build_object('game_id', cancel_id, 'status', 'cancelled');
+      ELSE
+        cancel_results := cancel_results || jsonb_build_object(
+          'game_id', cancel_id,
+          'status', 'failed',
+          'error', 'Game is not an open game from this source'
+        );
+      END IF;
+    END LOOP;
+
+    IF failed_count > 0 AND NOT skip_invalid_param THEN
+      RAISE EXCEPTION 'Batch rejected' USING ERRCODE = 'UI001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'UI001' THEN
+    rolled_back := true;
+  END;
+
+  IF rolled_back THEN
+    -- Nothing was kept, so rows that did go through are reported as not imported
+    SELECT coalesce(jsonb_agg(
+      CASE
+        WHEN r->>'status' IN ('created', 'updated') THEN (r - 'game_id' - 'changes') || jsonb_build_object('status', 'rolled_back')
+        ELSE r
+      END
+    ), '[]'::jsonb)
+    INTO row_results
+    FROM jsonb_array_elements(row_results) r;
+
+    cancel_results := '[]'::jsonb;
+    created_count := 0;
+    updated_count := 0;
+    cancelled_count := 0;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', NOT rolled_back,
+    'created_count', created_count,
+    'updated_count', updated_count,
+    'unchanged_count', unchanged_count,
+    'cancelled_count', cancelled_count,
+    'failed_count', failed_count,
+    'rolled_back', rolled_back,
+    'rows', row_results,
+    'cancellations', cancel_results
+  );
+END;
+$$;
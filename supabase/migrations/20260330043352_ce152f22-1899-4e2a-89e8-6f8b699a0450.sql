@@ -0,0 +1,376 @@
+-- Coaches invited from an import before they have an account
+CREATE TABLE public.coach_invitations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL,
+  full_name TEXT,
+  team_name TEXT,
+  token UUID NOT NULL DEFAULT gen_random_uuid() UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One open invitation per address
+CREATE UNIQUE INDEX idx_coach_invitations_open_email
+ON public.coach_invitations(lower(email))
+WHERE accepted_at IS NULL;
+
+ALTER TABLE public.coach_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can manage coach invitations"
+ON public.coach_invitations
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Lets the sign-up page prefill an invited coach's details from the link they were sent
+CREATE OR REPLACE FUNCTION public.get_coach_invitation(token_param uuid)
+RETURNS TABLE (
+  email text,
+  full_name text,
+  team_name text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT email, full_name, team_name
+  FROM coach_invitations
+  WHERE token = token_param
+    AND accepted_at IS NULL;
+$$;
+
+-- Team names from league schedules, remembered against the coach staff picked for them
+CREATE TABLE public.team_coach_aliases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_name TEXT NOT NULL,
+  team_key TEXT GENERATED ALWAYS AS (public.normalize_place(team_name)) STORED,
+  coach_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  coach_invitation_id UUID REFERENCES public.coach_invitations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT team_coach_aliases_target CHECK (coach_id IS NOT NULL OR coach_invitation_id IS NOT NULL)
+);
+
+CREATE UNIQUE INDEX idx_team_coach_aliases_team_key ON public.team_coach_aliases(team_key);
+
+ALTER TABLE public.team_coach_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can manage team aliases"
+ON public.team_coach_aliases
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Games for an invited coach wait without a coach until the invitation is accepted
+ALTER TABLE public.games
+ALTER COLUMN coach_id DROP NOT NULL,
+ADD COLUMN coach_invitation_id UUID REFERENCES public.coach_invitations(id) ON DELETE SET NULL,
+ADD CONSTRAINT games_coach_or_invitation CHECK (coach_id IS NOT NULL OR coach_invitation_id IS NOT NULL);
+
+CREATE INDEX idx_games_coach_invitation ON public.games(coach_invitation_id) WHERE coach_invitation_id IS NOT NULL;
+
+ALTER TABLE public.umpire_requests
+ALTER COLUMN coach_id DROP NOT NULL;
+
+-- When an invited coach signs up, they take over everything that was waiting for them
+CREATE OR REPLACE FUNCTION public.claim_coach_invitations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation_ids UUID[];
+BEGIN
+  SELECT array_agg(id) INTO invitation_ids
+  FROM coach_invitations
+  WHERE lower(email) = lower(NEW.email)
+    AND accepted_at IS NULL;
+
+  IF invitation_ids IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO user_roles (user_id, role)
+  VALUES (NEW.id, 'coach')
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  UPDATE umpire_requests
+  SET coach_id = NEW.id
+  WHERE coach_id IS NULL
+    AND game_id IN (SELECT id FROM games WHERE coach_invitation_id = ANY(invitation_ids));
+
+  UPDATE games
+  SET coach_id = NEW.id
+  WHERE coach_invitation_id = ANY(invitation_ids)
+    AND coach_id IS NULL;
+
+  UPDATE team_coach_aliases
+  SET coach_id = NEW.id
+  WHERE coach_invitation_id = ANY(invitation_ids);
+
+  UPDATE coach_invitations
+  SET accepted_at = now(),
+      accepted_user_id = NEW.id
+  WHERE id = ANY(invitation_ids);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER claim_coach_invitations_after_profile_insert
+  AFTER INSERT ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.claim_coach_invitations();
+
+-- Import rows can name an invited coach instead of an existing one
+CREATE OR REPLACE FUNCTION public.import_games(
+  rows_param jsonb,
+  source_id_param uuid DEFAULT NULL,
+  skip_invalid_param boolean DEFAULT false,
+  cancel_game_ids_param uuid[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  game_row jsonb;
+  existing games%ROWTYPE;
+  new_game_id UUID;
+  cancel_id UUID;
+  incoming_date TIMESTAMP WITH TIME ZONE;
+  incoming_venue UUID;
+  incoming_coach UUID;
+  incoming_invitation UUID;
+  changes TEXT[];
+  row_results jsonb := '[]'::jsonb;
+  cancel_results jsonb := '[]'::jsonb;
+  created_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  unchanged_count INTEGER := 0;
+  cancelled_count INTEGER := 0;
+  failed_count INTEGER := 0;
+  rolled_back BOOLEAN := false;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can import games';
+  END IF;
+
+  IF jsonb_typeof(rows_param) <> 'array' THEN
+    RAISE EXCEPTION 'rows_param must be a JSON array';
+  END IF;
+
+  BEGIN
+    FOR game_row IN SELECT * FROM jsonb_array_elements(rows_param)
+    LOOP
+      BEGIN
+        IF coalesce(trim(game_row->>'opponent'), '') = '' THEN
+          RAISE EXCEPTION 'Missing opponent' USING ERRCODE = '22023';
+        END IF;
+
+        IF coalesce(trim(game_row->>'location'), '') = '' THEN
+          RAISE EXCEPTION 'Missing location' USING ERRCODE = '22023';
+        END IF;
+
+        IF game_row->>'game_date' IS NULL THEN
+          RAISE EXCEPTION 'Missing/invalid date' USING ERRCODE = '22023';
+        END IF;
+
+        incoming_coach := (game_row->>'coach_id')::uuid;
+        incoming_invitation := CASE WHEN incoming_coach IS NULL THEN (game_row->>'coach_invitation_id')::uuid END;
+
+        IF incoming_coach IS NOT NULL THEN
+          IF NOT has_role(incoming_coach, 'coach') THEN
+            RAISE EXCEPTION 'Coach not found' USING ERRCODE = '22023';
+          END IF;
+        ELSIF incoming_invitation IS NULL OR NOT EXISTS (
+          SELECT 1 FROM coach_invitations WHERE id = incoming_invitation AND accepted_at IS NULL
+        ) THEN
+          RAISE EXCEPTION 'Coach not found' USING ERRCODE = '22023';
+        END IF;
+
+        incoming_date := (game_row->>'game_date')::timestamptz;
+        incoming_venue := (game_row->>'venue_id')::uuid;
+
+        existing := NULL;
+        IF source_id_param IS NOT NULL AND nullif(trim(game_row->>'external_id'), '') IS NOT NULL THEN
+          SELECT * INTO existing
+          FROM games
+          WHERE import_source_id = source_id_param
+            AND external_id = trim(game_row->>'external_id')
+          FOR UPDATE;
+        END IF;
+
+        IF existing.id IS NOT NULL THEN
+          changes := ARRAY[]::TEXT[];
+          IF existing.game_date <> incoming_date THEN changes := changes || 'time'; END IF;
+          IF existing.location <> trim(game_row->>'location')
+            OR existing.venue_id IS DISTINCT FROM incoming_venue THEN
+            changes := changes || 'location';
+          END IF;
+          IF existing.opponent <> trim(game_row->>'opponent') THEN changes := changes || 'opponent'; END IF;
+          IF existing.level IS DISTINCT FROM nullif(trim(game_row->>'level'), '') THEN
+            changes := changes || 'level';
+          END IF;
+          IF existing.coach_id IS DISTINCT FROM incoming_coach
+            OR (incoming_coach IS NULL AND existing.coach_invitation_id IS DISTINCT FROM incoming_invitation) THEN
+            changes := changes || 'coach';
+          END IF;
+
+          IF cardinality(changes) = 0 THEN
+            unchanged_count := unchanged_count + 1;
+            row_results := row_results || jsonb_build_object(
+              'row_index', (game_row->>'row_index')::integer,
+              'status', 'unchanged',
+              'game_id', existing.id
+            );
+            CONTINUE;
+          END IF;
+
+          IF existing.status IN ('completed', 'cancelled') THEN
+            RAISE EXCEPTION 'Game is already %', existing.status USING ERRCODE = '22023';
+          END IF;
+
+          UPDATE games
+          SET game_date = incoming_date,
+              location = trim(game_row->>'location'),
+              venue_id = incoming_venue,
+              latitude = coalesce((game_row->>'latitude')::numeric, CASE WHEN 'location' = ANY(changes) THEN NULL ELSE latitude END),
+              longitude = coalesce((game_row->>'longitude')::numeric, CASE WHEN 'location' = ANY(changes) THEN NULL ELSE longitude END),
+              opponent = trim(game_row->>'opponent'),
+              level = nullif(trim(game_row->>'level'), ''),
+              coach_id = incoming_coach,
+              coach_invitation_id = incoming_invitation
+          WHERE id = existing.id;
+
+          UPDATE umpire_requests
+          SET coach_id = incoming_coach
+          WHERE game_id = existing.id
+            AND 'coach' = ANY(changes);
+
+          IF 'time' = ANY(changes) OR 'location' = ANY(changes) THEN
+            PERFORM notify_game_crew(
+              existing.id,
+              'game_updated',
+              'Game updated: ' || trim(game_row->>'opponent'),
+              'Now ' || to_char(incoming_date, 'Dy Mon DD, HH24:MI') || ' at ' || trim(game_row->>'location')
+            );
+          END IF;
+
+          updated_count := updated_count + 1;
+          row_results := row_results || jsonb_build_object(
+            'row_index', (game_row->>'row_index')::integer,
+            'status', 'updated',
+            'game_id', existing.id,
+            'changes', to_jsonb(changes)
+          );
+          CONTINUE;
+        END IF;
+
+        INSERT INTO games (
+          coach_id, coach_invitation_id, game_date, location, venue_id, latitude, longitude,
+          opponent, level, external_id, import_source_id, status
+        )
+        VALUES (
+          incoming_coach,
+          incoming_invitation,
+          incoming_date,
+          trim(game_row->>'location'),
+          incoming_venue,
+          (game_row->>'latitude')::numeric,
+          (game_row->>'longitude')::numeric,
+          trim(game_row->>'opponent'),
+          nullif(trim(game_row->>'level'), ''),
+          nullif(trim(game_row->>'external_id'), ''),
+          source_id_param,
+          'pending'
+        )
+        RETURNING id INTO new_game_id;
+
+        INSERT INTO umpire_requests (game_id, coach_id, status)
+        VALUES (new_game_id, incoming_coach, 'pending');
+
+        created_count := created_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'created',
+          'game_id', new_game_id
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failed_count := failed_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'failed',
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    -- Games staff chose to cancel because they are no longer in the source's schedule
+    FOREACH cancel_id IN ARRAY coalesce(cancel_game_ids_param, '{}')
+    LOOP
+      UPDATE games
+      SET status = 'cancelled'
+      WHERE id = cancel_id
+        AND import_source_id = source_id_param
+        AND status IN ('pending', 'assigned')
+      RETURNING * INTO existing;
+
+      IF FOUND THEN
+        PERFORM notify_game_crew(
+          existing.id,
+          'game_cancelled',
+          'Game cancelled: ' || existing.opponent,
+          to_char(existing.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || existing.location
+        );
+        cancelled_count := cancelled_count + 1;
+        cancel_results := cancel_results || jsonb_build_object('game_id', cancel_id, 'status', 'cancelled');
+      ELSE
+        cancel_results := cancel_results || jsonb_build_object(
+          'game_id', cancel_id,
+          'status', 'failed',
+          'error', 'Game is not an open game from this source'
+        );
+      END IF;
+    END LOOP;
+
+    IF failed_count > 0 AND NOT skip_invalid_param THEN
+      RAISE EXCEPTION 'Batch rejected' USING ERRCODE = 'UI001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'UI001' THEN
+    rolled_back := true;
+  END;
+
+  IF rolled_back THEN
+    -- Nothing was kept, so rows that did go through are reported as not imported
+    SELECT coalesce(jsonb_agg(
+      CASE
+        WHEN r->>'status' IN ('created', 'updated') THEN (r - 'game_id' - 'changes') || jsonb_build_object('status', 'rolled_back')
+        ELSE r
+      END
+    ), '[]'::jsonb)
+    INTO row_results
+    FROM jsonb_array_elements(row_results) r;
+
+    cancel_results := '[]'::jsonb;
+    created_count := 0;
+    updated_count := 0;
+    cancelled_count := 0;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', NOT rolled_back,
+    'created_count', created_count,
+    'updated_count', updated_count,
+    'unchanged_count', unchanged_count,
+    'cancelled_count', cancelled_count,
+    'failed_count', failed_count,
+    'rolled_back', rolled_back,
+    'rows', row_results,
+    'cancellations', cancel_results
+  );
+END;
+$$;
@@ -0,0 +1,129 @@
+-- How close together games count as the same game or as sharing a field
+INSERT INTO public.app_settings (key, value, description)
+VALUES
+  ('duplicate_game_window_minutes', '180', 'Games for the same coach and opponent starting this close together are flagged as likely duplicates'),
+  ('game_length_minutes', '120', 'How long a field is treated as in use after a game starts');
+
+-- Flags likely duplicates and field collisions for games that are about to be created or moved.
+-- Each candidate is {row_index, game_id?, coach_id?, coach_invitation_id?, opponent, game_date, venue_id?, location};
+-- game_id marks an existing game being changed, so it isn't compared with itself.
+-- Candidates are checked against upcoming games and against each other, so a bulk file is checked as a whole.
+-- A venue is full once as many overlapping games as it has fields are booked there; without a venue,
+-- games at the same location text share a single field.
+CREATE OR REPLACE FUNCTION public.find_game_conflicts(games_param jsonb)
+RETURNS TABLE (
+  row_index integer,
+  conflict_type text,
+  game_id uuid,
+  other_row_index integer,
+  game_date timestamp with time zone,
+  opponent text,
+  location text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_employee BOOLEAN := has_role(auth.uid(), 'employee');
+  duplicate_window INTERVAL;
+  game_length INTERVAL;
+BEGIN
+  IF NOT is_employee AND NOT has_role(auth.uid(), 'coach') THEN
+    RAISE EXCEPTION 'Only coaches and employees can check games for conflicts'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  SELECT make_interval(mins => coalesce(
+    (SELECT value::integer FROM app_settings WHERE key = 'duplicate_game_window_minutes'), 180))
+  INTO duplicate_window;
+
+  SELECT make_interval(mins => coalesce(
+    (SELECT value::integer FROM app_settings WHERE key = 'game_length_minutes'), 120))
+  INTO game_length;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      (c->>'row_index')::integer AS row_index,
+      (c->>'game_id')::uuid AS game_id,
+      -- Coaches can only check games of their own
+      CASE WHEN is_employee THEN (c->>'coach_id')::uuid ELSE auth.uid() END AS coach_id,
+      CASE WHEN is_employee THEN (c->>'coach_invitation_id')::uuid END AS coach_invitation_id,
+      c->>'opponent' AS opponent,
+      (c->>'game_date')::timestamptz AS game_date,
+      (c->>'venue_id')::uuid AS venue_id,
+      c->>'location' AS location
+    FROM jsonb_array_elements(games_param) AS c
+    WHERE c->>'game_date' IS NOT NULL
+  ),
+  others AS (
+    SELECT
+      NULL::integer AS row_index,
+      g.id AS game_id,
+      g.coach_id,
+      g.coach_invitation_id,
+      g.opponent,
+      g.game_date,
+      g.venue_id,
+      g.location
+    FROM games g
+    WHERE g.status <> 'cancelled'
+      AND g.game_date > now() - game_length
+      AND g.id NOT IN (SELECT cd.game_id FROM candidates cd WHERE cd.game_id IS NOT NULL)
+    UNION ALL
+    SELECT cd.row_index, NULL::uuid, cd.coach_id, cd.coach_invitation_id, cd.opponent, cd.game_date, cd.venue_id, cd.location
+    FROM candidates cd
+  ),
+  duplicates AS (
+    SELECT c.row_index AS candidate_row, o.row_index AS other_row, o.game_id, o.coach_id,
+      o.game_date, o.opponent, o.location
+    FROM candidates c
+    JOIN others o
+      ON (o.row_index IS NULL OR o.row_index <> c.row_index)
+      AND (o.coach_id = c.coach_id OR o.coach_invitation_id = c.coach_invitation_id)
+      AND normalize_place(o.opponent) = normalize_place(c.opponent)
+      AND o.game_date BETWEEN c.game_date - duplicate_window AND c.game_date + duplicate_window
+  ),
+  field_overlaps AS (
+    SELECT c.row_index AS candidate_row, o.row_index AS other_row, o.game_id, o.coach_id,
+      o.game_date, o.opponent, o.location,
+      count(*) OVER (PARTITION BY c.row_index) AS booked,
+      coalesce(v.field_count, 1) AS fields
+    FROM candidates c
+    JOIN others o
+      ON (o.row_index IS NULL OR o.row_index <> c.row_index)
+      AND o.game_date < c.game_date + game_length
+      AND c.game_date < o.game_date + game_length
+      AND (
+        o.venue_id = c.venue_id
+        OR (c.venue_id IS NULL AND o.venue_id IS NULL
+          AND normalize_place(c.location) <> ''
+          AND normalize_place(o.location) = normalize_place(c.location))
+      )
+    LEFT JOIN venues v ON v.id = c.venue_id
+  ),
+  conflicts AS (
+    SELECT d.candidate_row, 'duplicate' AS conflict_type, d.other_row, d.game_id, d.coach_id,
+      d.game_date, d.opponent, d.location
+    FROM duplicates d
+    UNION ALL
+    SELECT ov.candidate_row, 'venue_collision', ov.other_row, ov.game_id, ov.coach_id,
+      ov.game_date, ov.opponent, ov.location
+    FROM field_overlaps ov
+    WHERE ov.booked >= ov.fields
+  )
+  SELECT
+    cf.candidate_row,
+    cf.conflict_type,
+    cf.game_id,
+    cf.other_row,
+    cf.game_date,
+    -- Other coaches' opponents stay private; the time and place are enough to explain a collision
+    CASE WHEN is_employee OR cf.other_row IS NOT NULL OR cf.coach_id = auth.uid() THEN cf.opponent END,
+    cf.location
+  FROM conflicts cf
+  ORDER BY cf.candidate_row, cf.game_date;
+END;
+$$;
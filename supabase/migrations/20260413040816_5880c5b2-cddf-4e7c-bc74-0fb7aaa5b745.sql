@@ -0,0 +1,421 @@
+-- Officials asked to confirm a rescheduled game keep their spot only if they confirm by this time
+ALTER TABLE public.game_assignments
+ADD COLUMN reschedule_confirm_by TIMESTAMP WITH TIME ZONE;
+
+INSERT INTO public.app_settings (key, value, description)
+VALUES ('reschedule_confirm_hours', '24', 'How long officials have to confirm a rescheduled game before they are released from it');
+
+-- Every edit, reschedule and cancellation of a game, with the reason given for it
+CREATE TABLE public.game_change_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  change_type TEXT NOT NULL CHECK (change_type IN (
+    'edited', 'rescheduled', 'cancelled', 'reinstated',
+    'reschedule_confirmed', 'reschedule_declined', 'reschedule_expired'
+  )),
+  reason TEXT,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- The crew at the time of the change, so officials released by it can still see why
+  crew_umpire_ids UUID[] NOT NULL DEFAULT '{}',
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_game_change_log_game ON public.game_change_log(game_id, created_at);
+
+ALTER TABLE public.game_change_log ENABLE ROW LEVEL SECURITY;
+
+-- Log rows are only written by the trigger and functions below, so there are no insert/update policies
+CREATE POLICY "Employees can view all game changes"
+ON public.game_change_log
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Coaches can view changes to their games"
+ON public.game_change_log
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_change_log.game_id
+      AND games.coach_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Umpires can view changes to games they work"
+ON public.game_change_log
+FOR SELECT
+USING (auth.uid() = ANY(crew_umpire_ids) OR is_game_official(game_id, auth.uid()));
+
+-- Records changes to a game's details and cancellations, whoever makes them. Functions that
+-- ask for a reason pass it through the app.game_change_reason setting for the transaction.
+CREATE OR REPLACE FUNCTION public.log_game_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  diff jsonb := '{}'::jsonb;
+  kind TEXT;
+BEGIN
+  IF NEW.game_date IS DISTINCT FROM OLD.game_date THEN
+    diff := diff || jsonb_build_object('game_date', jsonb_build_object('from', OLD.game_date, 'to', NEW.game_date));
+  END IF;
+  IF NEW.location IS DISTINCT FROM OLD.location THEN
+    diff := diff || jsonb_build_object('location', jsonb_build_object('from', OLD.location, 'to', NEW.location));
+  END IF;
+  IF NEW.opponent IS DISTINCT FROM OLD.opponent THEN
+    diff := diff || jsonb_build_object('opponent', jsonb_build_object('from', OLD.opponent, 'to', NEW.opponent));
+  END IF;
+  IF NEW.level IS DISTINCT FROM OLD.level THEN
+    diff := diff || jsonb_build_object('level', jsonb_build_object('from', OLD.level, 'to', NEW.level));
+  END IF;
+  IF NEW.required_positions IS DISTINCT FROM OLD.required_positions THEN
+    diff := diff || jsonb_build_object('required_positions',
+      jsonb_build_object('from', to_jsonb(OLD.required_positions), 'to', to_jsonb(NEW.required_positions)));
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    kind := 'cancelled';
+  ELSIF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    kind := 'reinstated';
+  ELSIF diff ? 'game_date' OR diff ? 'location' THEN
+    kind := 'rescheduled';
+  ELSIF diff <> '{}'::jsonb THEN
+    kind := 'edited';
+  ELSE
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO game_change_log (game_id, change_type, reason, changes, crew_umpire_ids, changed_by)
+  VALUES (
+    NEW.id,
+    kind,
+    nullif(current_setting('app.game_change_reason', true), ''),
+    diff,
+    coalesce((SELECT array_agg(umpire_id) FROM game_assignments WHERE game_id = NEW.id), '{}'),
+    auth.uid()
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_game_change
+  AFTER UPDATE ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_game_change();
+
+-- Shared checks before a coach changes a game: returns the failure reason, or NULL when allowed
+CREATE OR REPLACE FUNCTION public.game_change_blocked(_game games, _reason text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(trim(_reason), '') = '' THEN
+    RETURN 'reason_required';
+  END IF;
+
+  IF _game.coach_id IS DISTINCT FROM auth.uid() AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN 'not_allowed';
+  END IF;
+
+  IF _game.status NOT IN ('pending', 'assigned') THEN
+    RETURN 'game_closed';
+  END IF;
+
+  IF _game.game_date <= now() THEN
+    RETURN 'game_started';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Changes the opponent or crew size of an upcoming game
+CREATE OR REPLACE FUNCTION public.edit_game(
+  game_id_param uuid,
+  opponent_param text,
+  required_positions_param umpire_position[],
+  reason_param text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  blocked TEXT;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  blocked := game_change_blocked(target_game, reason_param);
+  IF blocked IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', blocked);
+  END IF;
+
+  IF coalesce(trim(opponent_param), '') = '' OR coalesce(cardinality(required_positions_param), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM game_assignments
+    WHERE game_id = target_game.id
+      AND NOT (position = ANY(required_positions_param))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'position_filled');
+  END IF;
+
+  IF trim(opponent_param) = target_game.opponent
+    AND required_positions_param = target_game.required_positions THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_change');
+  END IF;
+
+  PERFORM set_config('app.game_change_reason', trim(reason_param), true);
+
+  UPDATE games
+  SET opponent = trim(opponent_param),
+      required_positions = required_positions_param
+  WHERE id = target_game.id;
+
+  PERFORM notify_game_crew(
+    target_game.id,
+    'game_updated',
+    'Game updated: ' || trim(opponent_param),
+    to_char(target_game.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || target_game.location
+      || '. Reason: ' || trim(reason_param)
+  );
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+-- Moves an upcoming game. Its crew keeps the game only by confirming the new time within
+-- reschedule_confirm_hours (or before the game, if that is sooner).
+CREATE OR REPLACE FUNCTION public.reschedule_game(
+  game_id_param uuid,
+  game_date_param timestamp with time zone,
+  location_param text,
+  venue_id_param uuid,
+  latitude_param numeric,
+  longitude_param numeric,
+  reason_param text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  blocked TEXT;
+  confirm_hours INTEGER;
+  confirm_by TIMESTAMP WITH TIME ZONE;
+  crew_count INTEGER;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  blocked := game_change_blocked(target_game, reason_param);
+  IF blocked IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', blocked);
+  END IF;
+
+  IF game_date_param IS NULL OR game_date_param <= now() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'date_in_past');
+  END IF;
+
+  IF coalesce(trim(location_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF game_date_param = target_game.game_date
+    AND trim(location_param) = target_game.location
+    AND venue_id_param IS NOT DISTINCT FROM target_game.venue_id THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_change');
+  END IF;
+
+  PERFORM set_config('app.game_change_reason', trim(reason_param), true);
+
+  UPDATE games
+  SET game_date = game_date_param,
+      location = trim(location_param),
+      venue_id = venue_id_param,
+      latitude = latitude_param,
+      longitude = longitude_param
+  WHERE id = target_game.id;
+
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'reschedule_confirm_hours'), 24)
+  INTO confirm_hours;
+
+  confirm_by := least(now() + make_interval(hours => confirm_hours), game_date_param);
+
+  UPDATE game_assignments
+  SET reschedule_confirm_by = confirm_by
+  WHERE game_id = target_game.id;
+
+  GET DIAGNOSTICS crew_count = ROW_COUNT;
+
+  PERFORM notify_game_crew(
+    target_game.id,
+    'game_rescheduled',
+    'Game rescheduled: ' || target_game.opponent,
+    'Now ' || to_char(game_date_param, 'Dy Mon DD, HH24:MI') || ' at ' || trim(location_param)
+      || '. Confirm by ' || to_char(confirm_by, 'Dy Mon DD, HH24:MI') || ' to keep your spot. Reason: '
+      || trim(reason_param)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'game_id', target_game.id,
+    'crew_to_confirm', crew_count,
+    'confirm_by', confirm_by
+  );
+END;
+$$;
+
+-- Calls off an upcoming game. The crew stays on record so they can see what happened.
+CREATE OR REPLACE FUNCTION public.cancel_game(game_id_param uuid, reason_param text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  blocked TEXT;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  blocked := game_change_blocked(target_game, reason_param);
+  IF blocked IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', blocked);
+  END IF;
+
+  PERFORM set_config('app.game_change_reason', trim(reason_param), true);
+
+  UPDATE games
+  SET status = 'cancelled'
+  WHERE id = target_game.id;
+
+  UPDATE game_assignments
+  SET reschedule_confirm_by = NULL
+  WHERE game_id = target_game.id;
+
+  PERFORM notify_game_crew(
+    target_game.id,
+    'game_cancelled',
+    'Game cancelled: ' || target_game.opponent,
+    to_char(target_game.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || target_game.location
+      || '. Reason: ' || trim(reason_param)
+  );
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+-- Releases officials who let a reschedule confirmation lapse, reopening their positions.
+-- Dashboards call this when they load, so lapsed spots are freed before anyone looks at them.
+CREATE OR REPLACE FUNCTION public.release_unconfirmed_reschedules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lapsed RECORD;
+  released_count INTEGER := 0;
+BEGIN
+  FOR lapsed IN
+    DELETE FROM game_assignments
+    WHERE reschedule_confirm_by < now()
+    RETURNING game_id, umpire_id
+  LOOP
+    INSERT INTO game_change_log (game_id, change_type, crew_umpire_ids)
+    VALUES (lapsed.game_id, 'reschedule_expired', ARRAY[lapsed.umpire_id]);
+
+    UPDATE umpire_requests
+    SET status = 'pending'
+    WHERE game_id = lapsed.game_id;
+
+    released_count := released_count + 1;
+  END LOOP;
+
+  RETURN released_count;
+END;
+$$;
+
+-- The calling official keeps or gives up their spot on a rescheduled game
+CREATE OR REPLACE FUNCTION public.respond_to_reschedule(game_id_param uuid, confirm_param boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment game_assignments%ROWTYPE;
+BEGIN
+  PERFORM release_unconfirmed_reschedules();
+
+  SELECT * INTO assignment
+  FROM game_assignments
+  WHERE game_id = game_id_param
+    AND umpire_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_on_crew');
+  END IF;
+
+  IF assignment.reschedule_confirm_by IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'nothing_to_confirm');
+  END IF;
+
+  IF confirm_param THEN
+    UPDATE game_assignments
+    SET reschedule_confirm_by = NULL
+    WHERE id = assignment.id;
+  ELSE
+    DELETE FROM game_assignments WHERE id = assignment.id;
+
+    UPDATE umpire_requests
+    SET status = 'pending'
+    WHERE game_id = game_id_param;
+  END IF;
+
+  INSERT INTO game_change_log (game_id, change_type, crew_umpire_ids, changed_by)
+  VALUES (
+    game_id_param,
+    CASE WHEN confirm_param THEN 'reschedule_confirmed' ELSE 'reschedule_declined' END,
+    ARRAY[auth.uid()],
+    auth.uid()
+  );
+
+  RETURN jsonb_build_object('success', true, 'game_id', game_id_param, 'confirmed', confirm_param);
+END;
+$$;
@@ -0,0 +1,267 @@
+-- A recurring set of games a coach schedules in one go, e.g. every Tue/Thu at 18:00 for a season
+CREATE TABLE public.game_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- 0 = Sunday ... 6 = Saturday, matching umpire_availability.day_of_week
+  days_of_week INTEGER[] NOT NULL,
+  start_time TIME NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  excluded_dates DATE[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+ALTER TABLE public.games
+ADD COLUMN series_id UUID REFERENCES public.game_series(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_games_series ON public.games(series_id) WHERE series_id IS NOT NULL;
+
+INSERT INTO public.app_settings (key, value, description)
+VALUES ('max_series_games', '100', 'Most games a coach can create in one recurring series');
+
+ALTER TABLE public.game_series ENABLE ROW LEVEL SECURITY;
+
+-- Series are only written by the functions below, so there are no insert/update policies
+CREATE POLICY "Coaches can view their own series"
+ON public.game_series
+FOR SELECT
+USING (auth.uid() = coach_id);
+
+CREATE POLICY "Employees can view all series"
+ON public.game_series
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Creates a series with its games and umpire requests in one transaction. The client expands
+-- the recurrence into game_dates_param (it knows the coach's time zone); the recurrence itself
+-- is stored so the series can be described and rebuilt later.
+CREATE OR REPLACE FUNCTION public.create_game_series(
+  name_param text,
+  opponent_param text,
+  location_param text,
+  venue_id_param uuid,
+  latitude_param numeric,
+  longitude_param numeric,
+  required_positions_param umpire_position[],
+  days_of_week_param integer[],
+  start_time_param time,
+  start_date_param date,
+  end_date_param date,
+  excluded_dates_param date[],
+  game_dates_param timestamp with time zone[]
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_series_id UUID;
+  max_games INTEGER;
+  game_count INTEGER := coalesce(cardinality(game_dates_param), 0);
+BEGIN
+  IF NOT has_role(auth.uid(), 'coach') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(name_param), '') = ''
+    OR coalesce(trim(opponent_param), '') = ''
+    OR coalesce(trim(location_param), '') = ''
+    OR coalesce(cardinality(required_positions_param), 0) = 0
+    OR coalesce(cardinality(days_of_week_param), 0) = 0
+    OR start_time_param IS NULL
+    OR start_date_param IS NULL
+    OR end_date_param IS NULL
+    OR end_date_param < start_date_param THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF game_count = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_games');
+  END IF;
+
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'max_series_games'), 100)
+  INTO max_games;
+
+  IF game_count > max_games THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'too_many_games', 'max_games', max_games);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(game_dates_param) AS d WHERE d IS NULL OR d <= now()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'date_in_past');
+  END IF;
+
+  INSERT INTO game_series (coach_id, name, days_of_week, start_time, start_date, end_date, excluded_dates)
+  VALUES (
+    auth.uid(),
+    trim(name_param),
+    days_of_week_param,
+    start_time_param,
+    start_date_param,
+    end_date_param,
+    coalesce(excluded_dates_param, '{}')
+  )
+  RETURNING id INTO new_series_id;
+
+  WITH new_games AS (
+    INSERT INTO games (
+      coach_id, series_id, game_date, location, venue_id, latitude, longitude,
+      opponent, status, required_positions
+    )
+    SELECT
+      auth.uid(), new_series_id, d, trim(location_param), venue_id_param, latitude_param, longitude_param,
+      trim(opponent_param), 'pending', required_positions_param
+    FROM (SELECT DISTINCT d FROM unnest(game_dates_param) AS d) AS dates
+    RETURNING id
+  )
+  INSERT INTO umpire_requests (game_id, coach_id, status)
+  SELECT id, auth.uid(), 'pending'
+  FROM new_games;
+
+  GET DIAGNOSTICS game_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'series_id', new_series_id, 'games_created', game_count);
+END;
+$$;
+
+-- Moves every remaining game in a series by the same amount, e.g. an hour later. Each game goes
+-- through reschedule_game, so the crew confirms and the change log records the reason as usual.
+CREATE OR REPLACE FUNCTION public.shift_game_series(
+  series_id_param uuid,
+  shift_minutes_param integer,
+  reason_param text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_series game_series%ROWTYPE;
+  series_game games%ROWTYPE;
+  result JSONB;
+  games_changed INTEGER := 0;
+  games_skipped INTEGER := 0;
+  crew_to_confirm INTEGER := 0;
+BEGIN
+  SELECT * INTO target_series
+  FROM game_series
+  WHERE id = series_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_series.coach_id IS DISTINCT FROM auth.uid() AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(reason_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'reason_required');
+  END IF;
+
+  IF coalesce(shift_minutes_param, 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_change');
+  END IF;
+
+  FOR series_game IN
+    SELECT * FROM games
+    WHERE series_id = target_series.id
+      AND status IN ('pending', 'assigned')
+      AND game_date > now()
+    ORDER BY game_date
+  LOOP
+    result := reschedule_game(
+      series_game.id,
+      series_game.game_date + make_interval(mins => shift_minutes_param),
+      series_game.location,
+      series_game.venue_id,
+      series_game.latitude,
+      series_game.longitude,
+      reason_param
+    );
+
+    IF (result->>'success')::boolean THEN
+      games_changed := games_changed + 1;
+      crew_to_confirm := crew_to_confirm + coalesce((result->>'crew_to_confirm')::integer, 0);
+    ELSE
+      games_skipped := games_skipped + 1;
+    END IF;
+  END LOOP;
+
+  IF games_changed = 0 AND games_skipped = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_remaining_games');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'series_id', target_series.id,
+    'games_changed', games_changed,
+    'games_skipped', games_skipped,
+    'crew_to_confirm', crew_to_confirm
+  );
+END;
+$$;
+
+-- Cancels every remaining game in a series, e.g. when a team drops out mid-season
+CREATE OR REPLACE FUNCTION public.cancel_game_series(series_id_param uuid, reason_param text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_series game_series%ROWTYPE;
+  series_game_id UUID;
+  result JSONB;
+  games_changed INTEGER := 0;
+  games_skipped INTEGER := 0;
+BEGIN
+  SELECT * INTO target_series
+  FROM game_series
+  WHERE id = series_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_series.coach_id IS DISTINCT FROM auth.uid() AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(reason_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'reason_required');
+  END IF;
+
+  FOR series_game_id IN
+    SELECT id FROM games
+    WHERE series_id = target_series.id
+      AND status IN ('pending', 'assigned')
+      AND game_date > now()
+    ORDER BY game_date
+  LOOP
+    result := cancel_game(series_game_id, reason_param);
+
+    IF (result->>'success')::boolean THEN
+      games_changed := games_changed + 1;
+    ELSE
+      games_skipped := games_skipped + 1;
+    END IF;
+  END LOOP;
+
+  IF games_changed = 0 AND games_skipped = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_remaining_games');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'series_id', target_series.id,
+    'games_changed', games_changed,
+    'games_skipped', games_skipped
+  );
+END;
+$$;
@@ -0,0 +1,526 @@
+-- Teams, and the coaches who run them, so a head coach and assistants share one schedule
+CREATE TYPE public.team_role AS ENUM ('head', 'assistant');
+
+CREATE TABLE public.teams (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  age_division TEXT,
+  league TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- The same club can field teams in several divisions and leagues, but not twice in one
+CREATE UNIQUE INDEX idx_teams_unique_name
+ON public.teams (lower(name), lower(coalesce(age_division, '')), lower(coalesce(league, '')));
+
+CREATE TRIGGER update_teams_updated_at
+  BEFORE UPDATE ON public.teams
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.team_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  team_id UUID NOT NULL REFERENCES public.teams(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role team_role NOT NULL DEFAULT 'assistant',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (team_id, coach_id)
+);
+
+CREATE INDEX idx_team_members_coach ON public.team_members(coach_id);
+
+-- coach_id stays as the coach who requested the game; the teams decide who else shares it
+ALTER TABLE public.games
+ADD COLUMN home_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+ADD COLUMN away_team_id UUID REFERENCES public.teams(id) ON DELETE SET NULL,
+ADD CONSTRAINT games_distinct_teams CHECK (home_team_id IS DISTINCT FROM away_team_id OR home_team_id IS NULL);
+
+CREATE INDEX idx_games_home_team ON public.games(home_team_id) WHERE home_team_id IS NOT NULL;
+CREATE INDEX idx_games_away_team ON public.games(away_team_id) WHERE away_team_id IS NOT NULL;
+
+-- Security definer so policies can check membership without recursing through team_members RLS
+CREATE OR REPLACE FUNCTION public.is_team_coach(_team_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = _team_id
+      AND coach_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_team_head(_team_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = _team_id
+      AND coach_id = _user_id
+      AND role = 'head'
+  )
+$$;
+
+-- The coach who requested the game, or any coach of either team playing in it
+CREATE OR REPLACE FUNCTION public.is_game_coach(_game_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM games
+    WHERE id = _game_id
+      AND (
+        coach_id = _user_id
+        OR is_team_coach(home_team_id, _user_id)
+        OR is_team_coach(away_team_id, _user_id)
+      )
+  )
+$$;
+
+ALTER TABLE public.teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.team_members ENABLE ROW LEVEL SECURITY;
+
+-- Team names are shown on every game, so anyone signed in can look them up
+CREATE POLICY "Authenticated users can view teams"
+ON public.teams
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Head coaches can update their teams"
+ON public.teams
+FOR UPDATE
+USING (is_team_head(id, auth.uid()));
+
+CREATE POLICY "Employees can manage all teams"
+ON public.teams
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Members are added and removed through the functions below, which look coaches up by email
+CREATE POLICY "Coaches can view members of their teams"
+ON public.team_members
+FOR SELECT
+USING (auth.uid() = coach_id OR is_team_coach(team_id, auth.uid()));
+
+CREATE POLICY "Employees can manage all team members"
+ON public.team_members
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Games: coaches now see and manage every game their teams play in
+DROP POLICY IF EXISTS "Coaches can view their own games" ON public.games;
+DROP POLICY IF EXISTS "Coaches can create their own games" ON public.games;
+DROP POLICY IF EXISTS "Coaches can update their own games" ON public.games;
+
+CREATE POLICY "Coaches can view their teams' games"
+ON public.games
+AS PERMISSIVE
+FOR SELECT
+TO authenticated
+USING (
+  auth.uid() = coach_id
+  OR is_team_coach(home_team_id, auth.uid())
+  OR is_team_coach(away_team_id, auth.uid())
+);
+
+-- A coach can name any team as the opponent, but one side has to be their own
+CREATE POLICY "Coaches can create their own games"
+ON public.games
+FOR INSERT
+WITH CHECK (
+  auth.uid() = coach_id
+  AND (
+    (home_team_id IS NULL AND away_team_id IS NULL)
+    OR is_team_coach(home_team_id, auth.uid())
+    OR is_team_coach(away_team_id, auth.uid())
+  )
+);
+
+CREATE POLICY "Coaches can update their teams' games"
+ON public.games
+FOR UPDATE
+USING (
+  auth.uid() = coach_id
+  OR is_team_coach(home_team_id, auth.uid())
+  OR is_team_coach(away_team_id, auth.uid())
+);
+
+DROP POLICY IF EXISTS "Coaches can view their own requests" ON public.umpire_requests;
+
+CREATE POLICY "Coaches can view requests for their teams' games"
+ON public.umpire_requests
+FOR SELECT
+USING (auth.uid() = coach_id OR is_game_coach(game_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Coaches can view crews of their games" ON public.game_assignments;
+
+CREATE POLICY "Coaches can view crews of their games"
+ON public.game_assignments
+FOR SELECT
+USING (is_game_coach(game_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Coaches can view status history of their games" ON public.game_status_history;
+
+CREATE POLICY "Coaches can view status history of their games"
+ON public.game_status_history
+FOR SELECT
+USING (is_game_coach(game_id, auth.uid()));
+
+DROP POLICY IF EXISTS "Coaches can view changes to their games" ON public.game_change_log;
+
+CREATE POLICY "Coaches can view changes to their games"
+ON public.game_change_log
+FOR SELECT
+USING (is_game_coach(game_id, auth.uid()));
+
+-- Every coach on the game can rate the crew and report no-shows, each under their own name
+DROP POLICY IF EXISTS "Coaches can report no-shows for their past games" ON public.no_show_reports;
+
+CREATE POLICY "Coaches can report no-shows for their past games"
+ON public.no_show_reports
+FOR INSERT
+WITH CHECK (
+  auth.uid() = coach_id
+  AND status = 'reported'
+  AND is_game_official(game_id, umpire_id)
+  AND is_game_coach(game_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE games.id = game_id
+      AND games.game_date <= now()
+  )
+);
+
+DROP POLICY IF EXISTS "Coaches can create ratings for completed games" ON public.ratings;
+
+CREATE POLICY "Coaches can create ratings for completed games"
+ON public.ratings
+FOR INSERT
+WITH CHECK (
+  auth.uid() = coach_id
+  AND is_game_official(game_id, umpire_id)
+  AND is_game_coach(game_id, auth.uid())
+  AND EXISTS (
+    SELECT 1 FROM public.games
+    WHERE id = game_id
+      AND status = 'completed'
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.get_game_crew(game_id_param uuid)
+RETURNS TABLE (
+  "position" umpire_position,
+  umpire_id uuid,
+  full_name text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    has_role(auth.uid(), 'employee')
+    OR is_game_official(game_id_param, auth.uid())
+    OR is_game_coach(game_id_param, auth.uid())
+  ) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT ga.position, ga.umpire_id, p.full_name
+  FROM game_assignments ga
+  LEFT JOIN profiles p ON p.id = ga.umpire_id
+  WHERE ga.game_id = game_id_param
+  ORDER BY ga.position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.game_change_blocked(_game games, _reason text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(trim(_reason), '') = '' THEN
+    RETURN 'reason_required';
+  END IF;
+
+  IF NOT is_game_coach(_game.id, auth.uid()) AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN 'not_allowed';
+  END IF;
+
+  IF _game.status NOT IN ('pending', 'assigned') THEN
+    RETURN 'game_closed';
+  END IF;
+
+  IF _game.game_date <= now() THEN
+    RETURN 'game_started';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Creates a team. A coach who creates one becomes its head coach; employees create teams
+-- without joining them and add coaches afterwards.
+CREATE OR REPLACE FUNCTION public.create_team(name_param text, age_division_param text, league_param text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_employee BOOLEAN := has_role(auth.uid(), 'employee');
+  new_team_id UUID;
+BEGIN
+  IF NOT is_employee AND NOT has_role(auth.uid(), 'coach') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(name_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM teams
+    WHERE lower(name) = lower(trim(name_param))
+      AND lower(coalesce(age_division, '')) = lower(coalesce(nullif(trim(age_division_param), ''), ''))
+      AND lower(coalesce(league, '')) = lower(coalesce(nullif(trim(league_param), ''), ''))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'team_exists');
+  END IF;
+
+  INSERT INTO teams (name, age_division, league, created_by)
+  VALUES (trim(name_param), nullif(trim(age_division_param), ''), nullif(trim(league_param), ''), auth.uid())
+  RETURNING id INTO new_team_id;
+
+  IF NOT is_employee THEN
+    INSERT INTO team_members (team_id, coach_id, role)
+    VALUES (new_team_id, auth.uid(), 'head');
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'team_id', new_team_id);
+END;
+$$;
+
+-- Adds a coach to a team by the email they signed up with. Head coaches manage their own teams.
+CREATE OR REPLACE FUNCTION public.add_team_member(team_id_param uuid, email_param text, role_param team_role)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member_id UUID;
+BEGIN
+  IF NOT is_team_head(team_id_param, auth.uid()) AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  SELECT p.id INTO member_id
+  FROM profiles p
+  WHERE lower(p.email) = lower(trim(email_param))
+    AND has_role(p.id, 'coach');
+
+  IF member_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'coach_not_found');
+  END IF;
+
+  IF is_team_coach(team_id_param, member_id) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_member');
+  END IF;
+
+  INSERT INTO team_members (team_id, coach_id, role)
+  VALUES (team_id_param, member_id, coalesce(role_param, 'assistant'));
+
+  RETURN jsonb_build_object('success', true, 'coach_id', member_id);
+END;
+$$;
+
+-- Removes a coach from a team. Coaches can always leave; a team keeps at least one head coach.
+CREATE OR REPLACE FUNCTION public.remove_team_member(team_id_param uuid, coach_id_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  member team_members%ROWTYPE;
+BEGIN
+  IF coach_id_param IS DISTINCT FROM auth.uid()
+    AND NOT is_team_head(team_id_param, auth.uid())
+    AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  SELECT * INTO member
+  FROM team_members
+  WHERE team_id = team_id_param
+    AND coach_id = coach_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF member.role = 'head' AND NOT EXISTS (
+    SELECT 1 FROM team_members
+    WHERE team_id = team_id_param
+      AND role = 'head'
+      AND coach_id <> coach_id_param
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'last_head_coach');
+  END IF;
+
+  DELETE FROM team_members WHERE id = member.id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+-- Coaches on a team can see each other's names and emails, which profiles RLS otherwise hides
+CREATE OR REPLACE FUNCTION public.get_team_members(team_id_param uuid)
+RETURNS TABLE (
+  coach_id uuid,
+  full_name text,
+  email text,
+  role team_role
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (has_role(auth.uid(), 'employee') OR is_team_coach(team_id_param, auth.uid())) THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT tm.coach_id, p.full_name, p.email, tm.role
+  FROM team_members tm
+  LEFT JOIN profiles p ON p.id = tm.coach_id
+  WHERE tm.team_id = team_id_param
+  ORDER BY tm.role, p.full_name;
+END;
+$$;
+
+-- Series games can now be played by teams
+DROP FUNCTION IF EXISTS public.create_game_series(
+  text, text, text, uuid, numeric, numeric, umpire_position[], integer[], time, date, date, date[],
+  timestamp with time zone[]
+);
+
+CREATE OR REPLACE FUNCTION public.create_game_series(
+  name_param text,
+  opponent_param text,
+  location_param text,
+  venue_id_param uuid,
+  latitude_param numeric,
+  longitude_param numeric,
+  required_positions_param umpire_position[],
+  days_of_week_param integer[],
+  start_time_param time,
+  start_date_param date,
+  end_date_param date,
+  excluded_dates_param date[],
+  game_dates_param timestamp with time zone[],
+  home_team_id_param uuid DEFAULT NULL,
+  away_team_id_param uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_series_id UUID;
+  max_games INTEGER;
+  game_count INTEGER := coalesce(cardinality(game_dates_param), 0);
+BEGIN
+  IF NOT has_role(auth.uid(), 'coach') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF (home_team_id_param IS NOT NULL OR away_team_id_param IS NOT NULL)
+    AND NOT is_team_coach(home_team_id_param, auth.uid())
+    AND NOT is_team_coach(away_team_id_param, auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(name_param), '') = ''
+    OR coalesce(trim(opponent_param), '') = ''
+    OR coalesce(trim(location_param), '') = ''
+    OR coalesce(cardinality(required_positions_param), 0) = 0
+    OR coalesce(cardinality(days_of_week_param), 0) = 0
+    OR start_time_param IS NULL
+    OR start_date_param IS NULL
+    OR end_date_param IS NULL
+    OR end_date_param < start_date_param
+    OR home_team_id_param = away_team_id_param THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF game_count = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_games');
+  END IF;
+
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'max_series_games'), 100)
+  INTO max_games;
+
+  IF game_count > max_games THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'too_many_games', 'max_games', max_games);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(game_dates_param) AS d WHERE d IS NULL OR d <= now()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'date_in_past');
+  END IF;
+
+  INSERT INTO game_series (coach_id, name, days_of_week, start_time, start_date, end_date, excluded_dates)
+  VALUES (
+    auth.uid(),
+    trim(name_param),
+    days_of_week_param,
+    start_time_param,
+    start_date_param,
+    end_date_param,
+    coalesce(excluded_dates_param, '{}')
+  )
+  RETURNING id INTO new_series_id;
+
+  WITH new_games AS (
+    INSERT INTO games (
+      coach_id, series_id, game_date, location, venue_id, latitude, longitude,
+      opponent, status, required_positions, home_team_id, away_team_id
+    )
+    SELECT
+      auth.uid(), new_series_id, d, trim(location_param), venue_id_param, latitude_param, longitude_param,
+      trim(opponent_param), 'pending', required_positions_param, home_team_id_param, away_team_id_param
+    FROM (SELECT DISTINCT d FROM unnest(game_dates_param) AS d) AS dates
+    RETURNING id
+  )
+  INSERT INTO umpire_requests (game_id, coach_id, status)
+  SELECT id, auth.uid(), 'pending'
+  FROM new_games;
+
+  GET DIAGNOSTICS game_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'series_id', new_series_id, 'games_created', game_count);
+END;
+$$;
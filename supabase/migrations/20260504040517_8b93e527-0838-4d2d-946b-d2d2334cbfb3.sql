@@ -0,0 +1,819 @@
+-- Game levels, ordered by how demanding they are. An umpire certified at a level can work
+-- games at that level and below.
+CREATE TABLE public.game_levels (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  rank INTEGER NOT NULL,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.game_levels (name, rank, description) VALUES
+  ('10U Rec', 10, 'Recreational, 10 and under'),
+  ('12U Rec', 20, 'Recreational, 12 and under'),
+  ('14U Travel', 30, 'Travel and select teams, 14 and under'),
+  ('High School JV', 40, 'Junior varsity high school'),
+  ('High School Varsity', 50, 'Varsity high school');
+
+CREATE TABLE public.leagues (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- A division is one league's competition at a single level, e.g. Metro League 14U
+CREATE TABLE public.divisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  league_id UUID NOT NULL REFERENCES public.leagues(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  level_id UUID NOT NULL REFERENCES public.game_levels(id) ON DELETE RESTRICT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (league_id, name)
+);
+
+ALTER TABLE public.games
+ADD COLUMN division_id UUID REFERENCES public.divisions(id) ON DELETE SET NULL,
+ADD COLUMN level_id UUID REFERENCES public.game_levels(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_games_level ON public.games(level_id) WHERE level_id IS NOT NULL;
+
+CREATE TABLE public.umpire_certifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  umpire_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  level_id UUID NOT NULL REFERENCES public.game_levels(id) ON DELETE CASCADE,
+  certified_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  -- NULL for certifications that don't lapse
+  expires_on DATE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (umpire_id, level_id),
+  CHECK (expires_on IS NULL OR expires_on >= certified_on)
+);
+
+CREATE INDEX idx_umpire_certifications_umpire ON public.umpire_certifications(umpire_id);
+
+CREATE TRIGGER update_umpire_certifications_updated_at
+  BEFORE UPDATE ON public.umpire_certifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.game_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leagues ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.divisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.umpire_certifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view game levels"
+ON public.game_levels
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Employees can manage game levels"
+ON public.game_levels
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Authenticated users can view leagues"
+ON public.leagues
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Employees can manage leagues"
+ON public.leagues
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Authenticated users can view divisions"
+ON public.divisions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Employees can manage divisions"
+ON public.divisions
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Umpires can view their own certifications"
+ON public.umpire_certifications
+FOR SELECT
+USING (auth.uid() = umpire_id);
+
+CREATE POLICY "Employees can manage certifications"
+ON public.umpire_certifications
+FOR ALL
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Keeps a game's division, level and the free-text level from imports in step: a division
+-- sets the level, and imported level text is matched to a known level by name.
+CREATE OR REPLACE FUNCTION public.resolve_game_level()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.division_id IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.division_id IS DISTINCT FROM OLD.division_id) THEN
+    SELECT level_id INTO NEW.level_id FROM divisions WHERE id = NEW.division_id;
+  ELSIF NEW.level_id IS NULL AND NEW.level IS NOT NULL
+    AND (TG_OP = 'INSERT' OR NEW.level IS DISTINCT FROM OLD.level) THEN
+    SELECT id INTO NEW.level_id FROM game_levels WHERE lower(name) = lower(trim(NEW.level));
+  END IF;
+
+  IF NEW.level_id IS NOT NULL THEN
+    SELECT name INTO NEW.level FROM game_levels WHERE id = NEW.level_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resolve_game_level
+  BEFORE INSERT OR UPDATE OF division_id, level_id, level ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.resolve_game_level();
+
+-- Existing games whose imported level text names a known level
+UPDATE public.games g
+SET level_id = l.id, level = l.name
+FROM public.game_levels l
+WHERE g.level_id IS NULL
+  AND lower(trim(g.level)) = lower(l.name);
+
+-- Why an umpire can't work a game at this level on this date, or NULL when they can.
+-- Games without a level are open to every umpire.
+CREATE OR REPLACE FUNCTION public.umpire_qualification_issue(
+  _umpire_id uuid,
+  _level_id uuid,
+  _game_date timestamp with time zone
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  required_rank INTEGER;
+BEGIN
+  IF _level_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT rank INTO required_rank FROM game_levels WHERE id = _level_id;
+
+  IF required_rank IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM umpire_certifications c
+    JOIN game_levels l ON l.id = c.level_id
+    WHERE c.umpire_id = _umpire_id
+      AND l.rank >= required_rank
+      AND (c.expires_on IS NULL OR c.expires_on >= _game_date::date)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM umpire_certifications c
+    JOIN game_levels l ON l.id = c.level_id
+    WHERE c.umpire_id = _umpire_id
+      AND l.rank >= required_rank
+  ) THEN
+    RETURN 'certification_expired';
+  END IF;
+
+  RETURN 'not_certified';
+END;
+$$;
+
+-- Umpires only see open games they are certified to work
+DROP POLICY IF EXISTS "Umpires can view unassigned games" ON public.games;
+
+CREATE POLICY "Umpires can view unassigned games"
+ON public.games
+AS PERMISSIVE
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'umpire'::app_role)
+  AND status = 'pending'
+  AND umpire_qualification_issue(auth.uid(), level_id, game_date) IS NULL
+);
+
+CREATE OR REPLACE FUNCTION public.accept_game(game_id_param uuid, position_param umpire_position DEFAULT NULL)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  open_position umpire_position;
+  conflict RECORD;
+  qualification_issue TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'umpire') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_umpire');
+  END IF;
+
+  -- Serialise concurrent accepts by the same umpire
+  PERFORM pg_advisory_xact_lock(hashtext('accept_game:' || auth.uid()::text));
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_game.status <> 'pending' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_taken');
+  END IF;
+
+  IF is_game_official(target_game.id, auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_on_crew');
+  END IF;
+
+  qualification_issue := umpire_qualification_issue(auth.uid(), target_game.level_id, target_game.game_date);
+  IF qualification_issue IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', qualification_issue);
+  END IF;
+
+  SELECT p INTO open_position
+  FROM unnest(target_game.required_positions) p
+  WHERE (position_param IS NULL OR p = position_param)
+    AND NOT EXISTS (
+      SELECT 1 FROM game_assignments ga
+      WHERE ga.game_id = target_game.id
+        AND ga.position = p
+    )
+  ORDER BY p
+  LIMIT 1;
+
+  IF open_position IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_taken');
+  END IF;
+
+  SELECT * INTO conflict
+  FROM find_schedule_conflict(
+    auth.uid(),
+    target_game.game_date,
+    target_game.latitude,
+    target_game.longitude,
+    target_game.id
+  );
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'reason', 'schedule_conflict',
+      'conflict', jsonb_build_object(
+        'game_id', conflict.game_id,
+        'game_date', conflict.game_date,
+        'location', conflict.location,
+        'opponent', conflict.opponent,
+        'required_buffer_minutes', conflict.required_buffer_minutes
+      )
+    );
+  END IF;
+
+  INSERT INTO game_assignments (game_id, umpire_id, position, assigned_by)
+  VALUES (target_game.id, auth.uid(), open_position, auth.uid());
+
+  UPDATE umpire_requests
+  SET status = 'accepted'
+  WHERE game_id = target_game.id
+    AND status = 'pending'
+    AND EXISTS (SELECT 1 FROM games WHERE id = target_game.id AND status = 'assigned');
+
+  INSERT INTO umpire_assignment_log (game_id, umpire_id, previous_umpire_id, assigned_by, method, position)
+  VALUES (target_game.id, auth.uid(), NULL, auth.uid(), 'self_accept', open_position);
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id, 'position', open_position);
+END;
+$$;
+
+-- Staff can override a schedule conflict, but not a missing or lapsed certification
+CREATE OR REPLACE FUNCTION public.assign_umpire(
+  game_id_param uuid,
+  umpire_id_param uuid,
+  force_param boolean DEFAULT false,
+  position_param umpire_position DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  target_position umpire_position;
+  existing game_assignments%ROWTYPE;
+  conflict RECORD;
+  qualification_issue TEXT;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_employee');
+  END IF;
+
+  IF NOT has_role(umpire_id_param, 'umpire') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_umpire');
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('accept_game:' || umpire_id_param::text));
+
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF target_game.status NOT IN ('pending', 'assigned') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'game_closed');
+  END IF;
+
+  IF is_game_official(target_game.id, umpire_id_param) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'already_assigned');
+  END IF;
+
+  qualification_issue := umpire_qualification_issue(umpire_id_param, target_game.level_id, target_game.game_date);
+  IF qualification_issue IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', qualification_issue);
+  END IF;
+
+  IF position_param IS NOT NULL THEN
+    IF NOT (position_param = ANY(target_game.required_positions)) THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'invalid_position');
+    END IF;
+    target_position := position_param;
+  ELSE
+    SELECT p INTO target_position
+    FROM unnest(target_game.required_positions) p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM game_assignments ga
+      WHERE ga.game_id = target_game.id
+        AND ga.position = p
+    )
+    ORDER BY p
+    LIMIT 1;
+
+    IF target_position IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'crew_full');
+    END IF;
+  END IF;
+
+  IF NOT force_param THEN
+    SELECT * INTO conflict
+    FROM find_schedule_conflict(
+      umpire_id_param,
+      target_game.game_date,
+      target_game.latitude,
+      target_game.longitude,
+      target_game.id
+    );
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'reason', 'schedule_conflict',
+        'conflict', jsonb_build_object(
+          'game_id', conflict.game_id,
+          'game_date', conflict.game_date,
+          'location', conflict.location,
+          'opponent', conflict.opponent,
+          'required_buffer_minutes', conflict.required_buffer_minutes
+        )
+      );
+    END IF;
+  END IF;
+
+  SELECT * INTO existing
+  FROM game_assignments
+  WHERE game_id = target_game.id
+    AND position = target_position;
+
+  IF FOUND THEN
+    UPDATE game_assignments
+    SET umpire_id = umpire_id_param, assigned_by = auth.uid()
+    WHERE id = existing.id;
+  ELSE
+    INSERT INTO game_assignments (game_id, umpire_id, position, assigned_by)
+    VALUES (target_game.id, umpire_id_param, target_position, auth.uid());
+  END IF;
+
+  UPDATE umpire_requests
+  SET status = 'accepted'
+  WHERE game_id = target_game.id
+    AND EXISTS (SELECT 1 FROM games WHERE id = target_game.id AND status = 'assigned');
+
+  INSERT INTO umpire_assignment_log (game_id, umpire_id, previous_umpire_id, assigned_by, method, position)
+  VALUES (target_game.id, umpire_id_param, existing.umpire_id, auth.uid(), 'manual', target_position);
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id, 'position', target_position);
+END;
+$$;
+
+-- Only umpires certified for the game's level are offered for it
+CREATE OR REPLACE FUNCTION public.get_assignment_candidates(game_id_param uuid)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  email text,
+  distance_miles double precision,
+  unavailable_reason text,
+  conflict_opponent text,
+  conflict_game_date timestamp with time zone,
+  average_rating numeric,
+  rating_count integer,
+  current_position umpire_position
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view assignment candidates';
+  END IF;
+
+  SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.full_name,
+    p.email,
+    CASE
+      WHEN p.home_latitude IS NOT NULL AND p.home_longitude IS NOT NULL
+        AND target_game.latitude IS NOT NULL AND target_game.longitude IS NOT NULL
+      THEN distance_miles(p.home_latitude, p.home_longitude, target_game.latitude, target_game.longitude)
+    END,
+    check_umpire_availability(p.id, target_game.game_date),
+    c.opponent,
+    c.game_date,
+    r.average_rating,
+    coalesce(r.rating_count, 0)::integer,
+    ga.position
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  LEFT JOIN game_assignments ga ON ga.game_id = target_game.id AND ga.umpire_id = p.id
+  LEFT JOIN LATERAL (
+    SELECT fc.opponent, fc.game_date
+    FROM find_schedule_conflict(p.id, target_game.game_date, target_game.latitude, target_game.longitude, target_game.id) fc
+  ) c ON true
+  LEFT JOIN LATERAL (
+    SELECT round(avg(recent.rating), 1) AS average_rating, count(*) AS rating_count
+    FROM (
+      SELECT rt.rating
+      FROM ratings rt
+      WHERE rt.umpire_id = p.id
+      ORDER BY rt.created_at DESC
+      LIMIT 10
+    ) recent
+  ) r ON true
+  WHERE ur.role = 'umpire'
+    -- The current crew stays listed so staff can see who holds each position
+    AND (
+      ga.position IS NOT NULL
+      OR umpire_qualification_issue(p.id, target_game.level_id, target_game.game_date) IS NULL
+    )
+  ORDER BY p.full_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_umpire_suggestions(game_id_param uuid, limit_param integer DEFAULT 10)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  score integer,
+  distance_miles double precision,
+  average_rating numeric,
+  reliability_score integer,
+  upcoming_games integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view umpire suggestions';
+  END IF;
+
+  SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Game not found';
+  END IF;
+
+  RETURN QUERY
+  WITH eligible AS (
+    SELECT
+      p.id,
+      p.full_name,
+      CASE
+        WHEN p.home_latitude IS NOT NULL AND p.home_longitude IS NOT NULL
+          AND target_game.latitude IS NOT NULL AND target_game.longitude IS NOT NULL
+        THEN distance_miles(p.home_latitude, p.home_longitude, target_game.latitude, target_game.longitude)
+      END AS distance,
+      (
+        SELECT round(avg(recent.rating), 1)
+        FROM (
+          SELECT rt.rating FROM ratings rt
+          WHERE rt.umpire_id = p.id
+          ORDER BY rt.created_at DESC
+          LIMIT 10
+        ) recent
+      ) AS avg_rating,
+      (SELECT rel.reliability_score FROM get_umpire_reliability(p.id) rel) AS reliability,
+      (
+        SELECT count(*)::integer
+        FROM game_assignments ga
+        JOIN games g ON g.id = ga.game_id
+        WHERE ga.umpire_id = p.id
+          AND g.status IN ('pending', 'assigned')
+          AND g.game_date >= now()
+      ) AS workload
+    FROM user_roles ur
+    JOIN profiles p ON p.id = ur.user_id
+    WHERE ur.role = 'umpire'
+      AND NOT is_game_official(target_game.id, p.id)
+      AND umpire_qualification_issue(p.id, target_game.level_id, target_game.game_date) IS NULL
+      AND check_umpire_availability(p.id, target_game.game_date) IS NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM find_schedule_conflict(
+          p.id, target_game.game_date, target_game.latitude, target_game.longitude, target_game.id
+        )
+      )
+  )
+  SELECT
+    e.id,
+    e.full_name,
+    round(
+      40 * CASE WHEN e.distance IS NULL THEN 0.5 ELSE greatest(0, 1 - e.distance / 50) END
+      + 30 * coalesce(e.avg_rating, 3.5) / 5
+      + 15 * e.reliability / 100.0
+      + 15 * greatest(0, 1 - e.workload / 10.0)
+    )::integer AS match_score,
+    e.distance,
+    e.avg_rating,
+    e.reliability,
+    e.workload
+  FROM eligible e
+  ORDER BY match_score DESC, e.distance NULLS LAST
+  LIMIT limit_param;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_umpire_availability_for_game(game_id_param uuid)
+RETURNS TABLE (
+  umpire_id uuid,
+  full_name text,
+  unavailable_reason text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can view umpire availability';
+  END IF;
+
+  SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+  RETURN QUERY
+  SELECT
+    ur.user_id,
+    p.full_name,
+    check_umpire_availability(ur.user_id, target_game.game_date)
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  WHERE ur.role = 'umpire'
+    AND umpire_qualification_issue(ur.user_id, target_game.level_id, target_game.game_date) IS NULL
+  ORDER BY check_umpire_availability(ur.user_id, target_game.game_date) NULLS FIRST, p.full_name;
+END;
+$$;
+
+-- Coaches can now change a game's division or level along with the opponent and crew
+DROP FUNCTION IF EXISTS public.edit_game(uuid, text, umpire_position[], text);
+
+CREATE OR REPLACE FUNCTION public.edit_game(
+  game_id_param uuid,
+  opponent_param text,
+  required_positions_param umpire_position[],
+  division_id_param uuid,
+  level_id_param uuid,
+  reason_param text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  blocked TEXT;
+  new_level_id UUID := level_id_param;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  blocked := game_change_blocked(target_game, reason_param);
+  IF blocked IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', blocked);
+  END IF;
+
+  IF coalesce(trim(opponent_param), '') = '' OR coalesce(cardinality(required_positions_param), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM game_assignments
+    WHERE game_id = target_game.id
+      AND NOT (position = ANY(required_positions_param))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'position_filled');
+  END IF;
+
+  -- A division decides the level
+  IF division_id_param IS NOT NULL THEN
+    SELECT level_id INTO new_level_id FROM divisions WHERE id = division_id_param;
+  END IF;
+
+  -- Raising the level can't leave an official on a game they aren't certified for
+  IF EXISTS (
+    SELECT 1 FROM game_assignments
+    WHERE game_id = target_game.id
+      AND umpire_qualification_issue(umpire_id, new_level_id, target_game.game_date) IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'crew_not_qualified');
+  END IF;
+
+  IF trim(opponent_param) = target_game.opponent
+    AND required_positions_param = target_game.required_positions
+    AND division_id_param IS NOT DISTINCT FROM target_game.division_id
+    AND new_level_id IS NOT DISTINCT FROM target_game.level_id THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_change');
+  END IF;
+
+  PERFORM set_config('app.game_change_reason', trim(reason_param), true);
+
+  UPDATE games
+  SET opponent = trim(opponent_param),
+      required_positions = required_positions_param,
+      division_id = division_id_param,
+      level_id = new_level_id,
+      level = CASE WHEN new_level_id IS NULL THEN NULL ELSE level END
+  WHERE id = target_game.id;
+
+  PERFORM notify_game_crew(
+    target_game.id,
+    'game_updated',
+    'Game updated: ' || trim(opponent_param),
+    to_char(target_game.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || target_game.location
+      || '. Reason: ' || trim(reason_param)
+  );
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+-- Series games can carry a division or level too
+DROP FUNCTION IF EXISTS public.create_game_series(
+  text, text, text, uuid, numeric, numeric, umpire_position[], integer[], time, date, date, date[],
+  timestamp with time zone[], uuid, uuid
+);
+
+CREATE OR REPLACE FUNCTION public.create_game_series(
+  name_param text,
+  opponent_param text,
+  location_param text,
+  venue_id_param uuid,
+  latitude_param numeric,
+  longitude_param numeric,
+  required_positions_param umpire_position[],
+  days_of_week_param integer[],
+  start_time_param time,
+  start_date_param date,
+  end_date_param date,
+  excluded_dates_param date[],
+  game_dates_param timestamp with time zone[],
+  home_team_id_param uuid DEFAULT NULL,
+  away_team_id_param uuid DEFAULT NULL,
+  division_id_param uuid DEFAULT NULL,
+  level_id_param uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_series_id UUID;
+  max_games INTEGER;
+  game_count INTEGER := coalesce(cardinality(game_dates_param), 0);
+BEGIN
+  IF NOT has_role(auth.uid(), 'coach') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF (home_team_id_param IS NOT NULL OR away_team_id_param IS NOT NULL)
+    AND NOT is_team_coach(home_team_id_param, auth.uid())
+    AND NOT is_team_coach(away_team_id_param, auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(name_param), '') = ''
+    OR coalesce(trim(opponent_param), '') = ''
+    OR coalesce(trim(location_param), '') = ''
+    OR coalesce(cardinality(required_positions_param), 0) = 0
+    OR coalesce(cardinality(days_of_week_param), 0) = 0
+    OR start_time_param IS NULL
+    OR start_date_param IS NULL
+    OR end_date_param IS NULL
+    OR end_date_param < start_date_param
+    OR home_team_id_param = away_team_id_param THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF game_count = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_games');
+  END IF;
+
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'max_series_games'), 100)
+  INTO max_games;
+
+  IF game_count > max_games THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'too_many_games', 'max_games', max_games);
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(game_dates_param) AS d WHERE d IS NULL OR d <= now()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'date_in_past');
+  END IF;
+
+  INSERT INTO game_series (coach_id, name, days_of_week, start_time, start_date, end_date, excluded_dates)
+  VALUES (
+    auth.uid(),
+    trim(name_param),
+    days_of_week_param,
+    start_time_param,
+    start_date_param,
+    end_date_param,
+    coalesce(excluded_dates_param, '{}')
+  )
+  RETURNING id INTO new_series_id;
+
+  WITH new_games AS (
+    INSERT INTO games (
+      coach_id, series_id, game_date, location, venue_id, latitude, longitude,
+      opponent, status, required_positions, home_team_id, away_team_id, division_id, level_id
+    )
+    SELECT
+      auth.uid(), new_series_id, d, trim(location_param), venue_id_param, latitude_param, longitude_param,
+      trim(opponent_param), 'pending', required_positions_param, home_team_id_param, away_team_id_param,
+      division_id_param, level_id_param
+    FROM (SELECT DISTINCT d FROM unnest(game_dates_param) AS d) AS dates
+    RETURNING id
+  )
+  INSERT INTO umpire_requests (game_id, coach_id, status)
+  SELECT id, auth.uid(), 'pending'
+  FROM new_games;
+
+  GET DIAGNOSTICS game_count = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'series_id', new_series_id, 'games_created', game_count);
+END;
+$$;
@@ -0,0 +1,308 @@
+-- In-app messaging: conversation threads between users, optionally about a rating or a game.
+-- A thread with no recipients is addressed to staff, and every employee can read and answer it.
+CREATE TABLE public.message_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subject TEXT NOT NULL CHECK (char_length(trim(subject)) BETWEEN 1 AND 200),
+  rating_id UUID REFERENCES public.ratings(id) ON DELETE SET NULL,
+  game_id UUID REFERENCES public.games(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_threads_last_message ON public.message_threads(last_message_at DESC);
+
+-- Everyone in a thread, with how far they have read. Employees who open a staff thread join it.
+CREATE TABLE public.message_thread_participants (
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (thread_id, user_id)
+);
+
+CREATE INDEX idx_message_thread_participants_user ON public.message_thread_participants(user_id);
+
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 4000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_messages_thread ON public.messages(thread_id, created_at);
+
+-- Security definer so the policies below can check membership without recursing into
+-- the participants policies
+CREATE OR REPLACE FUNCTION public.is_thread_participant(_thread_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM message_thread_participants
+    WHERE thread_id = _thread_id
+      AND user_id = _user_id
+  )
+$$;
+
+ALTER TABLE public.message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.message_thread_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+-- Threads and messages are only written by the functions below, so there are no insert/update policies
+CREATE POLICY "Participants can view their threads"
+ON public.message_threads
+FOR SELECT
+USING (is_thread_participant(id, auth.uid()));
+
+CREATE POLICY "Employees can view all threads"
+ON public.message_threads
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Participants can view who is in their threads"
+ON public.message_thread_participants
+FOR SELECT
+USING (is_thread_participant(thread_id, auth.uid()));
+
+CREATE POLICY "Employees can view all thread participants"
+ON public.message_thread_participants
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Participants can view messages in their threads"
+ON public.messages
+FOR SELECT
+USING (is_thread_participant(thread_id, auth.uid()));
+
+CREATE POLICY "Employees can view all messages"
+ON public.messages
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Staff can message anyone. Coaches and umpires can message staff, and the coaches and
+-- officials of a game they are part of when the thread is about that game.
+CREATE OR REPLACE FUNCTION public.start_message_thread(
+  subject_param text,
+  body_param text,
+  recipient_ids_param uuid[] DEFAULT '{}',
+  rating_id_param uuid DEFAULT NULL,
+  game_id_param uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_staff BOOLEAN := has_role(auth.uid(), 'employee');
+  recipients UUID[];
+  recipient UUID;
+  new_thread_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(subject_param), '') = '' OR coalesce(trim(body_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT r), '{}') INTO recipients
+  FROM unnest(coalesce(recipient_ids_param, '{}')) AS r
+  WHERE r IS NOT NULL AND r <> auth.uid();
+
+  -- Staff already see every thread, so a message from staff needs someone to go to
+  IF is_staff AND cardinality(recipients) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  FOREACH recipient IN ARRAY recipients LOOP
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = recipient) THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'recipient_not_found');
+    END IF;
+
+    IF NOT is_staff
+      AND NOT has_role(recipient, 'employee')
+      AND NOT (
+        game_id_param IS NOT NULL
+        AND (is_game_coach(game_id_param, auth.uid()) OR is_game_official(game_id_param, auth.uid()))
+        AND (is_game_coach(game_id_param, recipient) OR is_game_official(game_id_param, recipient))
+      ) THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+    END IF;
+  END LOOP;
+
+  INSERT INTO message_threads (subject, rating_id, game_id, created_by)
+  VALUES (trim(subject_param), rating_id_param, game_id_param, auth.uid())
+  RETURNING id INTO new_thread_id;
+
+  INSERT INTO message_thread_participants (thread_id, user_id, last_read_at)
+  VALUES (new_thread_id, auth.uid(), now());
+
+  INSERT INTO message_thread_participants (thread_id, user_id)
+  SELECT new_thread_id, r FROM unnest(recipients) AS r;
+
+  INSERT INTO messages (thread_id, sender_id, body)
+  VALUES (new_thread_id, auth.uid(), trim(body_param));
+
+  RETURN jsonb_build_object('success', true, 'thread_id', new_thread_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.send_message(thread_id_param uuid, body_param text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_thread message_threads%ROWTYPE;
+BEGIN
+  SELECT * INTO target_thread
+  FROM message_threads
+  WHERE id = thread_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF NOT is_thread_participant(target_thread.id, auth.uid()) AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(body_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  INSERT INTO messages (thread_id, sender_id, body)
+  VALUES (target_thread.id, auth.uid(), trim(body_param));
+
+  UPDATE message_threads SET last_message_at = now() WHERE id = target_thread.id;
+
+  -- Staff answering a thread join it, so the other side's replies show as unread for them
+  INSERT INTO message_thread_participants (thread_id, user_id, last_read_at)
+  VALUES (target_thread.id, auth.uid(), now())
+  ON CONFLICT (thread_id, user_id) DO UPDATE SET last_read_at = now();
+
+  RETURN jsonb_build_object('success', true, 'thread_id', target_thread.id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_thread_read(thread_id_param uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF is_thread_participant(thread_id_param, auth.uid()) THEN
+    UPDATE message_thread_participants
+    SET last_read_at = now()
+    WHERE thread_id = thread_id_param
+      AND user_id = auth.uid();
+  ELSIF has_role(auth.uid(), 'employee') AND EXISTS (SELECT 1 FROM message_threads WHERE id = thread_id_param) THEN
+    INSERT INTO message_thread_participants (thread_id, user_id, last_read_at)
+    VALUES (thread_id_param, auth.uid(), now());
+  END IF;
+END;
+$$;
+
+-- The caller's threads, newest first, with unread counts. Staff see every thread.
+CREATE OR REPLACE FUNCTION public.get_inbox()
+RETURNS TABLE (
+  thread_id uuid,
+  subject text,
+  rating_id uuid,
+  game_id uuid,
+  last_message_at timestamp with time zone,
+  last_message text,
+  last_sender_name text,
+  participant_names text[],
+  unread_count integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_staff BOOLEAN := has_role(auth.uid(), 'employee');
+BEGIN
+  RETURN QUERY
+  SELECT
+    t.id,
+    t.subject,
+    t.rating_id,
+    t.game_id,
+    t.last_message_at,
+    last_msg.body,
+    last_msg.sender_name,
+    coalesce((
+      SELECT array_agg(coalesce(p.full_name, p.email) ORDER BY p.full_name)
+      FROM message_thread_participants tp
+      JOIN profiles p ON p.id = tp.user_id
+      WHERE tp.thread_id = t.id
+        AND tp.user_id <> auth.uid()
+    ), '{}'),
+    (
+      SELECT count(*)::integer
+      FROM messages m
+      WHERE m.thread_id = t.id
+        AND m.sender_id IS DISTINCT FROM auth.uid()
+        AND m.created_at > coalesce(me.last_read_at, '-infinity'::timestamptz)
+    )
+  FROM message_threads t
+  LEFT JOIN message_thread_participants me ON me.thread_id = t.id AND me.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT m.body, coalesce(p.full_name, p.email) AS sender_name
+    FROM messages m
+    LEFT JOIN profiles p ON p.id = m.sender_id
+    WHERE m.thread_id = t.id
+    ORDER BY m.created_at DESC
+    LIMIT 1
+  ) last_msg ON true
+  WHERE me.user_id IS NOT NULL OR is_staff
+  ORDER BY t.last_message_at DESC;
+END;
+$$;
+
+-- Messages with sender names, which the caller couldn't otherwise read from profiles
+CREATE OR REPLACE FUNCTION public.get_thread_messages(thread_id_param uuid)
+RETURNS TABLE (
+  id uuid,
+  sender_id uuid,
+  sender_name text,
+  sender_is_staff boolean,
+  body text,
+  created_at timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_thread_participant(thread_id_param, auth.uid()) AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    coalesce(p.full_name, p.email),
+    coalesce(has_role(m.sender_id, 'employee'), false),
+    m.body,
+    m.created_at
+  FROM messages m
+  LEFT JOIN profiles p ON p.id = m.sender_id
+  WHERE m.thread_id = thread_id_param
+  ORDER BY m.created_at;
+END;
+$$;
@@ -0,0 +1,326 @@
+-- How far from an umpire's home a new game can be for them to hear about it
+INSERT INTO public.app_settings (key, value, description)
+VALUES ('nearby_game_miles', '25', 'Umpires are told about new open games within this many miles of their home address');
+
+-- Which events each user hears about, and through which channels. Events without a row use
+-- the defaults: in the app, not by email.
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'game_assigned',
+    'game_updated',
+    'game_rescheduled',
+    'game_cancelled',
+    'umpire_withdrew',
+    'rating_received',
+    'new_nearby_game'
+  )),
+  in_app BOOLEAN NOT NULL DEFAULT true,
+  email BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, event_type)
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can set their own notification preferences"
+ON public.notification_preferences
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can change their own notification preferences"
+ON public.notification_preferences
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The channels chosen when the notification was sent. Rows only meant for email stay out of
+-- the notification center.
+ALTER TABLE public.notifications
+ADD COLUMN show_in_app BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN send_email BOOLEAN NOT NULL DEFAULT false;
+
+DROP INDEX IF EXISTS public.idx_notifications_user;
+
+CREATE INDEX idx_notifications_user ON public.notifications(user_id, created_at DESC) WHERE show_in_app;
+
+-- Sends one notification, on the channels the user picked for this event. Nobody is told
+-- about something they did themselves.
+CREATE OR REPLACE FUNCTION public.notify_user(_user_id uuid, _game_id uuid, _type text, _title text, _body text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wants_in_app BOOLEAN := true;
+  wants_email BOOLEAN := false;
+BEGIN
+  IF _user_id IS NULL OR _user_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  SELECT in_app, email INTO wants_in_app, wants_email
+  FROM notification_preferences
+  WHERE user_id = _user_id
+    AND event_type = _type;
+
+  IF NOT FOUND THEN
+    wants_in_app := true;
+    wants_email := false;
+  END IF;
+
+  IF NOT wants_in_app AND NOT wants_email THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (user_id, game_id, type, title, body, show_in_app, send_email)
+  VALUES (_user_id, _game_id, _type, _title, _body, wants_in_app, wants_email);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(uuid, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Crew notices from the game functions now go through each umpire's preferences
+CREATE OR REPLACE FUNCTION public.notify_game_crew(_game_id uuid, _type text, _title text, _body text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_user(umpire_id, _game_id, _type, _title, _body)
+  FROM game_assignments
+  WHERE game_id = _game_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_game_crew(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- The coach who created the game and every coach of its teams
+CREATE OR REPLACE FUNCTION public.notify_game_coaches(_game_id uuid, _type text, _title text, _body text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM notify_user(coaches.coach_id, _game_id, _type, _title, _body)
+  FROM (
+    SELECT g.coach_id FROM games g WHERE g.id = _game_id
+    UNION
+    SELECT tm.coach_id
+    FROM games g
+    JOIN team_members tm ON tm.team_id IN (g.home_team_id, g.away_team_id)
+    WHERE g.id = _game_id
+  ) coaches;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_game_coaches(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Coaches hear when their game is taken, and umpires hear when staff put them on a crew
+CREATE OR REPLACE FUNCTION public.notify_game_assigned()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  umpire_name TEXT;
+  position_name TEXT := initcap(replace(NEW.position::text, '_', ' '));
+BEGIN
+  SELECT * INTO target_game FROM games WHERE id = NEW.game_id;
+  SELECT coalesce(full_name, email) INTO umpire_name FROM profiles WHERE id = NEW.umpire_id;
+
+  PERFORM notify_game_coaches(
+    target_game.id,
+    'game_assigned',
+    'Umpire assigned: ' || target_game.opponent,
+    coalesce(umpire_name, 'An umpire') || ' will work ' || position_name || ' on '
+      || to_char(target_game.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || target_game.location
+  );
+
+  PERFORM notify_user(
+    NEW.umpire_id,
+    target_game.id,
+    'game_assigned',
+    'You''ve been assigned: ' || target_game.opponent,
+    position_name || ' on ' || to_char(target_game.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || target_game.location
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_game_assigned
+  AFTER INSERT ON public.game_assignments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_game_assigned();
+
+-- Coaches hear about cancellations and reschedules made by someone else, such as staff or a
+-- schedule import. Crews are told by the functions that make those changes.
+CREATE OR REPLACE FUNCTION public.notify_game_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    PERFORM notify_game_coaches(
+      NEW.id,
+      'game_cancelled',
+      'Game cancelled: ' || NEW.opponent,
+      to_char(NEW.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || NEW.location
+    );
+  ELSIF NEW.status <> 'cancelled' AND NEW.game_date IS DISTINCT FROM OLD.game_date THEN
+    PERFORM notify_game_coaches(
+      NEW.id,
+      'game_rescheduled',
+      'Game rescheduled: ' || NEW.opponent,
+      'Now ' || to_char(NEW.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || NEW.location
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_game_changed
+  AFTER UPDATE OF status, game_date ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_game_changed();
+
+-- Umpires within range who are qualified for the level hear about games that open up,
+-- whether newly created or back open after a withdrawal
+CREATE OR REPLACE FUNCTION public.notify_new_nearby_game()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_miles NUMERIC;
+BEGIN
+  IF NEW.status <> 'pending' OR NEW.latitude IS NULL OR NEW.longitude IS NULL OR NEW.game_date < now() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce((SELECT value::numeric FROM app_settings WHERE key = 'nearby_game_miles'), 25)
+  INTO max_miles;
+
+  PERFORM notify_user(
+    p.id,
+    NEW.id,
+    'new_nearby_game',
+    'New game near you: ' || NEW.opponent,
+    to_char(NEW.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || NEW.location || ', '
+      || round(distance_miles(p.home_latitude, p.home_longitude, NEW.latitude, NEW.longitude)::numeric, 1)
+      || ' miles away'
+  )
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  WHERE ur.role = 'umpire'
+    AND p.home_latitude IS NOT NULL
+    AND p.home_longitude IS NOT NULL
+    AND distance_miles(p.home_latitude, p.home_longitude, NEW.latitude, NEW.longitude) <= max_miles
+    AND NOT is_game_official(NEW.id, p.id)
+    AND umpire_qualification_issue(p.id, NEW.level_id, NEW.game_date) IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_new_nearby_game
+  AFTER INSERT OR UPDATE OF status ON public.games
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_new_nearby_game();
+
+CREATE OR REPLACE FUNCTION public.notify_rating_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO target_game FROM games WHERE id = NEW.game_id;
+
+  PERFORM notify_user(
+    NEW.umpire_id,
+    NEW.game_id,
+    'rating_received',
+    'New rating: ' || NEW.rating || ' star' || CASE WHEN NEW.rating = 1 THEN '' ELSE 's' END,
+    'For ' || target_game.opponent || ' on ' || to_char(target_game.game_date, 'Dy Mon DD')
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_rating_received
+  AFTER INSERT ON public.ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_rating_received();
+
+-- Coaches need a replacement and staff may need to find one, so both hear about withdrawals
+CREATE OR REPLACE FUNCTION public.notify_umpire_withdrew()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  umpire_name TEXT;
+  details TEXT;
+BEGIN
+  SELECT * INTO target_game FROM games WHERE id = NEW.game_id;
+  SELECT coalesce(full_name, email) INTO umpire_name FROM profiles WHERE id = NEW.umpire_id;
+
+  details := coalesce(umpire_name, 'An umpire') || ' dropped ' || initcap(replace(NEW.position::text, '_', ' '))
+    || ' for ' || to_char(target_game.game_date, 'Dy Mon DD, HH24:MI')
+    || CASE WHEN NEW.is_late THEN ' with ' || NEW.notice_hours || 'h notice' ELSE '' END
+    || '. Reason: ' || NEW.reason;
+
+  PERFORM notify_game_coaches(
+    target_game.id,
+    'umpire_withdrew',
+    'Umpire withdrew: ' || target_game.opponent,
+    details
+  );
+
+  PERFORM notify_user(
+    ur.user_id,
+    target_game.id,
+    'umpire_withdrew',
+    CASE WHEN NEW.is_late THEN 'Late withdrawal: ' ELSE 'Umpire withdrew: ' END || target_game.opponent,
+    details
+  )
+  FROM user_roles ur
+  WHERE ur.role = 'employee';
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_umpire_withdrew
+  AFTER INSERT ON public.umpire_withdrawals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_umpire_withdrew();
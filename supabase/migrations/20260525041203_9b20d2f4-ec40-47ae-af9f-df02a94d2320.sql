@@ -0,0 +1,227 @@
+INSERT INTO public.app_settings (key, value, description)
+VALUES ('email_max_attempts', '5', 'How many times the email worker tries to send a notification before giving up');
+
+-- Where each notification's email stands. Only rows queued for email have a status.
+ALTER TABLE public.notifications
+ADD COLUMN email_status TEXT CHECK (email_status IN ('queued', 'sending', 'sent', 'failed', 'bounced', 'skipped')),
+ADD COLUMN email_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN email_next_attempt_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN email_error TEXT,
+ADD COLUMN emailed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_notifications_email_queue
+ON public.notifications(email_next_attempt_at)
+WHERE email_status IN ('queued', 'sending');
+
+-- Addresses the mail server rejected outright. Nothing more is sent to them until the
+-- owner or staff clear the bounce.
+CREATE TABLE public.email_bounces (
+  email TEXT NOT NULL PRIMARY KEY,
+  reason TEXT,
+  bounce_count INTEGER NOT NULL DEFAULT 1,
+  last_bounced_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_bounces ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view bounces for their own address"
+ON public.email_bounces
+FOR SELECT
+USING (lower(email) = lower((SELECT p.email FROM profiles p WHERE p.id = auth.uid())));
+
+CREATE POLICY "Users can clear bounces for their own address"
+ON public.email_bounces
+FOR DELETE
+USING (lower(email) = lower((SELECT p.email FROM profiles p WHERE p.id = auth.uid())));
+
+CREATE POLICY "Employees can view all bounces"
+ON public.email_bounces
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+CREATE POLICY "Employees can clear bounces"
+ON public.email_bounces
+FOR DELETE
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Emails are queued for the worker alongside the in-app notice
+CREATE OR REPLACE FUNCTION public.notify_user(_user_id uuid, _game_id uuid, _type text, _title text, _body text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wants_in_app BOOLEAN := true;
+  wants_email BOOLEAN := false;
+BEGIN
+  IF _user_id IS NULL OR _user_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  SELECT in_app, email INTO wants_in_app, wants_email
+  FROM notification_preferences
+  WHERE user_id = _user_id
+    AND event_type = _type;
+
+  IF NOT FOUND THEN
+    wants_in_app := true;
+    wants_email := false;
+  END IF;
+
+  IF NOT wants_in_app AND NOT wants_email THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO notifications (
+    user_id, game_id, type, title, body, show_in_app, send_email, email_status, email_next_attempt_at
+  )
+  VALUES (
+    _user_id, _game_id, _type, _title, _body, wants_in_app, wants_email,
+    CASE WHEN wants_email THEN 'queued' END,
+    CASE WHEN wants_email THEN now() END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(uuid, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Hands the email worker a batch of queued emails with what its templates need. Claimed rows
+-- are held for ten minutes, so a worker that dies mid-batch doesn't lose them.
+-- Emails the user has since switched off, or to bounced addresses, are dropped here.
+CREATE OR REPLACE FUNCTION public.claim_email_batch(limit_param integer DEFAULT 25)
+RETURNS TABLE (
+  notification_id uuid,
+  type text,
+  title text,
+  body text,
+  attempt integer,
+  email text,
+  full_name text,
+  time_zone text,
+  game_id uuid,
+  opponent text,
+  game_date timestamp with time zone,
+  location text,
+  level text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE notifications n
+  SET email_status = 'skipped'
+  FROM notification_preferences np
+  WHERE n.email_status = 'queued'
+    AND np.user_id = n.user_id
+    AND np.event_type = n.type
+    AND NOT np.email;
+
+  UPDATE notifications n
+  SET email_status = 'bounced', email_error = b.reason
+  FROM profiles p
+  JOIN email_bounces b ON lower(b.email) = lower(p.email)
+  WHERE n.email_status = 'queued'
+    AND p.id = n.user_id;
+
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE notifications n
+    SET email_status = 'sending',
+        email_attempts = n.email_attempts + 1,
+        email_next_attempt_at = now() + interval '10 minutes'
+    WHERE n.id IN (
+      SELECT q.id
+      FROM notifications q
+      WHERE q.email_status IN ('queued', 'sending')
+        AND q.email_next_attempt_at <= now()
+      ORDER BY q.email_next_attempt_at
+      LIMIT greatest(limit_param, 1)
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING n.*
+  )
+  SELECT
+    c.id,
+    c.type,
+    c.title,
+    c.body,
+    c.email_attempts,
+    p.email,
+    p.full_name,
+    coalesce(p.time_zone, 'UTC'),
+    g.id,
+    g.opponent,
+    g.game_date,
+    g.location,
+    g.level
+  FROM claimed c
+  JOIN profiles p ON p.id = c.user_id
+  LEFT JOIN games g ON g.id = c.game_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_email_batch(integer) FROM PUBLIC, anon, authenticated;
+
+-- Records how a send went. Temporary failures are retried with growing gaps (2, 4, 8... minutes)
+-- until email_max_attempts; a bounce stops all email to that address.
+CREATE OR REPLACE FUNCTION public.record_email_result(
+  notification_id_param uuid,
+  outcome_param text,
+  error_param text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target notifications%ROWTYPE;
+  max_attempts INTEGER;
+BEGIN
+  SELECT * INTO target
+  FROM notifications
+  WHERE id = notification_id_param
+    AND email_status = 'sending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF outcome_param = 'sent' THEN
+    UPDATE notifications
+    SET email_status = 'sent', emailed_at = now(), email_error = NULL, email_next_attempt_at = NULL
+    WHERE id = target.id;
+  ELSIF outcome_param = 'bounced' THEN
+    UPDATE notifications
+    SET email_status = 'bounced', email_error = error_param, email_next_attempt_at = NULL
+    WHERE id = target.id;
+
+    INSERT INTO email_bounces (email, reason)
+    SELECT lower(email), error_param FROM profiles WHERE id = target.user_id
+    ON CONFLICT (email) DO UPDATE
+    SET reason = EXCLUDED.reason,
+        bounce_count = email_bounces.bounce_count + 1,
+        last_bounced_at = now();
+  ELSE
+    SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'email_max_attempts'), 5)
+    INTO max_attempts;
+
+    IF target.email_attempts >= max_attempts THEN
+      UPDATE notifications
+      SET email_status = 'failed', email_error = error_param, email_next_attempt_at = NULL
+      WHERE id = target.id;
+    ELSE
+      UPDATE notifications
+      SET email_status = 'queued',
+          email_error = error_param,
+          email_next_attempt_at = now() + make_interval(mins => power(2, target.email_attempts)::integer)
+      WHERE id = target.id;
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_email_result(uuid, text, text) FROM PUBLIC, anon, authenticated;
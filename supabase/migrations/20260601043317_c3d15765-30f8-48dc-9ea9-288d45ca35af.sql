@@ -0,0 +1,225 @@
+-- Scheduled jobs: game reminders, escalation of unfilled games, completion nags, releasing
+-- lapsed reschedules and running the email worker.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+INSERT INTO public.app_settings (key, value, description)
+VALUES
+  ('unfilled_escalation_hours', '72', 'Staff are alerted about games still missing officials this many hours before they start'),
+  ('completion_reminder_limit', '3', 'How many daily reminders a coach gets to confirm a game was played');
+
+ALTER TABLE public.notification_preferences
+DROP CONSTRAINT IF EXISTS notification_preferences_event_type_check;
+
+ALTER TABLE public.notification_preferences
+ADD CONSTRAINT notification_preferences_event_type_check CHECK (event_type IN (
+  'game_assigned',
+  'game_updated',
+  'game_rescheduled',
+  'game_cancelled',
+  'umpire_withdrew',
+  'rating_received',
+  'new_nearby_game',
+  'game_reminder',
+  'game_unfilled',
+  'completion_reminder'
+));
+
+-- Every scheduled reminder sent, so each goes out once. game_date is the game's time when the
+-- reminder was sent, so a rescheduled game gets fresh reminders for its new time.
+CREATE TABLE public.reminder_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  game_id UUID NOT NULL REFERENCES public.games(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('reminder_48h', 'reminder_2h', 'unfilled', 'completion')),
+  game_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_reminder_log_game ON public.reminder_log(game_id, kind, user_id);
+
+ALTER TABLE public.reminder_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view reminder log"
+ON public.reminder_log
+FOR SELECT
+USING (has_role(auth.uid(), 'employee'::app_role));
+
+-- Sends one reminder and logs it
+CREATE OR REPLACE FUNCTION public.send_reminder(
+  _game games,
+  _user_id uuid,
+  _kind text,
+  _type text,
+  _title text,
+  _body text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM notify_user(_user_id, _game.id, _type, _title, _body);
+
+  INSERT INTO reminder_log (game_id, user_id, kind, game_date)
+  VALUES (_game.id, _user_id, _kind, _game.game_date);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_reminder(games, uuid, text, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Run every fifteen minutes. Reminders for a window that was missed (a game created 30 hours
+-- out, say) go out on the next run rather than being skipped.
+CREATE OR REPLACE FUNCTION public.send_game_reminders()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escalation_hours INTEGER;
+  nag_limit INTEGER;
+  upcoming games%ROWTYPE;
+  recipient UUID;
+  reminder_kind TEXT;
+  reminder_count INTEGER := 0;
+  escalation_count INTEGER := 0;
+  nag_count INTEGER := 0;
+BEGIN
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'unfilled_escalation_hours'), 72)
+  INTO escalation_hours;
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'completion_reminder_limit'), 3)
+  INTO nag_limit;
+
+  -- 48 and 2 hour reminders to the crew and the game's coaches
+  FOR upcoming IN
+    SELECT * FROM games
+    WHERE status IN ('pending', 'assigned')
+      AND game_date > now()
+      AND game_date <= now() + interval '48 hours'
+  LOOP
+    reminder_kind := CASE WHEN upcoming.game_date <= now() + interval '2 hours' THEN 'reminder_2h' ELSE 'reminder_48h' END;
+
+    FOR recipient IN
+      SELECT umpire_id FROM game_assignments WHERE game_id = upcoming.id
+      UNION
+      SELECT upcoming.coach_id
+      UNION
+      SELECT tm.coach_id FROM team_members tm WHERE tm.team_id IN (upcoming.home_team_id, upcoming.away_team_id)
+    LOOP
+      CONTINUE WHEN recipient IS NULL OR EXISTS (
+        SELECT 1 FROM reminder_log rl
+        WHERE rl.game_id = upcoming.id
+          AND rl.user_id = recipient
+          AND rl.kind = reminder_kind
+          AND rl.game_date = upcoming.game_date
+      );
+
+      PERFORM send_reminder(
+        upcoming,
+        recipient,
+        reminder_kind,
+        'game_reminder',
+        CASE WHEN reminder_kind = 'reminder_2h' THEN 'Starting soon: ' ELSE 'Coming up: ' END || upcoming.opponent,
+        to_char(upcoming.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || upcoming.location
+      );
+      reminder_count := reminder_count + 1;
+    END LOOP;
+  END LOOP;
+
+  -- Games still missing officials close to game time go to staff, once per game time
+  FOR upcoming IN
+    SELECT * FROM games
+    WHERE status = 'pending'
+      AND game_date > now()
+      AND game_date <= now() + make_interval(hours => escalation_hours)
+  LOOP
+    FOR recipient IN
+      SELECT ur.user_id FROM user_roles ur WHERE ur.role = 'employee'
+    LOOP
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM reminder_log rl
+        WHERE rl.game_id = upcoming.id
+          AND rl.user_id = recipient
+          AND rl.kind = 'unfilled'
+          AND rl.game_date = upcoming.game_date
+      );
+
+      PERFORM send_reminder(
+        upcoming,
+        recipient,
+        'unfilled',
+        'game_unfilled',
+        'Still unfilled: ' || upcoming.opponent,
+        to_char(upcoming.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || upcoming.location || '. '
+          || (SELECT count(*) FROM game_assignments ga WHERE ga.game_id = upcoming.id) || ' of '
+          || cardinality(upcoming.required_positions) || ' positions filled'
+      );
+      escalation_count := escalation_count + 1;
+    END LOOP;
+  END LOOP;
+
+  -- Coaches who haven't confirmed a played game, once a day from a day after it
+  FOR upcoming IN
+    SELECT * FROM games
+    WHERE status = 'assigned'
+      AND coach_id IS NOT NULL
+      AND game_date <= now() - interval '1 day'
+  LOOP
+    CONTINUE WHEN (
+      SELECT count(*) FROM reminder_log rl
+      WHERE rl.game_id = upcoming.id AND rl.user_id = upcoming.coach_id AND rl.kind = 'completion'
+    ) >= nag_limit OR EXISTS (
+      SELECT 1 FROM reminder_log rl
+      WHERE rl.game_id = upcoming.id
+        AND rl.user_id = upcoming.coach_id
+        AND rl.kind = 'completion'
+        AND rl.sent_at > now() - interval '1 day'
+    );
+
+    PERFORM send_reminder(
+      upcoming,
+      upcoming.coach_id,
+      'completion',
+      'completion_reminder',
+      'Was this game played? ' || upcoming.opponent,
+      to_char(upcoming.game_date, 'Dy Mon DD, HH24:MI') || ' at ' || upcoming.location
+        || '. Confirm it on your dashboard so the crew can be rated.'
+    );
+    nag_count := nag_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('reminders', reminder_count, 'escalations', escalation_count, 'completion_reminders', nag_count);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.send_game_reminders() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule('send-game-reminders', '*/15 * * * *', $$SELECT public.send_game_reminders()$$);
+
+-- Lapsed reschedules are also freed when dashboards load; this catches them when nobody does
+SELECT cron.schedule('release-unconfirmed-reschedules', '*/15 * * * *', $$SELECT public.release_unconfirmed_reschedules()$$);
+
+-- Runs the email worker every minute. The project URL and service role key are read from Vault
+-- secrets named project_url and service_role_key, which are set once per project rather than
+-- checked in here.
+SELECT cron.schedule(
+  'send-notification-emails',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-notification-emails',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
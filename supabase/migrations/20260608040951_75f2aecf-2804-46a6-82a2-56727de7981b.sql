@@ -0,0 +1,8 @@
+-- Dashboards subscribe to changes on these tables through Supabase Realtime. Events are
+-- filtered by each table's RLS policies, so subscribers only hear about rows they can read.
+-- game_assignments is included because filling one position of a partly staffed game doesn't
+-- touch the games row.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.games;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.game_assignments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ratings;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.umpire_requests;
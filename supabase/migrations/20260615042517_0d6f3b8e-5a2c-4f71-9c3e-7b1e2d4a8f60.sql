@@ -0,0 +1,69 @@
+-- Invitations are no longer claimed just by signing up with a matching address. The invited
+-- coach claims them with the token from their link, once their email is confirmed, and only if
+-- they signed up as a coach.
+DROP TRIGGER IF EXISTS claim_coach_invitations_after_profile_insert ON public.profiles;
+DROP FUNCTION IF EXISTS public.claim_coach_invitations();
+
+CREATE OR REPLACE FUNCTION public.claim_coach_invitation(token_param uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  invitation coach_invitations%ROWTYPE;
+  account_email TEXT;
+  confirmed_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_signed_in');
+  END IF;
+
+  SELECT * INTO invitation
+  FROM coach_invitations
+  WHERE token = token_param
+    AND accepted_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  SELECT email, email_confirmed_at INTO account_email, confirmed_at
+  FROM auth.users
+  WHERE id = auth.uid();
+
+  IF confirmed_at IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'email_not_confirmed');
+  END IF;
+
+  IF lower(account_email) <> lower(invitation.email) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'email_mismatch');
+  END IF;
+
+  IF NOT has_role(auth.uid(), 'coach') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_coach');
+  END IF;
+
+  UPDATE umpire_requests
+  SET coach_id = auth.uid()
+  WHERE coach_id IS NULL
+    AND game_id IN (SELECT id FROM games WHERE coach_invitation_id = invitation.id);
+
+  UPDATE games
+  SET coach_id = auth.uid()
+  WHERE coach_invitation_id = invitation.id
+    AND coach_id IS NULL;
+
+  UPDATE team_coach_aliases
+  SET coach_id = auth.uid()
+  WHERE coach_invitation_id = invitation.id;
+
+  UPDATE coach_invitations
+  SET accepted_at = now(),
+      accepted_user_id = auth.uid()
+  WHERE id = invitation.id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
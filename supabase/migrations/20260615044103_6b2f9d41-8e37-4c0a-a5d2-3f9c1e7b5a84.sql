@@ -0,0 +1,49 @@
+-- Coaches no longer update games directly: the team-coach policy let either side's coaches
+-- write any column, skipping the reasons and crew notifications edit_game, reschedule_game and
+-- cancel_game require. Changes before a game go through those functions, and confirming
+-- whether a past game was played goes through record_game_outcome below.
+DROP POLICY IF EXISTS "Coaches can update their teams' games" ON public.games;
+
+-- Marks a game that has started as played or not played. Only open games can be closed this
+-- way; anything before game time is a cancellation and needs a reason.
+CREATE OR REPLACE FUNCTION public.record_game_outcome(game_id_param uuid, played_param boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  IF NOT is_game_coach(target_game.id, auth.uid()) AND NOT has_role(auth.uid(), 'employee') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF target_game.status NOT IN ('pending', 'assigned') THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'game_closed');
+  END IF;
+
+  IF target_game.game_date > now() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'game_not_started');
+  END IF;
+
+  IF NOT played_param THEN
+    PERFORM set_config('app.game_change_reason', 'Game did not take place', true);
+  END IF;
+
+  UPDATE games
+  SET status = CASE WHEN played_param THEN 'completed'::game_status ELSE 'cancelled'::game_status END
+  WHERE id = target_game.id;
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
@@ -0,0 +1,754 @@
+-- Notification text used to print game times with to_char, which formats in the database's
+-- session zone (UTC) with no zone label. Times are now marked with time_marker() where the
+-- text is built, and notify_user writes each one out in the recipient's profile time zone.
+
+-- Stands in for a time in notification text until notify_user knows who it is for
+CREATE OR REPLACE FUNCTION public.time_marker(_ts timestamp with time zone)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT '{time:' || to_char(_ts AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"') || '}';
+$$;
+
+-- e.g. "Sat Apr 04, 18:00 CDT". The SET clause keeps the zone change inside this function;
+-- unknown zones fall back to UTC.
+CREATE OR REPLACE FUNCTION public.format_local_time(_ts timestamp with time zone, _time_zone text)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+SET timezone = 'UTC'
+AS $$
+BEGIN
+  BEGIN
+    PERFORM set_config('timezone', coalesce(_time_zone, 'UTC'), true);
+  EXCEPTION WHEN invalid_parameter_value THEN
+    PERFORM set_config('timezone', 'UTC', true);
+  END;
+
+  RETURN to_char(_ts, 'Dy Mon DD, HH24:MI TZ');
+END;
+$$;
+
+-- Replaces every time_marker() in the text with the time in the given zone
+CREATE OR REPLACE FUNCTION public.render_local_times(_text text, _time_zone text)
+RETURNS text
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  marked TEXT;
+  rendered TEXT := _text;
+BEGIN
+  FOR marked IN
+    SELECT DISTINCT m[1] FROM regexp_matches(_text, '\{time:([^}]+)\}', 'g') AS m
+  LOOP
+    rendered := replace(rendered, '{time:' || marked || '}', format_local_time(marked::timestamptz, _time_zone));
+  END LOOP;
+
+  RETURN rendered;
+END;
+$$;
+
+-- Times in the body are written out in the recipient's own time zone, so the in-app notice
+-- and the email agree with each other and with the email's game details
+CREATE OR REPLACE FUNCTION public.notify_user(_user_id uuid, _game_id uuid, _type text, _title text, _body text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wants_in_app BOOLEAN := true;
+  wants_email BOOLEAN := false;
+  recipient_time_zone TEXT;
+BEGIN
+  IF _user_id IS NULL OR _user_id = auth.uid() THEN
+    RETURN;
+  END IF;
+
+  SELECT in_app, email INTO wants_in_app, wants_email
+  FROM notification_preferences
+  WHERE user_id = _user_id
+    AND event_type = _type;
+
+  IF NOT FOUND THEN
+    wants_in_app := true;
+    wants_email := false;
+  END IF;
+
+  IF NOT wants_in_app AND NOT wants_email THEN
+    RETURN;
+  END IF;
+
+  SELECT time_zone INTO recipient_time_zone FROM profiles WHERE id = _user_id;
+
+  INSERT INTO notifications (
+    user_id, game_id, type, title, body, show_in_app, send_email, email_status, email_next_attempt_at
+  )
+  VALUES (
+    _user_id, _game_id, _type, _title, render_local_times(_body, recipient_time_zone), wants_in_app, wants_email,
+    CASE WHEN wants_email THEN 'queued' END,
+    CASE WHEN wants_email THEN now() END
+  );
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.notify_user(uuid, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Coaches hear when their game is taken, and umpires hear when staff put them on a crew
+CREATE OR REPLACE FUNCTION public.notify_game_assigned()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  umpire_name TEXT;
+  position_name TEXT := initcap(replace(NEW.position::text, '_', ' '));
+BEGIN
+  SELECT * INTO target_game FROM games WHERE id = NEW.game_id;
+  SELECT coalesce(full_name, email) INTO umpire_name FROM profiles WHERE id = NEW.umpire_id;
+
+  PERFORM notify_game_coaches(
+    target_game.id,
+    'game_assigned',
+    'Umpire assigned: ' || target_game.opponent,
+    coalesce(umpire_name, 'An umpire') || ' will work ' || position_name || ' on '
+      || time_marker(target_game.game_date) || ' at ' || target_game.location
+  );
+
+  PERFORM notify_user(
+    NEW.umpire_id,
+    target_game.id,
+    'game_assigned',
+    'You''ve been assigned: ' || target_game.opponent,
+    position_name || ' on ' || time_marker(target_game.game_date) || ' at ' || target_game.location
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+
+-- Coaches hear about cancellations and reschedules made by someone else, such as staff or a
+-- schedule import. Crews are told by the functions that make those changes.
+CREATE OR REPLACE FUNCTION public.notify_game_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    PERFORM notify_game_coaches(
+      NEW.id,
+      'game_cancelled',
+      'Game cancelled: ' || NEW.opponent,
+      time_marker(NEW.game_date) || ' at ' || NEW.location
+    );
+  ELSIF NEW.status <> 'cancelled' AND NEW.game_date IS DISTINCT FROM OLD.game_date THEN
+    PERFORM notify_game_coaches(
+      NEW.id,
+      'game_rescheduled',
+      'Game rescheduled: ' || NEW.opponent,
+      'Now ' || time_marker(NEW.game_date) || ' at ' || NEW.location
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+
+-- Umpires within range who are qualified for the level hear about games that open up,
+-- whether newly created or back open after a withdrawal
+CREATE OR REPLACE FUNCTION public.notify_new_nearby_game()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  max_miles NUMERIC;
+BEGIN
+  IF NEW.status <> 'pending' OR NEW.latitude IS NULL OR NEW.longitude IS NULL OR NEW.game_date < now() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT coalesce((SELECT value::numeric FROM app_settings WHERE key = 'nearby_game_miles'), 25)
+  INTO max_miles;
+
+  PERFORM notify_user(
+    p.id,
+    NEW.id,
+    'new_nearby_game',
+    'New game near you: ' || NEW.opponent,
+    time_marker(NEW.game_date) || ' at ' || NEW.location || ', '
+      || round(distance_miles(p.home_latitude, p.home_longitude, NEW.latitude, NEW.longitude)::numeric, 1)
+      || ' miles away'
+  )
+  FROM user_roles ur
+  JOIN profiles p ON p.id = ur.user_id
+  WHERE ur.role = 'umpire'
+    AND p.home_latitude IS NOT NULL
+    AND p.home_longitude IS NOT NULL
+    AND distance_miles(p.home_latitude, p.home_longitude, NEW.latitude, NEW.longitude) <= max_miles
+    AND NOT is_game_official(NEW.id, p.id)
+    AND umpire_qualification_issue(p.id, NEW.level_id, NEW.game_date) IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.notify_rating_received()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+BEGIN
+  SELECT * INTO target_game FROM games WHERE id = NEW.game_id;
+
+  PERFORM notify_user(
+    NEW.umpire_id,
+    NEW.game_id,
+    'rating_received',
+    'New rating: ' || NEW.rating || ' star' || CASE WHEN NEW.rating = 1 THEN '' ELSE 's' END,
+    'For ' || target_game.opponent || ' on ' || time_marker(target_game.game_date)
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+
+-- Coaches need a replacement and staff may need to find one, so both hear about withdrawals
+CREATE OR REPLACE FUNCTION public.notify_umpire_withdrew()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  umpire_name TEXT;
+  details TEXT;
+BEGIN
+  SELECT * INTO target_game FROM games WHERE id = NEW.game_id;
+  SELECT coalesce(full_name, email) INTO umpire_name FROM profiles WHERE id = NEW.umpire_id;
+
+  details := coalesce(umpire_name, 'An umpire') || ' dropped ' || initcap(replace(NEW.position::text, '_', ' '))
+    || ' for ' || time_marker(target_game.game_date)
+    || CASE WHEN NEW.is_late THEN ' with ' || NEW.notice_hours || 'h notice' ELSE '' END
+    || '. Reason: ' || NEW.reason;
+
+  PERFORM notify_game_coaches(
+    target_game.id,
+    'umpire_withdrew',
+    'Umpire withdrew: ' || target_game.opponent,
+    details
+  );
+
+  PERFORM notify_user(
+    ur.user_id,
+    target_game.id,
+    'umpire_withdrew',
+    CASE WHEN NEW.is_late THEN 'Late withdrawal: ' ELSE 'Umpire withdrew: ' END || target_game.opponent,
+    details
+  )
+  FROM user_roles ur
+  WHERE ur.role = 'employee';
+
+  RETURN NEW;
+END;
+$$;
+
+
+CREATE OR REPLACE FUNCTION public.edit_game(
+  game_id_param uuid,
+  opponent_param text,
+  required_positions_param umpire_position[],
+  division_id_param uuid,
+  level_id_param uuid,
+  reason_param text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  blocked TEXT;
+  new_level_id UUID := level_id_param;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  blocked := game_change_blocked(target_game, reason_param);
+  IF blocked IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', blocked);
+  END IF;
+
+  IF coalesce(trim(opponent_param), '') = '' OR coalesce(cardinality(required_positions_param), 0) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM game_assignments
+    WHERE game_id = target_game.id
+      AND NOT (position = ANY(required_positions_param))
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'position_filled');
+  END IF;
+
+  -- A division decides the level
+  IF division_id_param IS NOT NULL THEN
+    SELECT level_id INTO new_level_id FROM divisions WHERE id = division_id_param;
+  END IF;
+
+  -- Raising the level can't leave an official on a game they aren't certified for
+  IF EXISTS (
+    SELECT 1 FROM game_assignments
+    WHERE game_id = target_game.id
+      AND umpire_qualification_issue(umpire_id, new_level_id, target_game.game_date) IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'crew_not_qualified');
+  END IF;
+
+  IF trim(opponent_param) = target_game.opponent
+    AND required_positions_param = target_game.required_positions
+    AND division_id_param IS NOT DISTINCT FROM target_game.division_id
+    AND new_level_id IS NOT DISTINCT FROM target_game.level_id THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_change');
+  END IF;
+
+  PERFORM set_config('app.game_change_reason', trim(reason_param), true);
+
+  UPDATE games
+  SET opponent = trim(opponent_param),
+      required_positions = required_positions_param,
+      division_id = division_id_param,
+      level_id = new_level_id,
+      level = CASE WHEN new_level_id IS NULL THEN NULL ELSE level END
+  WHERE id = target_game.id;
+
+  PERFORM notify_game_crew(
+    target_game.id,
+    'game_updated',
+    'Game updated: ' || trim(opponent_param),
+    time_marker(target_game.game_date) || ' at ' || target_game.location
+      || '. Reason: ' || trim(reason_param)
+  );
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+
+-- Moves an upcoming game. Its crew keeps the game only by confirming the new time within
+-- reschedule_confirm_hours (or before the game, if that is sooner).
+CREATE OR REPLACE FUNCTION public.reschedule_game(
+  game_id_param uuid,
+  game_date_param timestamp with time zone,
+  location_param text,
+  venue_id_param uuid,
+  latitude_param numeric,
+  longitude_param numeric,
+  reason_param text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  blocked TEXT;
+  confirm_hours INTEGER;
+  confirm_by TIMESTAMP WITH TIME ZONE;
+  crew_count INTEGER;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  blocked := game_change_blocked(target_game, reason_param);
+  IF blocked IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', blocked);
+  END IF;
+
+  IF game_date_param IS NULL OR game_date_param <= now() THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'date_in_past');
+  END IF;
+
+  IF coalesce(trim(location_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF game_date_param = target_game.game_date
+    AND trim(location_param) = target_game.location
+    AND venue_id_param IS NOT DISTINCT FROM target_game.venue_id THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'no_change');
+  END IF;
+
+  PERFORM set_config('app.game_change_reason', trim(reason_param), true);
+
+  UPDATE games
+  SET game_date = game_date_param,
+      location = trim(location_param),
+      venue_id = venue_id_param,
+      latitude = latitude_param,
+      longitude = longitude_param
+  WHERE id = target_game.id;
+
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'reschedule_confirm_hours'), 24)
+  INTO confirm_hours;
+
+  confirm_by := least(now() + make_interval(hours => confirm_hours), game_date_param);
+
+  UPDATE game_assignments
+  SET reschedule_confirm_by = confirm_by
+  WHERE game_id = target_game.id;
+
+  GET DIAGNOSTICS crew_count = ROW_COUNT;
+
+  PERFORM notify_game_crew(
+    target_game.id,
+    'game_rescheduled',
+    'Game rescheduled: ' || target_game.opponent,
+    'Now ' || time_marker(game_date_param) || ' at ' || trim(location_param)
+      || '. Confirm by ' || time_marker(confirm_by) || ' to keep your spot. Reason: '
+      || trim(reason_param)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'game_id', target_game.id,
+    'crew_to_confirm', crew_count,
+    'confirm_by', confirm_by
+  );
+END;
+$$;
+
+
+-- Calls off an upcoming game. The crew stays on record so they can see what happened.
+CREATE OR REPLACE FUNCTION public.cancel_game(game_id_param uuid, reason_param text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target_game games%ROWTYPE;
+  blocked TEXT;
+BEGIN
+  SELECT * INTO target_game
+  FROM games
+  WHERE id = game_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_found');
+  END IF;
+
+  blocked := game_change_blocked(target_game, reason_param);
+  IF blocked IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', blocked);
+  END IF;
+
+  PERFORM set_config('app.game_change_reason', trim(reason_param), true);
+
+  UPDATE games
+  SET status = 'cancelled'
+  WHERE id = target_game.id;
+
+  UPDATE game_assignments
+  SET reschedule_confirm_by = NULL
+  WHERE game_id = target_game.id;
+
+  PERFORM notify_game_crew(
+    target_game.id,
+    'game_cancelled',
+    'Game cancelled: ' || target_game.opponent,
+    time_marker(target_game.game_date) || ' at ' || target_game.location
+      || '. Reason: ' || trim(reason_param)
+  );
+
+  RETURN jsonb_build_object('success', true, 'game_id', target_game.id);
+END;
+$$;
+
+
+-- Import rows can name an invited coach instead of an existing one
+CREATE OR REPLACE FUNCTION public.import_games(
+  rows_param jsonb,
+  source_id_param uuid DEFAULT NULL,
+  skip_invalid_param boolean DEFAULT false,
+  cancel_game_ids_param uuid[] DEFAULT '{}'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  game_row jsonb;
+  existing games%ROWTYPE;
+  new_game_id UUID;
+  cancel_id UUID;
+  incoming_date TIMESTAMP WITH TIME ZONE;
+  incoming_venue UUID;
+  incoming_coach UUID;
+  incoming_invitation UUID;
+  changes TEXT[];
+  row_results jsonb := '[]'::jsonb;
+  cancel_results jsonb := '[]'::jsonb;
+  created_count INTEGER := 0;
+  updated_count INTEGER := 0;
+  unchanged_count INTEGER := 0;
+  cancelled_count INTEGER := 0;
+  failed_count INTEGER := 0;
+  rolled_back BOOLEAN := false;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can import games';
+  END IF;
+
+  IF jsonb_typeof(rows_param) <> 'array' THEN
+    RAISE EXCEPTION 'rows_param must be a JSON array';
+  END IF;
+
+  BEGIN
+    FOR game_row IN SELECT * FROM jsonb_array_elements(rows_param)
+    LOOP
+      BEGIN
+        IF coalesce(trim(game_row->>'opponent'), '') = '' THEN
+          RAISE EXCEPTION 'Missing opponent' USING ERRCODE = '22023';
+        END IF;
+
+        IF coalesce(trim(game_row->>'location'), '') = '' THEN
+          RAISE EXCEPTION 'Missing location' USING ERRCODE = '22023';
+        END IF;
+
+        IF game_row->>'game_date' IS NULL THEN
+          RAISE EXCEPTION 'Missing/invalid date' USING ERRCODE = '22023';
+        END IF;
+
+        incoming_coach := (game_row->>'coach_id')::uuid;
+        incoming_invitation := CASE WHEN incoming_coach IS NULL THEN (game_row->>'coach_invitation_id')::uuid END;
+
+        IF incoming_coach IS NOT NULL THEN
+          IF NOT has_role(incoming_coach, 'coach') THEN
+            RAISE EXCEPTION 'Coach not found' USING ERRCODE = '22023';
+          END IF;
+        ELSIF incoming_invitation IS NULL OR NOT EXISTS (
+          SELECT 1 FROM coach_invitations WHERE id = incoming_invitation AND accepted_at IS NULL
+        ) THEN
+          RAISE EXCEPTION 'Coach not found' USING ERRCODE = '22023';
+        END IF;
+
+        incoming_date := (game_row->>'game_date')::timestamptz;
+        incoming_venue := (game_row->>'venue_id')::uuid;
+
+        existing := NULL;
+        IF source_id_param IS NOT NULL AND nullif(trim(game_row->>'external_id'), '') IS NOT NULL THEN
+          SELECT * INTO existing
+          FROM games
+          WHERE import_source_id = source_id_param
+            AND external_id = trim(game_row->>'external_id')
+          FOR UPDATE;
+        END IF;
+
+        IF existing.id IS NOT NULL THEN
+          changes := ARRAY[]::TEXT[];
+          IF existing.game_date <> incoming_date THEN changes := changes || 'time'; END IF;
+          IF existing.location <> trim(game_row->>'location')
+            OR existing.venue_id IS DISTINCT FROM incoming_venue THEN
+            changes := changes || 'location';
+          END IF;
+          IF existing.opponent <> trim(game_row->>'opponent') THEN changes := changes || 'opponent'; END IF;
+          IF existing.level IS DISTINCT FROM nullif(trim(game_row->>'level'), '') THEN
+            changes := changes || 'level';
+          END IF;
+          IF existing.coach_id IS DISTINCT FROM incoming_coach
+            OR (incoming_coach IS NULL AND existing.coach_invitation_id IS DISTINCT FROM incoming_invitation) THEN
+            changes := changes || 'coach';
+          END IF;
+
+          IF cardinality(changes) = 0 THEN
+            unchanged_count := unchanged_count + 1;
+            row_results := row_results || jsonb_build_object(
+              'row_index', (game_row->>'row_index')::integer,
+              'status', 'unchanged',
+              'game_id', existing.id
+            );
+            CONTINUE;
+          END IF;
+
+          IF existing.status IN ('completed', 'cancelled') THEN
+            RAISE EXCEPTION 'Game is already %', existing.status USING ERRCODE = '22023';
+          END IF;
+
+          UPDATE games
+          SET game_date = incoming_date,
+              location = trim(game_row->>'location'),
+              venue_id = incoming_venue,
+              latitude = coalesce((game_row->>'latitude')::numeric, CASE WHEN 'location' = ANY(changes) THEN NULL ELSE latitude END),
+              longitude = coalesce((game_row->>'longitude')::numeric, CASE WHEN 'location' = ANY(changes) THEN NULL ELSE longitude END),
+              opponent = trim(game_row->>'opponent'),
+              level = nullif(trim(game_row->>'level'), ''),
+              coach_id = incoming_coach,
+              coach_invitation_id = incoming_invitation
+          WHERE id = existing.id;
+
+          UPDATE umpire_requests
+          SET coach_id = incoming_coach
+          WHERE game_id = existing.id
+            AND 'coach' = ANY(changes);
+
+          IF 'time' = ANY(changes) OR 'location' = ANY(changes) THEN
+            PERFORM notify_game_crew(
+              existing.id,
+              'game_updated',
+              'Game updated: ' || trim(game_row->>'opponent'),
+              'Now ' || time_marker(incoming_date) || ' at ' || trim(game_row->>'location')
+            );
+          END IF;
+
+          updated_count := updated_count + 1;
+          row_results := row_results || jsonb_build_object(
+            'row_index', (game_row->>'row_index')::integer,
+            'status', 'updated',
+            'game_id', existing.id,
+            'changes', to_jsonb(changes)
+          );
+          CONTINUE;
+        END IF;
+
+        INSERT INTO games (
+          coach_id, coach_invitation_id, game_date, location, venue_id, latitude, longitude,
+          opponent, level, external_id, import_source_id, status
+        )
+        VALUES (
+          incoming_coach,
+          incoming_invitation,
+          incoming_date,
+          trim(game_row->>'location'),
+          incoming_venue,
+          (game_row->>'latitude')::numeric,
+          (game_row->>'longitude')::numeric,
+          trim(game_row->>'opponent'),
+          nullif(trim(game_row->>'level'), ''),
+          nullif(trim(game_row->>'external_id'), ''),
+          source_id_param,
+          'pending'
+        )
+        RETURNING id INTO new_game_id;
+
+        INSERT INTO umpire_requests (game_id, coach_id, status)
+        VALUES (new_game_id, incoming_coach, 'pending');
+
+        created_count := created_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'created',
+          'game_id', new_game_id
+        );
+      EXCEPTION WHEN OTHERS THEN
+        failed_count := failed_count + 1;
+        row_results := row_results || jsonb_build_object(
+          'row_index', (game_row->>'row_index')::integer,
+          'status', 'failed',
+          'error', SQLERRM
+        );
+      END;
+    END LOOP;
+
+    -- Games staff chose to cancel because they are no longer in the source's schedule
+    FOREACH cancel_id IN ARRAY coalesce(cancel_game_ids_param, '{}')
+    LOOP
+      UPDATE games
+      SET status = 'cancelled'
+      WHERE id = cancel_id
+        AND import_source_id = source_id_param
+        AND status IN ('pending', 'assigned')
+      RETURNING * INTO existing;
+
+      IF FOUND THEN
+        PERFORM notify_game_crew(
+          existing.id,
+          'game_cancelled',
+          'Game cancelled: ' || existing.opponent,
+          time_marker(existing.game_date) || ' at ' || existing.location
+        );
+        cancelled_count := cancelled_count + 1;
+        cancel_results := cancel_results || jsonb_build_object('game_id', cancel_id, 'status', 'cancelled');
+      ELSE
+        cancel_results := cancel_results || jsonb_build_object(
+          'game_id', cancel_id,
+          'status', 'failed',
+          'error', 'Game is not an open game from this source'
+        );
+      END IF;
+    END LOOP;
+
+    IF failed_count > 0 AND NOT skip_invalid_param THEN
+      RAISE EXCEPTION 'Batch rejected' USING ERRCODE = 'UI001';
+    END IF;
+  EXCEPTION WHEN SQLSTATE 'UI001' THEN
+    rolled_back := true;
+  END;
+
+  IF rolled_back THEN
+    -- Nothing was kept, so rows that did go through are reported as not imported
+    SELECT coalesce(jsonb_agg(
+      CASE
+        WHEN r->>'status' IN ('created', 'updated') THEN (r - 'game_id' - 'changes') || jsonb_build_object('status', 'rolled_back')
+        ELSE r
+      END
+    ), '[]'::jsonb)
+    INTO row_results
+    FROM jsonb_array_elements(row_results) r;
+
+    cancel_results := '[]'::jsonb;
+    created_count := 0;
+    updated_count := 0;
+    cancelled_count := 0;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', NOT rolled_back,
+    'created_count', created_count,
+    'updated_count', updated_count,
+    'unchanged_count', unchanged_count,
+    'cancelled_count', cancelled_count,
+    'failed_count', failed_count,
+    'rolled_back', rolled_back,
+    'rows', row_results,
+    'cancellations', cancel_results
+  );
+END;
+$$;
+
@@ -0,0 +1,127 @@
+-- Reminder text now marks game times with time_marker(), so notify_user writes them out in
+-- each recipient's time zone like other notifications.
+CREATE OR REPLACE FUNCTION public.send_game_reminders()
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escalation_hours INTEGER;
+  nag_limit INTEGER;
+  upcoming games%ROWTYPE;
+  recipient UUID;
+  reminder_kind TEXT;
+  reminder_count INTEGER := 0;
+  escalation_count INTEGER := 0;
+  nag_count INTEGER := 0;
+BEGIN
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'unfilled_escalation_hours'), 72)
+  INTO escalation_hours;
+  SELECT coalesce((SELECT value::integer FROM app_settings WHERE key = 'completion_reminder_limit'), 3)
+  INTO nag_limit;
+
+  -- 48 and 2 hour reminders to the crew and the game's coaches
+  FOR upcoming IN
+    SELECT * FROM games
+    WHERE status IN ('pending', 'assigned')
+      AND game_date > now()
+      AND game_date <= now() + interval '48 hours'
+  LOOP
+    reminder_kind := CASE WHEN upcoming.game_date <= now() + interval '2 hours' THEN 'reminder_2h' ELSE 'reminder_48h' END;
+
+    FOR recipient IN
+      SELECT umpire_id FROM game_assignments WHERE game_id = upcoming.id
+      UNION
+      SELECT upcoming.coach_id
+      UNION
+      SELECT tm.coach_id FROM team_members tm WHERE tm.team_id IN (upcoming.home_team_id, upcoming.away_team_id)
+    LOOP
+      CONTINUE WHEN recipient IS NULL OR EXISTS (
+        SELECT 1 FROM reminder_log rl
+        WHERE rl.game_id = upcoming.id
+          AND rl.user_id = recipient
+          AND rl.kind = reminder_kind
+          AND rl.game_date = upcoming.game_date
+      );
+
+      PERFORM send_reminder(
+        upcoming,
+        recipient,
+        reminder_kind,
+        'game_reminder',
+        CASE WHEN reminder_kind = 'reminder_2h' THEN 'Starting soon: ' ELSE 'Coming up: ' END || upcoming.opponent,
+        time_marker(upcoming.game_date) || ' at ' || upcoming.location
+      );
+      reminder_count := reminder_count + 1;
+    END LOOP;
+  END LOOP;
+
+  -- Games still missing officials close to game time go to staff, once per game time
+  FOR upcoming IN
+    SELECT * FROM games
+    WHERE status = 'pending'
+      AND game_date > now()
+      AND game_date <= now() + make_interval(hours => escalation_hours)
+  LOOP
+    FOR recipient IN
+      SELECT ur.user_id FROM user_roles ur WHERE ur.role = 'employee'
+    LOOP
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM reminder_log rl
+        WHERE rl.game_id = upcoming.id
+          AND rl.user_id = recipient
+          AND rl.kind = 'unfilled'
+          AND rl.game_date = upcoming.game_date
+      );
+
+      PERFORM send_reminder(
+        upcoming,
+        recipient,
+        'unfilled',
+        'game_unfilled',
+        'Still unfilled: ' || upcoming.opponent,
+        time_marker(upcoming.game_date) || ' at ' || upcoming.location || '. '
+          || (SELECT count(*) FROM game_assignments ga WHERE ga.game_id = upcoming.id) || ' of '
+          || cardinality(upcoming.required_positions) || ' positions filled'
+      );
+      escalation_count := escalation_count + 1;
+    END LOOP;
+  END LOOP;
+
+  -- Coaches who haven't confirmed a played game, once a day from a day after it
+  FOR upcoming IN
+    SELECT * FROM games
+    WHERE status = 'assigned'
+      AND coach_id IS NOT NULL
+      AND game_date <= now() - interval '1 day'
+  LOOP
+    CONTINUE WHEN (
+      SELECT count(*) FROM reminder_log rl
+      WHERE rl.game_id = upcoming.id AND rl.user_id = upcoming.coach_id AND rl.kind = 'completion'
+    ) >= nag_limit OR EXISTS (
+      SELECT 1 FROM reminder_log rl
+      WHERE rl.game_id = upcoming.id
+        AND rl.user_id = upcoming.coach_id
+        AND rl.kind = 'completion'
+        AND rl.sent_at > now() - interval '1 day'
+    );
+
+    PERFORM send_reminder(
+      upcoming,
+      upcoming.coach_id,
+      'completion',
+      'completion_reminder',
+      'Was this game played? ' || upcoming.opponent,
+      time_marker(upcoming.game_date) || ' at ' || upcoming.location
+        || '. Confirm it on your dashboard so the crew can be rated.'
+    );
+    nag_count := nag_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('reminders', reminder_count, 'escalations', escalation_count, 'completion_reminders', nag_count);
+END;
+$$;
+
+
+REVOKE EXECUTE ON FUNCTION public.send_game_reminders() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,37 @@
+-- No-shows can only be reported once a game has started, so a confirmed one never finds an
+-- upcoming game to reopen. The game is flagged in Urgent Actions while the report is open;
+-- confirming it now only records the outcome, which counts against the umpire's reliability.
+CREATE OR REPLACE FUNCTION public.resolve_no_show(report_id_param uuid, confirm_param boolean, notes_param text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report no_show_reports%ROWTYPE;
+BEGIN
+  IF NOT has_role(auth.uid(), 'employee') THEN
+    RAISE EXCEPTION 'Only employees can resolve no-show reports';
+  END IF;
+
+  SELECT * INTO report
+  FROM no_show_reports
+  WHERE id = report_id_param
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No-show report not found';
+  END IF;
+
+  IF report.status NOT IN ('reported', 'disputed') THEN
+    RAISE EXCEPTION 'This report has already been resolved';
+  END IF;
+
+  UPDATE no_show_reports
+  SET status = CASE WHEN confirm_param THEN 'confirmed'::no_show_status ELSE 'dismissed'::no_show_status END,
+      resolved_by = auth.uid(),
+      resolved_at = now(),
+      resolution_notes = nullif(trim(notes_param), '')
+  WHERE id = report.id;
+END;
+$$;
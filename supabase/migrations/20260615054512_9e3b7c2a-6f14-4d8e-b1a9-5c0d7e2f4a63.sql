@@ -0,0 +1,149 @@
+-- Confirming a rescheduled game re-runs the checks accept_game makes, against the new time,
+-- so an official can't keep a spot that now clashes with another game or their availability.
+
+-- Availability can leave one game out of the daily count, for a game the umpire is already on
+DROP FUNCTION IF EXISTS public.check_umpire_availability(uuid, timestamp with time zone);
+
+CREATE OR REPLACE FUNCTION public.check_umpire_availability(
+  _umpire_id uuid,
+  _game_date timestamp with time zone,
+  _exclude_game_id uuid DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  tz TEXT;
+  max_per_day INTEGER;
+  local_start TIMESTAMP;
+BEGIN
+  SELECT coalesce(time_zone, 'UTC'), max_games_per_day INTO tz, max_per_day
+  FROM profiles
+  WHERE id = _umpire_id;
+
+  local_start := _game_date AT TIME ZONE coalesce(tz, 'UTC');
+
+  IF EXISTS (
+    SELECT 1 FROM umpire_blackout_dates
+    WHERE umpire_id = _umpire_id
+      AND blackout_date = local_start::date
+  ) THEN
+    RETURN 'blackout';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM umpire_availability_windows WHERE umpire_id = _umpire_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM umpire_availability_windows
+      WHERE umpire_id = _umpire_id
+        AND day_of_week = extract(dow FROM local_start)
+        AND local_start::time >= start_time
+        AND local_start::time < end_time
+    ) THEN
+    RETURN 'outside_hours';
+  END IF;
+
+  IF max_per_day IS NOT NULL AND (
+    SELECT count(*)
+    FROM game_assignments ga
+    JOIN games g ON g.id = ga.game_id
+    WHERE ga.umpire_id = _umpire_id
+      AND g.status IN ('pending', 'assigned', 'completed')
+      AND (_exclude_game_id IS NULL OR g.id <> _exclude_game_id)
+      AND (g.game_date AT TIME ZONE coalesce(tz, 'UTC'))::date = local_start::date
+  ) >= max_per_day THEN
+    RETURN 'daily_limit';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_umpire_availability(uuid, timestamp with time zone, uuid) FROM PUBLIC, anon, authenticated;
+
+-- The calling official keeps or gives up their spot on a rescheduled game. Keeping it is
+-- refused if the new time clashes with another of their games or falls outside their
+-- availability; they can still decline, or let the confirmation lapse.
+CREATE OR REPLACE FUNCTION public.respond_to_reschedule(game_id_param uuid, confirm_param boolean)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  assignment game_assignments%ROWTYPE;
+  target_game games%ROWTYPE;
+  conflict RECORD;
+  unavailable_reason TEXT;
+BEGIN
+  PERFORM release_unconfirmed_reschedules();
+
+  SELECT * INTO assignment
+  FROM game_assignments
+  WHERE game_id = game_id_param
+    AND umpire_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_on_crew');
+  END IF;
+
+  IF assignment.reschedule_confirm_by IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'nothing_to_confirm');
+  END IF;
+
+  IF confirm_param THEN
+    SELECT * INTO target_game FROM games WHERE id = game_id_param;
+
+    SELECT * INTO conflict
+    FROM find_schedule_conflict(
+      auth.uid(),
+      target_game.game_date,
+      target_game.latitude,
+      target_game.longitude,
+      target_game.id
+    );
+
+    IF FOUND THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'reason', 'schedule_conflict',
+        'conflict', jsonb_build_object(
+          'game_id', conflict.game_id,
+          'game_date', conflict.game_date,
+          'location', conflict.location,
+          'opponent', conflict.opponent,
+          'required_buffer_minutes', conflict.required_buffer_minutes
+        )
+      );
+    END IF;
+
+    unavailable_reason := check_umpire_availability(auth.uid(), target_game.game_date, target_game.id);
+    IF unavailable_reason IS NOT NULL THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'unavailable', 'unavailable_reason', unavailable_reason);
+    END IF;
+
+    UPDATE game_assignments
+    SET reschedule_confirm_by = NULL
+    WHERE id = assignment.id;
+  ELSE
+    DELETE FROM game_assignments WHERE id = assignment.id;
+
+    UPDATE umpire_requests
+    SET status = 'pending'
+    WHERE game_id = game_id_param;
+  END IF;
+
+  INSERT INTO game_change_log (game_id, change_type, crew_umpire_ids, changed_by)
+  VALUES (
+    game_id_param,
+    CASE WHEN confirm_param THEN 'reschedule_confirmed' ELSE 'reschedule_declined' END,
+    ARRAY[auth.uid()],
+    auth.uid()
+  );
+
+  RETURN jsonb_build_object('success', true, 'game_id', game_id_param, 'confirmed', confirm_param);
+END;
+$$;
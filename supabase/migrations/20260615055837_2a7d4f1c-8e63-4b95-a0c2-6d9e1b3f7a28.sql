@@ -0,0 +1,29 @@
+-- umpire_qualification_issue takes any umpire's id, so signed-in users could look up whether
+-- someone else's certifications are missing or expired. It is now internal, and the policy
+-- that hides games an umpire can't work asks only about the caller.
+
+-- Whether the signed-in umpire is certified for a level on a date
+CREATE OR REPLACE FUNCTION public.is_qualified_for_level(_level_id uuid, _game_date timestamp with time zone)
+RETURNS boolean
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT umpire_qualification_issue(auth.uid(), _level_id, _game_date) IS NULL
+$$;
+
+DROP POLICY IF EXISTS "Umpires can view unassigned games" ON public.games;
+
+CREATE POLICY "Umpires can view unassigned games"
+ON public.games
+AS PERMISSIVE
+FOR SELECT
+TO authenticated
+USING (
+  has_role(auth.uid(), 'umpire'::app_role)
+  AND status = 'pending'
+  AND is_qualified_for_level(level_id, game_date)
+);
+
+REVOKE EXECUTE ON FUNCTION public.umpire_qualification_issue(uuid, uuid, timestamp with time zone) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,34 @@
+-- Lapsed reschedule confirmations only release officials from games that are still open.
+-- A completed or cancelled game keeps its crew, so a late release can't strip the officials
+-- from a game that was already played and leave them unratable.
+CREATE OR REPLACE FUNCTION public.release_unconfirmed_reschedules()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lapsed RECORD;
+  released_count INTEGER := 0;
+BEGIN
+  FOR lapsed IN
+    DELETE FROM game_assignments ga
+    USING games g
+    WHERE g.id = ga.game_id
+      AND g.status IN ('pending', 'assigned')
+      AND ga.reschedule_confirm_by < now()
+    RETURNING ga.game_id, ga.umpire_id
+  LOOP
+    INSERT INTO game_change_log (game_id, change_type, crew_umpire_ids)
+    VALUES (lapsed.game_id, 'reschedule_expired', ARRAY[lapsed.umpire_id]);
+
+    UPDATE umpire_requests
+    SET status = 'pending'
+    WHERE game_id = lapsed.game_id;
+
+    released_count := released_count + 1;
+  END LOOP;
+
+  RETURN released_count;
+END;
+$$;
@@ -0,0 +1,83 @@
+-- A thread can only be about a rating or game the sender is part of. Staff can attach any;
+-- everyone else must be the rating's coach or umpire, or a coach or official of the game.
+CREATE OR REPLACE FUNCTION public.start_message_thread(
+  subject_param text,
+  body_param text,
+  recipient_ids_param uuid[] DEFAULT '{}',
+  rating_id_param uuid DEFAULT NULL,
+  game_id_param uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  is_staff BOOLEAN := has_role(auth.uid(), 'employee');
+  recipients UUID[];
+  recipient UUID;
+  new_thread_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF coalesce(trim(subject_param), '') = '' OR coalesce(trim(body_param), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  IF NOT is_staff AND rating_id_param IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM ratings
+    WHERE id = rating_id_param
+      AND auth.uid() IN (coach_id, umpire_id)
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  IF NOT is_staff AND game_id_param IS NOT NULL
+    AND NOT is_game_coach(game_id_param, auth.uid())
+    AND NOT is_game_official(game_id_param, auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT r), '{}') INTO recipients
+  FROM unnest(coalesce(recipient_ids_param, '{}')) AS r
+  WHERE r IS NOT NULL AND r <> auth.uid();
+
+  -- Staff already see every thread, so a message from staff needs someone to go to
+  IF is_staff AND cardinality(recipients) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'reason', 'invalid_details');
+  END IF;
+
+  FOREACH recipient IN ARRAY recipients LOOP
+    IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = recipient) THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'recipient_not_found');
+    END IF;
+
+    IF NOT is_staff
+      AND NOT has_role(recipient, 'employee')
+      AND NOT (
+        game_id_param IS NOT NULL
+        AND (is_game_coach(game_id_param, auth.uid()) OR is_game_official(game_id_param, auth.uid()))
+        AND (is_game_coach(game_id_param, recipient) OR is_game_official(game_id_param, recipient))
+      ) THEN
+      RETURN jsonb_build_object('success', false, 'reason', 'not_allowed');
+    END IF;
+  END LOOP;
+
+  INSERT INTO message_threads (subject, rating_id, game_id, created_by)
+  VALUES (trim(subject_param), rating_id_param, game_id_param, auth.uid())
+  RETURNING id INTO new_thread_id;
+
+  INSERT INTO message_thread_participants (thread_id, user_id, last_read_at)
+  VALUES (new_thread_id, auth.uid(), now());
+
+  INSERT INTO message_thread_participants (thread_id, user_id)
+  SELECT new_thread_id, r FROM unnest(recipients) AS r;
+
+  INSERT INTO messages (thread_id, sender_id, body)
+  VALUES (new_thread_id, auth.uid(), trim(body_param));
+
+  RETURN jsonb_build_object('success', true, 'thread_id', new_thread_id);
+END;
+$$;
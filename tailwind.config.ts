@@ -80,10 +80,19 @@ export default {
             height: "0",
           },
         },
+        highlight: {
+          from: {
+            backgroundColor: "hsl(var(--primary) / 0.15)",
+          },
+          to: {
+            backgroundColor: "transparent",
+          },
+        },
       },
       animation: {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
+        highlight: "highlight 2s ease-out",
       },
     },
   },